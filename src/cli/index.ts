@@ -33,19 +33,37 @@ import { config as dotenvConfig } from 'dotenv';
 // Internal services
 import { VoiceTestService } from '../services/voice-test.js';
 import { VoiceBotTestService } from '../services/voice-bot-test.js';
+import { compareRuns, loadTestResult } from '../utils/regression.js';
+import { ResultsStore, summarizeHistory } from '../utils/results-store.js';
+import { loadSTTBenchSamples, runSTTBench } from '../utils/stt-bench.js';
+import { VoiceBenchService } from '../services/voice-bench.js';
+import { NoiseSweepService } from '../services/noise-sweep.js';
 
 // Internal types and errors
-import { VoiceTestError, SAMPLE_TEST_CONFIG } from '../types/index.js';
+import {
+  VoiceTestError,
+  ConfigurationError,
+  SAMPLE_TEST_CONFIG,
+} from '../types/index.js';
 import type {
   GenerateCommandArgs,
   VoicesCommandArgs,
   TestAudioCommandArgs,
   PlayCommandArgs,
   TestCommandArgs,
+  CompareCommandArgs,
+  HistoryCommandArgs,
+  STTBenchCommandArgs,
+  VoiceBenchCommandArgs,
+  NoiseSweepCommandArgs,
+  STTBenchSample,
   Voice,
+  VoiceInfo,
   BackgroundSound,
 } from '../types/index.js';
-import { writeFileSync } from 'fs';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Load environment variables from .env file
 dotenvConfig();
@@ -112,33 +130,24 @@ function toError(error: unknown): Error {
 }
 
 /**
- * Type guard to validate if an unknown object conforms to the Voice interface.
- * Checks for required properties: name, gender, type, and languageCode.
+ * Converts provider voice information into the CLI's display format.
  *
- * @param item - The value to validate
- * @returns True if the item is a valid Voice object, false otherwise
+ * @param info - Voice reported by a TTS provider
+ * @returns Voice with upper-case gender and type labels
  *
  * @example
  * ```typescript
- * const voice = { name: 'en-US-Neural2-D', gender: 'MALE', type: 'NEURAL', languageCode: 'en-US' };
- * if (isVoice(voice)) {
- *   console.log(voice.name); // TypeScript knows it's a Voice
- * }
+ * const voice = toVoice({ id: 'en-us', name: 'English (America)', languageCode: 'en-US', gender: 'male' });
+ * console.log(voice.gender); // 'MALE'
  * ```
  */
-function isVoice(item: unknown): item is Voice {
-  return (
-    item !== null &&
-    typeof item === 'object' &&
-    'name' in item &&
-    'gender' in item &&
-    'type' in item &&
-    'languageCode' in item &&
-    typeof item.name === 'string' &&
-    typeof item.gender === 'string' &&
-    typeof item.type === 'string' &&
-    typeof item.languageCode === 'string'
-  );
+function toVoice(info: VoiceInfo): Voice {
+  return {
+    name: info.id,
+    gender: (info.gender ?? 'neutral').toUpperCase(),
+    type: (info.type ?? 'standard').toUpperCase(),
+    languageCode: info.languageCode,
+  };
 }
 
 /**
@@ -232,7 +241,7 @@ function stopSpinner(
  * This command supports:
  * - Multiple voice options and languages
  * - Adjustable speaking rate and pitch
- * - Background audio mixing with volume control
+ * - Background audio mixing by volume or target SNR
  * - Optional audio playback after generation
  * - Debug mode for detailed operation insights
  * - Quiet mode for minimal output
@@ -245,8 +254,14 @@ function stopSpinner(
  * # With background audio
  * vokal voice generate "Welcome" --voice en-US-Neural2-F --lang en-US --bg cafe --bgvol 0.2
  *
+ * # Background at a reproducible 10 dB signal-to-noise ratio
+ * vokal voice generate "Welcome" --voice en-US-Neural2-F --bg rain --snr 10
+ *
  * # Advanced settings
  * vokal voice generate "Fast speech" --voice en-US-Neural2-A --rate 1.5 --pitch 5.0 --debug
+ *
+ * # Offline synthesis
+ * vokal voice generate "Hello" --voice en-us --tts-provider local-espeak
  * ```
  */
 async function handleGenerateCommand(
@@ -255,7 +270,9 @@ async function handleGenerateCommand(
   const spinner = argv.quiet ? null : ora('🎤 Generating speech...').start();
 
   try {
-    const voiceTest = new VoiceTestService(argv.apiKey);
+    const voiceTest = new VoiceTestService(argv.apiKey, {
+      ttsProvider: argv.ttsProvider,
+    });
 
     if (argv.debug) {
       console.info(chalk.yellow('\n🔍 Debug - Input:'));
@@ -270,6 +287,7 @@ async function handleGenerateCommand(
             pitch: argv.pitch,
             backgroundSound: argv.bg,
             backgroundVolume: argv.bgvol,
+            backgroundSnrDb: argv.snr,
           },
           null,
           2
@@ -287,6 +305,7 @@ async function handleGenerateCommand(
       output: argv.output,
       backgroundSound: argv.bg,
       backgroundVolume: argv.bg ? argv.bgvol : undefined,
+      backgroundSnrDb: argv.bg ? argv.snr : undefined,
       play: argv.play,
     });
 
@@ -297,7 +316,10 @@ async function handleGenerateCommand(
       console.log(`📊 File size: ${(response.fileSize / 1024).toFixed(2)} KB`);
       console.log(`⏱️ Generation time: ${response.generationTime}ms`);
       if (response.mixedAudio) {
-        console.log('🎵 Background audio: Mixed');
+        const snrDb = response.metadata?.backgroundSnrDb;
+        console.log(
+          `🎵 Background audio: Mixed${typeof snrDb === 'number' ? ` at ${snrDb.toFixed(1)} dB SNR` : ''}`
+        );
       }
       if (response.wasPlayed) {
         console.log('🔊 Audio: Played successfully');
@@ -341,23 +363,25 @@ async function handleGenerateCommand(
  *
  * # JSON output for scripting
  * vokal voices en-IN --format json
+ *
+ * # Voices installed for a local engine
+ * vokal voices en --tts-provider local-espeak
  * ```
  */
-function handleVoicesCommand(
+async function handleVoicesCommand(
   argv: ArgumentsCamelCase<VoicesCommandArgs>
-): void {
+): Promise<void> {
   const spinner = argv.quiet
     ? null
     : ora('🔍 Fetching available voices...').start();
 
   try {
-    const voiceTest = new VoiceTestService(argv.apiKey);
-    const voicesResult: unknown = voiceTest.getAvailableVoices(argv.language);
-
-    // Type-safe voice filtering
-    const voices: Voice[] = Array.isArray(voicesResult)
-      ? voicesResult.filter(isVoice)
-      : [];
+    const voiceTest = new VoiceTestService(argv.apiKey, {
+      ttsProvider: argv.ttsProvider,
+    });
+    const voices: Voice[] = (await voiceTest.listVoices(argv.language)).map(
+      toVoice
+    );
 
     stopSpinner(
       spinner,
@@ -392,7 +416,7 @@ function handleVoicesCommand(
     if (!argv.quiet && voices.length > 0) {
       console.log(
         chalk.gray(
-          `\n💡 Use with: vokal generate "text" --language ${voices[0].languageCode} --voice ${voices[0].name}`
+          `\n💡 Use with: vokal voice generate "text" --lang ${voices[0].languageCode} --voice ${voices[0].name}${argv.ttsProvider ? ` --tts-provider ${argv.ttsProvider}` : ''}`
         )
       );
     }
@@ -595,6 +619,25 @@ async function handlePlayCommand(
  *
  * # Quiet mode for CI/CD
  * vokal test --quiet
+ *
+ * # Headless run with pre-recorded answers (no microphone needed)
+ * vokal test ./my-config.json --responses ./responses/
+ *
+ * # Record a live run, then replay it without credentials
+ * vokal test ./my-config.json --record ./cassettes/smoke
+ * vokal test ./my-config.json --replay ./cassettes/smoke
+ *
+ * # JUnit XML for CI (Jenkins, GitLab)
+ * vokal test ./my-config.json --reporter junit
+ *
+ * # Keep this run out of the results history
+ * vokal test ./my-config.json --no-history
+ *
+ * # Run every question 5 times and flag flaky ones
+ * vokal test ./my-config.json --repeat 5
+ *
+ * # Run 8 pre-recorded answers at a time
+ * vokal test ./my-config.json --responses ./responses/ --concurrency 8
  * ```
  */
 async function handleTestCommand(
@@ -632,7 +675,15 @@ async function handleTestCommand(
     : ora('🤖 Initializing voice bot test suite...').start();
 
   try {
-    const testService = VoiceBotTestService.create(argv.config);
+    const testService = VoiceBotTestService.create(argv.config, {
+      responses: argv.responses,
+      record: argv.record,
+      replay: argv.replay,
+      reporters: argv.reporter,
+      history: argv.history,
+      repeat: argv.repeat,
+      concurrency: argv.concurrency,
+    });
 
     // Stop spinner before test execution to avoid interference with conversation display
     if (spinner) {
@@ -644,6 +695,21 @@ async function handleTestCommand(
       console.log('='.repeat(50));
       console.log(`📋 Configuration: ${argv.config}`);
       console.log(`🤖 AI Provider: ${argv.provider}`);
+      if (argv.responses) {
+        console.log(`📂 Responses: ${argv.responses} (headless)`);
+      }
+      if (argv.record) {
+        console.log(`⏺️ Recording cassette: ${argv.record}`);
+      }
+      if (argv.replay) {
+        console.log(`▶️ Replaying cassette: ${argv.replay}`);
+      }
+      if (argv.repeat > 1) {
+        console.log(`🔁 Repeat: ${argv.repeat} runs per question`);
+      }
+      if (argv.concurrency !== undefined && argv.concurrency > 1) {
+        console.log(`⚡ Concurrency: ${argv.concurrency}`);
+      }
       console.log('='.repeat(50));
     }
 
@@ -659,9 +725,31 @@ async function handleTestCommand(
       console.log(
         `📊 Average Score: ${(testResult.summary.averageScore * 100).toFixed(0)}%`
       );
+      console.log(
+        `🏆 Result: ${testResult.summary.testPassed ? chalk.green('PASSED') : chalk.red('FAILED')} (${testResult.summary.verdict.detail})`
+      );
       console.log(
         `⏱️ Total Time: ${(testResult.metadata.totalTime / 1000).toFixed(1)}s`
       );
+      const unstable = testResult.summary.unstableQuestions ?? [];
+      if (unstable.length > 0) {
+        console.log(
+          chalk.yellow(`🎲 Unstable questions: ${unstable.join(', ')}`)
+        );
+      }
+      const sttAccuracy = testResult.summary.sttAccuracy;
+      if (sttAccuracy) {
+        console.log(
+          `📏 STT Accuracy: WER ${(sttAccuracy.wer * 100).toFixed(1)}%, CER ${(sttAccuracy.cer * 100).toFixed(1)}%`
+        );
+        if (sttAccuracy.sttMisheard.length > 0) {
+          console.log(
+            chalk.yellow(
+              `👂 Misheard by STT: ${sttAccuracy.sttMisheard.join(', ')}`
+            )
+          );
+        }
+      }
     }
 
     if (argv.debug) {
@@ -669,14 +757,520 @@ async function handleTestCommand(
       console.info(JSON.stringify(testResult.performance, null, 2));
     }
 
-    // Exit with code 0 always - we just show the score, no pass/fail
-    process.exit(0);
+    // Exit with code 1 when the verdict fails, so CI can gate on it
+    process.exit(testResult.summary.testPassed ? 0 : 1);
   } catch (error) {
     stopSpinner(spinner, false, '❌ Voice bot test suite failed');
     handleError(error, 'Voice Bot Test');
   }
 }
 
+/**
+ * Handler for the 'compare' command.
+ * Compares two saved test results and exits non-zero on regressions.
+ *
+ * @param argv - Command-line arguments parsed by yargs
+ *
+ * @remarks
+ * Questions are matched by ID. The report lists:
+ * - Newly failing and newly passing questions
+ * - Score and confidence changes
+ * - Latency stages that got slower beyond `--max-latency-increase`
+ * - Questions added or removed since the baseline
+ *
+ * Exits with code 1 when a threshold is exceeded, so a CI step can block a
+ * bot release.
+ *
+ * @example
+ * ```bash
+ * # Gate on any newly failing question or >20% slower stage
+ * vokal compare ./baseline.json ./vokal-results-2025-01-15T10-30-00-000Z.json
+ *
+ * # Tolerate one flaky failure and slower analysis
+ * vokal compare base.json current.json --max-new-failures 1 --max-latency-increase 50
+ *
+ * # Machine-readable diff
+ * vokal compare base.json current.json --format json
+ * ```
+ */
+function handleCompareCommand(
+  argv: ArgumentsCamelCase<CompareCommandArgs>
+): void {
+  try {
+    const comparison = compareRuns(
+      loadTestResult(argv.baseline),
+      loadTestResult(argv.current),
+      {
+        maxNewFailures: argv.maxNewFailures,
+        maxScoreDrop: argv.maxScoreDrop,
+        maxLatencyIncreasePercent: argv.maxLatencyIncrease,
+        minLatencyIncreaseMs: argv.minLatencyDelta,
+      }
+    );
+
+    if (argv.format === 'json') {
+      console.log(JSON.stringify(comparison, null, 2));
+      process.exit(comparison.regressed ? 1 : 0);
+    }
+
+    const signed = (value: number, digits: number): string =>
+      `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+    const { baseline, current } = comparison;
+
+    console.log(chalk.blue('\n📊 Regression Comparison'));
+    console.log('='.repeat(50));
+    console.log(
+      `Baseline: ${baseline.configName} (${baseline.executedAt}) - ${baseline.questionsPassed}/${baseline.totalQuestions} passed (${baseline.passRate.toFixed(1)}%)`
+    );
+    console.log(
+      `Current:  ${current.configName} (${current.executedAt}) - ${current.questionsPassed}/${current.totalQuestions} passed (${current.passRate.toFixed(1)}%)`
+    );
+    console.log(
+      `Pass rate: ${signed(comparison.passRateDelta, 1)} pts, average score: ${signed(comparison.averageScoreDelta, 2)}`
+    );
+
+    if (comparison.newlyFailing.length > 0) {
+      console.log(
+        chalk.red(`\n❌ Newly failing (${comparison.newlyFailing.length}):`)
+      );
+      comparison.newlyFailing.forEach((id) => console.log(`  - ${id}`));
+    }
+    if (comparison.newlyPassing.length > 0) {
+      console.log(
+        chalk.green(`\n✅ Newly passing (${comparison.newlyPassing.length}):`)
+      );
+      comparison.newlyPassing.forEach((id) => console.log(`  - ${id}`));
+    }
+
+    const changed = comparison.questions.filter(
+      (diff) => diff.scoreDelta !== 0 || Math.abs(diff.confidenceDelta) >= 0.01
+    );
+    if (changed.length > 0) {
+      console.log(chalk.blue('\n🎯 Score and confidence changes:'));
+      changed.forEach((diff) =>
+        console.log(
+          `  ${diff.questionId}: score ${signed(diff.scoreDelta, 2)}, confidence ${signed(diff.confidenceDelta, 2)}`
+        )
+      );
+    }
+
+    if (comparison.latencyRegressions.length > 0) {
+      console.log(chalk.yellow('\n⏱️ Latency regressions:'));
+      comparison.latencyRegressions.forEach((regression) =>
+        console.log(
+          `  ${regression.scope} ${regression.stage}: ${regression.baselineMs}ms -> ${regression.currentMs}ms (+${regression.deltaPercent.toFixed(0)}%)`
+        )
+      );
+    }
+
+    const added = comparison.questions.filter(
+      (diff) => diff.change === 'added'
+    );
+    const removed = comparison.questions.filter(
+      (diff) => diff.change === 'removed'
+    );
+    if (added.length > 0 || removed.length > 0) {
+      console.log(
+        chalk.gray(
+          `\n➕ Added: ${added.map((diff) => diff.questionId).join(', ') || 'none'}`
+        )
+      );
+      console.log(
+        chalk.gray(
+          `➖ Removed: ${removed.map((diff) => diff.questionId).join(', ') || 'none'}`
+        )
+      );
+    }
+
+    console.log('='.repeat(50));
+    if (comparison.regressed) {
+      console.log(
+        chalk.red(
+          `❌ REGRESSION: ${comparison.violations.length} threshold(s) exceeded`
+        )
+      );
+      comparison.violations.forEach((violation) =>
+        console.log(chalk.red(`  - ${violation}`))
+      );
+      process.exit(1);
+    }
+
+    console.log(chalk.green('✅ No regressions against the baseline'));
+    process.exit(0);
+  } catch (error) {
+    handleError(error, 'Compare');
+  }
+}
+
+/**
+ * Handler for the 'history' command.
+ * Shows trends across the runs in the local results store.
+ *
+ * @param argv - Command-line arguments parsed by yargs
+ *
+ * @remarks
+ * Every `vokal test` run is appended to the store unless `--no-history` is
+ * given. The report covers the matching runs:
+ * - Pass rate per run, oldest first
+ * - Flaky questions that both passed and failed
+ * - p50/p95 latency per timing stage
+ *
+ * @example
+ * ```bash
+ * # Last 20 runs of every configuration
+ * vokal history
+ *
+ * # One bot's nightly runs
+ * vokal history --config-name "Support bot" --tag nightly --last 50
+ *
+ * # One question's pass/fail trend
+ * vokal history --question q3 --format json
+ * ```
+ */
+function handleHistoryCommand(
+  argv: ArgumentsCamelCase<HistoryCommandArgs>
+): void {
+  try {
+    const filter = {
+      configName: argv.configName,
+      configVersion: argv.configVersion,
+      tags: argv.tag,
+      questionId: argv.question,
+      last: argv.last,
+    };
+    const store = new ResultsStore(argv.history);
+    const report = summarizeHistory(store.query(filter), filter);
+
+    if (argv.format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(chalk.blue('\n🗂️ Results History'));
+    console.log('='.repeat(50));
+    console.log(`Store: ${store.filePath}`);
+    if (report.runs === 0) {
+      console.log(chalk.yellow('No matching runs. Run vokal test first.'));
+      return;
+    }
+    console.log(`Runs: ${report.runs}`);
+
+    console.log(chalk.blue('\n📈 Pass rate:'));
+    report.passRateTrend.forEach((point) => {
+      const version = point.configVersion ? ` v${point.configVersion}` : '';
+      const bar = '█'.repeat(Math.round(point.passRate / 5));
+      console.log(
+        `  ${point.executedAt}${version}  ${point.passRate.toFixed(1).padStart(5)}% ${bar} (${point.questionsPassed}/${point.totalQuestions})`
+      );
+    });
+
+    if (report.flakyQuestions.length > 0) {
+      console.log(
+        chalk.yellow(`\n🎲 Flaky questions (${report.flakyQuestions.length}):`)
+      );
+      report.flakyQuestions.forEach((flaky) =>
+        console.log(
+          `  ${flaky.questionId}: ${flaky.passes}/${flaky.runs} passed (${flaky.passRate.toFixed(0)}%), ${flaky.flips} flip(s)`
+        )
+      );
+    } else {
+      console.log(chalk.green('\n✅ No flaky questions'));
+    }
+
+    console.log(chalk.blue('\n⏱️ Latency per stage (answered questions):'));
+    report.latency.forEach((stage) =>
+      console.log(
+        `  ${stage.stage.padEnd(18)} p50 ${`${stage.p50}ms`.padStart(8)}  p95 ${`${stage.p95}ms`.padStart(8)}  (${stage.samples} samples)`
+      )
+    );
+    console.log('='.repeat(50));
+  } catch (error) {
+    handleError(error, 'History');
+  }
+}
+
+/**
+ * Handler for the 'stt-bench' command.
+ * Compares STT providers on a folder of recordings with reference transcripts.
+ *
+ * @param argv - Command-line arguments parsed by yargs
+ *
+ * @remarks
+ * Each `<name>.wav` needs a `<name>.txt` reference, or the folder holds a
+ * `manifest.json` of `{ audio, reference, language }` entries. Every
+ * configured STT handler transcribes every recording; the table shows, per
+ * provider and language:
+ * - WER and CER against the references
+ * - p50/p95 request latency
+ * - Mean confidence and its calibration against word accuracy
+ * - Estimated cost from per-minute prices
+ *
+ * @example
+ * ```bash
+ * # Every configured provider on an English corpus
+ * vokal stt-bench ./bench/en-US
+ *
+ * # Two providers on a Hindi corpus, with a negotiated price
+ * vokal stt-bench ./bench/hi-IN --lang hi-IN --providers google-ai local-whisper --price google-ai=0.012
+ *
+ * # Machine-readable report
+ * vokal stt-bench ./bench --format json > stt-bench.json
+ * ```
+ */
+async function handleSTTBenchCommand(
+  argv: ArgumentsCamelCase<STTBenchCommandArgs>
+): Promise<void> {
+  try {
+    const prices: Record<string, number> = {};
+    for (const entry of argv.price ?? []) {
+      const [provider, value] = entry.split('=');
+      const price = Number(value);
+      if (!provider || value === undefined || !(price >= 0)) {
+        throw new ConfigurationError(
+          `Invalid --price "${entry}" (expected provider=usdPerMinute)`
+        );
+      }
+      prices[provider] = price;
+    }
+
+    const samples = loadSTTBenchSamples(argv.dir, argv.lang);
+    const report = await runSTTBench(argv.dir, samples, argv.providers, prices);
+
+    if (argv.format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const percent = (value: number): string =>
+      `${(value * 100).toFixed(1)}%`.padStart(7);
+
+    console.log(chalk.blue('\n🎧 STT Benchmark'));
+    console.log('='.repeat(50));
+    console.log(`Samples: ${report.samples} from ${report.dir}`);
+    report.skipped.forEach((entry) =>
+      console.log(chalk.yellow(`⏭️ Skipped ${entry.provider}: ${entry.reason}`))
+    );
+    if (report.summaries.length === 0) {
+      console.log(chalk.yellow('No configured STT provider to benchmark.'));
+      process.exit(1);
+    }
+
+    console.log(
+      `\n${'Provider'.padEnd(16)}${'Lang'.padEnd(8)}${'WER'.padStart(7)}${'CER'.padStart(7)}${'p50'.padStart(9)}${'p95'.padStart(9)}${'Conf'.padStart(7)}${'Calib'.padStart(7)}${'Cost'.padStart(10)}  Failed`
+    );
+    report.summaries.forEach((summary) =>
+      console.log(
+        `${summary.provider.padEnd(16)}${summary.language.padEnd(8)}${percent(summary.wer)}${percent(summary.cer)}${`${summary.latencyP50}ms`.padStart(9)}${`${summary.latencyP95}ms`.padStart(9)}${percent(summary.meanConfidence)}${percent(summary.calibrationError)}${(summary.estimatedCost !== undefined ? `$${summary.estimatedCost.toFixed(4)}` : 'n/a').padStart(10)}  ${summary.failures}/${summary.samples}`
+      )
+    );
+    console.log(
+      chalk.gray(
+        '\nCalib: mean gap between confidence and word accuracy (lower is better). Cost: estimate for the benchmark audio.'
+      )
+    );
+    console.log('='.repeat(50));
+  } catch (error) {
+    handleError(error, 'STT Benchmark');
+  }
+}
+
+/**
+ * Handler for the 'voice bench' command.
+ * Compares how intelligible TTS voices are by transcribing their speech back.
+ *
+ * @param argv - Command-line arguments parsed by yargs
+ *
+ * @remarks
+ * Every phrase in the phrase file (one per line, `#` for comments) is spoken
+ * by every voice and transcribed by one STT provider. The table shows, per
+ * voice and language:
+ * - Round-trip WER and CER against the phrases
+ * - Mean generation time, audio duration and file size
+ * - Mean STT confidence
+ * - WER change with the `getOptimalConfig()` STT settings, where the TTS
+ *   provider has them (negative means they helped)
+ *
+ * @example
+ * ```bash
+ * # Two Google voices against local eSpeak
+ * vokal voice bench ./phrases.txt --voices google-ai:en-US-Neural2-D google-ai:en-IN-Neural2-B local-espeak:en-us
+ *
+ * # Keep the audio and transcribe with local Whisper
+ * vokal voice bench ./phrases-hi.txt --lang hi-IN --voices hi-IN-Neural2-A --stt-provider local-whisper --output ./bench-audio
+ *
+ * # Machine-readable report
+ * vokal voice bench ./phrases.txt --voices en-US-Neural2-D --format json > voice-bench.json
+ * ```
+ */
+async function handleVoiceBenchCommand(
+  argv: ArgumentsCamelCase<VoiceBenchCommandArgs>
+): Promise<void> {
+  try {
+    const phrases = VoiceBenchService.loadPhrases(argv.phrases);
+    const voices = argv.voices.map((spec) =>
+      VoiceBenchService.parseVoice(spec, argv.lang, argv.ttsProvider)
+    );
+    const bench = new VoiceBenchService({
+      sttProvider: argv.sttProvider,
+      outputDir: argv.output,
+      apiKey: argv.apiKey,
+    });
+    const report = await bench.run(phrases, voices);
+
+    if (argv.format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const percent = (value: number): string =>
+      `${(value * 100).toFixed(1)}%`.padStart(7);
+
+    console.log(chalk.blue('\n🗣️ Voice Benchmark'));
+    console.log('='.repeat(50));
+    console.log(
+      `Phrases: ${report.phrases} per voice, transcribed by ${report.sttProvider}`
+    );
+
+    console.log(
+      `\n${'Voice'.padEnd(32)}${'Lang'.padEnd(8)}${'WER'.padStart(7)}${'CER'.padStart(7)}${'Gen'.padStart(9)}${'Audio'.padStart(8)}${'Size'.padStart(9)}${'Conf'.padStart(7)}${'Opt Δ'.padStart(8)}  Failed`
+    );
+    report.summaries.forEach((summary) =>
+      console.log(
+        `${summary.voice.padEnd(32)}${summary.language.padEnd(8)}${percent(summary.wer)}${percent(summary.cer)}${`${Math.round(summary.meanGenerationMs)}ms`.padStart(9)}${`${(summary.meanAudioMs / 1000).toFixed(1)}s`.padStart(8)}${`${(summary.meanFileSize / 1024).toFixed(1)}KB`.padStart(9)}${percent(summary.meanConfidence)}${(summary.optimizerDelta !== undefined ? `${summary.optimizerDelta > 0 ? '+' : ''}${(summary.optimizerDelta * 100).toFixed(1)}%` : 'n/a').padStart(8)}  ${summary.failures}/${summary.phrases}`
+      )
+    );
+    console.log(
+      chalk.gray(
+        '\nOpt Δ: WER change with getOptimalConfig() STT settings (negative means they helped).'
+      )
+    );
+    console.log('='.repeat(50));
+  } catch (error) {
+    handleError(error, 'Voice Benchmark');
+  }
+}
+
+/**
+ * Handler for the 'noise-sweep' command.
+ * Finds the background noise level at which transcription breaks down.
+ *
+ * @param argv - Command-line arguments parsed by yargs
+ *
+ * @remarks
+ * Speech comes from a folder of recorded answers with reference transcripts
+ * (the `stt-bench` layout) or from `--text`, synthesized once. Each sample is
+ * transcribed clean, then mixed with every background preset at every SNR
+ * level. The table shows WER per preset and SNR, and the highest SNR at
+ * which WER exceeds `--max-wer`.
+ *
+ * @example
+ * ```bash
+ * # Recorded bot answers against every preset at 20, 15, 10, 5 and 0 dB
+ * vokal noise-sweep ./answers
+ *
+ * # A synthesized phrase, cafe and rain only, finer grid
+ * vokal noise-sweep --text "Your balance is forty dollars" --presets cafe rain --snr 12 9 6 3 0 -3
+ *
+ * # Keep the noisy audio and write a JSON report
+ * vokal noise-sweep ./answers --output ./noisy --format json > noise-sweep.json
+ * ```
+ */
+async function handleNoiseSweepCommand(
+  argv: ArgumentsCamelCase<NoiseSweepCommandArgs>
+): Promise<void> {
+  try {
+    if (!argv.dir === !argv.text) {
+      throw new ConfigurationError(
+        'Give either a folder of recordings or --text to synthesize'
+      );
+    }
+
+    const sweep = new NoiseSweepService({
+      sttProvider: argv.sttProvider,
+      outputDir: argv.output,
+      maxWer: argv.maxWer,
+    });
+    let samples: STTBenchSample[];
+    let workDir: string | undefined;
+    if (argv.text) {
+      workDir = mkdtempSync(join(tmpdir(), 'vokal-noise-sweep-'));
+      const voiceTest = new VoiceTestService(
+        argv.apiKey,
+        { ttsProvider: argv.ttsProvider },
+        workDir
+      );
+      const speech = await voiceTest.generateSpeechDetailed({
+        text: argv.text,
+        languageCode: argv.lang,
+        voiceName: argv.voice ?? 'en-US-Neural2-D',
+        audioEncoding: 'WAV',
+        output: join(workDir, 'phrase.wav'),
+      });
+      samples = [
+        {
+          id: 'phrase',
+          audioPath: speech.filePath,
+          reference: argv.text,
+          language: argv.lang,
+        },
+      ];
+    } else {
+      samples = loadSTTBenchSamples(argv.dir!, argv.lang);
+    }
+
+    let report;
+    try {
+      report = await sweep.run(samples, argv.presets, argv.snr);
+    } finally {
+      if (workDir) {
+        rmSync(workDir, { recursive: true, force: true });
+      }
+    }
+
+    if (argv.format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+    console.log(chalk.blue('\n🔊 Noise Sweep'));
+    console.log('='.repeat(50));
+    console.log(
+      `Samples: ${report.samples}, transcribed by ${report.sttProvider}`
+    );
+    console.log(`Clean WER: ${percent(report.cleanWer)}`);
+    report.skipped.forEach((entry) =>
+      console.log(chalk.yellow(`⏭️ Skipped ${entry.preset}: ${entry.reason}`))
+    );
+    if (report.curves.length === 0) {
+      console.log(chalk.yellow('No background preset to sweep.'));
+      process.exit(1);
+    }
+
+    console.log(
+      `\n${'Preset'.padEnd(12)}${report.snrLevels.map((level) => `${level} dB`.padStart(9)).join('')}  Breaks at`
+    );
+    report.curves.forEach((curve) => {
+      const cells = curve.points.map((point) => {
+        const cell = percent(point.wer).padStart(9);
+        return point.wer > report.maxWer ? chalk.red(cell) : cell;
+      });
+      console.log(
+        `${curve.preset.padEnd(12)}${cells.join('')}  ${curve.breakdownSnrDb !== undefined ? `${curve.breakdownSnrDb} dB` : 'n/a'}`
+      );
+    });
+    console.log(
+      chalk.gray(
+        `\nBreaks at: highest SNR with WER above ${percent(report.maxWer)}. Lower SNR means louder noise.`
+      )
+    );
+    console.log('='.repeat(50));
+  } catch (error) {
+    handleError(error, 'Noise Sweep');
+  }
+}
+
 /**
  * Handler for the 'example' command.
  * Displays comprehensive usage examples and help documentation.
@@ -704,6 +1298,26 @@ ${chalk.yellow('Voice Bot Testing (Primary Feature):')}
   vokal test ./config.json              # Run test suite
   vokal test --provider vertex --debug  # Run with Vertex AI
   vokal test --provider google-ai -q    # Quiet mode for CI/CD
+  vokal test --responses ./responses/   # Headless: answers from <questionId>.wav
+  vokal test --record ./cassettes/run1  # Record all provider calls
+  vokal test --replay ./cassettes/run1  # Replay them without credentials
+  vokal test --reporter junit           # JUnit XML results for CI
+  vokal test --repeat 5                 # Flag flaky questions
+  vokal test --responses ./responses/ --concurrency 8  # Parallel headless run
+  vokal compare base.json current.json  # Fail on regressions vs. a baseline
+  vokal history --last 20               # Pass-rate trend, flaky questions, latency
+
+${chalk.yellow('STT Provider Benchmark:')}
+  vokal stt-bench ./bench/en-US         # WER, latency, calibration, cost per provider
+  vokal stt-bench ./bench --format json # Machine-readable comparison
+
+${chalk.yellow('TTS Voice Benchmark:')}
+  vokal voice bench phrases.txt --voices en-US-Neural2-D en-US-Neural2-F
+  vokal voice bench phrases.txt --voices google-ai:en-IN-Neural2-B local-espeak:en-us
+
+${chalk.yellow('Noise Robustness:')}
+  vokal noise-sweep ./answers           # WER per background preset and SNR
+  vokal noise-sweep --text "Press one for billing" --presets cafe rain --snr 10 5 0
 
 ${chalk.yellow('Basic TTS generation:')}
   vokal voice generate "Hello, world!" --voice en-US-Neural2-D --lang en-US
@@ -714,9 +1328,14 @@ ${chalk.yellow('TTS with background audio mixing:')}
   vokal voice generate "Enjoy your coffee" --voice en-US-Neural2-D --lang en-US --bg cafe --bgvol 0.3 --play
   vokal voice generate "Listen to nature" --voice en-US-Neural2-A --lang en-US --bg nature --bgvol 0.25
   vokal voice generate "Call in progress" --voice en-US-Neural2-C --lang en-US --bg phone --bgvol 0.15
+  vokal voice generate "Order confirmed" --voice en-US-Neural2-D --lang en-US --bg cafe --snr 10
   vokal voice generate "Announcement time" --voice en-US-Neural2-F --lang en-US --bg crowd --bgvol 0.2
   vokal voice generate "Rainy day message" --voice en-US-Neural2-D --lang en-US --bg rain --bgvol 0.3 --play
 
+${chalk.yellow('Offline TTS (no cloud credentials):')}
+  vokal voice generate "Hello, world!" --voice en-us --tts-provider local-espeak
+  vokal voices en --tts-provider local-piper
+
 ${chalk.yellow('Advanced TTS settings:')}
   vokal voice generate "Fast speech" --voice en-US-Neural2-A --lang en-US --rate 1.5 --pitch 2.0
   vokal voice generate "Slow and deep" --voice en-US-Neural2-C --lang en-US --rate 0.8 --pitch -5.0
@@ -775,6 +1394,8 @@ ${chalk.gray('For more help on any command:')}
  * - `test-audio`: Test audio playback
  * - `play`: Play audio files
  * - `test`: Run voice bot tests
+ * - `compare`: Compare two test results for regressions
+ * - `history`: Show trends across stored test runs
  * - `example`: Show usage examples
  *
  * **Global Options:**
@@ -862,10 +1483,255 @@ function initializeCliParser(): ReturnType<typeof yargs> {
                 default: false,
                 description: 'Enable debug mode with verbose output',
               },
+              responses: {
+                type: 'string',
+                description:
+                  'Headless mode: WAV file or directory of <questionId>.wav responses to use instead of the microphone',
+              },
+              record: {
+                type: 'string',
+                description:
+                  'Record TTS, STT and AI comparison calls into a cassette directory',
+                conflicts: 'replay',
+              },
+              replay: {
+                type: 'string',
+                description:
+                  'Replay TTS, STT and AI comparison calls from a cassette directory',
+                conflicts: 'record',
+              },
+              reporter: {
+                type: 'string',
+                array: true,
+                choices: ['json', 'junit', 'tap', 'html'],
+                default: ['json'],
+                description:
+                  'Result file format(s); repeat for several, e.g. --reporter junit --reporter json',
+              },
+              history: {
+                type: 'string',
+                default: '.vokal',
+                description:
+                  'Results store directory the run is added to; --no-history skips it',
+              },
+              repeat: {
+                type: 'number',
+                default: 1,
+                description:
+                  'Run each question N times and flag unstable transcripts and verdicts',
+              },
+              concurrency: {
+                type: 'number',
+                description:
+                  'Questions and scenarios run at once when answers come from files (default: settings.concurrency.maxConcurrent or 1)',
+              },
             });
         },
         handler: handleTestCommand,
       })
+      // Compare command
+      // @ts-expect-error - Yargs type inference creates complex types that don't exactly match CompareCommandArgs, but runtime behavior is correct
+      .command({
+        command: 'compare <baseline> <current>',
+        describe: 'Compare two test results and fail on regressions',
+        builder: (yargs) => {
+          return yargs
+            .positional('baseline', {
+              type: 'string',
+              description: 'Baseline vokal-results JSON file',
+              demandOption: true,
+            })
+            .positional('current', {
+              type: 'string',
+              description: 'Current vokal-results JSON file',
+              demandOption: true,
+            })
+            .options({
+              'max-new-failures': {
+                type: 'number',
+                default: 0,
+                description: 'Newly failing questions allowed',
+              },
+              'max-score-drop': {
+                type: 'number',
+                default: 0,
+                description: 'Allowed drop in average score (0-1)',
+              },
+              'max-latency-increase': {
+                type: 'number',
+                default: 20,
+                description: 'Allowed latency increase per stage, in percent',
+              },
+              'min-latency-delta': {
+                type: 'number',
+                default: 250,
+                description:
+                  'Ignore latency increases smaller than this, in ms',
+              },
+              format: {
+                type: 'string',
+                choices: ['text', 'json'],
+                default: 'text',
+                description: 'Output format',
+              },
+            });
+        },
+        handler: handleCompareCommand,
+      })
+      // History command
+      .command({
+        command: 'history',
+        describe:
+          'Show pass-rate trends, flaky questions and latency across runs',
+        builder: (yargs) => {
+          return yargs.options({
+            history: {
+              type: 'string',
+              default: '.vokal',
+              description: 'Results store directory',
+            },
+            'config-name': {
+              type: 'string',
+              description: 'Only runs of this configuration (metadata.name)',
+            },
+            'config-version': {
+              type: 'string',
+              description: 'Only runs of this configuration version',
+            },
+            tag: {
+              type: 'string',
+              array: true,
+              description: 'Only runs with this tag; repeat to require several',
+            },
+            question: {
+              type: 'string',
+              description: 'Only this question ID',
+            },
+            last: {
+              type: 'number',
+              default: 20,
+              description: 'Most recent runs to include (0 for all)',
+            },
+            format: {
+              type: 'string',
+              choices: ['text', 'json'],
+              default: 'text',
+              description: 'Output format',
+            },
+          });
+        },
+        handler: handleHistoryCommand,
+      })
+      // STT benchmark command
+      .command({
+        command: 'stt-bench <dir>',
+        describe:
+          'Compare STT providers on WAV files with reference transcripts',
+        builder: (yargs) => {
+          return yargs
+            .positional('dir', {
+              type: 'string',
+              description:
+                'Folder of <name>.wav + <name>.txt pairs, or with a manifest.json',
+              demandOption: true,
+            })
+            .options({
+              providers: {
+                type: 'string',
+                array: true,
+                description:
+                  'STT providers to compare (default: every registered provider)',
+              },
+              lang: {
+                type: 'string',
+                default: 'en-US',
+                description: 'Language of samples that do not set one',
+              },
+              price: {
+                type: 'string',
+                array: true,
+                description:
+                  'Price per audio minute in USD, e.g. --price google-ai=0.024',
+              },
+              format: {
+                type: 'string',
+                choices: ['text', 'json'],
+                default: 'text',
+                description: 'Output format',
+              },
+            });
+        },
+        handler: handleSTTBenchCommand,
+      })
+      // Noise sweep command
+      .command({
+        command: 'noise-sweep [dir]',
+        describe:
+          'Transcribe speech with background noise at a grid of SNR levels',
+        builder: (yargs) => {
+          return yargs
+            .positional('dir', {
+              type: 'string',
+              description:
+                'Folder of <name>.wav + <name>.txt recordings, or with a manifest.json',
+            })
+            .options({
+              text: {
+                type: 'string',
+                description: 'Phrase to synthesize instead of recordings',
+              },
+              voice: {
+                type: 'string',
+                description: 'Voice for --text (default: en-US-Neural2-D)',
+              },
+              lang: {
+                type: 'string',
+                default: 'en-US',
+                description: 'Language of the speech',
+              },
+              'tts-provider': {
+                type: 'string',
+                description: 'TTS provider for --text',
+              },
+              presets: {
+                type: 'string',
+                array: true,
+                description:
+                  'Background presets or WAV files (default: every preset)',
+              },
+              snr: {
+                type: 'number',
+                array: true,
+                description: 'SNR levels in dB (default: 20 15 10 5 0)',
+              },
+              'stt-provider': {
+                type: 'string',
+                description:
+                  'STT provider that transcribes the audio (default: the default STT provider)',
+              },
+              'max-wer': {
+                type: 'number',
+                default: 0.2,
+                description: 'WER above which transcription counts as broken',
+              },
+              output: {
+                type: 'string',
+                description: 'Directory to keep the noisy WAV files in',
+              },
+              format: {
+                type: 'string',
+                choices: ['text', 'json'],
+                default: 'text',
+                description: 'Output format',
+              },
+              'api-key': {
+                type: 'string',
+                description: 'API key (overrides environment variable)',
+              },
+            });
+        },
+        handler: handleNoiseSweepCommand,
+      })
       // Voice command with generate subcommand
       .command({
         command: 'voice <subcommand>',
@@ -924,11 +1790,21 @@ function initializeCliParser(): ReturnType<typeof yargs> {
                       default: 0.15,
                       description: 'Background volume (0.0 to 1.0)',
                     },
+                    snr: {
+                      type: 'number',
+                      description:
+                        'Background level as signal-to-noise ratio in dB (overrides --bgvol)',
+                    },
                     play: {
                       type: 'boolean',
                       default: false,
                       description: 'Play audio after generation',
                     },
+                    'tts-provider': {
+                      type: 'string',
+                      description:
+                        'TTS provider (e.g. google-ai, local-espeak, local-piper)',
+                    },
                     'api-key': {
                       type: 'string',
                       description: 'API key (overrides environment variable)',
@@ -948,6 +1824,59 @@ function initializeCliParser(): ReturnType<typeof yargs> {
               },
               handleGenerateCommand
             )
+            .command(
+              'bench <phrases>',
+              'Compare voices by round-trip STT intelligibility',
+              (y) => {
+                return y
+                  .positional('phrases', {
+                    type: 'string',
+                    description: 'Text file with one phrase per line',
+                    demandOption: true,
+                  })
+                  .options({
+                    voices: {
+                      type: 'string',
+                      array: true,
+                      description:
+                        'Voices to compare, as voice or provider:voice (e.g. local-espeak:en-us)',
+                      demandOption: true,
+                    },
+                    lang: {
+                      type: 'string',
+                      default: 'en-US',
+                      description:
+                        'Language of voices whose name has no language prefix',
+                    },
+                    'tts-provider': {
+                      type: 'string',
+                      description:
+                        'TTS provider of voices without a provider: prefix',
+                    },
+                    'stt-provider': {
+                      type: 'string',
+                      description:
+                        'STT provider that transcribes the audio (default: the default STT provider)',
+                    },
+                    output: {
+                      type: 'string',
+                      description:
+                        'Directory to keep the synthesized WAV files in',
+                    },
+                    format: {
+                      type: 'string',
+                      choices: ['text', 'json'],
+                      default: 'text',
+                      description: 'Output format',
+                    },
+                    'api-key': {
+                      type: 'string',
+                      description: 'API key (overrides environment variable)',
+                    },
+                  });
+              },
+              handleVoiceBenchCommand
+            )
             .demandCommand(1, 'Please specify a voice subcommand')
             .example(
               '$0 voice generate "Hello world" --voice en-US-Neural2-D --lang en-US',
@@ -956,6 +1885,10 @@ function initializeCliParser(): ReturnType<typeof yargs> {
             .example(
               '$0 voice generate "Hello" --voice en-IN-Neural2-B --lang en-IN --bg nature --bgvol 0.5',
               'Generate with background'
+            )
+            .example(
+              '$0 voice bench phrases.txt --voices en-US-Neural2-D local-espeak:en-us',
+              'Compare voice intelligibility'
             );
         },
         handler: () => {}, // No-op handler as subcommands handle everything
@@ -975,6 +1908,11 @@ function initializeCliParser(): ReturnType<typeof yargs> {
                 type: 'string',
                 description: 'API key (overrides environment variable)',
               },
+              'tts-provider': {
+                type: 'string',
+                description:
+                  'TTS provider (e.g. google-ai, local-espeak, local-piper)',
+              },
               format: {
                 type: 'string',
                 choices: ['text', 'json'],
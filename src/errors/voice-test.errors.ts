@@ -33,6 +33,9 @@ export enum ErrorCode {
   GENERATION_FAILED = 'GENERATION_FAILED',
   PLAYBACK_FAILED = 'PLAYBACK_FAILED',
 
+  // TTS errors
+  TTS_NOT_CONFIGURED = 'TTS_NOT_CONFIGURED',
+
   // STT errors
   STT_API_ERROR = 'STT_API_ERROR',
   STT_TRANSCRIPTION_FAILED = 'STT_TRANSCRIPTION_FAILED',
@@ -72,6 +75,9 @@ export enum ErrorCode {
   // AI Comparison errors
   AI_COMPARISON_FAILED = 'AI_COMPARISON_FAILED',
 
+  // Cassette errors
+  CASSETTE_ENTRY_NOT_FOUND = 'CASSETTE_ENTRY_NOT_FOUND',
+
   // General errors
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
   OPERATION_FAILED = 'OPERATION_FAILED',
@@ -62,19 +62,66 @@ import { VoiceTestService } from './services/voice-test.js';
 // Audio services
 export { AudioMixerService } from './services/audio-mixer.js';
 export { AudioRecordingService } from './services/audio-recording.js';
+export {
+  MicrophoneAudioSource,
+  FileAudioSource,
+  StdinAudioSource,
+  ToneAudioSource,
+  SilenceAudioSource,
+  LoopbackAudioSource,
+  createAudioSource,
+} from './services/audio-sources.js';
 
 // Voice Interaction Service
 export { VoiceInteractionService } from './services/voice-interaction.js';
 
 // AI Comparison Service
-export { AIComparisonService } from './services/ai-comparison.js';
+export {
+  AIComparisonService,
+  FixtureAIComparisonService,
+  CassetteAIComparisonService,
+  EnsembleAIComparisonService,
+} from './services/ai-comparison.js';
 
 // Voice Bot Test Service
 export { VoiceBotTestService } from './services/voice-bot-test.js';
 
+// Voice Benchmark Service
+export { VoiceBenchService } from './services/voice-bench.js';
+
+// Noise Sweep Service
+export {
+  NoiseSweepService,
+  DEFAULT_SWEEP_SNR_LEVELS,
+} from './services/noise-sweep.js';
+
+// Simulated Caller Service
+export {
+  SimulatedCallerService,
+  DEFAULT_MAX_CALLER_TURNS,
+} from './services/simulated-caller.js';
+
 // STT Provider Management
 export { STTHandlerManager } from './providers/stt-handler-manager.js';
 export { GoogleAISTTHandler } from './providers/google-ai-stt.handler.js';
+export { LocalWhisperSTTHandler } from './providers/local-whisper-stt.handler.js';
+export { FixtureSTTHandler } from './providers/fixture-stt.handler.js';
+export { CassetteSTTHandler } from './providers/cassette-stt.handler.js';
+
+// TTS Provider Management
+export { TTSProviderManager } from './providers/tts-provider-manager.js';
+export { NeurolinkTTSProvider } from './providers/neurolink-tts.provider.js';
+export { LocalTTSProvider } from './providers/local-tts.provider.js';
+export { FixtureTTSProvider } from './providers/fixture-tts.provider.js';
+export { CassetteTTSProvider } from './providers/cassette-tts.provider.js';
+export type { LocalTTSEngine } from './providers/local-tts.provider.js';
+
+// Test Result Reporters
+export { ReporterManager } from './reporters/reporter-manager.js';
+export { JSONReporter } from './reporters/json.reporter.js';
+export { JUnitReporter } from './reporters/junit.reporter.js';
+export { TAPReporter } from './reporters/tap.reporter.js';
+export { HTMLReporter } from './reporters/html.reporter.js';
 
 // Types
 export type {
@@ -90,6 +137,12 @@ export type {
   AudioConfig,
   AudioRecordingSession,
   AudioDevice,
+  AudioMixResult,
+  SNRMix,
+  AudioSource,
+  AudioSourceConfig,
+  AudioSourceStream,
+  AudioSourceType,
   VoiceInteractionConfig,
   VoiceInteractionResult,
   StreamingSTTConfig,
@@ -98,15 +151,106 @@ export type {
   TestQuestion,
   TestResult,
   QuestionResult,
+  QuestionStability,
+  RepeatRunResult,
   TestSummary,
+  TestVerdict,
+  QuestionAssertion,
+  AssertionEntity,
+  AssertionResult,
+  TranscriptAccuracy,
+  WordAlignment,
+  STTAccuracySummary,
+  VoiceBotTestOptions,
+  TestScenario,
+  ScenarioTurn,
+  ScenarioBranch,
+  ScenarioCondition,
+  SimulatedCaller,
+  CallerPersona,
+  ConversationTurn,
+  CallTranscriptLine,
+  CallerLine,
+  CallerUtterance,
+  CallerAudioOutput,
+  SimulatedCallerOptions,
   RetryOptions,
   CircuitBreakerOptions,
   // STT Provider Types
   STTHandler,
   STTRequest,
   STTProviderResponse,
+  STTWord,
   StreamingSession,
   STTProviderName,
+  // TTS Provider Types
+  TTSProvider,
+  TTSProviderName,
+  TTSProviderFactory,
+  TTSRequest,
+  TTSResponse,
+  VoiceInfo,
+  // Fixture Types
+  ProviderFixtures,
+  STTFixtureSession,
+  STTFixtureResult,
+  AIFixtureResult,
+  // Reporter Types
+  TestReporter,
+  ReporterName,
+  ReportContext,
+  ConversationReportEntry,
+  // Regression Types
+  TimingStage,
+  RegressionThresholds,
+  QuestionChange,
+  QuestionSnapshot,
+  QuestionDiff,
+  LatencyRegression,
+  RunSummary,
+  RunComparison,
+  // Rubric Types
+  RubricCriterionName,
+  RubricCriterionSettings,
+  RubricSettings,
+  ElementCoverage,
+  ElementVerdict,
+  CriterionScore,
+  RubricResult,
+  // Ensemble Types
+  JudgeConfig,
+  EnsembleVoting,
+  EnsembleSettings,
+  JudgeVerdict,
+  // History Types
+  HistoryQuestion,
+  HistoryRun,
+  HistoryFilter,
+  PassRateTrendPoint,
+  FlakyQuestion,
+  StageLatency,
+  HistoryReport,
+  // STT Benchmark Types
+  STTBenchSample,
+  STTBenchManifestEntry,
+  STTBenchResult,
+  STTBenchSummary,
+  STTBenchSkipped,
+  STTBenchReport,
+  // Voice Benchmark Types
+  VoiceBenchVoice,
+  VoiceBenchOptions,
+  VoiceBenchTranscription,
+  VoiceBenchResult,
+  VoiceBenchSummary,
+  VoiceBenchReport,
+  // Noise Sweep Types
+  NoiseSweepOptions,
+  NoiseSweepResult,
+  NoiseSweepPoint,
+  NoiseSweepCurve,
+  NoiseSweepSkipped,
+  NoiseSweepReport,
 } from './types/index.js';
 
 // Error classes and utilities
@@ -160,6 +304,9 @@ export {
   createResilientFunction,
 } from './utils/retry.js';
 
+// Concurrency utilities
+export { runWithConcurrency, RateLimiter } from './utils/concurrency.js';
+
 // Secure execution utilities
 export {
   safeExec,
@@ -168,6 +315,84 @@ export {
 } from './utils/secure-exec.js';
 export type { ExecOptions, ExecResult, AudioToolCheck } from './types/index.js';
 
+// Provider fixtures
+export {
+  FixtureStore,
+  setActiveFixtures,
+  getActiveFixtures,
+} from './utils/fixtures.js';
+export type { ResolvedSTTSession } from './utils/fixtures.js';
+
+// Record/replay cassettes
+export {
+  Cassette,
+  setActiveCassette,
+  getActiveCassette,
+} from './utils/cassette.js';
+export type {
+  CassetteMode,
+  CassetteKind,
+  CassetteEntry,
+} from './utils/cassette.js';
+
+// Run-to-run regression comparison
+export {
+  compareRuns,
+  loadTestResult,
+  DEFAULT_REGRESSION_THRESHOLDS,
+  TIMING_STAGES,
+} from './utils/regression.js';
+
+// Results history and trends
+export {
+  ResultsStore,
+  summarizeHistory,
+  DEFAULT_HISTORY_DIR,
+} from './utils/results-store.js';
+
+// Repeated-run stability
+export {
+  summarizeRepeats,
+  wordEditDistance,
+  TRANSCRIPT_INSTABILITY_THRESHOLD,
+} from './utils/stability.js';
+
+// Rubric scoring
+export {
+  resolveRubric,
+  scoreRubric,
+  isPassingComparison,
+  RUBRIC_CRITERIA,
+  DEFAULT_RUBRIC_CRITERIA,
+  DEFAULT_RUBRIC_PASSING_SCORE,
+} from './utils/rubric.js';
+
+// Deterministic assertions
+export {
+  evaluateAssertions,
+  validateAssertions,
+  extractNumbers,
+  ASSERTION_ENTITIES,
+} from './utils/assertions.js';
+
+// Transcript accuracy (WER/CER)
+export {
+  measureTranscriptAccuracy,
+  summarizeTranscriptAccuracy,
+  alignWords,
+  characterErrorRate,
+  STT_MISHEARD_WER_THRESHOLD,
+} from './utils/transcript-accuracy.js';
+
+// STT provider benchmark
+export {
+  loadSTTBenchSamples,
+  runSTTBench,
+  summarizeSTTBench,
+  DEFAULT_STT_COST_PER_MINUTE,
+  STT_BENCH_MANIFEST,
+} from './utils/stt-bench.js';
+
 /**
  * Convenience factory function for creating VoiceTestService instances.
  *
@@ -0,0 +1,284 @@
+/**
+ * Cassette STT Handler
+ *
+ * Wraps an STT handler so transcriptions and streaming sessions are recorded
+ * to, or replayed from, the active cassette. Returned by
+ * `STTHandlerManager.getHandler()` while a cassette is active.
+ *
+ * @module providers/cassette-stt
+ * @since 1.1.0
+ *
+ * @remarks
+ * Streaming sessions are recorded as the sequence of events the handler
+ * emitted (speech start, results, speech end or error). Replay emits the same
+ * events in order with a short fixed gap, ignoring the audio written to it.
+ */
+
+import type {
+  STTHandler,
+  STTProviderName,
+  STTRequest,
+  STTResponse,
+  StreamingSTTConfig,
+  StreamingSTTResult,
+  StreamingSession,
+} from '../types/stt-provider.types.js';
+import type { Cassette } from '../utils/cassette.js';
+import { createComponentLogger } from '../utils/logger.js';
+import {
+  VoiceTestError,
+  ErrorCode,
+  getErrorMessage,
+} from '../errors/voice-test.errors.js';
+
+const logger = createComponentLogger('CassetteSTT');
+
+/**
+ * Gap between replayed streaming events (ms)
+ *
+ * @internal
+ */
+const REPLAY_EVENT_GAP_MS = 20;
+
+/**
+ * A recorded streaming session event
+ *
+ * @internal
+ */
+type StreamingEvent =
+  | { type: 'speechStart'; atMs: number }
+  | { type: 'result'; atMs: number; result: StreamingSTTResult }
+  | { type: 'speechEnd'; atMs: number }
+  | { type: 'error'; atMs: number; message: string };
+
+/**
+ * Cassette STT Handler
+ *
+ * @implements {STTHandler}
+ */
+export class CassetteSTTHandler implements STTHandler {
+  private readonly provider: STTProviderName;
+  private readonly cassette: Cassette;
+  private readonly inner?: STTHandler;
+
+  /**
+   * Wrap a handler
+   *
+   * @param provider - Provider name (part of the request key)
+   * @param cassette - Cassette to record to or replay from
+   * @param inner - Handler to record; unused in replay mode
+   */
+  constructor(
+    provider: STTProviderName,
+    cassette: Cassette,
+    inner?: STTHandler
+  ) {
+    this.provider = provider;
+    this.cassette = cassette;
+    this.inner = inner;
+  }
+
+  /**
+   * Check if the handler is properly configured
+   *
+   * @returns True in replay mode, otherwise the wrapped handler's state
+   */
+  isConfigured(): boolean {
+    return this.cassette.mode === 'replay' || !!this.inner?.isConfigured();
+  }
+
+  /**
+   * Transcribe audio, recording or replaying the response
+   *
+   * @param request - STT transcription request
+   * @returns Transcription response
+   * @throws {VoiceTestError} If the request was never recorded (replay mode)
+   */
+  async transcribe(request: STTRequest): Promise<STTResponse> {
+    const keyRequest = { provider: this.provider, ...request };
+    const key = this.cassette.key('stt', keyRequest);
+
+    if (this.cassette.mode === 'replay') {
+      return this.cassette.load<STTResponse>('stt', key);
+    }
+
+    const response = await this.requireInner().transcribe(request);
+    await this.cassette.save('stt', key, keyRequest, response);
+    return response;
+  }
+
+  /**
+   * Start streaming transcription session
+   * Records the wrapped session's events, or replays recorded ones
+   */
+  startStreaming(
+    config: StreamingSTTConfig,
+    onResult: (result: StreamingSTTResult) => void,
+    onSpeechStart?: () => void,
+    onSpeechEnd?: () => void,
+    onError?: (error: Error) => void
+  ): StreamingSession {
+    const keyRequest = {
+      provider: this.provider,
+      scope: this.cassette.getScope(),
+      config,
+    };
+    const key = this.cassette.key('stt-stream', keyRequest);
+
+    if (this.cassette.mode === 'replay') {
+      return this.replayStream(
+        key,
+        onResult,
+        onSpeechStart,
+        onSpeechEnd,
+        onError
+      );
+    }
+
+    const events: StreamingEvent[] = [];
+    const startTime = Date.now();
+    let saved = false;
+
+    const save = (): void => {
+      if (saved) {
+        return;
+      }
+      saved = true;
+      this.cassette
+        .save('stt-stream', key, keyRequest, events)
+        .catch((error: unknown) => {
+          logger.warn('⚠️ Failed to record streaming session:', error);
+        });
+    };
+
+    const session = this.requireInner().startStreaming(
+      config,
+      (result) => {
+        events.push({ type: 'result', atMs: Date.now() - startTime, result });
+        onResult(result);
+      },
+      () => {
+        events.push({ type: 'speechStart', atMs: Date.now() - startTime });
+        if (onSpeechStart) {
+          onSpeechStart();
+        }
+      },
+      () => {
+        events.push({ type: 'speechEnd', atMs: Date.now() - startTime });
+        save();
+        if (onSpeechEnd) {
+          onSpeechEnd();
+        }
+      },
+      (error) => {
+        events.push({
+          type: 'error',
+          atMs: Date.now() - startTime,
+          message: error.message,
+        });
+        save();
+        if (onError) {
+          onError(error);
+        }
+      }
+    );
+
+    return {
+      writeAudio: (chunk: Buffer): void => session.writeAudio(chunk),
+      endStream: (): void => {
+        session.endStream();
+        // Sessions ended by the caller are stored with the events seen so far
+        save();
+      },
+      isActive: (): boolean => session.isActive(),
+    };
+  }
+
+  /**
+   * Replay a recorded streaming session
+   *
+   * @private
+   */
+  private replayStream(
+    key: string,
+    onResult: (result: StreamingSTTResult) => void,
+    onSpeechStart?: () => void,
+    onSpeechEnd?: () => void,
+    onError?: (error: Error) => void
+  ): StreamingSession {
+    const timers: NodeJS.Timeout[] = [];
+    let isActive = true;
+
+    const emit = (event: StreamingEvent): void => {
+      if (!isActive) {
+        return;
+      }
+      switch (event.type) {
+        case 'speechStart':
+          if (onSpeechStart) {
+            onSpeechStart();
+          }
+          break;
+        case 'result':
+          onResult(event.result);
+          break;
+        case 'speechEnd':
+          isActive = false;
+          if (onSpeechEnd) {
+            onSpeechEnd();
+          }
+          break;
+        case 'error':
+          isActive = false;
+          if (onError) {
+            onError(new Error(event.message));
+          }
+          break;
+      }
+    };
+
+    this.cassette
+      .load<StreamingEvent[]>('stt-stream', key)
+      .then((events) => {
+        logger.info(`▶️ Replaying streaming session (${events.length} events)`);
+        events.forEach((event, index) => {
+          timers.push(
+            setTimeout(() => emit(event), (index + 1) * REPLAY_EVENT_GAP_MS)
+          );
+        });
+      })
+      .catch((error: unknown) => {
+        emit({
+          type: 'error',
+          atMs: 0,
+          message: getErrorMessage(error),
+        });
+      });
+
+    return {
+      writeAudio: (_chunk: Buffer): void => {
+        // Replayed sessions do not listen to audio
+      },
+      endStream: (): void => {
+        isActive = false;
+        timers.forEach((timer) => clearTimeout(timer));
+      },
+      isActive: (): boolean => isActive,
+    };
+  }
+
+  /**
+   * Get the wrapped handler
+   *
+   * @private
+   */
+  private requireInner(): STTHandler {
+    if (!this.inner) {
+      throw new VoiceTestError(
+        `STT provider '${this.provider}' is not available while recording`,
+        ErrorCode.STT_NOT_CONFIGURED
+      );
+    }
+    return this.inner;
+  }
+}
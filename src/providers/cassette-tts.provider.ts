@@ -0,0 +1,118 @@
+/**
+ * Cassette TTS Provider
+ *
+ * Wraps a TTS provider so generated audio is recorded to, or replayed from,
+ * the active cassette. Returned by `TTSProviderManager.getProvider()` while
+ * a cassette is active.
+ *
+ * @module providers/cassette-tts
+ * @since 1.1.0
+ */
+
+import type {
+  TTSProvider,
+  TTSProviderName,
+  TTSRequest,
+  TTSResponse,
+  VoiceInfo,
+} from '../types/tts-provider.types.js';
+import type { Cassette } from '../utils/cassette.js';
+import { VoiceTestError, ErrorCode } from '../errors/voice-test.errors.js';
+
+/**
+ * Stored form of a TTS response (audio as base64)
+ *
+ * @internal
+ */
+type RecordedTTSResponse = Omit<TTSResponse, 'buffer'> & { audio: string };
+
+/**
+ * Cassette TTS Provider
+ *
+ * @implements {TTSProvider}
+ */
+export class CassetteTTSProvider implements TTSProvider {
+  readonly name: TTSProviderName;
+  private readonly cassette: Cassette;
+  private readonly inner?: TTSProvider;
+
+  /**
+   * Wrap a provider
+   *
+   * @param name - Provider name (part of the request key)
+   * @param cassette - Cassette to record to or replay from
+   * @param inner - Initialized provider; required in record mode, unused in replay mode
+   */
+  constructor(name: TTSProviderName, cassette: Cassette, inner?: TTSProvider) {
+    this.name = name;
+    this.cassette = cassette;
+    this.inner = inner;
+  }
+
+  /**
+   * No-op; the wrapped provider is initialized by the manager
+   *
+   * @param _config - Provider configuration (unused)
+   */
+  async initialize(_config: Record<string, unknown>): Promise<void> {}
+
+  /**
+   * Generate speech, recording or replaying the response
+   *
+   * @param request - TTS generation request
+   * @returns Generated or replayed audio
+   * @throws {VoiceTestError} If the request was never recorded (replay mode)
+   */
+  async generate(request: TTSRequest): Promise<TTSResponse> {
+    const keyRequest = { provider: this.name, ...request };
+    const key = this.cassette.key('tts', keyRequest);
+
+    if (this.cassette.mode === 'replay') {
+      const { audio, ...recorded } =
+        await this.cassette.load<RecordedTTSResponse>('tts', key);
+      return { ...recorded, buffer: Buffer.from(audio, 'base64') };
+    }
+
+    const response = await this.requireInner().generate(request);
+    const { buffer, ...rest } = response;
+    await this.cassette.save<RecordedTTSResponse>('tts', key, keyRequest, {
+      ...rest,
+      audio: buffer.toString('base64'),
+    });
+    return response;
+  }
+
+  /**
+   * Get available voices from the wrapped provider
+   *
+   * @param languageCode - Optional language filter
+   * @returns Voices (empty in replay mode)
+   */
+  async getVoices(languageCode?: string): Promise<VoiceInfo[]> {
+    return this.inner ? this.inner.getVoices(languageCode) : [];
+  }
+
+  /**
+   * Check if the provider is ready
+   *
+   * @returns Always true; replay needs no initialization
+   */
+  isReady(): boolean {
+    return true;
+  }
+
+  /**
+   * Get the wrapped provider
+   *
+   * @private
+   */
+  private requireInner(): TTSProvider {
+    if (!this.inner) {
+      throw new VoiceTestError(
+        `TTS provider '${this.name}' is not available while recording`,
+        ErrorCode.TTS_NOT_CONFIGURED
+      );
+    }
+    return this.inner;
+  }
+}
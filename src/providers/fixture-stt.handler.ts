@@ -0,0 +1,194 @@
+/**
+ * Fixture STT Handler
+ *
+ * Speech-to-Text handler that replays scripted results from the active
+ * fixture set instead of listening to audio. Selected with
+ * `sttProvider: "fixture"`.
+ *
+ * @module providers/fixture-stt
+ * @since 1.1.0
+ *
+ * @remarks
+ * Each streaming session consumes the next `stt` fixture and emits speech
+ * start, the scripted results and speech end on timers; audio written to the
+ * session is ignored. Retries consume further sessions.
+ *
+ * @example
+ * ```typescript
+ * import { FixtureStore, setActiveFixtures } from './utils/fixtures.js';
+ *
+ * setActiveFixtures(new FixtureStore({ stt: ['Hello there'] }));
+ * const handler = STTHandlerManager.getHandler('fixture');
+ * ```
+ */
+
+import type {
+  STTHandler,
+  STTRequest,
+  STTResponse,
+  StreamingSTTConfig,
+  StreamingSTTResult,
+  StreamingSession,
+} from '../types/stt-provider.types.js';
+import { getActiveFixtures } from '../utils/fixtures.js';
+import type { FixtureStore } from '../utils/fixtures.js';
+import { createComponentLogger } from '../utils/logger.js';
+import { VoiceTestError, ErrorCode } from '../errors/voice-test.errors.js';
+
+const logger = createComponentLogger('FixtureSTT');
+
+/**
+ * Fixture STT Handler
+ *
+ * @implements {STTHandler}
+ */
+export class FixtureSTTHandler implements STTHandler {
+  /**
+   * Check if the handler is properly configured
+   *
+   * @returns True if a fixture set is active
+   */
+  isConfigured(): boolean {
+    return getActiveFixtures() !== null;
+  }
+
+  /**
+   * Return the next scripted session as a single transcription
+   *
+   * @param _request - STT transcription request (audio is ignored)
+   * @returns Final transcripts of the session joined with spaces
+   *
+   * @throws {VoiceTestError} If no fixtures are active, the script is exhausted or scripts an error
+   */
+  async transcribe(_request: STTRequest): Promise<STTResponse> {
+    const session = this.requireFixtures().nextSTTSession();
+
+    if (!session) {
+      throw new VoiceTestError(
+        'STT fixture script exhausted',
+        ErrorCode.STT_TRANSCRIPTION_FAILED
+      );
+    }
+    if (session.error) {
+      throw new VoiceTestError(
+        session.error,
+        ErrorCode.STT_TRANSCRIPTION_FAILED
+      );
+    }
+
+    const finals = session.results.filter((result) => result.isFinal);
+
+    return {
+      transcript: finals.map((result) => result.transcript).join(' '),
+      confidence:
+        finals.length > 0
+          ? finals.reduce((sum, result) => sum + result.confidence, 0) /
+            finals.length
+          : 0,
+      provider: 'fixture',
+      latency: 0,
+    };
+  }
+
+  /**
+   * Start streaming transcription session
+   * Replays the next scripted session on timers
+   */
+  startStreaming(
+    config: StreamingSTTConfig,
+    onResult: (result: StreamingSTTResult) => void,
+    onSpeechStart?: () => void,
+    onSpeechEnd?: () => void,
+    onError?: (error: Error) => void
+  ): StreamingSession {
+    const session = this.requireFixtures().nextSTTSession();
+    const timers: NodeJS.Timeout[] = [];
+    let isActive = true;
+    let elapsed = 0;
+
+    const schedule = (delayMs: number, action: () => void): void => {
+      elapsed += delayMs;
+      timers.push(
+        setTimeout(() => {
+          if (isActive) {
+            action();
+          }
+        }, elapsed)
+      );
+    };
+
+    const fail = (message: string): void => {
+      isActive = false;
+      if (onError) {
+        onError(new Error(message));
+      }
+    };
+
+    logger.info(
+      `🎬 Starting fixture STT session (${config.languageCode}, ${session?.results.length ?? 0} results)`
+    );
+
+    if (!session) {
+      schedule(0, () => fail('STT fixture script exhausted'));
+    } else if (session.error) {
+      const message = session.error;
+      schedule(0, () => fail(message));
+    } else if (session.results.length === 0) {
+      schedule(0, () => fail('No speech detected within timeout period'));
+    } else {
+      session.results.forEach((result, index) => {
+        schedule(result.delayMs, () => {
+          if (index === 0 && onSpeechStart) {
+            onSpeechStart();
+          }
+          onResult({
+            transcript: result.transcript,
+            confidence: result.confidence,
+            isFinal: result.isFinal,
+            words: result.words,
+          });
+        });
+      });
+      // Results are delivered before speech end, as with the real handlers
+      schedule(session.speechEndDelayMs, () => {
+        isActive = false;
+        if (onSpeechEnd) {
+          onSpeechEnd();
+        }
+      });
+    }
+
+    return {
+      writeAudio: (_chunk: Buffer): void => {
+        // Scripted sessions do not listen to audio
+      },
+      endStream: (): void => {
+        if (isActive) {
+          logger.info('🛑 Manually ending fixture stream');
+          isActive = false;
+        }
+        timers.forEach((timer) => clearTimeout(timer));
+      },
+      isActive: (): boolean => isActive,
+    };
+  }
+
+  /**
+   * Get the active fixture store
+   *
+   * @returns Active fixture store
+   * @throws {VoiceTestError} If no fixtures are active
+   *
+   * @private
+   */
+  private requireFixtures(): FixtureStore {
+    const fixtures = getActiveFixtures();
+    if (!fixtures) {
+      throw new VoiceTestError(
+        'Fixture STT is not configured. Set settings.fixtures or VOKAL_FIXTURES',
+        ErrorCode.STT_NOT_CONFIGURED
+      );
+    }
+    return fixtures;
+  }
+}
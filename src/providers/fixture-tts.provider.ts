@@ -0,0 +1,136 @@
+/**
+ * Fixture TTS Provider
+ *
+ * Text-to-Speech provider that returns canned WAV files from the active
+ * fixture set. Selected with `ttsProvider: "fixture"`.
+ *
+ * @module providers/fixture-tts
+ * @since 1.1.0
+ *
+ * @remarks
+ * Text without a matching `tts` fixture (and no `*` entry) produces one
+ * second of silence, so suites only need TTS fixtures when the audio matters.
+ *
+ * @example
+ * ```typescript
+ * const provider = await TTSProviderManager.getProvider('fixture');
+ * const audio = await provider.generate({ text: 'Hello!', voice: 'fixture' });
+ * console.log(audio.format); // 'wav'
+ * ```
+ */
+
+import type {
+  TTSProvider,
+  TTSRequest,
+  TTSResponse,
+  VoiceInfo,
+} from '../types/tts-provider.types.js';
+import { getActiveFixtures } from '../utils/fixtures.js';
+import { encodeWav, parseWav } from '../utils/wav.js';
+import { createComponentLogger } from '../utils/logger.js';
+import { VoiceTestError, ErrorCode } from '../errors/voice-test.errors.js';
+
+const logger = createComponentLogger('FixtureTTS');
+
+/**
+ * Sample rate of generated silence
+ *
+ * @internal
+ */
+const SILENCE_SAMPLE_RATE = 16000;
+
+/**
+ * Fixture TTS Provider
+ *
+ * @implements {TTSProvider}
+ */
+export class FixtureTTSProvider implements TTSProvider {
+  readonly name = 'fixture';
+  private initialized = false;
+
+  /**
+   * Initialize the provider
+   *
+   * @param _config - Provider configuration (unused)
+   * @throws {VoiceTestError} If no fixture set is active
+   */
+  async initialize(_config: Record<string, unknown>): Promise<void> {
+    if (!getActiveFixtures()) {
+      throw new VoiceTestError(
+        'Fixture TTS is not configured. Set settings.fixtures or VOKAL_FIXTURES',
+        ErrorCode.TTS_NOT_CONFIGURED
+      );
+    }
+
+    this.initialized = true;
+    logger.info('✅ Fixture TTS provider initialized');
+  }
+
+  /**
+   * Return the canned WAV for the request text
+   *
+   * @param request - TTS generation request
+   * @returns WAV audio (silence when no fixture matches)
+   * @throws {VoiceTestError} If the provider is not initialized
+   * @throws {AudioProcessingError} If a fixture file is not a valid WAV
+   */
+  async generate(request: TTSRequest): Promise<TTSResponse> {
+    const fixtures = getActiveFixtures();
+    if (!this.initialized || !fixtures) {
+      throw new VoiceTestError(
+        `TTS provider '${this.name}' is not initialized`,
+        ErrorCode.TTS_NOT_CONFIGURED
+      );
+    }
+
+    const canned = await fixtures.getTTSAudio(request.text);
+    const buffer =
+      canned ??
+      encodeWav(Buffer.alloc(SILENCE_SAMPLE_RATE * 2), SILENCE_SAMPLE_RATE);
+    const audio = parseWav(buffer, canned ? 'TTS fixture' : 'silence');
+
+    logger.debug(
+      `${canned ? 'Canned' : 'Silent'} audio for "${request.text.slice(0, 40)}"`
+    );
+
+    return {
+      buffer,
+      format: 'wav',
+      size: buffer.length,
+      duration: audio.durationMs / 1000,
+      metadata: {
+        voice: request.voice,
+        sampleRate: audio.sampleRate,
+        fixture: canned !== null,
+      },
+    };
+  }
+
+  /**
+   * Get available voices
+   *
+   * @param languageCode - Optional language filter
+   * @returns A single placeholder voice for the requested language
+   */
+  async getVoices(languageCode = 'en-US'): Promise<VoiceInfo[]> {
+    return [
+      {
+        id: 'fixture',
+        name: 'Fixture',
+        languageCode,
+        gender: 'neutral',
+        type: 'fixture',
+        description: 'Canned audio from the active fixture set',
+      },
+    ];
+  }
+
+  /**
+   * Check if the provider is initialized
+   *
+   * @returns True once `initialize()` has completed
+   */
+  isReady(): boolean {
+    return this.initialized;
+  }
+}
@@ -34,6 +34,7 @@ import type {
   StreamingSTTConfig,
   StreamingSTTResult,
   StreamingSession,
+  STTWord,
 } from '../types/stt-provider.types.js';
 import { createComponentLogger } from '../utils/logger.js';
 import { VoiceTestError, ErrorCode } from '../errors/voice-test.errors.js';
@@ -49,12 +50,34 @@ interface StreamData {
     alternatives?: Array<{
       transcript?: string;
       confidence?: number;
+      words?: google.cloud.speech.v1.IWordInfo[];
     }>;
     isFinal?: boolean;
     stability?: number;
   }>;
 }
 
+/**
+ * Convert Google word info (protobuf durations) to words with offsets in seconds
+ */
+function mapWords(words: google.cloud.speech.v1.IWordInfo[]): STTWord[] {
+  return words.map((word) => {
+    const startSeconds = word.startTime?.seconds
+      ? Number(word.startTime.seconds)
+      : 0;
+    const startNanos = word.startTime?.nanos || 0;
+    const endSeconds = word.endTime?.seconds ? Number(word.endTime.seconds) : 0;
+    const endNanos = word.endTime?.nanos || 0;
+
+    return {
+      word: word.word || '',
+      startTime: startSeconds + startNanos / 1e9,
+      endTime: endSeconds + endNanos / 1e9,
+      confidence: word.confidence || 0,
+    };
+  });
+}
+
 /**
  * Map our encoding strings to Google Cloud Speech API encoding types
  */
@@ -213,23 +236,7 @@ export class GoogleAISTTHandler implements STTHandler {
       }));
 
       // Extract word timing information
-      const words = alternative.words?.map((word) => {
-        const startSeconds = word.startTime?.seconds
-          ? Number(word.startTime.seconds)
-          : 0;
-        const startNanos = word.startTime?.nanos || 0;
-        const endSeconds = word.endTime?.seconds
-          ? Number(word.endTime.seconds)
-          : 0;
-        const endNanos = word.endTime?.nanos || 0;
-
-        return {
-          word: word.word || '',
-          startTime: startSeconds + startNanos / 1e9,
-          endTime: endSeconds + endNanos / 1e9,
-          confidence: word.confidence || 0,
-        };
-      });
+      const words = alternative.words ? mapWords(alternative.words) : undefined;
 
       logger.info(
         `✅ Transcription complete: "${transcript}" (confidence: ${(confidence * 100).toFixed(1)}%, latency: ${latency}ms)`
@@ -308,6 +315,9 @@ export class GoogleAISTTHandler implements STTHandler {
         languageCode: config.languageCode,
         model: config.model || 'latest_short',
         enableAutomaticPunctuation: true,
+        // Word confidences are only sent with final results
+        enableWordConfidence: true,
+        enableWordTimeOffsets: true,
         // @ts-expect-error - enableVoiceActivityEvents exists in the API but not in TypeScript types
         enableVoiceActivityEvents: true,
         speechContexts: config.speechContexts?.map((ctx) => ({
@@ -452,6 +462,10 @@ export class GoogleAISTTHandler implements STTHandler {
             confidence: alternative.confidence || 0,
             isFinal: result.isFinal || false,
             stability: result.stability || 0,
+            words:
+              result.isFinal && alternative.words
+                ? mapWords(alternative.words)
+                : undefined,
           };
 
           // Log interim vs final
@@ -0,0 +1,453 @@
+/**
+ * Local TTS Provider
+ *
+ * Offline Text-to-Speech provider that shells out to espeak-ng or piper.
+ * Implements the TTSProvider interface so test suites and `vokal voice generate`
+ * can run without network access.
+ *
+ * @module providers/local-tts
+ * @since 1.1.0
+ *
+ * @remarks
+ * - **espeak-ng** (`local-espeak`): small, robotic, available in most package managers
+ * - **piper** (`local-piper`): neural voices from `.onnx` models in `PIPER_MODEL_DIR`
+ *
+ * Text is passed to the engine over stdin, so it never reaches the command line.
+ * Both engines produce WAV audio regardless of the requested format.
+ *
+ * @example
+ * ```typescript
+ * import { LocalTTSProvider } from './providers/local-tts.provider.js';
+ *
+ * const provider = new LocalTTSProvider('espeak');
+ * await provider.initialize({});
+ *
+ * const audio = await provider.generate({
+ *   text: 'Hello, world!',
+ *   voice: 'en-us',
+ *   languageCode: 'en-US'
+ * });
+ * console.log('Generated', audio.size, 'bytes of', audio.format);
+ * ```
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { tmpdir, homedir } from 'os';
+import { basename, isAbsolute, join } from 'path';
+import type {
+  TTSProvider,
+  TTSProviderName,
+  TTSRequest,
+  TTSResponse,
+  VoiceInfo,
+} from '../types/tts-provider.types.js';
+import { safeExec, commandExists } from '../utils/secure-exec.js';
+import { parseWav } from '../utils/wav.js';
+import { createComponentLogger } from '../utils/logger.js';
+import {
+  VoiceTestError,
+  ValidationError,
+  ErrorCode,
+  getErrorMessage,
+} from '../errors/voice-test.errors.js';
+
+const logger = createComponentLogger('LocalTTS');
+
+/**
+ * Supported local synthesis engines
+ */
+export type LocalTTSEngine = 'espeak' | 'piper';
+
+/**
+ * espeak-ng default speaking rate in words per minute
+ *
+ * @internal
+ */
+const ESPEAK_DEFAULT_WPM = 175;
+
+/**
+ * Synthesis timeout; piper can be slow on first load of a model
+ *
+ * @internal
+ */
+const SYNTHESIS_TIMEOUT_MS = 60000;
+
+/**
+ * Voice identifiers that are safe to place on a command line
+ *
+ * @internal
+ */
+const SAFE_VOICE_ID = /^[\w+./-]+$/;
+
+/**
+ * Normalize a language tag such as `en-us` or `en_US` to `en-US`.
+ *
+ * @param tag - Engine-specific language tag
+ * @returns BCP-47 style language code
+ *
+ * @internal
+ */
+function normalizeLanguageCode(tag: string): string {
+  const [primary, ...rest] = tag.split(/[-_]/);
+  return [
+    primary.toLowerCase(),
+    ...rest.map((part) => (part.length === 2 ? part.toUpperCase() : part)),
+  ].join('-');
+}
+
+/**
+ * Local TTS Provider
+ *
+ * @implements {TTSProvider}
+ */
+export class LocalTTSProvider implements TTSProvider {
+  readonly name: TTSProviderName;
+  private readonly engine: LocalTTSEngine;
+  private binary: string | null = null;
+  private modelDir: string = '';
+  private voiceCache: VoiceInfo[] | null = null;
+
+  /**
+   * Create a new local TTS provider
+   *
+   * @param engine - Synthesis engine to use (default: 'espeak')
+   */
+  constructor(engine: LocalTTSEngine = 'espeak') {
+    this.engine = engine;
+    this.name = `local-${engine}`;
+  }
+
+  /**
+   * Locate the synthesis engine
+   *
+   * @param config - Provider configuration (`modelDir` for piper voices)
+   * @throws {VoiceTestError} If the engine is not installed
+   *
+   * @remarks
+   * Piper models are looked up in `config.modelDir`, then `PIPER_MODEL_DIR`,
+   * then `~/.local/share/piper`.
+   */
+  async initialize(config: Record<string, unknown>): Promise<void> {
+    const candidates =
+      this.engine === 'espeak' ? ['espeak-ng', 'espeak'] : ['piper'];
+
+    for (const candidate of candidates) {
+      if (await commandExists(candidate)) {
+        this.binary = candidate;
+        break;
+      }
+    }
+
+    if (!this.binary) {
+      throw new VoiceTestError(
+        this.engine === 'espeak'
+          ? 'espeak-ng is not installed (macOS: brew install espeak-ng, Ubuntu/Debian: sudo apt-get install espeak-ng)'
+          : 'piper is not installed (see https://github.com/rhasspy/piper)',
+        ErrorCode.TTS_NOT_CONFIGURED
+      );
+    }
+
+    if (this.engine === 'piper') {
+      this.modelDir =
+        (typeof config.modelDir === 'string' && config.modelDir) ||
+        process.env.PIPER_MODEL_DIR ||
+        join(homedir(), '.local', 'share', 'piper');
+    }
+
+    logger.info(`✅ Local TTS provider initialized: ${this.binary}`);
+  }
+
+  /**
+   * Generate speech with the local engine
+   *
+   * @param request - TTS generation request
+   * @returns WAV audio
+   * @throws {VoiceTestError} If the provider is not initialized or synthesis fails
+   * @throws {ValidationError} If no usable voice can be resolved
+   */
+  async generate(request: TTSRequest): Promise<TTSResponse> {
+    if (!this.binary) {
+      throw new VoiceTestError(
+        `TTS provider '${this.name}' is not initialized`,
+        ErrorCode.TTS_NOT_CONFIGURED
+      );
+    }
+
+    if (request.format && request.format !== 'wav') {
+      logger.debug(
+        `${this.name} only produces WAV, ignoring '${request.format}'`
+      );
+    }
+
+    const outputPath = join(
+      tmpdir(),
+      `vokal-${this.engine}-${randomUUID()}.wav`
+    );
+    const { command, voice } =
+      this.engine === 'espeak'
+        ? await this.buildEspeakCommand(request, outputPath)
+        : this.buildPiperCommand(request, outputPath);
+
+    const result = await safeExec(command, {
+      input: request.text,
+      timeout: SYNTHESIS_TIMEOUT_MS,
+    });
+
+    try {
+      if (result.exitCode !== 0 || !existsSync(outputPath)) {
+        throw new VoiceTestError(
+          `${this.binary} failed with exit code ${result.exitCode}: ${result.stderr}`,
+          ErrorCode.AUDIO_GENERATION_FAILED
+        );
+      }
+
+      const buffer = await fs.readFile(outputPath);
+      const audio = parseWav(buffer, outputPath);
+
+      return {
+        buffer,
+        format: 'wav',
+        size: buffer.length,
+        duration: audio.durationMs / 1000,
+        metadata: {
+          engine: this.binary,
+          voice,
+          sampleRate: audio.sampleRate,
+        },
+      };
+    } finally {
+      await fs.unlink(outputPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Get available voices
+   *
+   * @param languageCode - Optional language filter (prefix match, e.g. 'en' or 'en-US')
+   * @returns Installed voices for the engine
+   */
+  async getVoices(languageCode?: string): Promise<VoiceInfo[]> {
+    if (!this.voiceCache) {
+      this.voiceCache =
+        this.engine === 'espeak'
+          ? await this.listEspeakVoices()
+          : this.listPiperVoices();
+    }
+
+    if (!languageCode) {
+      return this.voiceCache;
+    }
+
+    const filter = languageCode.toLowerCase();
+    return this.voiceCache.filter((voice) =>
+      voice.languageCode.toLowerCase().startsWith(filter)
+    );
+  }
+
+  /**
+   * Check if the engine has been located
+   *
+   * @returns True once `initialize()` has completed
+   */
+  isReady(): boolean {
+    return this.binary !== null;
+  }
+
+  /**
+   * Build the espeak-ng command for a request
+   *
+   * @param request - TTS generation request
+   * @param outputPath - WAV file to write
+   * @returns Command line and the resolved voice
+   *
+   * @private
+   */
+  private async buildEspeakCommand(
+    request: TTSRequest,
+    outputPath: string
+  ): Promise<{ command: string; voice: string }> {
+    const voices = await this.getVoices();
+    const ids = new Set(voices.map((v) => v.id));
+    const requested = request.voice?.toLowerCase();
+    const language = (request.languageCode || 'en').toLowerCase();
+
+    // Cloud voice names (e.g. en-US-Neural2-D) fall back to the language
+    let voice = 'en';
+    if (requested && ids.has(requested)) {
+      voice = requested;
+    } else if (ids.has(language)) {
+      voice = language;
+    } else if (ids.has(language.split('-')[0])) {
+      voice = language.split('-')[0];
+    }
+
+    const wpm = Math.round(ESPEAK_DEFAULT_WPM * (request.speed ?? 1.0));
+    // espeak pitch is 0-99 around 50; requests use -20..20 semitones
+    const pitch = Math.min(
+      99,
+      Math.max(0, Math.round(50 + (request.pitch ?? 0) * 2.5))
+    );
+
+    return {
+      command: `${this.binary} --stdin -v ${voice} -s ${wpm} -p ${pitch} -w "${outputPath}"`,
+      voice,
+    };
+  }
+
+  /**
+   * Build the piper command for a request
+   *
+   * @param request - TTS generation request
+   * @param outputPath - WAV file to write
+   * @returns Command line and the resolved voice
+   * @throws {ValidationError} If no model matches the request
+   *
+   * @private
+   */
+  private buildPiperCommand(
+    request: TTSRequest,
+    outputPath: string
+  ): { command: string; voice: string } {
+    const modelPath = this.resolvePiperModel(request);
+
+    if (!SAFE_VOICE_ID.test(modelPath)) {
+      throw new ValidationError(
+        'Piper model path contains unsupported characters',
+        'voice',
+        modelPath
+      );
+    }
+
+    const args = [`--model "${modelPath}"`, `--output_file "${outputPath}"`];
+    if (request.speed && request.speed !== 1.0) {
+      // length_scale > 1 is slower speech
+      args.push(`--length_scale ${(1 / request.speed).toFixed(3)}`);
+    }
+    const speaker = request.providerOptions?.speaker;
+    if (typeof speaker === 'number') {
+      args.push(`--speaker ${Math.floor(speaker)}`);
+    }
+
+    return {
+      command: `${this.binary} ${args.join(' ')}`,
+      voice: basename(modelPath, '.onnx'),
+    };
+  }
+
+  /**
+   * Resolve the piper model for a request
+   *
+   * @param request - TTS generation request
+   * @returns Absolute path to the `.onnx` model
+   * @throws {ValidationError} If no model matches the request
+   *
+   * @private
+   */
+  private resolvePiperModel(request: TTSRequest): string {
+    if (
+      request.voice?.endsWith('.onnx') &&
+      isAbsolute(request.voice) &&
+      existsSync(request.voice)
+    ) {
+      return request.voice;
+    }
+
+    const voices = this.listPiperVoices();
+    const language = normalizeLanguageCode(request.languageCode || 'en-US');
+    const match =
+      voices.find((v) => v.id === request.voice) ||
+      voices.find((v) => v.languageCode === language) ||
+      voices.find(
+        (v) => v.languageCode.split('-')[0] === language.split('-')[0]
+      );
+
+    if (!match) {
+      throw new ValidationError(
+        `No piper voice model for '${request.voice || language}' in ${this.modelDir}`,
+        'voice',
+        request.voice
+      );
+    }
+
+    return join(this.modelDir, `${match.id}.onnx`);
+  }
+
+  /**
+   * List espeak-ng voices by parsing `espeak-ng --voices`
+   *
+   * @returns Installed espeak voices
+   *
+   * @private
+   */
+  private async listEspeakVoices(): Promise<VoiceInfo[]> {
+    const result = await safeExec(`${this.binary} --voices`);
+    if (result.exitCode !== 0) {
+      logger.warn(`⚠️ Could not list espeak voices: ${result.stderr}`);
+      return [];
+    }
+
+    // Pty Language Age/Gender VoiceName File Other Languages
+    return result.stdout
+      .split('\n')
+      .slice(1)
+      .map((line) => line.trim().split(/\s+/))
+      .filter((parts) => parts.length >= 5)
+      .map(([, language, ageGender, voiceName, file]) => {
+        const gender = ageGender.split('/')[1];
+        return {
+          id: language.toLowerCase(),
+          name: voiceName.replace(/_/g, ' '),
+          languageCode: normalizeLanguageCode(language),
+          gender:
+            gender === 'M' ? 'male' : gender === 'F' ? 'female' : 'neutral',
+          type: 'espeak',
+          description: file,
+        };
+      });
+  }
+
+  /**
+   * List piper voices from `.onnx` models in the model directory
+   *
+   * @returns Installed piper voices
+   *
+   * @private
+   */
+  private listPiperVoices(): VoiceInfo[] {
+    if (!existsSync(this.modelDir)) {
+      logger.warn(`⚠️ Piper model directory not found: ${this.modelDir}`);
+      return [];
+    }
+
+    return readdirSync(this.modelDir)
+      .filter((file) => file.endsWith('.onnx'))
+      .map((file) => {
+        const id = basename(file, '.onnx');
+        // Models are named <lang>_<REGION>-<name>-<quality>
+        let language = id.split('-')[0];
+
+        const configPath = join(this.modelDir, `${file}.json`);
+        if (existsSync(configPath)) {
+          try {
+            const config = JSON.parse(readFileSync(configPath, 'utf-8')) as {
+              language?: { code?: string };
+            };
+            language = config.language?.code || language;
+          } catch (error) {
+            logger.debug(
+              `Could not read ${configPath}: ${getErrorMessage(error)}`
+            );
+          }
+        }
+
+        return {
+          id,
+          name: id,
+          languageCode: normalizeLanguageCode(language),
+          type: 'piper',
+        };
+      });
+  }
+}
@@ -0,0 +1,462 @@
+/**
+ * Local Whisper STT Handler
+ *
+ * Offline Speech-to-Text handler backed by the whisper.cpp command-line tool.
+ * Implements the STTHandler interface so `sttProvider: "local-whisper"`
+ * works without network access.
+ *
+ * @module providers/local-whisper-stt
+ * @since 1.1.0
+ *
+ * @remarks
+ * Configuration:
+ * - `WHISPER_MODEL_PATH`: path to a ggml model (e.g. `ggml-base.en.bin`), required
+ * - `whisper-cli` (or the older `whisper-cpp`) must be on the PATH
+ *
+ * whisper.cpp only transcribes complete utterances, so streaming sessions run
+ * an energy-based voice activity detector over the incoming audio and
+ * transcribe once the caller has been silent for `speechEndTimeout`, or after
+ * 30 s of continuous sound.
+ * Silence is measured in audio time, so file-driven sessions behave the
+ * same as live microphones.
+ *
+ * @example
+ * ```typescript
+ * import { LocalWhisperSTTHandler } from './providers/local-whisper-stt.handler.js';
+ *
+ * const handler = new LocalWhisperSTTHandler();
+ *
+ * if (handler.isConfigured()) {
+ *   const result = await handler.transcribe({
+ *     audio: pcmBuffer,
+ *     encoding: 'LINEAR16',
+ *     sampleRate: 16000,
+ *     languageCode: 'en-US'
+ *   });
+ *   console.log('Transcript:', result.transcript);
+ * }
+ * ```
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import { randomUUID } from 'crypto';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type {
+  STTHandler,
+  STTRequest,
+  STTResponse,
+  StreamingSTTConfig,
+  StreamingSTTResult,
+  StreamingSession,
+} from '../types/stt-provider.types.js';
+import { safeExec, commandExists } from '../utils/secure-exec.js';
+import { encodeWav, resamplePcm16 } from '../utils/wav.js';
+import { createComponentLogger } from '../utils/logger.js';
+import {
+  VoiceTestError,
+  ErrorCode,
+  getErrorMessage,
+  toError,
+} from '../errors/voice-test.errors.js';
+
+const logger = createComponentLogger('LocalWhisperSTT');
+
+/**
+ * Sample rate whisper.cpp expects
+ *
+ * @internal
+ */
+const WHISPER_SAMPLE_RATE = 16000;
+
+/**
+ * Transcription timeout for a single utterance
+ *
+ * @internal
+ */
+const TRANSCRIBE_TIMEOUT_MS = 120000;
+
+/**
+ * VAD frame length in ms
+ *
+ * @internal
+ */
+const VAD_FRAME_MS = 30;
+
+/**
+ * RMS level (0.0 to 1.0) above which a frame counts as speech
+ *
+ * @internal
+ */
+const VAD_ENERGY_THRESHOLD = 0.015;
+
+/**
+ * Consecutive voiced frames needed to start an utterance (filters clicks)
+ *
+ * @internal
+ */
+const VAD_START_FRAMES = 3;
+
+/**
+ * Audio kept from before speech starts so the first syllable is not clipped
+ *
+ * @internal
+ */
+const VAD_PRE_ROLL_MS = 300;
+
+/**
+ * Longest utterance before it is transcribed without waiting for silence,
+ * so steady noise above the VAD threshold cannot keep a session open
+ *
+ * @internal
+ */
+const VAD_MAX_UTTERANCE_MS = 30000;
+
+/**
+ * Token probability output of `whisper-cli -ojf`
+ */
+interface WhisperJson {
+  transcription?: Array<{
+    offsets?: { from: number; to: number };
+    text?: string;
+    tokens?: Array<{ text?: string; p?: number }>;
+  }>;
+}
+
+/**
+ * Root-mean-square level of 16-bit PCM, normalized to 0.0-1.0
+ *
+ * @param pcm - 16-bit little-endian mono PCM
+ * @returns RMS level
+ *
+ * @internal
+ */
+function rmsLevel(pcm: Buffer): number {
+  const samples = Math.floor(pcm.length / 2);
+  if (samples === 0) {
+    return 0;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * 2) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+/**
+ * Local Whisper STT Handler
+ *
+ * @implements {STTHandler}
+ */
+export class LocalWhisperSTTHandler implements STTHandler {
+  private modelPath: string;
+  private binary: string | null = null;
+
+  /**
+   * Create a new local Whisper STT handler
+   *
+   * @param modelPath - ggml model path (defaults to `WHISPER_MODEL_PATH`)
+   */
+  constructor(modelPath: string = process.env.WHISPER_MODEL_PATH || '') {
+    this.modelPath = modelPath;
+  }
+
+  /**
+   * Check if the handler is properly configured
+   *
+   * @returns True if a whisper model file is available
+   */
+  isConfigured(): boolean {
+    return !!this.modelPath && existsSync(this.modelPath);
+  }
+
+  /**
+   * Transcribe audio using whisper.cpp
+   *
+   * @param request - STT transcription request (LINEAR16 only)
+   * @returns Transcription response with word timings
+   *
+   * @throws {VoiceTestError} If handler is not configured or transcription fails
+   */
+  async transcribe(request: STTRequest): Promise<STTResponse> {
+    if (!this.isConfigured()) {
+      throw new VoiceTestError(
+        'Local Whisper STT is not configured. Set WHISPER_MODEL_PATH to a ggml model file',
+        ErrorCode.STT_NOT_CONFIGURED
+      );
+    }
+
+    if (request.encoding !== 'LINEAR16') {
+      throw new VoiceTestError(
+        `Local Whisper STT only supports LINEAR16 audio, got ${request.encoding}`,
+        ErrorCode.UNSUPPORTED_AUDIO_FORMAT
+      );
+    }
+
+    const binary = await this.findBinary();
+    const startTime = Date.now();
+    const basePath = join(tmpdir(), `vokal-whisper-${randomUUID()}`);
+    const wavPath = `${basePath}.wav`;
+    const jsonPath = `${basePath}.json`;
+
+    try {
+      logger.debug(`🎤 Transcribing audio: ${request.audio.length} bytes`);
+
+      const pcm = resamplePcm16(
+        request.audio,
+        request.sampleRate,
+        WHISPER_SAMPLE_RATE
+      );
+      await fs.writeFile(wavPath, encodeWav(pcm, WHISPER_SAMPLE_RATE));
+
+      // -ml 1 -sow: one segment per word; -ojf: JSON with token probabilities
+      const language = request.languageCode.split('-')[0].toLowerCase();
+      const result = await safeExec(
+        `${binary} -m "${this.modelPath}" -f "${wavPath}" -l ${language} -ml 1 -sow -np -ojf -of "${basePath}"`,
+        { timeout: TRANSCRIBE_TIMEOUT_MS }
+      );
+
+      if (result.exitCode !== 0 || !existsSync(jsonPath)) {
+        throw new Error(
+          `${binary} exited with code ${result.exitCode}: ${result.stderr}`
+        );
+      }
+
+      const output = JSON.parse(
+        await fs.readFile(jsonPath, 'utf-8')
+      ) as WhisperJson;
+      const latency = Date.now() - startTime;
+
+      const words = (output.transcription ?? [])
+        .map((segment) => {
+          const probabilities = (segment.tokens ?? [])
+            .filter((token) => token.text && !token.text.startsWith('[_'))
+            .map((token) => token.p ?? 0);
+          return {
+            word: (segment.text ?? '').trim(),
+            startTime: (segment.offsets?.from ?? 0) / 1000,
+            endTime: (segment.offsets?.to ?? 0) / 1000,
+            confidence: probabilities.length
+              ? probabilities.reduce((a, b) => a + b, 0) / probabilities.length
+              : 0,
+          };
+        })
+        .filter((word) => word.word.length > 0);
+
+      const transcript = words.map((word) => word.word).join(' ');
+      const confidence = words.length
+        ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+        : 0;
+
+      logger.info(
+        `✅ Transcription complete: "${transcript}" (confidence: ${(confidence * 100).toFixed(1)}%, latency: ${latency}ms)`
+      );
+
+      return {
+        transcript,
+        confidence,
+        words,
+        provider: 'local-whisper',
+        latency,
+      };
+    } catch (error) {
+      if (error instanceof VoiceTestError) {
+        throw error;
+      }
+      logger.error('❌ Transcription failed:', error);
+      throw new VoiceTestError(
+        `Local Whisper transcription failed: ${getErrorMessage(error)}`,
+        ErrorCode.STT_TRANSCRIPTION_FAILED,
+        toError(error)
+      );
+    } finally {
+      await fs.unlink(wavPath).catch(() => undefined);
+      await fs.unlink(jsonPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Start streaming transcription session
+   * Implements energy VAD in audio time; transcribes each utterance on speech end
+   */
+  startStreaming(
+    config: StreamingSTTConfig,
+    onResult: (result: StreamingSTTResult) => void,
+    onSpeechStart?: () => void,
+    onSpeechEnd?: () => void,
+    onError?: (error: Error) => void
+  ): StreamingSession {
+    if (!this.isConfigured()) {
+      throw new VoiceTestError(
+        'Local Whisper STT is not configured',
+        ErrorCode.STT_NOT_CONFIGURED
+      );
+    }
+
+    let isActive = true;
+    let speechStarted = false;
+    let voicedFrames = 0;
+    let silenceMs = 0;
+    let pending = Buffer.alloc(0);
+    let preRoll: Buffer[] = [];
+    const utterance: Buffer[] = [];
+
+    const frameBytes =
+      Math.round((config.sampleRate * VAD_FRAME_MS) / 1000) * 2;
+    const preRollFrames = Math.ceil(VAD_PRE_ROLL_MS / VAD_FRAME_MS);
+    const initialWaitTimeout = (config.speechStartTimeout ?? 45) * 1000;
+    const silenceDuration = (config.speechEndTimeout ?? 2) * 1000;
+
+    logger.info('🚀 Starting local Whisper streaming session with energy VAD');
+    logger.info(
+      `📊 Config: ${config.languageCode}, ${config.sampleRate}Hz, ${config.encoding}`
+    );
+
+    let initialWaitTimer: NodeJS.Timeout | null = setTimeout(() => {
+      if (!speechStarted && isActive) {
+        logger.warn('⏰ Initial wait timeout - no speech detected');
+        isActive = false;
+        if (onError) {
+          onError(new Error('No speech detected within timeout period'));
+        }
+      }
+    }, initialWaitTimeout);
+
+    const stopTimers = (): void => {
+      if (initialWaitTimer) {
+        clearTimeout(initialWaitTimer);
+        initialWaitTimer = null;
+      }
+    };
+
+    const finishUtterance = (): void => {
+      isActive = false;
+      stopTimers();
+
+      this.transcribe({
+        audio: Buffer.concat(utterance),
+        encoding: 'LINEAR16',
+        sampleRate: config.sampleRate,
+        languageCode: config.languageCode,
+      })
+        .then((response) => {
+          if (response.transcript) {
+            onResult({
+              transcript: response.transcript,
+              confidence: response.confidence,
+              isFinal: true,
+              words: response.words,
+            });
+          }
+          if (onSpeechEnd) {
+            onSpeechEnd();
+          }
+        })
+        .catch((error: unknown) => {
+          logger.error('❌ Streaming transcription failed:', error);
+          if (onError) {
+            onError(toError(error));
+          }
+        });
+    };
+
+    const processFrame = (frame: Buffer): void => {
+      const voiced = rmsLevel(frame) >= VAD_ENERGY_THRESHOLD;
+
+      if (!speechStarted) {
+        preRoll.push(frame);
+        if (preRoll.length > preRollFrames) {
+          preRoll.shift();
+        }
+        voicedFrames = voiced ? voicedFrames + 1 : 0;
+
+        if (voicedFrames >= VAD_START_FRAMES) {
+          speechStarted = true;
+          stopTimers();
+          utterance.push(...preRoll);
+          preRoll = [];
+          logger.info('🗣️ Speech started');
+          if (onSpeechStart) {
+            onSpeechStart();
+          }
+        }
+        return;
+      }
+
+      utterance.push(frame);
+      silenceMs = voiced ? 0 : silenceMs + VAD_FRAME_MS;
+
+      if (silenceMs >= silenceDuration) {
+        logger.info(
+          `🤫 ${silenceDuration / 1000}s of silence - transcribing utterance`
+        );
+        finishUtterance();
+      } else if (utterance.length * VAD_FRAME_MS >= VAD_MAX_UTTERANCE_MS) {
+        logger.warn(
+          `⏰ No silence after ${VAD_MAX_UTTERANCE_MS / 1000}s - transcribing utterance`
+        );
+        finishUtterance();
+      }
+    };
+
+    logger.info('🎙️ Started local Whisper streaming session');
+
+    return {
+      writeAudio: (chunk: Buffer): void => {
+        if (!isActive) {
+          return;
+        }
+
+        pending = Buffer.concat([pending, chunk]);
+        while (isActive && pending.length >= frameBytes) {
+          processFrame(pending.subarray(0, frameBytes));
+          pending = pending.subarray(frameBytes);
+        }
+      },
+      endStream: (): void => {
+        if (!isActive) {
+          return;
+        }
+        logger.info('🛑 Manually ending local Whisper stream');
+        if (speechStarted) {
+          // Transcribe the utterance so far, even without trailing silence
+          utterance.push(pending);
+          pending = Buffer.alloc(0);
+          finishUtterance();
+        } else {
+          stopTimers();
+          isActive = false;
+        }
+      },
+      isActive: (): boolean => isActive,
+    };
+  }
+
+  /**
+   * Locate the whisper.cpp binary
+   *
+   * @returns Command name on the PATH
+   * @throws {VoiceTestError} If whisper.cpp is not installed
+   *
+   * @private
+   */
+  private async findBinary(): Promise<string> {
+    if (this.binary) {
+      return this.binary;
+    }
+
+    for (const candidate of ['whisper-cli', 'whisper-cpp']) {
+      if (await commandExists(candidate)) {
+        this.binary = candidate;
+        return candidate;
+      }
+    }
+
+    throw new VoiceTestError(
+      'whisper.cpp is not installed (macOS: brew install whisper-cpp, or build from https://github.com/ggerganov/whisper.cpp)',
+      ErrorCode.STT_NOT_CONFIGURED
+    );
+  }
+}
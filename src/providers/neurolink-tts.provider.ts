@@ -0,0 +1,225 @@
+/**
+ * Neurolink TTS Provider
+ *
+ * Text-to-Speech provider backed by Neurolink's `generate()` API.
+ * Implements the TTSProvider interface and is registered as the default
+ * provider under each Neurolink TTS backend name.
+ *
+ * @module providers/neurolink-tts
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * import { NeurolinkTTSProvider } from './providers/neurolink-tts.provider.js';
+ *
+ * const provider = new NeurolinkTTSProvider('google-ai');
+ * await provider.initialize({ apiKey: process.env.GOOGLE_AI_API_KEY });
+ *
+ * const audio = await provider.generate({
+ *   text: 'Hello, world!',
+ *   voice: 'en-US-Neural2-F',
+ *   format: 'mp3'
+ * });
+ * console.log('Generated', audio.size, 'bytes');
+ * ```
+ */
+
+import { NeuroLink } from '@juspay/neurolink';
+import type { GenerateResult } from '@juspay/neurolink';
+import type {
+  TTSProvider,
+  TTSProviderName,
+  TTSRequest,
+  TTSResponse,
+  VoiceInfo,
+} from '../types/tts-provider.types.js';
+import type { TTSOptions, TTSResult } from '../types/index.js';
+import { createComponentLogger } from '../utils/logger.js';
+import { VoiceTestError, ErrorCode } from '../errors/voice-test.errors.js';
+
+const logger = createComponentLogger('NeurolinkTTS');
+
+/**
+ * Neurolink providers that authenticate with Google credentials
+ *
+ * @internal
+ */
+const GOOGLE_PROVIDERS: ReadonlySet<TTSProviderName> = new Set([
+  'google-ai',
+  'vertex',
+]);
+
+/**
+ * Type guard to safely check if audio response is a valid TTSResult.
+ * Validates the presence of required fields: buffer, format, and size.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a valid TTSResult, false otherwise
+ *
+ * @internal
+ */
+function isTTSResult(value: unknown): value is TTSResult {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  return (
+    'buffer' in value &&
+    'format' in value &&
+    'size' in value &&
+    Buffer.isBuffer(value.buffer) &&
+    typeof value.format === 'string' &&
+    typeof value.size === 'number'
+  );
+}
+
+/**
+ * Decoder function to safely extract and validate TTSResult from unknown value.
+ *
+ * @param value - The unknown value to decode
+ * @returns A validated TTSResult object
+ * @throws {Error} If the value doesn't conform to TTSResult interface
+ *
+ * @internal
+ */
+function decodeTTSResult(value: unknown): TTSResult {
+  if (!isTTSResult(value)) {
+    throw new Error(
+      'Invalid TTSResult: missing required fields (buffer, format, size)'
+    );
+  }
+  return value;
+}
+
+/**
+ * Neurolink TTS Provider
+ *
+ * @implements {TTSProvider}
+ */
+export class NeurolinkTTSProvider implements TTSProvider {
+  readonly name: TTSProviderName;
+  private neurolink: NeuroLink | null = null;
+
+  /**
+   * Create a new Neurolink TTS provider
+   *
+   * @param name - Neurolink provider name (e.g. 'google-ai', 'openai')
+   */
+  constructor(name: TTSProviderName = 'google-ai') {
+    this.name = name;
+  }
+
+  /**
+   * Initialize the Neurolink client
+   *
+   * @param config - Provider configuration (`apiKey` is optional)
+   * @throws {VoiceTestError} If Google credentials are required but missing
+   *
+   * @remarks
+   * Priority order for Google authentication:
+   * 1. Service account credentials (GOOGLE_APPLICATION_CREDENTIALS)
+   * 2. `config.apiKey`
+   * 3. Environment variables (GOOGLE_AI_API_KEY, GEMINI_API_KEY)
+   *
+   * Other Neurolink providers read their own credentials from the environment.
+   */
+  async initialize(config: Record<string, unknown>): Promise<void> {
+    if (GOOGLE_PROVIDERS.has(this.name)) {
+      const apiKey = typeof config.apiKey === 'string' ? config.apiKey : '';
+      const resolvedApiKey =
+        process.env.GOOGLE_APPLICATION_CREDENTIALS ||
+        apiKey ||
+        process.env.GOOGLE_AI_API_KEY ||
+        process.env.GEMINI_API_KEY ||
+        '';
+
+      if (!resolvedApiKey) {
+        throw new VoiceTestError(
+          'GOOGLE_APPLICATION_CREDENTIALS, GOOGLE_AI_API_KEY or GEMINI_API_KEY environment variable is required',
+          ErrorCode.MISSING_API_KEY
+        );
+      }
+
+      if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+        logger.info('🔑 Using service account authentication for TTS');
+      }
+    }
+
+    this.neurolink = new NeuroLink();
+    logger.info(`✅ Neurolink TTS provider initialized: ${this.name}`);
+  }
+
+  /**
+   * Generate speech using Neurolink TTS
+   *
+   * @param request - TTS generation request
+   * @returns Generated audio
+   * @throws {VoiceTestError} If the provider is not initialized or returns no audio
+   */
+  async generate(request: TTSRequest): Promise<TTSResponse> {
+    if (!this.neurolink) {
+      throw new VoiceTestError(
+        `TTS provider '${this.name}' is not initialized`,
+        ErrorCode.TTS_NOT_CONFIGURED
+      );
+    }
+
+    const ttsOptions: TTSOptions = {
+      enabled: true,
+      voice: request.voice || undefined,
+      format: request.format || 'mp3',
+      speed: request.speed ?? 1.0,
+      pitch: request.pitch ?? 0.0,
+    };
+
+    const response: GenerateResult = await this.neurolink.generate({
+      input: {
+        text: request.text,
+      },
+      provider: this.name,
+      tts: ttsOptions,
+    });
+
+    if (response.audio === undefined) {
+      throw new VoiceTestError(
+        'No audio response from TTS generation',
+        ErrorCode.NO_AUDIO_RESPONSE
+      );
+    }
+
+    const audio = decodeTTSResult(response.audio);
+
+    return {
+      buffer: audio.buffer,
+      format: audio.format,
+      size: audio.size,
+      duration: audio.duration,
+      metadata: {
+        ...audio.metadata,
+        voice: audio.voice,
+        sampleRate: audio.sampleRate,
+        responseTime: response.responseTime || 0,
+      },
+    };
+  }
+
+  /**
+   * Get available voices
+   *
+   * @param _languageCode - Optional language filter
+   * @returns Empty list (Neurolink does not expose voice listing)
+   */
+  async getVoices(_languageCode?: string): Promise<VoiceInfo[]> {
+    logger.warn('⚠️ Voice listing is not available through Neurolink');
+    return [];
+  }
+
+  /**
+   * Check if the provider is initialized
+   *
+   * @returns True once `initialize()` has completed
+   */
+  isReady(): boolean {
+    return this.neurolink !== null;
+  }
+}
@@ -13,8 +13,12 @@ import type {
   STTProviderName,
 } from '../types/stt-provider.types.js';
 import { GoogleAISTTHandler } from './google-ai-stt.handler.js';
+import { LocalWhisperSTTHandler } from './local-whisper-stt.handler.js';
+import { FixtureSTTHandler } from './fixture-stt.handler.js';
+import { CassetteSTTHandler } from './cassette-stt.handler.js';
 import { VoiceTestError, ErrorCode } from '../errors/voice-test.errors.js';
 import { createComponentLogger } from '../utils/logger.js';
+import { getActiveCassette } from '../utils/cassette.js';
 
 const logger = createComponentLogger('STTHandlerManager');
 
@@ -46,6 +50,10 @@ export class STTHandlerManager {
   static {
     // Register Google AI STT handler by default
     this.registerHandler('google-ai', () => new GoogleAISTTHandler());
+    // Offline whisper.cpp handler (requires WHISPER_MODEL_PATH)
+    this.registerHandler('local-whisper', () => new LocalWhisperSTTHandler());
+    // Scripted results for deterministic tests (requires fixtures)
+    this.registerHandler('fixture', () => new FixtureSTTHandler());
   }
 
   /**
@@ -89,6 +97,35 @@ export class STTHandlerManager {
   static getHandler(
     provider: STTProviderName = this.defaultProvider,
     apiKey?: string
+  ): STTHandler {
+    // Record or replay through the active cassette; replay needs no real handler
+    const cassette = getActiveCassette();
+    if (cassette) {
+      return new CassetteSTTHandler(
+        provider,
+        cassette,
+        cassette.mode === 'record'
+          ? this.resolveHandler(provider, apiKey)
+          : undefined
+      );
+    }
+
+    return this.resolveHandler(provider, apiKey);
+  }
+
+  /**
+   * Get or create a registered STT handler instance
+   *
+   * @param provider - Provider name
+   * @param apiKey - Optional API key
+   * @returns STT handler instance
+   * @throws {VoiceTestError} If provider is not registered
+   *
+   * @private
+   */
+  private static resolveHandler(
+    provider: STTProviderName,
+    apiKey?: string
   ): STTHandler {
     const entry = this.handlers.get(provider);
 
@@ -101,7 +138,7 @@ export class STTHandlerManager {
         logger.warn(
           `⚠️ Provider '${provider}' not found, falling back to '${this.defaultProvider}'`
         );
-        return this.getHandler(this.defaultProvider, apiKey);
+        return this.resolveHandler(this.defaultProvider, apiKey);
       }
 
       throw new VoiceTestError(
@@ -0,0 +1,242 @@
+/**
+ * TTS Provider Manager
+ *
+ * Centralized manager for TTS providers with caching and fallback support.
+ * Provides a clean API for accessing different TTS providers.
+ *
+ * @module providers/tts-provider-manager
+ * @since 1.1.0
+ */
+
+import type {
+  TTSProvider,
+  TTSProviderFactory,
+  TTSProviderName,
+  TTSProviderRegistryEntry,
+} from '../types/tts-provider.types.js';
+import { NeurolinkTTSProvider } from './neurolink-tts.provider.js';
+import { LocalTTSProvider } from './local-tts.provider.js';
+import { FixtureTTSProvider } from './fixture-tts.provider.js';
+import { CassetteTTSProvider } from './cassette-tts.provider.js';
+import { VoiceTestError, ErrorCode } from '../errors/voice-test.errors.js';
+import { createComponentLogger } from '../utils/logger.js';
+import { getActiveCassette } from '../utils/cassette.js';
+
+const logger = createComponentLogger('TTSProviderManager');
+
+/**
+ * TTS Provider registry entry with cached instance
+ */
+interface TTSProviderEntry extends TTSProviderRegistryEntry {
+  singleton?: TTSProvider;
+}
+
+/**
+ * TTS Provider Manager
+ *
+ * Manages TTS provider instances with caching and provider registration.
+ */
+export class TTSProviderManager {
+  private static providers = new Map<TTSProviderName, TTSProviderEntry>();
+  private static defaultProvider: TTSProviderName = 'google-ai';
+
+  /**
+   * Initialize with default providers
+   */
+  static {
+    // Neurolink backends are all served by the same provider class
+    for (const name of [
+      'google-ai',
+      'vertex',
+      'openai',
+      'elevenlabs',
+      'azure',
+    ]) {
+      this.registerProvider(name, () => new NeurolinkTTSProvider(name));
+    }
+
+    // Offline engines
+    this.registerProvider('local-espeak', () => new LocalTTSProvider('espeak'));
+    this.registerProvider('local-piper', () => new LocalTTSProvider('piper'));
+
+    // Canned audio for deterministic tests (requires fixtures)
+    this.registerProvider('fixture', () => new FixtureTTSProvider());
+  }
+
+  /**
+   * Register a new TTS provider
+   *
+   * @param name - Provider name
+   * @param factory - Provider factory function
+   * @param defaultConfig - Configuration merged under the config passed to `getProvider()`
+   *
+   * @example
+   * ```typescript
+   * TTSProviderManager.registerProvider('custom-tts', (config) => new CustomTTSProvider(config));
+   * ```
+   */
+  static registerProvider(
+    name: TTSProviderName,
+    factory: TTSProviderFactory,
+    defaultConfig?: Record<string, unknown>
+  ): void {
+    this.providers.set(name, { factory, defaultConfig });
+    logger.info(`📝 Registered TTS provider: ${name}`);
+  }
+
+  /**
+   * Get or create an initialized TTS provider instance
+   *
+   * @param provider - Provider name (defaults to 'google-ai')
+   * @param config - Optional provider configuration (e.g. `apiKey`)
+   * @returns Initialized TTS provider instance
+   * @throws {VoiceTestError} If provider is not registered or fails to initialize
+   *
+   * @example
+   * ```typescript
+   * const provider = await TTSProviderManager.getProvider('google-ai');
+   * const audio = await provider.generate({
+   *   text: 'Hello!',
+   *   voice: 'en-US-Neural2-F',
+   *   format: 'mp3'
+   * });
+   * ```
+   */
+  static async getProvider(
+    provider: TTSProviderName = this.defaultProvider,
+    config: Record<string, unknown> = {}
+  ): Promise<TTSProvider> {
+    // Record or replay through the active cassette; replay needs no credentials
+    const cassette = getActiveCassette();
+    if (cassette) {
+      return new CassetteTTSProvider(
+        provider,
+        cassette,
+        cassette.mode === 'record'
+          ? await this.resolveProvider(provider, config)
+          : undefined
+      );
+    }
+
+    return this.resolveProvider(provider, config);
+  }
+
+  /**
+   * Get or create an initialized registered TTS provider instance
+   *
+   * @param provider - Provider name
+   * @param config - Provider configuration
+   * @returns Initialized TTS provider instance
+   * @throws {VoiceTestError} If provider is not registered or fails to initialize
+   *
+   * @private
+   */
+  private static async resolveProvider(
+    provider: TTSProviderName,
+    config: Record<string, unknown>
+  ): Promise<TTSProvider> {
+    const entry = this.providers.get(provider);
+
+    if (!entry) {
+      // Try fallback to default provider
+      if (
+        provider !== this.defaultProvider &&
+        this.providers.has(this.defaultProvider)
+      ) {
+        logger.warn(
+          `⚠️ Provider '${provider}' not found, falling back to '${this.defaultProvider}'`
+        );
+        return this.resolveProvider(this.defaultProvider, config);
+      }
+
+      throw new VoiceTestError(
+        `TTS provider '${provider}' is not registered`,
+        ErrorCode.INVALID_PROVIDER
+      );
+    }
+
+    // Return cached singleton if available and ready
+    if (entry.singleton?.isReady()) {
+      return entry.singleton;
+    }
+
+    // Create and initialize new instance
+    const providerConfig = { ...entry.defaultConfig, ...config };
+    const instance = entry.factory(providerConfig);
+    await instance.initialize(providerConfig);
+
+    // Cache as singleton if ready
+    if (instance.isReady()) {
+      entry.singleton = instance;
+    }
+
+    return instance;
+  }
+
+  /**
+   * Check if a provider is registered
+   *
+   * @param provider - Provider name
+   * @returns True if provider is registered
+   */
+  static hasProvider(provider: TTSProviderName): boolean {
+    return this.providers.has(provider);
+  }
+
+  /**
+   * Get list of registered provider names
+   *
+   * @returns Array of registered provider names
+   */
+  static getRegisteredProviders(): TTSProviderName[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Set the default provider
+   *
+   * @param provider - Provider name
+   * @throws {VoiceTestError} If provider is not registered
+   */
+  static setDefaultProvider(provider: TTSProviderName): void {
+    if (!this.providers.has(provider)) {
+      throw new VoiceTestError(
+        `Cannot set default provider: '${provider}' is not registered`,
+        ErrorCode.INVALID_PROVIDER
+      );
+    }
+    this.defaultProvider = provider;
+    logger.info(`✅ Default TTS provider set to: ${provider}`);
+  }
+
+  /**
+   * Get the current default provider name
+   *
+   * @returns Default provider name
+   */
+  static getDefaultProvider(): TTSProviderName {
+    return this.defaultProvider;
+  }
+
+  /**
+   * Clear all provider singletons
+   * Useful for testing or reconfiguration
+   */
+  static async clearCache(): Promise<void> {
+    logger.info('🧹 Clearing TTS provider cache');
+    for (const entry of this.providers.values()) {
+      await entry.singleton?.cleanup?.();
+      entry.singleton = undefined;
+    }
+  }
+
+  /**
+   * Unregister a provider
+   *
+   * @param provider - Provider name
+   */
+  static unregisterProvider(provider: TTSProviderName): void {
+    this.providers.delete(provider);
+    logger.info(`🗑️ Unregistered TTS provider: ${provider}`);
+  }
+}
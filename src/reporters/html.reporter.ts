@@ -0,0 +1,331 @@
+/**
+ * HTML Reporter
+ *
+ * Writes the test result as a single self-contained HTML page for QA review.
+ *
+ * @module reporters/html
+ * @since 1.1.0
+ *
+ * @remarks
+ * Each question gets a card with the prompt, the question and response audio,
+ * the transcript with per-word confidence, the AI analysis, strengths and
+ * improvements, and a timing waterfall. Audio saved with the run is embedded
+ * as data URIs and the stylesheet is inline, so the file can be attached to a
+ * ticket or mailed without the audio directory.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { extname, resolve } from 'path';
+import type {
+  ConversationReportEntry,
+  ReportContext,
+  TestReporter,
+} from '../types/reporter.types.js';
+import type { STTWord } from '../types/stt-provider.types.js';
+import type { QuestionResult, TestResult } from '../types/voice-bot-config.js';
+import { getErrorMessage } from '../errors/voice-test.errors.js';
+import { createComponentLogger } from '../utils/logger.js';
+import {
+  describeAssertions,
+  describeJudges,
+  describeRubric,
+  describeStability,
+  describeTranscriptAccuracy,
+  escapeXml,
+  isErrored,
+  toSeconds,
+} from './report-format.js';
+
+const logger = createComponentLogger('HTMLReporter');
+
+/**
+ * Words below these confidences are highlighted in the transcript
+ *
+ * @internal
+ */
+const LOW_CONFIDENCE = 0.6;
+const MEDIUM_CONFIDENCE = 0.85;
+
+/**
+ * MIME types of embeddable audio, by file extension
+ *
+ * @internal
+ */
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+};
+
+/**
+ * Inline stylesheet so the report needs no other files
+ *
+ * @internal
+ */
+const STYLES = `
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #222; }
+h1 { margin-bottom: 0.25rem; }
+h2 { font-size: 1.1rem; margin: 0; }
+h3 { font-size: 0.85rem; text-transform: uppercase; color: #666; margin: 1rem 0 0.25rem; }
+.meta { color: #666; margin: 0.25rem 0 1rem; }
+.pass { color: #1a7f37; font-weight: bold; }
+.fail { color: #cf222e; font-weight: bold; }
+.card { border: 1px solid #ddd; border-left: 4px solid #cf222e; border-radius: 4px; padding: 1rem; margin-bottom: 1.5rem; }
+.card.passed { border-left-color: #1a7f37; }
+.card header { display: flex; justify-content: space-between; align-items: baseline; }
+audio { display: block; width: 100%; margin-top: 0.25rem; }
+.transcript { line-height: 1.8; }
+.word.mid { background: #fff3c4; }
+.word.low { background: #ffd6d6; }
+.legend { font-size: 0.8rem; color: #666; }
+ul { margin: 0.25rem 0 0; padding-left: 1.25rem; }
+.waterfall { display: grid; grid-template-columns: 8rem 1fr 4.5rem; gap: 0.25rem 0.5rem; align-items: center; font-size: 0.85rem; }
+.track { position: relative; height: 0.9rem; background: #f5f5f5; }
+.bar { position: absolute; top: 0; bottom: 0; min-width: 1px; }
+.bar.play { background: #6f42c1; }
+.bar.listen { background: #0969da; }
+.bar.transcribe { background: #54aeff; }
+.bar.analyze { background: #bf8700; }
+.duration { text-align: right; color: #666; }
+`;
+
+/**
+ * One bar of the timing waterfall
+ *
+ * @internal
+ */
+type WaterfallBar = {
+  label: string;
+  className: string;
+  start: number;
+  duration: number;
+};
+
+/**
+ * HTML Reporter
+ *
+ * @implements {TestReporter}
+ */
+export class HTMLReporter implements TestReporter {
+  readonly name = 'html';
+  readonly fileExtension = 'html';
+
+  /**
+   * Render the test result as an HTML page
+   *
+   * @param testResult - Completed test result
+   * @param context - Conversation report entries for language, voice and background
+   * @returns HTML document
+   */
+  render(testResult: TestResult, context?: ReportContext): string {
+    const { metadata, summary } = testResult;
+    const title = `${metadata.configName} - vokal report`;
+    const cards = testResult.questionResults.map((result, index) =>
+      this.renderCard(result, context?.conversation?.[index])
+    );
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeXml(metadata.configName)}</h1>
+<p class="meta">Executed ${escapeXml(metadata.executedAt)} in ${toSeconds(metadata.totalTime)}s</p>
+<p class="${summary.testPassed ? 'pass' : 'fail'}">${summary.questionsPassed}/${summary.totalQuestions} passed (${summary.passRate.toFixed(1)}%, weighted ${summary.weightedPassRate.toFixed(1)}%): ${summary.testPassed ? 'PASSED' : 'FAILED'}, ${escapeXml(summary.verdict.detail)}</p>
+${summary.sttAccuracy ? `<p class="meta">STT accuracy: WER ${(summary.sttAccuracy.wer * 100).toFixed(1)}%, CER ${(summary.sttAccuracy.cer * 100).toFixed(1)}% over ${summary.sttAccuracy.questions} question(s); misheard: ${escapeXml(summary.sttAccuracy.sttMisheard.join(', ') || 'none')}; misunderstood: ${escapeXml(summary.sttAccuracy.botMisunderstood.join(', ') || 'none')}</p>\n` : ''}<p class="legend">Transcript words are highlighted <span class="word mid">below ${MEDIUM_CONFIDENCE * 100}%</span> and <span class="word low">below ${LOW_CONFIDENCE * 100}%</span> recognition confidence.</p>
+${cards.join('\n')}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Render one question result as a card
+   *
+   * @private
+   */
+  private renderCard(
+    result: QuestionResult,
+    entry?: ConversationReportEntry
+  ): string {
+    const status = result.passed
+      ? 'PASS'
+      : isErrored(result)
+        ? 'ERROR'
+        : 'FAIL';
+    const settings = entry
+      ? `<p class="meta">${[entry.language, entry.voice, entry.background].map(escapeXml).join(' · ')}</p>`
+      : '';
+
+    return `<section class="card${result.passed ? ' passed' : ''}">
+<header><h2>${escapeXml(result.questionId)}</h2><span class="${result.passed ? 'pass' : 'fail'}">${status}</span></header>
+${settings}
+<h3>Question</h3>
+<p>${escapeXml(result.question)}</p>
+${this.renderAudio(result.audio?.question)}
+<h3>Response</h3>
+${this.renderAudio(result.audio?.response)}
+<p class="transcript">${this.renderTranscript(result)}</p>
+<h3>Analysis</h3>
+<p>${escapeXml(result.comparison.analysis)}</p>
+${this.renderList('Transcript accuracy', describeTranscriptAccuracy(result) ?? [])}
+${this.renderList('Assertions', describeAssertions(result) ?? [])}
+${this.renderList('Rubric', describeRubric(result) ?? [])}
+${this.renderList('Judges', describeJudges(result) ?? [])}
+${this.renderList('Strengths', result.comparison.strengths)}
+${this.renderList('Improvements', result.comparison.improvements)}
+${this.renderList('Errors', result.errors ?? [])}
+${this.renderStability(result)}
+<h3>Timing</h3>
+${this.renderWaterfall(result.timing)}
+</section>`;
+  }
+
+  /**
+   * Render an audio player with the file embedded, if it can be read
+   *
+   * @private
+   */
+  private renderAudio(filePath?: string): string {
+    if (!filePath) {
+      return '';
+    }
+
+    const absolutePath = resolve(filePath);
+    if (!existsSync(absolutePath)) {
+      return `<p class="meta">Audio not found: ${escapeXml(filePath)}</p>`;
+    }
+
+    try {
+      const mimeType =
+        AUDIO_MIME_TYPES[extname(absolutePath).toLowerCase()] ?? 'audio/wav';
+      const data = readFileSync(absolutePath).toString('base64');
+      return `<audio controls preload="none" src="data:${mimeType};base64,${data}"></audio>`;
+    } catch (error) {
+      logger.warn(`⚠️ Could not embed ${filePath}: ${getErrorMessage(error)}`);
+      return `<p class="meta">Audio not embedded: ${escapeXml(filePath)}</p>`;
+    }
+  }
+
+  /**
+   * Render the transcript, highlighting words the STT provider was unsure of
+   *
+   * @private
+   */
+  private renderTranscript(result: QuestionResult): string {
+    if (!result.actualResponse) {
+      return '<em>(no response captured)</em>';
+    }
+    if (!result.words || result.words.length === 0) {
+      return escapeXml(result.actualResponse);
+    }
+
+    return result.words
+      .map((word: STTWord) => {
+        const level =
+          word.confidence < LOW_CONFIDENCE
+            ? ' low'
+            : word.confidence < MEDIUM_CONFIDENCE
+              ? ' mid'
+              : '';
+        const title = `${(word.confidence * 100).toFixed(0)}% confidence, ${word.startTime.toFixed(2)}s-${word.endTime.toFixed(2)}s`;
+        return `<span class="word${level}" title="${escapeXml(title)}">${escapeXml(word.word)}</span>`;
+      })
+      .join(' ');
+  }
+
+  /**
+   * Render a titled list, or nothing when it is empty
+   *
+   * @private
+   */
+  private renderList(title: string, items: string[]): string {
+    if (items.length === 0) {
+      return '';
+    }
+    return `<h3>${escapeXml(title)}</h3>
+<ul>${items.map((item) => `<li>${escapeXml(item)}</li>`).join('')}</ul>`;
+  }
+
+  /**
+   * Render the outcome of each repeated run, or nothing for a single run
+   *
+   * @private
+   */
+  private renderStability(result: QuestionResult): string {
+    const summary = describeStability(result);
+    if (!summary || !result.stability) {
+      return '';
+    }
+
+    const runs = result.stability.runResults.map(
+      (run, index) =>
+        `Run ${index + 1}: ${run.passed ? 'PASS' : 'FAIL'} (score ${run.score}) "${run.transcript}"`
+    );
+    return `<h3>Stability</h3>
+<p>${escapeXml(summary)}</p>
+${this.renderList('Runs', runs)}`;
+  }
+
+  /**
+   * Render the question's timing as a waterfall
+   *
+   * @private
+   *
+   * @remarks
+   * Playback and listening run back to back. Streaming transcription overlaps
+   * the end of listening and AI analysis finishes at the question's total time,
+   * so both are drawn ending where they finished.
+   */
+  private renderWaterfall(timing: QuestionResult['timing']): string {
+    const listenEnd = timing.questionPlayTime + timing.recordingTime;
+    const bars: WaterfallBar[] = [
+      {
+        label: 'Question playback',
+        className: 'play',
+        start: 0,
+        duration: timing.questionPlayTime,
+      },
+      {
+        label: 'Listening',
+        className: 'listen',
+        start: timing.questionPlayTime,
+        duration: timing.recordingTime,
+      },
+      {
+        label: 'Transcription',
+        className: 'transcribe',
+        start: Math.max(0, listenEnd - timing.transcriptionTime),
+        duration: timing.transcriptionTime,
+      },
+      {
+        label: 'AI analysis',
+        className: 'analyze',
+        start: Math.max(0, timing.totalTime - timing.analysisTime),
+        duration: timing.analysisTime,
+      },
+    ];
+    const scale = Math.max(
+      timing.totalTime,
+      ...bars.map((bar) => bar.start + bar.duration),
+      1
+    );
+    const percent = (ms: number): string => ((ms / scale) * 100).toFixed(2);
+
+    const rows = bars.map(
+      (bar) =>
+        `<span>${bar.label}</span><div class="track"><div class="bar ${bar.className}" style="left: ${percent(bar.start)}%; width: ${percent(bar.duration)}%"></div></div><span class="duration">${toSeconds(bar.duration)}s</span>`
+    );
+    rows.push(
+      `<strong>Total</strong><span></span><strong class="duration">${toSeconds(timing.totalTime)}s</strong>`
+    );
+
+    return `<div class="waterfall">
+${rows.join('\n')}
+</div>`;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * JSON Reporter
+ *
+ * Writes the complete test result as JSON (the default report).
+ *
+ * @module reporters/json
+ * @since 1.1.0
+ */
+
+import type { TestReporter } from '../types/reporter.types.js';
+import type { TestResult } from '../types/voice-bot-config.js';
+
+/**
+ * JSON Reporter
+ *
+ * @implements {TestReporter}
+ */
+export class JSONReporter implements TestReporter {
+  readonly name = 'json';
+  readonly fileExtension = 'json';
+
+  /**
+   * Render the test result as pretty-printed JSON
+   *
+   * @param testResult - Completed test result
+   * @returns JSON document
+   */
+  render(testResult: TestResult): string {
+    // Pending AI analysis promises are runtime-only
+    return JSON.stringify(
+      testResult,
+      (key, value: unknown) =>
+        key === 'aiAnalysisPromise' ? undefined : value,
+      2
+    );
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * JUnit Reporter
+ *
+ * Writes the test result as JUnit XML for CI servers such as Jenkins and
+ * GitLab.
+ *
+ * @module reporters/junit
+ * @since 1.1.0
+ *
+ * @remarks
+ * Each question result becomes a `<testcase>` whose time is the question's
+ * total time. Failed answers are reported as `<failure>` with the AI analysis
+ * as the message; questions that produced no response because of errors are
+ * reported as `<error>`. Scenario and caller turns get their own class name
+ * (`<suite>.<scenarioId>`, `<suite>.<callerId>`) so CI groups them together.
+ */
+
+import type { TestReporter } from '../types/reporter.types.js';
+import type { QuestionResult, TestResult } from '../types/voice-bot-config.js';
+import {
+  describeFailure,
+  describeStability,
+  escapeXml,
+  isErrored,
+  toSeconds,
+} from './report-format.js';
+
+/**
+ * JUnit Reporter
+ *
+ * @implements {TestReporter}
+ */
+export class JUnitReporter implements TestReporter {
+  readonly name = 'junit';
+  readonly fileExtension = 'xml';
+
+  /**
+   * Render the test result as JUnit XML
+   *
+   * @param testResult - Completed test result
+   * @returns XML document with one test suite
+   */
+  render(testResult: TestResult): string {
+    const suiteName = testResult.metadata.configName;
+    const results = testResult.questionResults;
+    const errors = results.filter((result) => isErrored(result)).length;
+    const failures = results.filter(
+      (result) => !result.passed && !isErrored(result)
+    ).length;
+    const time = toSeconds(testResult.metadata.totalTime);
+    const counts = `tests="${results.length}" failures="${failures}" errors="${errors}" time="${time}"`;
+
+    const properties = [
+      ['passRate', testResult.summary.passRate.toFixed(1)],
+      ['averageScore', testResult.summary.averageScore.toFixed(2)],
+      ['weightedPassRate', testResult.summary.weightedPassRate.toFixed(1)],
+      ['passingThreshold', testResult.summary.passingThreshold.toFixed(1)],
+      ['testPassed', String(testResult.summary.testPassed)],
+      ['verdict', testResult.summary.verdict.detail],
+      ...(testResult.summary.sttAccuracy
+        ? [
+            ['sttWer', testResult.summary.sttAccuracy.wer.toFixed(3)],
+            ['sttCer', testResult.summary.sttAccuracy.cer.toFixed(3)],
+          ]
+        : []),
+      ['aiProvider', testResult.performance.aiMetrics.provider],
+      ['platform', testResult.metadata.environment.platform],
+      ['nodeVersion', testResult.metadata.environment.nodeVersion],
+    ]
+      .map(
+        ([name, value]) =>
+          `      <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`
+      )
+      .join('\n');
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="vokal" ${counts}>`,
+      `  <testsuite name="${escapeXml(suiteName)}" ${counts} timestamp="${escapeXml(testResult.metadata.executedAt.slice(0, 19))}">`,
+      '    <properties>',
+      properties,
+      '    </properties>',
+      ...results.map((result) => this.renderTestCase(suiteName, result)),
+      '  </testsuite>',
+      '</testsuites>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Render one question result as a test case
+   *
+   * @private
+   */
+  private renderTestCase(suiteName: string, result: QuestionResult): string {
+    const group = result.scenarioId ?? result.callerId;
+    const className = group ? `${suiteName}.${group}` : suiteName;
+    const open = `    <testcase classname="${escapeXml(className)}" name="${escapeXml(result.questionId)}" time="${toSeconds(result.timing.totalTime)}">`;
+    const stability = describeStability(result);
+    const output = `      <system-out>${escapeXml(`Question: ${result.question}\nResponse: ${result.actualResponse}${stability ? `\nStability: ${stability}` : ''}`)}</system-out>`;
+
+    if (result.passed) {
+      return [open, output, '    </testcase>'].join('\n');
+    }
+
+    const tag = isErrored(result) ? 'error' : 'failure';
+    const message = isErrored(result)
+      ? (result.errors?.[0] ?? result.comparison.analysis)
+      : result.comparison.analysis;
+
+    return [
+      open,
+      `      <${tag} message="${escapeXml(message)}" type="${tag === 'error' ? 'Error' : 'AssertionError'}">${escapeXml(describeFailure(result))}</${tag}>`,
+      output,
+      '    </testcase>',
+    ].join('\n');
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Report Formatting Helpers
+ *
+ * Shared helpers for the built-in reporters.
+ *
+ * @module reporters/report-format
+ * @since 1.1.0
+ * @internal
+ */
+
+import type { QuestionResult } from '../types/voice-bot-config.js';
+
+/**
+ * Escape text for XML and HTML content and attribute values
+ *
+ * @param text - Raw text
+ * @returns Escaped text with characters invalid in XML 1.0 removed
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Format milliseconds as seconds for report durations
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Seconds with millisecond precision, e.g. "1.234"
+ */
+export function toSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * Whether a result failed for technical reasons rather than on its answer
+ *
+ * @param result - Question result
+ * @returns True if nothing was captured and errors were recorded
+ */
+export function isErrored(result: QuestionResult): boolean {
+  return !result.actualResponse && (result.errors?.length ?? 0) > 0;
+}
+
+/**
+ * Build a human-readable failure description
+ *
+ * @param result - Failed question result
+ * @returns Multi-line text with the exchange, improvements and errors
+ */
+export function describeFailure(result: QuestionResult): string {
+  const lines = [
+    `Question: ${result.question}`,
+    `Response: ${result.actualResponse || '(no response captured)'}`,
+    `Analysis: ${result.comparison.analysis}`,
+  ];
+
+  const assertions = describeAssertions(result);
+  if (assertions) {
+    lines.push('Assertions:');
+    lines.push(...assertions.map((item) => `- ${item}`));
+  }
+  const rubric = describeRubric(result);
+  if (rubric) {
+    lines.push('Rubric:');
+    lines.push(...rubric.map((item) => `- ${item}`));
+  }
+  const judges = describeJudges(result);
+  if (judges) {
+    lines.push('Judges:');
+    lines.push(...judges.map((item) => `- ${item}`));
+  }
+  const accuracy = describeTranscriptAccuracy(result);
+  if (accuracy) {
+    lines.push('Transcript accuracy:');
+    lines.push(...accuracy.map((item) => `- ${item}`));
+  }
+  if (result.comparison.improvements.length > 0) {
+    lines.push('Improvements:');
+    lines.push(...result.comparison.improvements.map((item) => `- ${item}`));
+  }
+  if (result.errors && result.errors.length > 0) {
+    lines.push('Errors:');
+    lines.push(...result.errors.map((error) => `- ${error}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Describe how a repeated question behaved across its runs
+ *
+ * @param result - Question result
+ * @returns One line of pass probability and variance, or undefined when the
+ * question was run once
+ */
+export function describeStability(result: QuestionResult): string | undefined {
+  const stability = result.stability;
+  if (!stability) {
+    return undefined;
+  }
+
+  const flags = [
+    stability.unstableVerdict ? 'unstable verdict' : '',
+    stability.unstableTranscript ? 'unstable transcript' : '',
+  ].filter((flag) => flag.length > 0);
+
+  return `Passed ${stability.passes}/${stability.runs} runs (p=${stability.passProbability.toFixed(2)}), score variance ${stability.scoreVariance.toFixed(3)}, transcript variance ${stability.transcriptVariance.toFixed(3)} over ${stability.distinctTranscripts} distinct transcript(s)${flags.length > 0 ? ` - ${flags.join(', ')}` : ''}`;
+}
+
+/**
+ * Describe a rubric-scored result criterion by criterion
+ *
+ * @param result - Question result
+ * @returns One line per criterion and per expected element, or undefined
+ * without rubric scoring
+ */
+export function describeRubric(result: QuestionResult): string[] | undefined {
+  const rubric = result.comparison.rubric;
+  if (!rubric) {
+    return undefined;
+  }
+
+  return [
+    `Aggregate ${rubric.aggregate.toFixed(2)} (pass at ${rubric.passingScore.toFixed(2)})`,
+    ...rubric.criteria.map(
+      (criterion) =>
+        `${criterion.criterion}: ${criterion.score.toFixed(1)}/${criterion.scale} (weight ${criterion.weight})${criterion.rationale ? ` - ${criterion.rationale}` : ''}`
+    ),
+    ...rubric.elements.map(
+      (element) =>
+        `${element.coverage === 'covered' ? '✓' : element.coverage === 'partial' ? '~' : '✗'} ${element.element}${element.evidence ? `: "${element.evidence}"` : ''}`
+    ),
+  ];
+}
+
+/**
+ * Describe the outcome of each assertion
+ *
+ * @param result - Question result
+ * @returns One line per assertion, or undefined without assertions
+ */
+export function describeAssertions(
+  result: QuestionResult
+): string[] | undefined {
+  if (!result.assertions || result.assertions.length === 0) {
+    return undefined;
+  }
+
+  return result.assertions.map(
+    (assertion) =>
+      `${assertion.passed ? '✓' : '✗'} ${assertion.description}: ${assertion.detail}`
+  );
+}
+
+/**
+ * Describe each judge's verdict in a multi-judge evaluation
+ *
+ * @param result - Question result
+ * @returns The agreement and one line per judge, or undefined with a single
+ * judge
+ */
+export function describeJudges(result: QuestionResult): string[] | undefined {
+  const judges = result.comparison.judges;
+  if (!judges || judges.length === 0) {
+    return undefined;
+  }
+
+  return [
+    `Agreement ${((result.comparison.agreement ?? 0) * 100).toFixed(0)}%`,
+    ...judges.map((judge) =>
+      judge.error
+        ? `! ${judge.judge}: error - ${judge.error}`
+        : `${judge.passed ? '✓' : '✗'} ${judge.judge} (weight ${judge.weight}, confidence ${(judge.confidence * 100).toFixed(0)}%): ${judge.analysis}`
+    ),
+  ];
+}
+
+/**
+ * Describe a transcript's accuracy against the question's reference
+ *
+ * @param result - Question result
+ * @returns The error rates and one line per word error, or undefined without
+ * a reference transcript
+ */
+export function describeTranscriptAccuracy(
+  result: QuestionResult
+): string[] | undefined {
+  const accuracy = result.transcriptAccuracy;
+  if (!accuracy) {
+    return undefined;
+  }
+
+  return [
+    `WER ${(accuracy.wer * 100).toFixed(1)}%, CER ${(accuracy.cer * 100).toFixed(1)}% against "${accuracy.reference}"${accuracy.misheard ? ' - misheard' : ''}`,
+    ...accuracy.alignment
+      .filter((word) => word.op !== 'match')
+      .map((word) => {
+        const at =
+          word.startTime !== undefined
+            ? ` at ${word.startTime.toFixed(2)}s`
+            : '';
+        switch (word.op) {
+          case 'substitution':
+            return `"${word.reference}" heard as "${word.hypothesis}"${at}`;
+          case 'insertion':
+            return `extra "${word.hypothesis}"${at}`;
+          default:
+            return `missing "${word.reference}"`;
+        }
+      }),
+  ];
+}
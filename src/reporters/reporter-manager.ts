@@ -0,0 +1,140 @@
+/**
+ * Reporter Manager
+ *
+ * Registry of test result reporters, selected by name with `--reporter`.
+ *
+ * @module reporters/reporter-manager
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * const paths = ReporterManager.writeReports(testResult, ['json', 'junit'], './vokal-results');
+ * // ['./vokal-results.json', './vokal-results.xml']
+ * ```
+ */
+
+import { writeFileSync } from 'fs';
+import type {
+  ReportContext,
+  ReporterName,
+  TestReporter,
+} from '../types/reporter.types.js';
+import type { TestResult } from '../types/voice-bot-config.js';
+import { JSONReporter } from './json.reporter.js';
+import { JUnitReporter } from './junit.reporter.js';
+import { TAPReporter } from './tap.reporter.js';
+import { HTMLReporter } from './html.reporter.js';
+import {
+  ConfigurationError,
+  ErrorCode,
+  FileSystemError,
+  toError,
+} from '../errors/voice-test.errors.js';
+import { createComponentLogger } from '../utils/logger.js';
+
+const logger = createComponentLogger('ReporterManager');
+
+/**
+ * Reporter Manager
+ *
+ * Holds one instance of each registered reporter.
+ */
+export class ReporterManager {
+  private static reporters = new Map<ReporterName, TestReporter>();
+
+  /**
+   * Initialize with built-in reporters
+   */
+  static {
+    this.registerReporter(new JSONReporter());
+    this.registerReporter(new JUnitReporter());
+    this.registerReporter(new TAPReporter());
+    this.registerReporter(new HTMLReporter());
+  }
+
+  /**
+   * Register a reporter, replacing any reporter with the same name
+   *
+   * @param reporter - Reporter instance
+   *
+   * @example
+   * ```typescript
+   * ReporterManager.registerReporter(new MarkdownReporter());
+   * ```
+   */
+  static registerReporter(reporter: TestReporter): void {
+    this.reporters.set(reporter.name, reporter);
+    logger.debug(`📝 Registered reporter: ${reporter.name}`);
+  }
+
+  /**
+   * Get a registered reporter
+   *
+   * @param name - Reporter name
+   * @returns Reporter instance
+   * @throws {ConfigurationError} If no reporter has this name
+   */
+  static getReporter(name: ReporterName): TestReporter {
+    const reporter = this.reporters.get(name);
+    if (!reporter) {
+      throw new ConfigurationError(
+        `Unknown reporter '${name}'. Available: ${this.getRegisteredReporters().join(', ')}`
+      );
+    }
+    return reporter;
+  }
+
+  /**
+   * Check if a reporter is registered
+   *
+   * @param name - Reporter name
+   * @returns True if registered
+   */
+  static hasReporter(name: ReporterName): boolean {
+    return this.reporters.has(name);
+  }
+
+  /**
+   * Get list of registered reporter names
+   *
+   * @returns Array of reporter names
+   */
+  static getRegisteredReporters(): ReporterName[] {
+    return Array.from(this.reporters.keys());
+  }
+
+  /**
+   * Render and write reports
+   *
+   * @param testResult - Completed test result
+   * @param names - Reporters to run, in order
+   * @param basePath - Output path without extension; each reporter adds its own
+   * @param context - Extra run data passed to every reporter
+   * @returns Paths of the written files, in reporter order
+   * @throws {ConfigurationError} If a reporter is unknown
+   * @throws {FileSystemError} If a report cannot be written
+   */
+  static writeReports(
+    testResult: TestResult,
+    names: ReporterName[],
+    basePath: string,
+    context?: ReportContext
+  ): string[] {
+    // Resolve every reporter first so a typo doesn't leave partial output
+    const reporters = names.map((name) => this.getReporter(name));
+
+    return reporters.map((reporter) => {
+      const filePath = `${basePath}.${reporter.fileExtension}`;
+      try {
+        writeFileSync(filePath, reporter.render(testResult, context));
+      } catch (error) {
+        throw new FileSystemError(
+          `Failed to write ${reporter.name} report to ${filePath}`,
+          ErrorCode.FILE_WRITE_ERROR,
+          toError(error)
+        );
+      }
+      return filePath;
+    });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * TAP Reporter
+ *
+ * Writes the test result in TAP version 13.
+ *
+ * @module reporters/tap
+ * @since 1.1.0
+ *
+ * @remarks
+ * Each question result is one test point. Failed points carry a YAML
+ * diagnostic block with the AI analysis as the message, the exchange and the
+ * question's total time.
+ */
+
+import type { TestReporter } from '../types/reporter.types.js';
+import type { QuestionResult, TestResult } from '../types/voice-bot-config.js';
+import { isErrored } from './report-format.js';
+
+/**
+ * TAP Reporter
+ *
+ * @implements {TestReporter}
+ */
+export class TAPReporter implements TestReporter {
+  readonly name = 'tap';
+  readonly fileExtension = 'tap';
+
+  /**
+   * Render the test result as a TAP stream
+   *
+   * @param testResult - Completed test result
+   * @returns TAP document
+   */
+  render(testResult: TestResult): string {
+    const results = testResult.questionResults;
+    const passed = results.filter((result) => result.passed).length;
+
+    return [
+      'TAP version 13',
+      `# ${testResult.metadata.configName}`,
+      `1..${results.length}`,
+      ...results.map((result, index) => this.renderTestPoint(result, index)),
+      `# tests ${results.length}`,
+      `# pass ${passed}`,
+      `# fail ${results.length - passed}`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Render one question result as a test point
+   *
+   * @private
+   */
+  private renderTestPoint(result: QuestionResult, index: number): string {
+    // '#' would start a directive in the description
+    const description = result.questionId.replace(/#/g, '\\#');
+
+    if (result.passed) {
+      return `ok ${index + 1} - ${description}`;
+    }
+
+    // JSON scalars and arrays are valid YAML flow values
+    const diagnostics: Array<[string, unknown]> = [
+      ['message', result.comparison.analysis],
+      ['severity', isErrored(result) ? 'error' : 'fail'],
+      ['question', result.question],
+      ['response', result.actualResponse],
+      ['improvements', result.comparison.improvements],
+      ['errors', result.errors ?? []],
+      ['duration_ms', result.timing.totalTime],
+    ];
+
+    return [
+      `not ok ${index + 1} - ${description}`,
+      '  ---',
+      ...diagnostics.map(
+        ([key, value]) => `  ${key}: ${JSON.stringify(value)}`
+      ),
+      '  ...',
+    ].join('\n');
+  }
+}
@@ -12,6 +12,8 @@
  * - **Semantic Analysis**: Evaluates meaning, not exact wording
  * - **Intent Matching**: Checks if response fulfills question intent
  * - **Binary Scoring**: Clear pass/fail (0 or 1) evaluation
+ * - **Rubric Scoring**: Optional per-element and per-criterion grades with a
+ *   weighted aggregate (`input.rubric`)
  * - **Detailed Feedback**: Provides strengths and improvement suggestions
  * - **Multiple Providers**: Supports Google AI, Bedrock, Vertex, OpenAI
  *
@@ -42,14 +44,42 @@ import {
   getErrorMessage,
   toError,
 } from '../types/index.js';
+import { ConfigurationError } from '../errors/voice-test.errors.js';
 import { ConsoleLogger } from '../utils/logger.js';
+import { getActiveFixtures } from '../utils/fixtures.js';
+import { getActiveCassette } from '../utils/cassette.js';
+import type { Cassette } from '../utils/cassette.js';
+import {
+  isPassingComparison,
+  resolveRubric,
+  scoreRubric,
+} from '../utils/rubric.js';
 import type {
   AIProvider,
   ComparisonInput,
   ComparisonResult,
+  ElementVerdict,
+  EnsembleSettings,
+  JudgeVerdict,
   ParsedAIResponse,
+  RubricCriterionName,
 } from '../types/index.js';
 
+/**
+ * What the AI is asked for each graded rubric criterion
+ *
+ * @internal
+ */
+const CRITERION_QUESTIONS: Record<
+  Exclude<RubricCriterionName, 'elements'>,
+  string
+> = {
+  intent: "Does the response fulfill the question's intent?",
+  accuracy:
+    'Is the information correct and consistent with the question and context?',
+  politeness: 'Is the tone courteous and appropriate for a phone call?',
+};
+
 /**
  * Parse AI response JSON string safely.
  *
@@ -87,6 +117,77 @@ function parseAIResponse(json: string): ParsedAIResponse {
   };
 }
 
+/**
+ * Read element verdicts and criterion grades from a parsed rubric response.
+ *
+ * @param obj - Parsed AI response object
+ * @param expectedElements - Expected elements of the question, in order
+ * @returns One verdict per expected element and the grades by criterion
+ *
+ * @internal
+ *
+ * @remarks
+ * Verdicts are matched to expected elements by text, falling back to
+ * position. Elements without a usable verdict count as missing.
+ */
+function parseRubricGrades(
+  obj: object,
+  expectedElements: string[]
+): {
+  elements: ElementVerdict[];
+  grades: Partial<
+    Record<RubricCriterionName, { score: number; rationale?: string }>
+  >;
+} {
+  const rawElements: unknown = Reflect.get(obj, 'elements');
+  const entries = (Array.isArray(rawElements) ? rawElements : []).filter(
+    (entry): entry is object => typeof entry === 'object' && entry !== null
+  );
+  const normalize = (text: unknown): string =>
+    String(text ?? '')
+      .trim()
+      .toLowerCase();
+
+  const elements: ElementVerdict[] = expectedElements.map((element, index) => {
+    const entry =
+      entries.find(
+        (candidate) =>
+          normalize(Reflect.get(candidate, 'element')) === normalize(element)
+      ) ?? entries[index];
+    const coverage: unknown = entry && Reflect.get(entry, 'coverage');
+    const evidence: unknown = entry && Reflect.get(entry, 'evidence');
+    return {
+      element,
+      coverage:
+        coverage === 'covered' || coverage === 'partial' ? coverage : 'missing',
+      ...(typeof evidence === 'string' && evidence && { evidence }),
+    };
+  });
+
+  const grades: Partial<
+    Record<RubricCriterionName, { score: number; rationale?: string }>
+  > = {};
+  const rawCriteria: unknown = Reflect.get(obj, 'criteria');
+  if (typeof rawCriteria === 'object' && rawCriteria !== null) {
+    for (const criterion of Object.keys(
+      CRITERION_QUESTIONS
+    ) as RubricCriterionName[]) {
+      const grade: unknown = Reflect.get(rawCriteria, criterion);
+      if (typeof grade === 'number') {
+        grades[criterion] = { score: grade };
+      } else if (typeof grade === 'object' && grade !== null) {
+        const rationale: unknown = Reflect.get(grade, 'rationale');
+        grades[criterion] = {
+          score: Number(Reflect.get(grade, 'score')) || 0,
+          ...(typeof rationale === 'string' && { rationale }),
+        };
+      }
+    }
+  }
+
+  return { elements, grades };
+}
+
 /**
  * AI Comparison Service for evaluating voice bot responses.
  *
@@ -97,15 +198,17 @@ function parseAIResponse(json: string): ParsedAIResponse {
  * Optimized for conversational AI evaluation with semantic understanding.
  */
 export class AIComparisonService {
-  private logger: ConsoleLogger;
+  protected logger: ConsoleLogger;
   private provider: AIProvider;
   private apiKey?: string;
+  private model?: string;
 
   /**
    * Creates a new AIComparisonService instance.
    *
    * @param provider - AI provider to use (default: 'google-ai')
    * @param apiKey - API key for the provider (optional, will use env vars if not provided)
+   * @param model - Model to evaluate with (optional, defaults to the provider's evaluation model)
    *
    * @remarks
    * Supported providers:
@@ -124,10 +227,11 @@ export class AIComparisonService {
    * const service2 = new AIComparisonService('google-ai'); // Uses env var
    * ```
    */
-  constructor(provider: string = 'google-ai', apiKey?: string) {
+  constructor(provider: string = 'google-ai', apiKey?: string, model?: string) {
     this.logger = new ConsoleLogger();
     this.provider = provider as AIProvider;
     this.apiKey = apiKey || this.getApiKeyFromEnv(provider);
+    this.model = model;
     this.logger.info(
       `AI Comparison Service initialized with provider: ${provider}`
     );
@@ -232,14 +336,16 @@ export class AIComparisonService {
       );
 
       // Create detailed prompt for AI comparison
-      const comparisonPrompt = this.buildComparisonPrompt(input);
+      const comparisonPrompt = input.rubric
+        ? this.buildRubricPrompt(input)
+        : this.buildComparisonPrompt(input);
 
       // Prepare Neurolink options - cast provider to match Neurolink's expected type
       const neurolinkOptions = {
         prompt: comparisonPrompt,
         provider: this
           .provider as unknown as import('@juspay/neurolink').AIProviderName,
-        model: this.getOptimalModel(this.provider),
+        model: this.model ?? this.getOptimalModel(this.provider),
         temperature: 0.3,
         maxTokens: 2048,
         timeout: '30s',
@@ -257,7 +363,9 @@ export class AIComparisonService {
       );
 
       // Parse the AI response
-      const analysisResult = this.parseAIResponse(result.content);
+      const analysisResult = input.rubric
+        ? this.parseRubricResponse(result.content, input)
+        : this.parseAIResponse(result.content);
       const processingTime = Date.now() - startTime;
 
       const comparisonResult: ComparisonResult = {
@@ -267,7 +375,7 @@ export class AIComparisonService {
 
       this.logger.info(`✅ AI analysis completed in ${processingTime}ms`);
       this.logger.info(
-        `📊 Score: ${comparisonResult.score} (${comparisonResult.score === 1 ? 'PASS' : 'FAIL'}) | Confidence: ${(comparisonResult.confidence * 100).toFixed(0)}%`
+        `📊 Score: ${comparisonResult.score} (${isPassingComparison(comparisonResult) ? 'PASS' : 'FAIL'}) | Confidence: ${(comparisonResult.confidence * 100).toFixed(0)}%`
       );
 
       return comparisonResult;
@@ -303,27 +411,7 @@ export class AIComparisonService {
     return `
 You are an expert voice bot testing analyst. Evaluate whether the user's response correctly answers the question based on semantic meaning, NOT exact word matching.
 
-**QUESTION ASKED:**
-"${input.originalQuestion}"
-
-**QUESTION INTENT:**
-${input.intent}
-
-**KEY ELEMENTS EXPECTED IN A CORRECT RESPONSE:**
-${input.expectedElements.map((element, index) => `${index + 1}. ${element}`).join('\n')}
-
-**USER'S ACTUAL RESPONSE:**
-"${input.userResponse}"
-
-**CONTEXT:**
-${input.context || 'No additional context provided'}
-
-${
-  input.sampleResponse
-    ? `**SAMPLE RESPONSE (for reference only, NOT for pattern matching):**
-"${input.sampleResponse}"`
-    : ''
-}
+${this.buildPromptContext(input)}
 
 **ANALYSIS TASK:**
 Evaluate whether the user's response successfully addresses the question's intent and contains the expected elements. Focus on SEMANTIC MEANING, not exact wording.
@@ -372,6 +460,109 @@ Example format:
 `;
   }
 
+  /**
+   * Build the prompt for rubric scoring.
+   *
+   * @param input - Comparison input data with rubric settings
+   * @returns Formatted prompt string for AI evaluation
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * Asks for a coverage verdict per expected element and a grade per weighted
+   * criterion on its configured scale. The aggregate is computed locally by
+   * `scoreRubric()`, not by the model.
+   */
+  private buildRubricPrompt(input: ComparisonInput): string {
+    const { criteria } = resolveRubric(input.rubric ?? {});
+    // Element coverage is asked for per element, not graded as a whole
+    const graded = criteria.flatMap(({ criterion, scale }) =>
+      criterion === 'elements' ? [] : [{ criterion, scale }]
+    );
+
+    return `
+You are an expert voice bot testing analyst. Grade the user's response against a rubric based on semantic meaning, NOT exact word matching.
+
+${this.buildPromptContext(input)}
+
+**ANALYSIS TASK:**
+For EACH expected element, decide whether the response covers it ("covered"), covers it only in part ("partial") or not at all ("missing"). Then grade the response on each criterion below, using whole or half points.
+
+**CRITERIA:**
+${graded.map(({ criterion, scale }) => `- **${criterion}** (0 to ${scale}): ${CRITERION_QUESTIONS[criterion]}`).join('\n') || '- (element coverage only)'}
+
+Provide your evaluation in this JSON format:
+
+{
+  "elements": [{"element": "expected element text", "coverage": "covered" | "partial" | "missing", "evidence": "short quote"}],
+  "criteria": {${graded.map(({ criterion }) => `"${criterion}": {"score": number, "rationale": "short reason"}`).join(', ')}},
+  "confidence": number (0.0 to 1.0),
+  "analysis": "detailed analysis text",
+  "strengths": ["strength1", "strength2"],
+  "improvements": ["improvement1", "improvement2"]
+}
+
+**IMPORTANT GUIDELINES:**
+- Focus on MEANING, not exact words or phrases
+- Accept different ways of expressing the same concept
+- Consider natural speech variations and casual language
+- Account for potential transcription errors
+- List the elements in the order given, with their text unchanged
+
+**RESPONSE FORMAT:**
+You MUST respond with ONLY a valid, complete JSON object. Requirements:
+- Keep analysis text SHORT (max 100 characters)
+- Keep evidence and rationale SHORT (max 50 characters each)
+- Keep strengths and improvements arrays SHORT (max 2 items each, max 50 chars per item)
+- NO markdown code blocks
+- NO extra text before or after the JSON
+`;
+  }
+
+  /**
+   * Build the prompt section describing the question and the response.
+   *
+   * @param input - Comparison input data
+   * @returns Conversation history, question, intent, expected elements,
+   * response, context and sample response
+   *
+   * @private
+   * @internal
+   */
+  private buildPromptContext(input: ComparisonInput): string {
+    return `${
+      input.conversationHistory && input.conversationHistory.length > 0
+        ? `**EARLIER IN THIS CONVERSATION:**
+${input.conversationHistory.map((turn, index) => `${index + 1}. Bot: "${turn.question}"\n   User: "${turn.response}"`).join('\n')}
+
+Judge the current response in light of these earlier turns; it may rely on information the user already gave.
+`
+        : ''
+    }
+**QUESTION ASKED:**
+"${input.originalQuestion}"
+
+**QUESTION INTENT:**
+${input.intent}
+
+**KEY ELEMENTS EXPECTED IN A CORRECT RESPONSE:**
+${input.expectedElements.map((element, index) => `${index + 1}. ${element}`).join('\n')}
+
+**USER'S ACTUAL RESPONSE:**
+"${input.userResponse}"
+
+**CONTEXT:**
+${input.context || 'No additional context provided'}
+
+${
+  input.sampleResponse
+    ? `**SAMPLE RESPONSE (for reference only, NOT for pattern matching):**
+"${input.sampleResponse}"`
+    : ''
+}`;
+  }
+
   /**
    * Parse AI response and extract structured data.
    *
@@ -498,6 +689,96 @@ Example format:
     }
   }
 
+  /**
+   * Parse a rubric response and score it.
+   *
+   * @param aiResponse - Raw response string from AI
+   * @param input - Comparison input with the rubric settings
+   * @returns Comparison result with `rubric`; `score` is the aggregate
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * A response that cannot be parsed fails the question with every element
+   * marked missing, rather than falling back to similarity scoring.
+   */
+  private parseRubricResponse(
+    aiResponse: string,
+    input: ComparisonInput
+  ): Omit<ComparisonResult, 'processingTime'> {
+    const settings = input.rubric ?? {};
+    try {
+      const jsonStr = aiResponse
+        .trim()
+        .replace(/```json\s*/g, '')
+        .replace(/```\s*/g, '')
+        .match(/\{[\s\S]*\}/)?.[0];
+      const obj: unknown = jsonStr ? JSON.parse(jsonStr) : undefined;
+      if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+        throw new Error('Invalid AI response: not an object');
+      }
+
+      const { elements, grades } = parseRubricGrades(
+        obj,
+        input.expectedElements
+      );
+      const rubric = scoreRubric(settings, elements, grades);
+      const stringList = (key: string): string[] => {
+        const value: unknown = Reflect.get(obj, key);
+        return Array.isArray(value)
+          ? value.filter((item): item is string => typeof item === 'string')
+          : [];
+      };
+      const analysis: unknown = Reflect.get(obj, 'analysis');
+
+      this.logger.info(
+        `🔍 Rubric: ${rubric.criteria.map((c) => `${c.criterion}=${c.score}/${c.scale}`).join(', ')} -> ${rubric.aggregate.toFixed(2)}`
+      );
+
+      return {
+        isMatch: rubric.passed,
+        confidence: Math.max(
+          0,
+          Math.min(1, Number(Reflect.get(obj, 'confidence')) || 0)
+        ),
+        score: rubric.aggregate,
+        analysis:
+          typeof analysis === 'string' && analysis
+            ? analysis
+            : 'No analysis provided',
+        strengths: stringList('strengths'),
+        improvements: stringList('improvements'),
+        rubric,
+      };
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to parse rubric response: ${getErrorMessage(error)}`
+      );
+      this.logger.error(
+        `❌ Problematic JSON: ${aiResponse.substring(0, 200)}...`
+      );
+
+      const rubric = scoreRubric(
+        settings,
+        input.expectedElements.map((element) => ({
+          element,
+          coverage: 'missing',
+        })),
+        {}
+      );
+      return {
+        isMatch: false,
+        confidence: 0,
+        score: rubric.aggregate,
+        analysis: `Rubric evaluation could not be parsed: ${getErrorMessage(error)}`,
+        strengths: [],
+        improvements: [],
+        rubric,
+      };
+    }
+  }
+
   /**
    * Calculate simple text similarity (fallback method).
    *
@@ -615,8 +896,9 @@ Example format:
    * Create AI comparison service instance.
    * Factory method for convenient instantiation.
    *
-   * @param provider - AI provider to use (default: 'google-ai')
+   * @param provider - AI provider to use (default: 'google-ai'; 'fixture' for scripted results)
    * @param apiKey - API key for the provider (optional)
+   * @param model - Model to evaluate with (optional)
    * @returns A new AIComparisonService instance
    *
    * @example
@@ -627,8 +909,378 @@ Example format:
    */
   static create(
     provider: string = 'google-ai',
-    apiKey?: string
+    apiKey?: string,
+    model?: string
   ): AIComparisonService {
-    return new AIComparisonService(provider, apiKey);
+    const service =
+      provider === 'fixture'
+        ? new FixtureAIComparisonService()
+        : new AIComparisonService(provider, apiKey, model);
+
+    // Record or replay through the active cassette
+    const cassette = getActiveCassette();
+    if (cassette) {
+      return new CassetteAIComparisonService(
+        provider,
+        cassette,
+        service,
+        model
+      );
+    }
+    return service;
+  }
+
+  /**
+   * Create a service that evaluates with several judges and combines their votes.
+   *
+   * @param ensemble - Judges and voting rule
+   * @returns A new EnsembleAIComparisonService instance
+   *
+   * @throws {ConfigurationError} If no judges are given or a weight is not positive
+   *
+   * @example
+   * ```typescript
+   * const service = AIComparisonService.createEnsemble({
+   *   judges: [{ provider: 'google-ai' }, { provider: 'openai' }, { provider: 'bedrock' }],
+   * });
+   * ```
+   */
+  static createEnsemble(ensemble: EnsembleSettings): AIComparisonService {
+    return new EnsembleAIComparisonService(ensemble);
+  }
+}
+
+/**
+ * AI Comparison Service returning scripted results from the active fixture set.
+ *
+ * @class
+ *
+ * @remarks
+ * Selected with `aiProvider: "fixture"`. Each comparison consumes the first
+ * unused `ai` fixture for the question text, else the first unused fixture
+ * without a `question`. Omitted fields default to a confident pass.
+ */
+export class FixtureAIComparisonService extends AIComparisonService {
+  /**
+   * Creates a new FixtureAIComparisonService instance.
+   */
+  constructor() {
+    super('fixture');
+  }
+
+  /**
+   * Return the next scripted comparison result.
+   *
+   * @param input - Comparison input data
+   * @returns Scripted comparison result
+   *
+   * @throws {VoiceTestError} If no fixtures are active or none is left for the question
+   */
+  override async compareResponses(
+    input: ComparisonInput
+  ): Promise<ComparisonResult> {
+    const fixtures = getActiveFixtures();
+    if (!fixtures) {
+      throw new VoiceTestError(
+        'Fixture AI comparison is not configured. Set settings.fixtures or VOKAL_FIXTURES',
+        ErrorCode.AI_COMPARISON_FAILED
+      );
+    }
+
+    const fixture = fixtures.nextComparison(input.originalQuestion);
+    if (!fixture) {
+      throw new VoiceTestError(
+        `No AI fixture left for question: "${input.originalQuestion}"`,
+        ErrorCode.AI_COMPARISON_FAILED
+      );
+    }
+
+    const score =
+      fixture.score ??
+      fixture.rubric?.aggregate ??
+      (fixture.isMatch === false ? 0 : 1);
+    const result: ComparisonResult = {
+      isMatch:
+        fixture.isMatch ??
+        isPassingComparison({ score, rubric: fixture.rubric }),
+      confidence: fixture.confidence ?? 1,
+      analysis: fixture.analysis ?? 'Scripted fixture result',
+      score,
+      strengths: fixture.strengths ?? [],
+      improvements: fixture.improvements ?? [],
+      processingTime: 0,
+      ...(fixture.rubric && { rubric: fixture.rubric }),
+    };
+
+    this.logger.info(
+      `📊 Fixture score: ${result.score} (${isPassingComparison(result) ? 'PASS' : 'FAIL'})`
+    );
+
+    return result;
+  }
+
+  /**
+   * Check that a fixture set is active.
+   *
+   * @returns True if fixtures are available
+   */
+  override async testService(): Promise<boolean> {
+    return getActiveFixtures() !== null;
+  }
+}
+
+/**
+ * AI Comparison Service that records comparisons to, or replays them from, a cassette.
+ *
+ * @class
+ *
+ * @remarks
+ * Returned by `AIComparisonService.create()` while a cassette is active.
+ * Requests are keyed by provider and the full comparison input, so a replayed
+ * run scores the same transcripts exactly as the recorded run did.
+ */
+export class CassetteAIComparisonService extends AIComparisonService {
+  private readonly cassette: Cassette;
+  private readonly inner: AIComparisonService;
+  private readonly providerName: string;
+  private readonly modelName?: string;
+
+  /**
+   * Creates a new CassetteAIComparisonService instance.
+   *
+   * @param provider - AI provider name (part of the request key)
+   * @param cassette - Cassette to record to or replay from
+   * @param inner - Service used for live comparisons in record mode
+   * @param model - Model name (part of the request key when set)
+   */
+  constructor(
+    provider: string,
+    cassette: Cassette,
+    inner: AIComparisonService,
+    model?: string
+  ) {
+    super(provider);
+    this.providerName = provider;
+    this.modelName = model;
+    this.cassette = cassette;
+    this.inner = inner;
+  }
+
+  /**
+   * Compare responses, recording or replaying the result.
+   *
+   * @param input - Comparison input data
+   * @returns Live or replayed comparison result
+   *
+   * @throws {VoiceTestError} If the comparison was never recorded (replay mode)
+   */
+  override async compareResponses(
+    input: ComparisonInput
+  ): Promise<ComparisonResult> {
+    const request = {
+      provider: this.providerName,
+      ...(this.modelName && { model: this.modelName }),
+      ...input,
+    };
+    const key = this.cassette.key('ai', request);
+
+    if (this.cassette.mode === 'replay') {
+      const result = await this.cassette.load<ComparisonResult>('ai', key);
+      this.logger.info(
+        `📼 Replayed score: ${result.score} (${isPassingComparison(result) ? 'PASS' : 'FAIL'})`
+      );
+      return result;
+    }
+
+    const result = await this.inner.compareResponses(input);
+    await this.cassette.save('ai', key, request, result);
+    return result;
+  }
+
+  /**
+   * Test the wrapped service (always true in replay mode).
+   *
+   * @returns True if comparisons can be served
+   */
+  override async testService(): Promise<boolean> {
+    return this.cassette.mode === 'replay' || this.inner.testService();
+  }
+}
+
+/**
+ * AI Comparison Service that asks several judges and combines their verdicts.
+ *
+ * @class
+ *
+ * @remarks
+ * Returned by `AIComparisonService.createEnsemble()` for `settings.ensemble`.
+ * Every judge gets the same input. With `majority` voting each judge has one
+ * vote; with `weighted` voting votes count by judge weight. The response
+ * passes only when the passing votes outweigh the failing ones, so a tie
+ * fails. Judges that error do not vote; the comparison fails only when no
+ * judge answers.
+ *
+ * The combined confidence is the share of the vote behind the verdict times
+ * the mean confidence of the judges that agree with it, so a split panel
+ * reports low confidence. Analysis, strengths and rubric come from the most
+ * confident agreeing judge.
+ */
+export class EnsembleAIComparisonService extends AIComparisonService {
+  private readonly judges: Array<{
+    name: string;
+    weight: number;
+    service: AIComparisonService;
+  }>;
+  private readonly voting: NonNullable<EnsembleSettings['voting']>;
+
+  /**
+   * Creates a new EnsembleAIComparisonService instance.
+   *
+   * @param ensemble - Judges and voting rule
+   *
+   * @throws {ConfigurationError} If no judges are given, a judge has no
+   * provider, a weight is not positive or the voting rule is unknown
+   */
+  constructor(ensemble: EnsembleSettings) {
+    super('ensemble');
+    if (!Array.isArray(ensemble.judges) || ensemble.judges.length === 0) {
+      throw new ConfigurationError('Ensemble needs at least one judge');
+    }
+    this.voting = ensemble.voting ?? 'majority';
+    if (this.voting !== 'majority' && this.voting !== 'weighted') {
+      throw new ConfigurationError(
+        `Unknown ensemble voting "${String(this.voting)}" (expected majority or weighted)`
+      );
+    }
+
+    this.judges = ensemble.judges.map((judge, index) => {
+      const weight = judge.weight ?? 1;
+      if (!judge.provider) {
+        throw new ConfigurationError(
+          `Ensemble judge ${index + 1} has no provider`
+        );
+      }
+      if (typeof weight !== 'number' || !(weight > 0)) {
+        throw new ConfigurationError(
+          `Ensemble judge ${index + 1} needs a positive weight, got ${weight}`
+        );
+      }
+      return {
+        name: judge.model ? `${judge.provider}/${judge.model}` : judge.provider,
+        weight,
+        service: AIComparisonService.create(
+          judge.provider,
+          undefined,
+          judge.model
+        ),
+      };
+    });
+  }
+
+  /**
+   * Ask every judge and combine their verdicts.
+   *
+   * @param input - Comparison input data
+   * @returns Combined result with each judge's verdict and the agreement
+   *
+   * @throws {VoiceTestError} If no judge returned a verdict
+   */
+  override async compareResponses(
+    input: ComparisonInput
+  ): Promise<ComparisonResult> {
+    const startTime = Date.now();
+    this.logger.info(
+      `👥 Asking ${this.judges.length} judges (${this.voting} vote)...`
+    );
+
+    const settled = await Promise.allSettled(
+      this.judges.map((judge) => judge.service.compareResponses(input))
+    );
+
+    const verdicts: JudgeVerdict[] = [];
+    const answered: Array<{ verdict: JudgeVerdict; result: ComparisonResult }> =
+      [];
+    settled.forEach((outcome, index) => {
+      const judge = this.judges[index];
+      const weight = this.voting === 'weighted' ? judge.weight : 1;
+      if (outcome.status === 'rejected') {
+        verdicts.push({
+          judge: judge.name,
+          weight,
+          passed: false,
+          score: 0,
+          confidence: 0,
+          analysis: '',
+          error: getErrorMessage(outcome.reason),
+        });
+        return;
+      }
+      const verdict: JudgeVerdict = {
+        judge: judge.name,
+        weight,
+        passed: isPassingComparison(outcome.value),
+        score: outcome.value.score,
+        confidence: outcome.value.confidence,
+        analysis: outcome.value.analysis,
+      };
+      verdicts.push(verdict);
+      answered.push({ verdict, result: outcome.value });
+    });
+
+    if (answered.length === 0) {
+      throw new VoiceTestError(
+        `All ${this.judges.length} ensemble judges failed: ${verdicts.map((v) => `${v.judge}: ${v.error}`).join('; ')}`,
+        ErrorCode.AI_COMPARISON_FAILED
+      );
+    }
+
+    const totalWeight = answered.reduce((sum, a) => sum + a.verdict.weight, 0);
+    const passWeight = answered
+      .filter((a) => a.verdict.passed)
+      .reduce((sum, a) => sum + a.verdict.weight, 0);
+    const passed = passWeight > totalWeight - passWeight;
+    const agreeing = answered.filter((a) => a.verdict.passed === passed);
+    const agreement =
+      (passed ? passWeight : totalWeight - passWeight) / totalWeight;
+    const meanConfidence =
+      agreeing.reduce((sum, a) => sum + a.verdict.confidence, 0) /
+      agreeing.length;
+    const representative = agreeing.reduce((best, a) =>
+      a.verdict.confidence > best.verdict.confidence ? a : best
+    ).result;
+
+    const result: ComparisonResult = {
+      ...representative,
+      isMatch: passed,
+      confidence: agreement * meanConfidence,
+      score: representative.rubric ? representative.score : passed ? 1 : 0,
+      analysis: `${agreeing.length}/${answered.length} judges ${passed ? 'passed' : 'failed'} the response: ${representative.analysis}`,
+      processingTime: Date.now() - startTime,
+      judges: verdicts,
+      agreement,
+    };
+
+    this.logger.info(
+      `👥 Ensemble verdict: ${passed ? 'PASS' : 'FAIL'} (${(agreement * 100).toFixed(0)}% agreement, ${verdicts.map((v) => `${v.judge}=${v.error ? 'error' : v.passed ? 'pass' : 'fail'}`).join(', ')})`
+    );
+    if (agreement < 1) {
+      this.logger.warn(
+        `⚠️ Judges disagree; confidence lowered to ${(result.confidence * 100).toFixed(0)}%`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Test every judge.
+   *
+   * @returns True if all judges are working
+   */
+  override async testService(): Promise<boolean> {
+    const results = await Promise.all(
+      this.judges.map((judge) => judge.service.testService())
+    );
+    return results.every(Boolean);
   }
 }
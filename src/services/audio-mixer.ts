@@ -33,6 +33,9 @@ import {
   AudioMixer,
   BackgroundSoundPreset,
   AudioMixingConfig,
+  AudioMixResult,
+  SNRMix,
+  WavAudio,
   VoiceTestError,
   getErrorMessage,
   toError,
@@ -46,6 +49,21 @@ const __dirname = dirname(__filename);
 // Find project root - go up from dist/services to project root (2 levels up)
 const projectRoot = resolve(__dirname, '../../');
 
+/**
+ * Frame length, in milliseconds, for measuring the active speech level
+ *
+ * @internal
+ */
+const SPEECH_FRAME_MS = 20;
+
+/**
+ * Frames quieter than the loudest frame by more than this many dB are
+ * treated as pauses and left out of the speech level
+ *
+ * @internal
+ */
+const SPEECH_ACTIVITY_RANGE_DB = 35;
+
 /**
  * Audio Mixer Service for combining speech with background sounds.
  *
@@ -139,6 +157,7 @@ export class AudioMixerService implements AudioMixer {
    * @param speechPath - Path to the speech audio file (WAV format)
    * @param backgroundSound - Name of background sound preset or path to custom audio file
    * @param backgroundVolume - Optional volume level for background (0.0 to 1.0)
+   * @param snrDb - Optional target signal-to-noise ratio in dB; overrides `backgroundVolume`
    * @returns Promise resolving to the path of the mixed audio file
    *
    * @throws {VoiceTestError} If files are not found or mixing fails
@@ -152,6 +171,7 @@ export class AudioMixerService implements AudioMixer {
    * 5. Saves result back to the speech file path (overwrites)
    *
    * If background sound file is not found, returns original speech path unchanged.
+   * Use `mixAudioDetailed()` for the volume applied and the SNR achieved.
    *
    * @example
    * ```typescript
@@ -162,13 +182,53 @@ export class AudioMixerService implements AudioMixer {
    *
    * // Mix with custom file
    * const mixed2 = await mixer.mixAudio('./speech.wav', './custom-bg.wav', 0.3);
+   *
+   * // Mix at 10 dB SNR, whatever the preset's loudness
+   * const mixed3 = await mixer.mixAudio('./speech.wav', 'cafe', undefined, 10);
    * ```
    */
   async mixAudio(
     speechPath: string,
     backgroundSound: string,
-    backgroundVolume?: number
+    backgroundVolume?: number,
+    snrDb?: number
   ): Promise<string> {
+    const result = await this.mixAudioDetailed(speechPath, backgroundSound, {
+      backgroundVolume,
+      snrDb,
+    });
+    return result.filePath;
+  }
+
+  /**
+   * Mix speech audio with a background sound and report the levels used.
+   *
+   * @param speechPath - Path to the speech audio file (WAV format)
+   * @param backgroundSound - Name of background sound preset or path to custom audio file
+   * @param level - Background volume, or target SNR in dB (takes precedence)
+   * @returns Mixed file path with the volume applied and the SNR achieved
+   *
+   * @throws {VoiceTestError} If files are not found, mixing fails, or an SNR is
+   * requested for silent speech or background
+   *
+   * @remarks
+   * With `snrDb`, the background volume is computed from the speech and
+   * background levels (see `mixAtSNR()`), so the same SNR gives the same
+   * noise conditions for presets of very different loudness. Without it, the
+   * volume is `backgroundVolume` or the preset default, as in `mixAudio()`.
+   * Either way, the SNR of the result is measured and reported.
+   *
+   * @example
+   * ```typescript
+   * const result = await mixer.mixAudioDetailed('./speech.wav', 'rain', { snrDb: 5 });
+   * console.log(`SNR ${result.snrDb?.toFixed(1)} dB at volume ${result.backgroundVolume}`);
+   * ```
+   */
+  async mixAudioDetailed(
+    speechPath: string,
+    backgroundSound: string,
+    level: { backgroundVolume?: number; snrDb?: number } = {}
+  ): Promise<AudioMixResult> {
     try {
       // Check if speech file exists
       if (!(await this.fileExists(speechPath))) {
@@ -185,34 +245,31 @@ export class AudioMixerService implements AudioMixer {
 
         // Check if background file actually exists
         if (!(await this.fileExists(backgroundPath))) {
-          return speechPath;
+          return { filePath: speechPath, mixed: false };
         }
       } catch {
-        return speechPath;
+        return { filePath: speechPath, mixed: false };
       }
 
-      // Get optimal mixing configuration
-      const mixConfig = this.getOptimalMixingConfig(
-        '',
-        backgroundSound,
-        backgroundVolume
-      );
-
-      // Load both audio files as PCM data
+      // Load both audio files as PCM data and mix them
       const speechData = await this.loadWavFile(speechPath);
-      const backgroundData = await this.loadWavFile(backgroundPath);
-
-      // Mix the audio samples
-      const mixedData = this.mixAudioSamples(
+      const mix = await this.mixAtLevel(
         speechData,
-        backgroundData,
-        mixConfig
+        backgroundSound,
+        backgroundPath,
+        level
       );
 
       // Save the mixed result back to the original file location (override)
-      await this.saveWavFile(speechPath, mixedData, speechData.sampleRate);
+      await this.saveWavFile(speechPath, mix.mixedData, speechData.sampleRate);
 
-      return speechPath;
+      return {
+        filePath: speechPath,
+        mixed: true,
+        backgroundVolume: mix.backgroundVolume,
+        ...(level.snrDb !== undefined && { targetSnrDb: level.snrDb }),
+        ...(mix.snrDb !== undefined && { snrDb: mix.snrDb }),
+      };
     } catch (error) {
       if (error instanceof VoiceTestError) {
         throw error;
@@ -292,6 +349,165 @@ export class AudioMixerService implements AudioMixer {
     };
   }
 
+  /**
+   * Mix decoded speech with a background sound at a target signal-to-noise ratio.
+   *
+   * @param speech - Decoded speech audio
+   * @param backgroundSound - Name of background sound preset or path to custom audio file
+   * @param snrDb - Target ratio of speech to background level in dB
+   * @returns Mixed PCM with the background gain and the measured SNR
+   *
+   * @throws {VoiceTestError} If the background is not found, or either signal is silent
+   *
+   * @remarks
+   * Unlike `mixAudio()`, nothing is written to disk and a missing background
+   * is an error, since the noise level is the point of the mix.
+   *
+   * The speech level is the RMS of its active frames (pauses more than
+   * 35 dB below the loudest 20 ms frame are ignored), so leading and trailing
+   * silence does not lower it. The background level is the RMS of the
+   * stretch of background under the speech. The background is scaled so
+   * their ratio is `snrDb`; the reported `snrDb` is measured on the mix and
+   * only falls short of the target when soft clipping alters the peaks.
+   *
+   * @example
+   * ```typescript
+   * const speech = await readWavFile('./speech.wav');
+   * const mix = await mixer.mixAtSNR(speech, 'cafe', 10);
+   * console.log(`Mixed at ${mix.snrDb.toFixed(1)} dB SNR`);
+   * ```
+   */
+  async mixAtSNR(
+    speech: WavAudio,
+    backgroundSound: string,
+    snrDb: number
+  ): Promise<SNRMix> {
+    const backgroundPath = await this.resolveBackgroundPath(backgroundSound);
+    if (!(await this.fileExists(backgroundPath))) {
+      throw new VoiceTestError(
+        `Background sound file not found: ${backgroundPath}`,
+        ErrorCode.BACKGROUND_NOT_FOUND
+      );
+    }
+
+    const speechSamples: number[] = [];
+    for (let i = 0; i + 1 < speech.pcm.length; i += 2) {
+      speechSamples.push(speech.pcm.readInt16LE(i));
+    }
+    const mix = await this.mixAtLevel(
+      {
+        samples: speechSamples,
+        sampleRate: speech.sampleRate,
+        channels: 1,
+        bitsPerSample: 16,
+      },
+      backgroundSound,
+      backgroundPath,
+      { snrDb }
+    );
+
+    const pcm = Buffer.alloc(mix.mixedData.samples.length * 2);
+    mix.mixedData.samples.forEach((sample, i) =>
+      pcm.writeInt16LE(sample, i * 2)
+    );
+
+    return {
+      pcm,
+      sampleRate: speech.sampleRate,
+      targetSnrDb: snrDb,
+      snrDb: mix.snrDb!,
+      backgroundVolume: mix.backgroundVolume,
+    };
+  }
+
+  /**
+   * Mix speech with a background at a volume or a target SNR.
+   *
+   * @param speechData - Speech audio data
+   * @param backgroundSound - Name of the background sound (for its mixing config)
+   * @param backgroundPath - Resolved background file path
+   * @param level - Background volume, or target SNR in dB (takes precedence)
+   * @returns Mixed audio, the volume applied, and the measured SNR (absent
+   * when the speech or background is silent)
+   * @throws {VoiceTestError} If an SNR is requested and either signal is silent
+   *
+   * @private
+   * @internal
+   */
+  private async mixAtLevel(
+    speechData: AudioData,
+    backgroundSound: string,
+    backgroundPath: string,
+    level: { backgroundVolume?: number; snrDb?: number }
+  ): Promise<{
+    mixedData: AudioData;
+    backgroundVolume: number;
+    snrDb?: number;
+  }> {
+    const config = this.getOptimalMixingConfig(
+      '',
+      backgroundSound,
+      level.backgroundVolume
+    );
+
+    // Measure the stretch of background that is actually mixed in
+    const loadedBackground = await this.loadWavFile(backgroundPath);
+    const backgroundData: AudioData = {
+      ...loadedBackground,
+      sampleRate: speechData.sampleRate,
+      samples: this.prepareBackgroundSamples(
+        {
+          ...loadedBackground,
+          samples: this.resampleAudio(
+            loadedBackground.samples,
+            loadedBackground.sampleRate,
+            speechData.sampleRate
+          ),
+        },
+        speechData.samples.length,
+        config
+      ),
+    };
+
+    const speechLevel = this.measureSpeechLevel(
+      speechData.samples,
+      speechData.sampleRate
+    );
+    const backgroundLevel = this.measureLevel(backgroundData.samples);
+    if (
+      level.snrDb !== undefined &&
+      (speechLevel === 0 || backgroundLevel === 0)
+    ) {
+      throw new VoiceTestError(
+        `Cannot mix at an SNR: ${speechLevel === 0 ? 'speech' : 'background'} audio is silent`,
+        ErrorCode.INVALID_AUDIO_DATA
+      );
+    }
+
+    const backgroundVolume =
+      level.snrDb !== undefined
+        ? speechLevel / (backgroundLevel * Math.pow(10, level.snrDb / 20))
+        : config.backgroundVolume;
+    const mixedData = this.mixAudioSamples(speechData, backgroundData, {
+      ...config,
+      backgroundVolume,
+    });
+
+    // What was added to the speech, including any clipping
+    const noiseLevel = this.measureLevel(
+      mixedData.samples.map((sample, i) => sample - speechData.samples[i])
+    );
+
+    return {
+      mixedData,
+      backgroundVolume,
+      ...(speechLevel > 0 &&
+        noiseLevel > 0 && {
+          snrDb: 20 * Math.log10(speechLevel / noiseLevel),
+        }),
+    };
+  }
+
   /**
    * Resolve background sound name or path to actual file path.
    *
@@ -441,6 +657,51 @@ export class AudioMixerService implements AudioMixer {
     return 0.12;
   }
 
+  /**
+   * Calculate the RMS level of audio samples.
+   *
+   * @param samples - 16-bit PCM samples
+   * @returns RMS level (0 for no samples)
+   *
+   * @private
+   * @internal
+   */
+  private measureLevel(samples: number[]): number {
+    if (samples.length === 0) {
+      return 0;
+    }
+    const sum = samples.reduce((total, sample) => total + sample * sample, 0);
+    return Math.sqrt(sum / samples.length);
+  }
+
+  /**
+   * Calculate the RMS level of speech, ignoring pauses.
+   *
+   * @param samples - 16-bit PCM speech samples
+   * @param sampleRate - Sample rate in Hz
+   * @returns RMS level over the active frames
+   *
+   * @private
+   * @internal
+   */
+  private measureSpeechLevel(samples: number[], sampleRate: number): number {
+    const frameSize = Math.max(
+      1,
+      Math.round((sampleRate * SPEECH_FRAME_MS) / 1000)
+    );
+    const frames: number[][] = [];
+    for (let i = 0; i < samples.length; i += frameSize) {
+      frames.push(samples.slice(i, i + frameSize));
+    }
+
+    const levels = frames.map((frame) => this.measureLevel(frame));
+    const floor =
+      Math.max(0, ...levels) * Math.pow(10, -SPEECH_ACTIVITY_RANGE_DB / 20);
+    return this.measureLevel(
+      frames.filter((_, i) => levels[i] > 0 && levels[i] >= floor).flat()
+    );
+  }
+
   /**
    * Create assets directory if it doesn't exist.
    *
@@ -15,6 +15,7 @@
  * - Volume level monitoring
  * - Pause/resume capabilities
  * - STT-optimized audio format
+ * - Pluggable audio sources (microphone, file, stdin, tone/silence, TTS loopback)
  *
  * @example
  * ```typescript
@@ -33,7 +34,7 @@
  * ```
  */
 
-import { Readable } from 'stream';
+import { PassThrough } from 'stream';
 import { createComponentLogger } from '../utils/logger.js';
 import {
   RecordingError,
@@ -41,59 +42,41 @@ import {
   getErrorMessage,
   toError,
 } from '../errors/voice-test.errors.js';
-import recorder from 'node-record-lpcm16';
-import type { Recording } from 'node-record-lpcm16';
 import type {
   AudioConfig,
   AudioRecordingSession,
   AudioDevice,
 } from '../types/index.js';
-import { accessSync, constants } from 'fs';
-import { platform } from 'os';
+import type {
+  AudioSource,
+  AudioSourceConfig,
+  AudioSourceStream,
+} from '../types/audio-source.types.js';
+import { FileAudioSource, MicrophoneAudioSource } from './audio-sources.js';
 
 const logger = createComponentLogger('AudioRecording');
 
-function getSecureSoxPath(): string {
-  const soxPaths =
-    platform() === 'darwin'
-      ? ['/usr/local/bin/sox', '/opt/homebrew/bin/sox']
-      : platform() === 'win32'
-        ? ['C:\\Program Files\\sox\\sox.exe', 'C:\\sox\\sox.exe']
-        : ['/usr/bin/sox', '/usr/local/bin/sox'];
-
-  for (const soxPath of soxPaths) {
-    try {
-      accessSync(soxPath, constants.X_OK);
-      logger.info(`✅ Using trusted sox binary: ${soxPath}`);
-      return soxPath;
-    } catch {
-      // continue checking
-    }
-  }
-
-  // 🔒 Fail closed — no fallback
-  throw new RecordingError(
-    'Security error: sox binary not found at trusted locations',
-    ErrorCode.RECORDING_FAILED,
-    new Error(`Checked paths: ${soxPaths.join(', ')}`)
-  );
-}
-
 /**
- * Audio Recording Service for capturing microphone input.
+ * Audio Recording Service for capturing audio input.
  *
  * @class
  *
  * @remarks
- * Uses node-record-lpcm16 which automatically selects the best available
+ * Audio comes from a pluggable {@link AudioSource}. The default is the
+ * microphone via node-record-lpcm16, which selects the best available
  * recording tool for your platform:
  * - macOS: sox
  * - Linux: arecord or sox
  * - Windows: sox
+ *
+ * File, stdin, tone/silence and TTS loopback sources (see
+ * `services/audio-sources`) produce the same session shape, so the voice
+ * pipeline runs unchanged without hardware.
  */
 export class AudioRecordingService {
-  private recording: Recording | null = null;
-  private audioStream: Readable | null = null;
+  private source: AudioSource;
+  private openSource: AudioSourceStream | null = null;
+  private audioStream: PassThrough | null = null;
   private isActive = false;
   private isPaused = false;
   private volumeLevel = 0;
@@ -102,15 +85,30 @@ export class AudioRecordingService {
   /**
    * Creates a new AudioRecordingService instance.
    *
+   * @param source - Audio source to record from (default: microphone)
+   *
    * @example
    * ```typescript
    * const recorder = new AudioRecordingService();
    * const support = await recorder.checkAudioSupport();
    * console.log('Audio supported:', support.supported);
+   *
+   * // Without hardware
+   * const silent = new AudioRecordingService(new SilenceAudioSource());
    * ```
    */
-  constructor() {
-    logger.info('Audio Recording Service initialized (node-record-lpcm16)');
+  constructor(source: AudioSource = new MicrophoneAudioSource()) {
+    this.source = source;
+    logger.info(`Audio Recording Service initialized (source: ${source.type})`);
+  }
+
+  /**
+   * Get the audio source this service records from.
+   *
+   * @returns The configured audio source
+   */
+  getSource(): AudioSource {
+    return this.source;
   }
 
   /**
@@ -189,7 +187,7 @@ export class AudioRecordingService {
    * }, 10000);
    * ```
    */
-  startRecording(
+  async startRecording(
     config: Partial<AudioConfig> = {}
   ): Promise<AudioRecordingSession> {
     const audioConfig: AudioConfig = {
@@ -201,60 +199,115 @@ export class AudioRecordingService {
     };
 
     logger.info(
-      `Starting audio recording: ${audioConfig.sampleRate}Hz, ` +
+      `Starting audio recording (${this.source.type}): ${audioConfig.sampleRate}Hz, ` +
         `${audioConfig.channels}ch, ${audioConfig.bitDepth}bit`
     );
 
+    return this.startSession(this.source, audioConfig);
+  }
+
+  /**
+   * Stream a pre-recorded WAV file as if it were live microphone input.
+   *
+   * @param filePath - Path to a PCM WAV file containing the spoken response
+   * @param options - Streaming options
+   * @param options.chunkMs - Size of each emitted chunk in ms (default: 100)
+   * @param options.trailingSilenceMs - Silence appended after the file so
+   *   voice activity detection can end the utterance (default: 3000)
+   * @returns Promise resolving to an AudioRecordingSession with control methods
+   *
+   * @throws {RecordingError} If the file cannot be read or decoded
+   *
+   * @remarks
+   * One-off shortcut for a {@link FileAudioSource}; the service's configured
+   * source is left untouched. Chunks are emitted in real time, so streaming
+   * STT providers see the same pacing they would get from a microphone. The
+   * session's `sampleRate` reflects the file, which may differ from the rate
+   * requested for live recording.
+   *
+   * @example
+   * ```typescript
+   * const session = await recorder.startFileStream('./responses/greeting.wav');
+   * session.audioStream.on('data', (chunk) => sttSession.writeAudio(chunk));
+   * session.audioStream.on('end', () => console.log('File fully streamed'));
+   * ```
+   */
+  startFileStream(
+    filePath: string,
+    options: Pick<AudioSourceConfig, 'chunkMs' | 'trailingSilenceMs'> = {}
+  ): Promise<AudioRecordingSession> {
+    return this.startSession(new FileAudioSource(filePath, options), {});
+  }
+
+  /**
+   * Open a source and wrap it in an AudioRecordingSession.
+   *
+   * @param source - Audio source to open
+   * @param config - Requested audio format
+   * @returns Promise resolving to the session
+   * @throws {RecordingError} If the source fails to open
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * The session stream is a gate in front of the source: while paused,
+   * sources that support it stop producing, and chunks from sources that
+   * cannot pause (microphone, stdin) are dropped.
+   */
+  private async startSession(
+    source: AudioSource,
+    config: AudioConfig
+  ): Promise<AudioRecordingSession> {
+    if (this.isActive) {
+      this.stopRecording();
+    }
+
+    let opened: AudioSourceStream;
     try {
-      if (this.isActive) {
-        this.stopRecording();
-      }
+      opened = await source.open(config);
+    } catch (error) {
+      throw new RecordingError(
+        `Failed to start audio recording: ${getErrorMessage(error)}`,
+        ErrorCode.RECORDING_FAILED,
+        toError(error)
+      );
+    }
 
-      // Use node-record-lpcm16 which handles cross-platform recording securely
-      this.recording = recorder.record({
-        sampleRateHertz: audioConfig.sampleRate,
-        threshold: 0,
-        verbose: false,
-        recordProgram: getSecureSoxPath(),
-      });
-
-      const recordingStream = this.recording.stream();
-
-      if (!recordingStream || typeof recordingStream.on !== 'function') {
-        return Promise.reject(
-          new RecordingError(
-            'Failed to create audio stream - invalid stream returned',
-            ErrorCode.RECORDING_FAILED,
-            new Error('Recording stream is not a valid Readable stream')
-          )
-        );
+    const output = new PassThrough();
+    opened.stream.on('data', (chunk: Buffer) => {
+      if (!this.isPaused && !output.writableEnded) {
+        output.write(chunk);
       }
+    });
+    opened.stream.on('end', () => {
+      logger.info(`Audio source (${source.type}) finished`);
+      output.end();
+    });
+    opened.stream.on('error', (error: Error) => output.emit('error', error));
 
-      this.audioStream = recordingStream as Readable;
-      this.isActive = true;
-      this.isPaused = false;
+    this.openSource = opened;
+    this.audioStream = output;
+    this.isActive = true;
+    this.isPaused = false;
 
-      this.startVolumeMonitoring();
+    this.startVolumeMonitoring();
 
-      logger.info('Audio recording started successfully');
+    logger.info('Audio recording started successfully');
 
-      return Promise.resolve({
-        audioStream: this.audioStream,
-        stop: () => this.stopRecording(),
-        pause: () => this.pauseRecording(),
-        resume: () => this.resumeRecording(),
-        isRecording: () => this.isActive && !this.isPaused,
-        getVolumeLevel: () => this.volumeLevel,
-      });
-    } catch (error) {
-      return Promise.reject(
-        new RecordingError(
-          `Failed to start audio recording: ${getErrorMessage(error)}`,
-          ErrorCode.RECORDING_FAILED,
-          toError(error)
-        )
-      );
-    }
+    return {
+      filePath: opened.filePath,
+      duration: opened.duration,
+      sampleRate: opened.sampleRate,
+      channels: 1,
+      encoding: 'LINEAR16',
+      audioStream: output,
+      stop: () => this.stopRecording(),
+      pause: () => this.pauseRecording(),
+      resume: () => this.resumeRecording(),
+      isRecording: () => this.isActive && !this.isPaused,
+      getVolumeLevel: () => this.volumeLevel,
+    };
   }
 
   /**
@@ -281,11 +334,15 @@ export class AudioRecordingService {
         this.volumeMonitorInterval = null;
       }
 
-      if (this.recording) {
-        this.recording.stop();
+      if (this.openSource) {
+        this.openSource.close();
+      }
+
+      if (this.audioStream && !this.audioStream.writableEnded) {
+        this.audioStream.end();
       }
 
-      this.recording = null;
+      this.openSource = null;
       this.audioStream = null;
       this.isActive = false;
       this.isPaused = false;
@@ -318,6 +375,7 @@ export class AudioRecordingService {
     }
 
     this.isPaused = true;
+    this.openSource?.pause?.();
     logger.info('Audio recording paused');
   }
 
@@ -340,6 +398,7 @@ export class AudioRecordingService {
     }
 
     this.isPaused = false;
+    this.openSource?.resume?.();
     logger.info('Audio recording resumed');
   }
 
@@ -479,6 +538,7 @@ export class AudioRecordingService {
    * Create audio recording service instance.
    * Factory method for convenient instantiation.
    *
+   * @param source - Audio source to record from (default: microphone)
    * @returns A new AudioRecordingService instance
    *
    * @example
@@ -487,7 +547,7 @@ export class AudioRecordingService {
    * const session = await recorder.startRecording();
    * ```
    */
-  static create(): AudioRecordingService {
-    return new AudioRecordingService();
+  static create(source?: AudioSource): AudioRecordingService {
+    return new AudioRecordingService(source);
   }
 }
@@ -0,0 +1,604 @@
+/**
+ * Audio Sources
+ *
+ * Pluggable PCM inputs for AudioRecordingService: live microphone, WAV or raw
+ * PCM files, stdin pipes, generated tones/silence and a loopback of TTS output.
+ * Every source emits 16-bit mono LINEAR16 chunks so the rest of the voice
+ * pipeline (volume monitoring, STT streaming) is identical regardless of input.
+ *
+ * @module services/audio-sources
+ * @since 1.1.0
+ *
+ * @remarks
+ * Finite and generated sources are *paced*: they emit one chunk per
+ * `chunkMs` of audio in real time, so streaming STT providers and VAD timers
+ * behave exactly as they would with a microphone.
+ *
+ * @example
+ * ```typescript
+ * const recorder = new AudioRecordingService(
+ *   createAudioSource({ type: 'file', path: './answer.wav' })
+ * );
+ * const session = await recorder.startRecording();
+ * session.audioStream.on('data', (chunk) => sttSession.writeAudio(chunk));
+ *
+ * // Loopback: feed synthesized speech straight back into the pipeline
+ * const loopback = new LoopbackAudioSource();
+ * await loopback.feed('./vokal-output.wav');
+ * ```
+ */
+
+import { PassThrough, Readable } from 'stream';
+import { accessSync, constants, promises as fs } from 'fs';
+import { platform } from 'os';
+import recorder from 'node-record-lpcm16';
+import { createComponentLogger } from '../utils/logger.js';
+import { parseWav, readWavFile, resamplePcm16 } from '../utils/wav.js';
+import {
+  RecordingError,
+  FileSystemError,
+  ConfigurationError,
+  ErrorCode,
+  toError,
+} from '../errors/voice-test.errors.js';
+import type { AudioConfig } from '../types/audio.types.js';
+import type {
+  AudioSource,
+  AudioSourceConfig,
+  AudioSourceStream,
+  AudioSourceType,
+} from '../types/audio-source.types.js';
+
+const logger = createComponentLogger('AudioSources');
+
+/**
+ * Default chunk size for paced sources (ms).
+ *
+ * @constant
+ * @internal
+ */
+const DEFAULT_CHUNK_MS = 100;
+
+/**
+ * Locate a trusted sox binary for microphone capture.
+ *
+ * @returns Absolute path to sox
+ * @throws {RecordingError} If sox is not installed at a trusted location
+ *
+ * @private
+ * @internal
+ */
+function getSecureSoxPath(): string {
+  const soxPaths =
+    platform() === 'darwin'
+      ? ['/usr/local/bin/sox', '/opt/homebrew/bin/sox']
+      : platform() === 'win32'
+        ? ['C:\\Program Files\\sox\\sox.exe', 'C:\\sox\\sox.exe']
+        : ['/usr/bin/sox', '/usr/local/bin/sox'];
+
+  for (const soxPath of soxPaths) {
+    try {
+      accessSync(soxPath, constants.X_OK);
+      logger.info(`✅ Using trusted sox binary: ${soxPath}`);
+      return soxPath;
+    } catch {
+      // continue checking
+    }
+  }
+
+  // 🔒 Fail closed — no fallback
+  throw new RecordingError(
+    'Security error: sox binary not found at trusted locations',
+    ErrorCode.RECORDING_FAILED,
+    new Error(`Checked paths: ${soxPaths.join(', ')}`)
+  );
+}
+
+/**
+ * Emits PCM chunks in real time from a chunk producer.
+ *
+ * @private
+ * @internal
+ */
+class PacedPcmStream {
+  readonly stream = new Readable({ read: () => undefined });
+  private timer: NodeJS.Timeout | null;
+  private paused = false;
+
+  /**
+   * @param nextChunk - Returns the next chunk, or null when the source is exhausted
+   * @param chunkMs - Interval between chunks in ms
+   */
+  constructor(
+    private readonly nextChunk: () => Buffer | null,
+    chunkMs: number
+  ) {
+    this.timer = setInterval(() => this.tick(), chunkMs);
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  close(): void {
+    if (!this.timer) {
+      return;
+    }
+    clearInterval(this.timer);
+    this.timer = null;
+    this.stream.push(null);
+  }
+
+  private tick(): void {
+    if (this.paused) {
+      return;
+    }
+
+    const chunk = this.nextChunk();
+    if (chunk === null) {
+      this.close();
+      return;
+    }
+
+    this.stream.push(chunk);
+  }
+}
+
+/**
+ * Number of bytes of 16-bit mono PCM in `ms` milliseconds (always even).
+ *
+ * @private
+ * @internal
+ */
+function pcmBytes(sampleRate: number, ms: number): number {
+  return Math.round((sampleRate * 2 * ms) / 1000) & ~1;
+}
+
+/**
+ * Live microphone input via node-record-lpcm16 and a trusted sox binary.
+ *
+ * @class
+ * @implements {AudioSource}
+ */
+export class MicrophoneAudioSource implements AudioSource {
+  readonly type: AudioSourceType = 'microphone';
+
+  /**
+   * Start recording from the system default microphone.
+   *
+   * @param config - Requested audio format
+   * @returns Opened PCM stream
+   * @throws {RecordingError} If sox is unavailable or the recorder fails
+   */
+  open(config: AudioConfig): Promise<AudioSourceStream> {
+    const sampleRate = config.sampleRate ?? 16000;
+
+    const recording = recorder.record({
+      sampleRateHertz: sampleRate,
+      threshold: 0,
+      verbose: false,
+      recordProgram: getSecureSoxPath(),
+    });
+
+    const stream = recording.stream();
+
+    if (!stream || typeof stream.on !== 'function') {
+      return Promise.reject(
+        new RecordingError(
+          'Failed to create audio stream - invalid stream returned',
+          ErrorCode.RECORDING_FAILED,
+          new Error('Recording stream is not a valid Readable stream')
+        )
+      );
+    }
+
+    return Promise.resolve({
+      stream,
+      sampleRate,
+      close: () => recording.stop(),
+    });
+  }
+}
+
+/**
+ * Pre-recorded WAV or raw LINEAR16 file, streamed in real time.
+ *
+ * @class
+ * @implements {AudioSource}
+ *
+ * @remarks
+ * WAV files are decoded and downmixed to 16-bit mono; raw files must already
+ * be 16-bit mono little-endian PCM at `sampleRate` (default: the requested
+ * rate). Trailing silence (default 3s) is appended so voice activity
+ * detection can end the utterance naturally.
+ */
+export class FileAudioSource implements AudioSource {
+  readonly type: AudioSourceType = 'file';
+
+  /**
+   * @param filePath - Path to the audio file
+   * @param options - Format, pacing and trailing silence options
+   */
+  constructor(
+    private readonly filePath: string,
+    private readonly options: Omit<AudioSourceConfig, 'type' | 'path'> = {}
+  ) {}
+
+  /**
+   * Load the file and start emitting its PCM.
+   *
+   * @param config - Requested audio format (used for raw input rate)
+   * @returns Opened PCM stream with pause/resume hooks
+   * @throws {FileSystemError} If the file cannot be read
+   * @throws {AudioProcessingError} If a WAV file cannot be decoded
+   */
+  async open(config: AudioConfig): Promise<AudioSourceStream> {
+    const format =
+      this.options.format ??
+      (this.filePath.toLowerCase().endsWith('.wav') ? 'wav' : 'raw');
+
+    let pcm: Buffer;
+    let sampleRate: number;
+
+    if (format === 'wav') {
+      const audio = await readWavFile(this.filePath);
+      pcm = audio.pcm;
+      sampleRate = audio.sampleRate;
+    } else {
+      try {
+        pcm = await fs.readFile(this.filePath);
+      } catch (error) {
+        throw new FileSystemError(
+          `Failed to read audio file: ${this.filePath}`,
+          ErrorCode.FILE_READ_ERROR,
+          toError(error)
+        );
+      }
+      sampleRate = this.options.sampleRate ?? config.sampleRate ?? 16000;
+    }
+
+    const chunkMs = this.options.chunkMs ?? DEFAULT_CHUNK_MS;
+    const chunkBytes = Math.max(2, pcmBytes(sampleRate, chunkMs));
+    const duration = (pcm.length / 2 / sampleRate) * 1000;
+    const padded = Buffer.concat([
+      pcm,
+      Buffer.alloc(
+        pcmBytes(sampleRate, this.options.trailingSilenceMs ?? 3000)
+      ),
+    ]);
+
+    logger.info(
+      `Streaming audio file: ${this.filePath} ` +
+        `(${sampleRate}Hz, ${(duration / 1000).toFixed(1)}s)`
+    );
+
+    let position = 0;
+    const paced = new PacedPcmStream(() => {
+      if (position >= padded.length) {
+        return null;
+      }
+      const chunk = padded.subarray(position, position + chunkBytes);
+      position += chunkBytes;
+      return chunk;
+    }, chunkMs);
+
+    return {
+      stream: paced.stream,
+      sampleRate,
+      filePath: this.filePath,
+      duration,
+      pause: () => paced.pause(),
+      resume: () => paced.resume(),
+      close: () => paced.close(),
+    };
+  }
+}
+
+/**
+ * Raw LINEAR16 PCM piped in on stdin (or any readable stream).
+ *
+ * @class
+ * @implements {AudioSource}
+ *
+ * @remarks
+ * Input must be 16-bit mono little-endian PCM, for example:
+ * `sox answer.wav -t raw -r 16000 -e signed -b 16 -c 1 - | vokal ...`.
+ * The input is not paced; it arrives as fast as the producer writes it.
+ * Closing the source detaches from the input without closing it.
+ */
+export class StdinAudioSource implements AudioSource {
+  readonly type: AudioSourceType = 'stdin';
+
+  /**
+   * @param options - Input sample rate (default: the requested rate)
+   * @param input - Stream to read from (default: process.stdin)
+   */
+  constructor(
+    private readonly options: Pick<AudioSourceConfig, 'sampleRate'> = {},
+    private readonly input: NodeJS.ReadableStream = process.stdin
+  ) {}
+
+  /**
+   * Attach to the input stream.
+   *
+   * @param config - Requested audio format
+   * @returns Opened PCM stream
+   */
+  open(config: AudioConfig): Promise<AudioSourceStream> {
+    const output = new PassThrough();
+    this.input.pipe(output);
+
+    return Promise.resolve({
+      stream: output,
+      sampleRate: this.options.sampleRate ?? config.sampleRate ?? 16000,
+      close: () => {
+        this.input.unpipe(output);
+        output.end();
+      },
+    });
+  }
+}
+
+/**
+ * Generated sine tone, useful for exercising the pipeline without speech.
+ *
+ * @class
+ * @implements {AudioSource}
+ *
+ * @remarks
+ * Runs until closed, or for `durationMs` when set. An amplitude of 0 produces
+ * digital silence (see {@link SilenceAudioSource}).
+ */
+export class ToneAudioSource implements AudioSource {
+  readonly type: AudioSourceType = 'tone';
+
+  /**
+   * @param options - Frequency, amplitude, sample rate and duration
+   */
+  constructor(
+    protected readonly options: Omit<AudioSourceConfig, 'type' | 'path'> = {}
+  ) {}
+
+  /**
+   * Start generating audio.
+   *
+   * @param config - Requested audio format
+   * @returns Opened PCM stream with pause/resume hooks
+   */
+  open(config: AudioConfig): Promise<AudioSourceStream> {
+    const sampleRate = this.options.sampleRate ?? config.sampleRate ?? 16000;
+    const frequency = this.options.frequency ?? 440;
+    const amplitude = Math.max(0, Math.min(1, this.options.amplitude ?? 0.3));
+    const chunkMs = this.options.chunkMs ?? DEFAULT_CHUNK_MS;
+    const samplesPerChunk = Math.max(
+      1,
+      Math.round((sampleRate * chunkMs) / 1000)
+    );
+    const totalSamples =
+      this.options.durationMs !== undefined
+        ? Math.round((sampleRate * this.options.durationMs) / 1000)
+        : Infinity;
+
+    let sampleIndex = 0;
+    const paced = new PacedPcmStream(() => {
+      if (sampleIndex >= totalSamples) {
+        return null;
+      }
+
+      const count = Math.min(samplesPerChunk, totalSamples - sampleIndex);
+      const chunk = Buffer.alloc(count * 2);
+
+      if (amplitude > 0) {
+        for (let i = 0; i < count; i++) {
+          const t = (sampleIndex + i) / sampleRate;
+          chunk.writeInt16LE(
+            Math.round(
+              Math.sin(2 * Math.PI * frequency * t) * amplitude * 32767
+            ),
+            i * 2
+          );
+        }
+      }
+
+      sampleIndex += count;
+      return chunk;
+    }, chunkMs);
+
+    return Promise.resolve({
+      stream: paced.stream,
+      sampleRate,
+      duration: Number.isFinite(totalSamples)
+        ? (totalSamples / sampleRate) * 1000
+        : undefined,
+      pause: () => paced.pause(),
+      resume: () => paced.resume(),
+      close: () => paced.close(),
+    });
+  }
+}
+
+/**
+ * Digital silence, e.g. to drive scripted STT providers without hardware.
+ *
+ * @class
+ * @extends {ToneAudioSource}
+ */
+export class SilenceAudioSource extends ToneAudioSource {
+  readonly type: AudioSourceType = 'silence';
+
+  /**
+   * @param options - Sample rate and optional duration
+   */
+  constructor(
+    options: Pick<
+      AudioSourceConfig,
+      'sampleRate' | 'durationMs' | 'chunkMs'
+    > = {}
+  ) {
+    super({ ...options, amplitude: 0 });
+  }
+}
+
+/**
+ * Loopback of synthesized speech back into the pipeline.
+ *
+ * @class
+ * @implements {AudioSource}
+ *
+ * @remarks
+ * Behaves like a live line: while open it emits queued audio in real time and
+ * silence whenever the queue is empty. Audio fed at a different sample rate is
+ * resampled to the line rate. Feeding is allowed before or after `open()`.
+ *
+ * @example
+ * ```typescript
+ * const loopback = new LoopbackAudioSource();
+ * const speechPath = await voiceTest.generateSpeech({ ...input, audioEncoding: 'WAV' });
+ * await loopback.feed(speechPath);
+ * const session = await new AudioRecordingService(loopback).startRecording();
+ * ```
+ */
+export class LoopbackAudioSource implements AudioSource {
+  readonly type: AudioSourceType = 'loopback';
+  private queue: Array<{ pcm: Buffer; sampleRate: number }> = [];
+  private lineRate: number | null = null;
+
+  /**
+   * @param options - Line sample rate and chunk size
+   */
+  constructor(
+    private readonly options: Pick<
+      AudioSourceConfig,
+      'sampleRate' | 'chunkMs'
+    > = {}
+  ) {}
+
+  /**
+   * Queue WAV audio for playback into the line.
+   *
+   * @param audio - WAV file path or WAV file contents
+   * @returns Promise that resolves once the audio is queued
+   * @throws {AudioProcessingError} If the audio is not a PCM WAV
+   */
+  async feed(audio: string | Buffer): Promise<void> {
+    const decoded =
+      typeof audio === 'string' ? await readWavFile(audio) : parseWav(audio);
+
+    this.queue.push({ pcm: decoded.pcm, sampleRate: decoded.sampleRate });
+    logger.debug(
+      `Loopback queued ${(decoded.durationMs / 1000).toFixed(1)}s of audio`
+    );
+  }
+
+  /**
+   * Number of queued (not yet emitted) audio clips.
+   *
+   * @returns Pending clip count
+   */
+  pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Open the line.
+   *
+   * @param config - Requested audio format
+   * @returns Opened PCM stream with pause/resume hooks
+   */
+  open(config: AudioConfig): Promise<AudioSourceStream> {
+    const sampleRate =
+      this.options.sampleRate ??
+      config.sampleRate ??
+      this.queue[0]?.sampleRate ??
+      16000;
+    const chunkMs = this.options.chunkMs ?? DEFAULT_CHUNK_MS;
+    const chunkBytes = Math.max(2, pcmBytes(sampleRate, chunkMs));
+    this.lineRate = sampleRate;
+
+    let current: Buffer | null = null;
+    let position = 0;
+
+    const paced = new PacedPcmStream(() => {
+      const chunk = Buffer.alloc(chunkBytes);
+      let filled = 0;
+
+      while (filled < chunkBytes) {
+        if (!current || position >= current.length) {
+          const next = this.queue.shift();
+          if (!next) {
+            break;
+          }
+          current = resamplePcm16(next.pcm, next.sampleRate, sampleRate);
+          position = 0;
+        }
+
+        const copied = current.copy(chunk, filled, position);
+        filled += copied;
+        position += copied;
+      }
+
+      return chunk;
+    }, chunkMs);
+
+    return Promise.resolve({
+      stream: paced.stream,
+      sampleRate,
+      pause: () => paced.pause(),
+      resume: () => paced.resume(),
+      close: () => {
+        paced.close();
+        this.lineRate = null;
+      },
+    });
+  }
+
+  /**
+   * Sample rate of the open line, or null when closed.
+   *
+   * @returns Line sample rate in Hz
+   */
+  getLineRate(): number | null {
+    return this.lineRate;
+  }
+}
+
+/**
+ * Create an audio source from declarative configuration.
+ *
+ * @param config - Source configuration (e.g. `settings.audioSource`)
+ * @returns Audio source instance
+ * @throws {ConfigurationError} If the type is unknown or a file source has no path
+ *
+ * @example
+ * ```typescript
+ * const source = createAudioSource({ type: 'tone', frequency: 300, durationMs: 2000 });
+ * const recorder = new AudioRecordingService(source);
+ * ```
+ */
+export function createAudioSource(config: AudioSourceConfig): AudioSource {
+  switch (config.type) {
+    case 'microphone':
+      return new MicrophoneAudioSource();
+    case 'file':
+      if (!config.path) {
+        throw new ConfigurationError('File audio source requires a "path"');
+      }
+      return new FileAudioSource(config.path, config);
+    case 'stdin':
+      return new StdinAudioSource(config);
+    case 'tone':
+      return new ToneAudioSource(config);
+    case 'silence':
+      return new SilenceAudioSource(config);
+    case 'loopback':
+      return new LoopbackAudioSource(config);
+    default:
+      throw new ConfigurationError(
+        `Unknown audio source type: ${String((config as { type: unknown }).type)}`
+      );
+  }
+}
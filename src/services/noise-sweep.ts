@@ -0,0 +1,345 @@
+/**
+ * Noise Sweep Service
+ *
+ * Transcribes speech mixed with background presets at a grid of
+ * signal-to-noise ratios, to find where STT breaks down, for
+ * `vokal noise-sweep`.
+ *
+ * @module services/noise-sweep
+ * @since 1.1.0
+ *
+ * @remarks
+ * Samples are WAV files with a reference transcript: recorded bot answers
+ * from a benchmark folder, or a synthesized phrase. Each one is transcribed
+ * clean for a baseline, then once per preset and SNR level, mixed in memory
+ * with `AudioMixerService.mixAtSNR()`. The report has one WER-against-SNR
+ * curve per preset and the noise level at which WER first exceeds
+ * `maxWer`.
+ *
+ * @example
+ * ```typescript
+ * const sweep = new NoiseSweepService({ sttProvider: 'google-ai' });
+ * const samples = loadSTTBenchSamples('./answers', 'en-US');
+ * const report = await sweep.run(samples, ['cafe', 'rain'], [20, 10, 5, 0]);
+ * report.curves.forEach((curve) =>
+ *   console.log(curve.preset, curve.breakdownSnrDb)
+ * );
+ * ```
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { basename, extname, join, resolve } from 'path';
+import { AudioMixerService } from './audio-mixer.js';
+import { STTHandlerManager } from '../providers/stt-handler-manager.js';
+import { ConsoleLogger } from '../utils/logger.js';
+import {
+  STT_MISHEARD_WER_THRESHOLD,
+  measureTranscriptAccuracy,
+} from '../utils/transcript-accuracy.js';
+import { normalizeWords } from '../utils/stability.js';
+import { encodeWav, readWavFile } from '../utils/wav.js';
+import {
+  ConfigurationError,
+  getErrorMessage,
+} from '../errors/voice-test.errors.js';
+import type { STTHandler } from '../types/stt-provider.types.js';
+import type { WavAudio } from '../types/audio.types.js';
+import type { STTBenchSample } from '../types/stt-bench.types.js';
+import type {
+  NoiseSweepCurve,
+  NoiseSweepOptions,
+  NoiseSweepPoint,
+  NoiseSweepReport,
+  NoiseSweepResult,
+  NoiseSweepSkipped,
+} from '../types/noise-sweep.types.js';
+
+/**
+ * Default SNR levels in dB, from barely audible noise to noise as loud as
+ * the speech
+ */
+export const DEFAULT_SWEEP_SNR_LEVELS = [20, 15, 10, 5, 0];
+
+/**
+ * Noise Sweep Service class.
+ *
+ * @class
+ *
+ * @remarks
+ * Transcriptions run one at a time so they do not compete for the STT
+ * provider's rate limit.
+ */
+export class NoiseSweepService {
+  private readonly sttProvider: string;
+  private readonly outputDir?: string;
+  private readonly maxWer: number;
+  private mixer: AudioMixerService;
+  private logger: ConsoleLogger;
+
+  /**
+   * Creates a new NoiseSweepService instance.
+   *
+   * @param options - STT provider, output directory and breakdown threshold
+   */
+  constructor(options: NoiseSweepOptions = {}) {
+    this.logger = new ConsoleLogger();
+    this.mixer = new AudioMixerService();
+    this.sttProvider =
+      options.sttProvider ?? STTHandlerManager.getDefaultProvider();
+    this.outputDir = options.outputDir ? resolve(options.outputDir) : undefined;
+    this.maxWer = options.maxWer ?? STT_MISHEARD_WER_THRESHOLD;
+  }
+
+  /**
+   * Transcribe every sample clean and mixed with every preset at every SNR.
+   *
+   * @param samples - Recordings with reference transcripts
+   * @param presets - Background preset names or WAV file paths
+   * (default: every preset)
+   * @param snrLevels - SNR levels in dB (default: `DEFAULT_SWEEP_SNR_LEVELS`)
+   * @returns WER-against-SNR curves and every transcription
+   *
+   * @throws {ConfigurationError} If the STT provider is not configured
+   * @throws {FileSystemError} If a recording cannot be read
+   * @throws {AudioProcessingError} If a recording is not a PCM WAV file
+   *
+   * @remarks
+   * Presets whose audio file is missing are listed in `skipped`. A failed mix
+   * or transcription is recorded with its error and counts as WER 1.
+   */
+  async run(
+    samples: STTBenchSample[],
+    presets: string[] = this.mixer.getAvailablePresets().map((p) => p.name),
+    snrLevels: number[] = DEFAULT_SWEEP_SNR_LEVELS
+  ): Promise<NoiseSweepReport> {
+    const stt = STTHandlerManager.getHandler(this.sttProvider);
+    if (!stt.isConfigured()) {
+      throw new ConfigurationError(
+        `STT provider '${this.sttProvider}' is not configured (missing credentials or model)`
+      );
+    }
+    if (this.outputDir) {
+      mkdirSync(this.outputDir, { recursive: true });
+    }
+
+    const levels = [...new Set(snrLevels)].sort((a, b) => b - a);
+    const skipped: NoiseSweepSkipped[] = [];
+    const backgrounds = presets.filter((preset) => {
+      const file =
+        this.mixer.getAvailablePresets().find((p) => p.name === preset)
+          ?.filePath ?? preset;
+      if (!existsSync(file)) {
+        skipped.push({ preset, reason: `background file not found: ${file}` });
+        return false;
+      }
+      return true;
+    });
+    skipped.forEach((entry) =>
+      this.logger.warn(`⚠️ Skipping ${entry.preset}: ${entry.reason}`)
+    );
+
+    const audio: WavAudio[] = [];
+    for (const sample of samples) {
+      audio.push(await readWavFile(sample.audioPath));
+    }
+
+    const results: NoiseSweepResult[] = [];
+    for (const [i, sample] of samples.entries()) {
+      results.push(await this.transcribe(stt, sample, audio[i], {}));
+    }
+    const cleanWer = this.corpusWer(results);
+    this.logger.info(`🔇 Clean: WER ${(cleanWer * 100).toFixed(1)}%`);
+
+    const curves: NoiseSweepCurve[] = [];
+    for (const preset of backgrounds) {
+      const points: NoiseSweepPoint[] = [];
+      for (const targetSnrDb of levels) {
+        const group: NoiseSweepResult[] = [];
+        for (const [i, sample] of samples.entries()) {
+          group.push(
+            await this.transcribeMixed(
+              stt,
+              sample,
+              audio[i],
+              preset,
+              targetSnrDb
+            )
+          );
+        }
+        results.push(...group);
+        points.push(this.summarize(targetSnrDb, group));
+        this.logger.info(
+          `🔊 ${preset} @ ${targetSnrDb} dB: WER ${(points[points.length - 1].wer * 100).toFixed(1)}%`
+        );
+      }
+
+      const breakdown = points.find((point) => point.wer > this.maxWer);
+      curves.push({
+        preset,
+        points,
+        ...(breakdown && { breakdownSnrDb: breakdown.targetSnrDb }),
+      });
+    }
+
+    return {
+      sttProvider: this.sttProvider,
+      samples: samples.length,
+      snrLevels: levels,
+      maxWer: this.maxWer,
+      cleanWer,
+      curves,
+      skipped,
+      results,
+    };
+  }
+
+  /**
+   * Mix a sample with a preset at an SNR and transcribe it.
+   *
+   * @private
+   * @internal
+   */
+  private async transcribeMixed(
+    stt: STTHandler,
+    sample: STTBenchSample,
+    speech: WavAudio,
+    preset: string,
+    targetSnrDb: number
+  ): Promise<NoiseSweepResult> {
+    let mixed: WavAudio;
+    let snrDb: number;
+    let audioPath: string | undefined;
+    try {
+      const mix = await this.mixer.mixAtSNR(speech, preset, targetSnrDb);
+      mixed = { ...speech, pcm: mix.pcm };
+      snrDb = mix.snrDb;
+      if (this.outputDir) {
+        const label = basename(preset, extname(preset));
+        audioPath = join(
+          this.outputDir,
+          `${sample.id}-${label}-${targetSnrDb}dB.wav`.replace(/[^\w.-]+/g, '_')
+        );
+        writeFileSync(audioPath, encodeWav(mix.pcm, mix.sampleRate));
+      }
+    } catch (error) {
+      return {
+        ...this.failure(sample, error),
+        preset,
+        targetSnrDb,
+      };
+    }
+
+    return this.transcribe(stt, sample, mixed, {
+      preset,
+      targetSnrDb,
+      snrDb,
+      audioPath,
+    });
+  }
+
+  /**
+   * Transcribe audio and score it against the sample reference.
+   *
+   * @private
+   * @internal
+   */
+  private async transcribe(
+    stt: STTHandler,
+    sample: STTBenchSample,
+    audio: WavAudio,
+    variant: Pick<
+      NoiseSweepResult,
+      'preset' | 'targetSnrDb' | 'snrDb' | 'audioPath'
+    >
+  ): Promise<NoiseSweepResult> {
+    try {
+      const response = await stt.transcribe({
+        audio: audio.pcm,
+        encoding: 'LINEAR16',
+        sampleRate: audio.sampleRate,
+        languageCode: sample.language,
+      });
+      const accuracy = measureTranscriptAccuracy(
+        sample.reference,
+        response.transcript
+      );
+      return {
+        sampleId: sample.id,
+        ...variant,
+        transcript: response.transcript,
+        referenceWords: accuracy.referenceWords,
+        wer: accuracy.wer,
+        cer: accuracy.cer,
+        confidence: response.confidence,
+      };
+    } catch (error) {
+      return { ...this.failure(sample, error), ...variant };
+    }
+  }
+
+  /**
+   * Result of a sample that failed to mix or transcribe.
+   *
+   * @private
+   * @internal
+   */
+  private failure(sample: STTBenchSample, error: unknown): NoiseSweepResult {
+    this.logger.warn(`⚠️ ${sample.id} failed: ${getErrorMessage(error)}`);
+    return {
+      sampleId: sample.id,
+      transcript: '',
+      referenceWords: normalizeWords(sample.reference).length,
+      wer: 1,
+      cer: 1,
+      confidence: 0,
+      error: getErrorMessage(error),
+    };
+  }
+
+  /**
+   * Aggregate the results of one preset at one SNR.
+   *
+   * @private
+   * @internal
+   */
+  private summarize(
+    targetSnrDb: number,
+    group: NoiseSweepResult[]
+  ): NoiseSweepPoint {
+    const mean = (values: number[]): number =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : 0;
+    const succeeded = group.filter((result) => result.error === undefined);
+    const mixed = group.flatMap((result) =>
+      result.snrDb !== undefined ? [result.snrDb] : []
+    );
+
+    return {
+      targetSnrDb,
+      snrDb: mixed.length > 0 ? mean(mixed) : targetSnrDb,
+      wer: this.corpusWer(group),
+      cer: mean(group.map((result) => result.cer)),
+      meanConfidence: mean(succeeded.map((result) => result.confidence)),
+      failures: group.length - succeeded.length,
+    };
+  }
+
+  /**
+   * WER over all reference words of the results.
+   *
+   * @private
+   * @internal
+   */
+  private corpusWer(results: NoiseSweepResult[]): number {
+    const words = results.reduce((sum, r) => sum + r.referenceWords, 0);
+    if (words === 0) {
+      return results.length > 0
+        ? results.reduce((sum, r) => sum + r.wer, 0) / results.length
+        : 0;
+    }
+    return (
+      results.reduce((sum, r) => sum + r.wer * r.referenceWords, 0) / words
+    );
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Simulated Caller Service
+ *
+ * Plays a synthetic caller against a live voice bot: an LLM in character as a
+ * configured persona writes each caller line, which is synthesized (with
+ * optional background noise) and played or streamed to the bot.
+ *
+ * @module services/simulated-caller
+ * @since 1.1.0
+ *
+ * @remarks
+ * This service only produces and delivers the caller's side of the call.
+ * Listening to the bot and evaluating its replies is done by
+ * `VoiceBotTestService`, which runs every caller in `callers` after the
+ * questions and scenarios.
+ *
+ * Caller lines come from, in order of preference:
+ * - `persona.script`: fixed lines, no LLM involved
+ * - the active cassette (replay mode)
+ * - the LLM provider (`caller.provider`, else `settings.aiProvider`)
+ *
+ * @example
+ * ```typescript
+ * const caller = new SimulatedCallerService(config.callers[0], config.settings);
+ *
+ * const line = await caller.nextLine([{ speaker: 'bot', text: greeting }]);
+ * if (line.text) {
+ *   await caller.speak(line.text);
+ * }
+ * ```
+ */
+
+import { generateText } from '@juspay/neurolink';
+import { VoiceTestService } from './voice-test.js';
+import { playAudio } from '../utils/audio-player.js';
+import { ConsoleLogger } from '../utils/logger.js';
+import { getActiveCassette } from '../utils/cassette.js';
+import {
+  ConfigurationError,
+  ErrorCode,
+  VoiceTestError,
+  getErrorMessage,
+  toError,
+} from '../errors/voice-test.errors.js';
+import type {
+  SimulatedCaller,
+  TestSettings,
+} from '../types/voice-bot-config.js';
+import type {
+  CallTranscriptLine,
+  CallerAudioOutput,
+  CallerLine,
+  CallerUtterance,
+  SimulatedCallerOptions,
+} from '../types/simulated-caller.types.js';
+
+/**
+ * Default number of caller lines per call
+ */
+export const DEFAULT_MAX_CALLER_TURNS = 6;
+
+/**
+ * Simulated Caller Service class.
+ *
+ * @class
+ *
+ * @remarks
+ * One instance represents one call; scripted lines are consumed in order.
+ */
+export class SimulatedCallerService {
+  private readonly caller: SimulatedCaller;
+  private readonly settings: TestSettings;
+  private readonly provider: string;
+  private readonly output: CallerAudioOutput;
+  private voiceTest: VoiceTestService;
+  private logger: ConsoleLogger;
+  private scriptIndex = 0;
+
+  /**
+   * Creates a new SimulatedCallerService instance.
+   *
+   * @param caller - Caller configuration
+   * @param settings - Test settings (providers, default voice and background)
+   * @param options - Optional audio output override
+   *
+   * @throws {ConfigurationError} If the caller needs an LLM but the provider is `fixture`
+   */
+  constructor(
+    caller: SimulatedCaller,
+    settings: TestSettings,
+    options: SimulatedCallerOptions = {}
+  ) {
+    this.logger = new ConsoleLogger();
+    this.caller = caller;
+    this.settings = settings;
+    this.provider = caller.provider || settings.aiProvider || 'google-ai';
+
+    if (this.provider === 'fixture' && !caller.persona.script?.length) {
+      throw new ConfigurationError(
+        `Caller "${caller.id}" needs a persona.script when using the fixture provider`
+      );
+    }
+
+    const playAloud =
+      !settings.audioSource || settings.audioSource.type === 'microphone';
+    this.output =
+      options.output ??
+      (playAloud
+        ? playAudio
+        : async (): Promise<void> => {
+            // Nobody is listening on a speaker; the bot's reply comes from the audio source
+          });
+
+    this.voiceTest = new VoiceTestService(undefined, settings);
+
+    this.logger.info(
+      `🧑 Simulated caller "${caller.id}" as ${caller.persona.name} (${caller.persona.script ? 'scripted' : this.provider})`
+    );
+  }
+
+  /**
+   * Choose the caller's next line.
+   *
+   * @param transcript - Call so far, oldest first
+   * @returns Next line; empty text when the caller has nothing more to say
+   *
+   * @throws {VoiceTestError} If the LLM call fails or a replayed line is missing
+   */
+  async nextLine(transcript: CallTranscriptLine[]): Promise<CallerLine> {
+    const script = this.caller.persona.script;
+    if (script) {
+      const text = script[this.scriptIndex] ?? '';
+      this.scriptIndex++;
+      return { text, done: this.scriptIndex >= script.length };
+    }
+
+    const prompt = this.buildPrompt(transcript);
+    const cassette = getActiveCassette();
+    if (!cassette) {
+      return this.generateLine(prompt);
+    }
+
+    const keyRequest = { provider: this.provider, prompt };
+    const key = cassette.key('caller', keyRequest);
+    if (cassette.mode === 'replay') {
+      return cassette.load<CallerLine>('caller', key);
+    }
+
+    const line = await this.generateLine(prompt);
+    await cassette.save('caller', key, keyRequest, line);
+    return line;
+  }
+
+  /**
+   * Synthesize a caller line and send it to the bot.
+   *
+   * @param text - Line to speak
+   * @returns Spoken audio file and time taken to synthesize and deliver it
+   *
+   * @throws {VoiceTestError} If synthesis or playback fails
+   */
+  async speak(text: string): Promise<CallerUtterance> {
+    const startTime = Date.now();
+    const { persona } = this.caller;
+
+    const audioPath = await this.voiceTest.generateSpeech({
+      text,
+      languageCode: persona.language ?? this.settings.defaultLanguage,
+      voiceName: persona.voice ?? this.settings.defaultVoice,
+      audioEncoding: 'WAV',
+      speakingRate: persona.speakingRate,
+      backgroundSound:
+        this.caller.backgroundSound ?? this.settings.backgroundSound,
+      backgroundVolume:
+        this.caller.backgroundVolume ?? this.settings.backgroundVolume,
+      backgroundSnrDb:
+        this.caller.backgroundSnrDb ?? this.settings.backgroundSnrDb,
+      play: false,
+    });
+
+    try {
+      await this.output(audioPath);
+    } catch (error) {
+      throw new VoiceTestError(
+        `Failed to send caller audio: ${getErrorMessage(error)}`,
+        ErrorCode.PLAYBACK_FAILED,
+        toError(error)
+      );
+    }
+
+    return { audioFilePath: audioPath, playTime: Date.now() - startTime };
+  }
+
+  /**
+   * Ask the LLM for the next line.
+   *
+   * @private
+   * @internal
+   */
+  private async generateLine(prompt: string): Promise<CallerLine> {
+    try {
+      const result = await generateText({
+        prompt,
+        provider: this
+          .provider as unknown as import('@juspay/neurolink').AIProviderName,
+        model: this.getCallerModel(this.provider),
+        temperature: 0.8,
+        maxTokens: 512,
+        timeout: '30s',
+      });
+
+      return this.parseLine(result.content ?? '');
+    } catch (error) {
+      throw new VoiceTestError(
+        `Failed to generate caller line: ${getErrorMessage(error)}`,
+        ErrorCode.GENERATION_FAILED,
+        toError(error)
+      );
+    }
+  }
+
+  /**
+   * Build the role-play prompt for the next line.
+   *
+   * @private
+   * @internal
+   */
+  private buildPrompt(transcript: CallTranscriptLine[]): string {
+    const { persona } = this.caller;
+
+    const call =
+      transcript.length > 0
+        ? transcript
+            .map(
+              (line) =>
+                `${line.speaker === 'bot' ? 'Assistant' : 'You'}: ${line.text}`
+            )
+            .join('\n')
+        : '(The call has just connected. Nobody has spoken yet.)';
+
+    return `You are role-playing a caller phoning an automated voice assistant. Stay in character and never mention that you are an AI.
+
+YOUR PERSONA:
+- Name: ${persona.name}
+- Goal: ${persona.goal}${persona.tone ? `\n- Tone: ${persona.tone}` : ''}${persona.background ? `\n- What you know: ${persona.background}` : ''}
+
+CALL SO FAR:
+${call}
+
+Write your next line as the caller: one or two short spoken sentences, with no stage directions, emojis or formatting. Only share facts from your persona when they are relevant or asked for.
+
+Set "done" to true when your goal has been met, the assistant clearly cannot help, or you are saying goodbye.
+
+Respond ONLY with valid JSON in this exact format:
+{"reply": "<what you say next>", "done": <true|false>}`;
+  }
+
+  /**
+   * Parse the LLM output into a caller line.
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * Tolerates code fences and text around the JSON object; output that is not
+   * JSON at all is spoken as-is.
+   */
+  private parseLine(content: string): CallerLine {
+    const json = /\{[\s\S]*\}/.exec(content)?.[0];
+
+    if (json) {
+      try {
+        const parsed: unknown = JSON.parse(json);
+        if (typeof parsed === 'object' && parsed !== null) {
+          const text = String(Reflect.get(parsed, 'reply') ?? '').trim();
+          return {
+            text,
+            done: text.length === 0 || Reflect.get(parsed, 'done') === true,
+          };
+        }
+      } catch {
+        this.logger.warn('⚠️ Caller line was not valid JSON, using raw text');
+      }
+    }
+
+    const text = content.replace(/```(json)?/g, '').trim();
+    return { text, done: text.length === 0 };
+  }
+
+  /**
+   * Get a fast conversational model for the provider.
+   *
+   * @private
+   * @internal
+   */
+  private getCallerModel(provider: string): string {
+    switch (provider.toLowerCase()) {
+      case 'bedrock':
+        return 'claude-3-haiku';
+      case 'openai':
+        return 'gpt-4o-mini';
+      case 'google-ai':
+      case 'vertex':
+      default:
+        return 'gemini-2.5-flash';
+    }
+  }
+}
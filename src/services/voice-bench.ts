@@ -0,0 +1,438 @@
+/**
+ * Voice Benchmark Service
+ *
+ * Synthesizes a phrase list with several voices and transcribes each result
+ * back, to compare how intelligible the voices are, for `vokal voice bench`.
+ *
+ * @module services/voice-bench
+ * @since 1.1.0
+ *
+ * @remarks
+ * Every phrase is generated as WAV through `VoiceTestService`, decoded, and
+ * sent to one STT handler. The round-trip WER and CER against the phrase
+ * measure intelligibility; generation time, audio duration and file size are
+ * reported alongside.
+ *
+ * For TTS providers that `getOptimalConfig()` knows (Google, ElevenLabs,
+ * Azure), each phrase is transcribed a second time with the optimizer's
+ * settings: its model, punctuation and sample rate (the audio is resampled
+ * to it). The phrase is not passed as boosted context, since that would hand
+ * the STT the reference it is scored against. The WER difference shows
+ * whether the optimizer helps.
+ *
+ * @example
+ * ```typescript
+ * const bench = new VoiceBenchService({ sttProvider: 'google-ai' });
+ * const report = await bench.run(
+ *   ['Your balance is forty dollars.', 'Press one for billing.'],
+ *   [
+ *     VoiceBenchService.parseVoice('google-ai:en-IN-Neural2-B', 'en-US'),
+ *     VoiceBenchService.parseVoice('local-espeak:en-us', 'en-US'),
+ *   ]
+ * );
+ * console.table(report.summaries);
+ * ```
+ */
+
+import { copyFileSync, mkdirSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { VoiceTestService } from './voice-test.js';
+import { STTHandlerManager } from '../providers/stt-handler-manager.js';
+import { TTSProviderManager } from '../providers/tts-provider-manager.js';
+import { ConsoleLogger } from '../utils/logger.js';
+import { getOptimalConfig } from '../utils/stt-optimizer.js';
+import { measureTranscriptAccuracy } from '../utils/transcript-accuracy.js';
+import { normalizeWords } from '../utils/stability.js';
+import { readWavFile, resamplePcm16 } from '../utils/wav.js';
+import {
+  ConfigurationError,
+  ErrorCode,
+  FileSystemError,
+  getErrorMessage,
+  toError,
+} from '../errors/voice-test.errors.js';
+import type { STTHandler } from '../types/stt-provider.types.js';
+import type { WavAudio } from '../types/audio.types.js';
+import type {
+  VoiceBenchOptions,
+  VoiceBenchReport,
+  VoiceBenchResult,
+  VoiceBenchSummary,
+  VoiceBenchTranscription,
+  VoiceBenchVoice,
+} from '../types/voice-bench.types.js';
+
+/**
+ * `getOptimalConfig()` profile for each TTS provider it has settings for
+ *
+ * @internal
+ */
+const OPTIMIZER_PROFILES: Record<
+  string,
+  Parameters<typeof getOptimalConfig>[0]
+> = {
+  'google-ai': 'google',
+  vertex: 'google',
+  elevenlabs: 'elevenlabs',
+  azure: 'azure',
+};
+
+/**
+ * Voice Benchmark Service class.
+ *
+ * @class
+ *
+ * @remarks
+ * Phrases run one at a time so generation and transcription latencies are
+ * not skewed by concurrent requests.
+ */
+export class VoiceBenchService {
+  private readonly sttProvider: string;
+  private readonly outputDir?: string;
+  private readonly apiKey?: string;
+  private logger: ConsoleLogger;
+
+  /**
+   * Creates a new VoiceBenchService instance.
+   *
+   * @param options - STT provider, output directory and API key
+   */
+  constructor(options: VoiceBenchOptions = {}) {
+    this.logger = new ConsoleLogger();
+    this.sttProvider =
+      options.sttProvider ?? STTHandlerManager.getDefaultProvider();
+    this.outputDir = options.outputDir ? resolve(options.outputDir) : undefined;
+    this.apiKey = options.apiKey;
+  }
+
+  /**
+   * Read a phrase list, one phrase per line.
+   *
+   * @param filePath - Text file of phrases
+   * @returns Phrases; blank lines and lines starting with `#` are skipped
+   *
+   * @throws {FileSystemError} If the file cannot be read
+   * @throws {ConfigurationError} If the file has no phrases
+   */
+  static loadPhrases(filePath: string): string[] {
+    let content: string;
+    try {
+      content = readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to read phrase list: ${filePath}`,
+        ErrorCode.FILE_READ_ERROR,
+        toError(error)
+      );
+    }
+
+    const phrases = content
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0 && !line.startsWith('#'));
+    if (phrases.length === 0) {
+      throw new ConfigurationError(`No phrases in ${filePath}`);
+    }
+    return phrases;
+  }
+
+  /**
+   * Parse a `provider:voice` (or plain `voice`) specification.
+   *
+   * @param spec - Voice specification, e.g. `google-ai:en-IN-Neural2-B`
+   * @param defaultLanguage - Language of voices whose name does not start
+   * with a language code
+   * @param defaultProvider - Provider of specifications without one
+   * (default: the TTS default)
+   * @returns Voice to benchmark
+   *
+   * @throws {ConfigurationError} If the voice name is empty or the provider is
+   * not registered
+   */
+  static parseVoice(
+    spec: string,
+    defaultLanguage: string,
+    defaultProvider: string = TTSProviderManager.getDefaultProvider()
+  ): VoiceBenchVoice {
+    const separator = spec.indexOf(':');
+    const provider = separator > 0 ? spec.slice(0, separator) : defaultProvider;
+    const voice = separator > 0 ? spec.slice(separator + 1) : spec;
+    if (!voice) {
+      throw new ConfigurationError(`Voice "${spec}" has no voice name`);
+    }
+    if (!TTSProviderManager.hasProvider(provider)) {
+      throw new ConfigurationError(
+        `Voice "${spec}" uses unregistered TTS provider '${provider}'`
+      );
+    }
+
+    // Cloud voice names start with their language, e.g. en-IN-Neural2-B
+    const language = /^([a-z]{2,3}-[A-Z]{2})\b/.exec(voice)?.[1];
+    return { provider, voice, language: language ?? defaultLanguage };
+  }
+
+  /**
+   * Synthesize every phrase with every voice and transcribe it back.
+   *
+   * @param phrases - Phrases to speak
+   * @param voices - Voices to compare
+   * @returns Per-phrase results and per-voice summaries
+   *
+   * @throws {ConfigurationError} If the STT provider is not configured
+   *
+   * @remarks
+   * A phrase that fails to synthesize or transcribe is recorded with its
+   * error and counts as WER 1. Output that is not PCM WAV counts as a
+   * failure too, since it cannot be streamed to STT. A voice given more than
+   * once is benchmarked once, since results are grouped by voice label.
+   */
+  async run(
+    phrases: string[],
+    voices: VoiceBenchVoice[]
+  ): Promise<VoiceBenchReport> {
+    const stt = STTHandlerManager.getHandler(this.sttProvider);
+    if (!stt.isConfigured()) {
+      throw new ConfigurationError(
+        `STT provider '${this.sttProvider}' is not configured (missing credentials or model)`
+      );
+    }
+    if (this.outputDir) {
+      mkdirSync(this.outputDir, { recursive: true });
+    }
+
+    const labels = voices.map((voice) => `${voice.provider}:${voice.voice}`);
+    const distinct = voices.filter((voice, i) => {
+      if (labels.indexOf(labels[i]) === i) {
+        return true;
+      }
+      this.logger.warn(`⚠️ Skipping duplicate voice ${labels[i]}`);
+      return false;
+    });
+
+    const workDir = mkdtempSync(join(tmpdir(), 'vokal-voice-bench-'));
+    const results: VoiceBenchResult[] = [];
+    try {
+      for (const voice of distinct) {
+        const tts = new VoiceTestService(
+          this.apiKey,
+          { ttsProvider: voice.provider },
+          workDir
+        );
+        for (const [index, phrase] of phrases.entries()) {
+          results.push(
+            await this.benchPhrase(tts, stt, voice, phrase, index, workDir)
+          );
+        }
+      }
+    } finally {
+      rmSync(workDir, { recursive: true, force: true });
+    }
+
+    return {
+      sttProvider: this.sttProvider,
+      phrases: phrases.length,
+      voices: [...new Set(labels)],
+      summaries: this.summarize(results, distinct),
+      results,
+    };
+  }
+
+  /**
+   * Synthesize one phrase and transcribe it back.
+   *
+   * @private
+   * @internal
+   */
+  private async benchPhrase(
+    tts: VoiceTestService,
+    stt: STTHandler,
+    voice: VoiceBenchVoice,
+    phrase: string,
+    index: number,
+    workDir: string
+  ): Promise<VoiceBenchResult> {
+    const label = `${voice.provider}:${voice.voice}`;
+    const result: VoiceBenchResult = {
+      voice: label,
+      language: voice.language,
+      phraseNumber: index + 1,
+      phrase,
+      transcript: '',
+      wer: 1,
+      cer: 1,
+      confidence: 0,
+      generationMs: 0,
+      audioMs: 0,
+      fileSize: 0,
+    };
+
+    try {
+      const speech = await tts.generateSpeechDetailed({
+        text: phrase,
+        languageCode: voice.language,
+        voiceName: voice.voice,
+        audioEncoding: 'WAV',
+        output: join(workDir, `phrase-${index + 1}.wav`),
+      });
+      result.generationMs = speech.generationTime;
+      result.fileSize = speech.fileSize;
+
+      const audio = await readWavFile(speech.filePath);
+      result.audioMs = audio.durationMs;
+      if (this.outputDir) {
+        result.audioPath = join(
+          this.outputDir,
+          `${label.replace(/[^\w.-]+/g, '_')}-${index + 1}.wav`
+        );
+        copyFileSync(speech.filePath, result.audioPath);
+      }
+
+      Object.assign(
+        result,
+        await this.transcribe(stt, audio, voice.language, phrase)
+      );
+
+      const profile = OPTIMIZER_PROFILES[voice.provider];
+      if (profile) {
+        // A failed optimizer pass leaves the plain round trip intact
+        try {
+          result.optimized = await this.transcribe(
+            stt,
+            audio,
+            voice.language,
+            phrase,
+            getOptimalConfig(profile)
+          );
+        } catch (error) {
+          result.optimizedError = getErrorMessage(error);
+          this.logger.warn(
+            `⚠️ ${label} optimized pass failed on phrase ${index + 1}: ${result.optimizedError}`
+          );
+        }
+      }
+
+      this.logger.info(
+        `🗣️ ${label} #${index + 1}: WER ${(result.wer * 100).toFixed(1)}%${result.optimized ? ` (optimized ${(result.optimized.wer * 100).toFixed(1)}%)` : ''}`
+      );
+    } catch (error) {
+      result.error = getErrorMessage(error);
+      this.logger.warn(
+        `⚠️ ${label} failed on phrase ${index + 1}: ${result.error}`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Transcribe synthesized audio and score it against the phrase.
+   *
+   * @param config - STT settings from `getOptimalConfig()`; the audio is
+   * resampled to its sample rate
+   *
+   * @private
+   * @internal
+   */
+  private async transcribe(
+    stt: STTHandler,
+    audio: WavAudio,
+    language: string,
+    phrase: string,
+    config?: ReturnType<typeof getOptimalConfig>
+  ): Promise<VoiceBenchTranscription> {
+    const sampleRate = config?.sampleRate ?? audio.sampleRate;
+    const response = await stt.transcribe({
+      audio:
+        sampleRate === audio.sampleRate
+          ? audio.pcm
+          : resamplePcm16(audio.pcm, audio.sampleRate, sampleRate),
+      encoding: 'LINEAR16',
+      sampleRate,
+      languageCode: language,
+      ...(config && {
+        model: config.model,
+        enableAutomaticPunctuation: config.enableAutomaticPunctuation,
+        maxAlternatives: config.maxAlternatives,
+        speechContexts: config.speechContexts,
+      }),
+    });
+
+    const accuracy = measureTranscriptAccuracy(phrase, response.transcript);
+    return {
+      transcript: response.transcript,
+      wer: accuracy.wer,
+      cer: accuracy.cer,
+      confidence: response.confidence,
+    };
+  }
+
+  /**
+   * Aggregate results per voice.
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * WER is weighted by phrase length. Failed phrases count towards WER and
+   * CER but not towards timing, size or confidence. The optimized WER only
+   * covers phrases transcribed both ways.
+   */
+  private summarize(
+    results: VoiceBenchResult[],
+    voices: VoiceBenchVoice[]
+  ): VoiceBenchSummary[] {
+    const mean = (values: number[]): number =>
+      values.length > 0
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : 0;
+    const corpusWer = (
+      entries: Array<{ phrase: string; wer: number }>
+    ): number => {
+      const words = entries.map((entry) => normalizeWords(entry.phrase).length);
+      const total = words.reduce((sum, count) => sum + count, 0);
+      return total > 0
+        ? entries.reduce((sum, entry, i) => sum + entry.wer * words[i], 0) /
+            total
+        : mean(entries.map((entry) => entry.wer));
+    };
+
+    const summaries = voices.map((voice): VoiceBenchSummary => {
+      const label = `${voice.provider}:${voice.voice}`;
+      const group = results.filter((result) => result.voice === label);
+      const succeeded = group.filter((result) => result.error === undefined);
+      const wer = corpusWer(group);
+      const compared = succeeded.filter((result) => result.optimized);
+
+      const summary: VoiceBenchSummary = {
+        voice: label,
+        provider: voice.provider,
+        language: voice.language,
+        phrases: group.length,
+        failures: group.length - succeeded.length,
+        wer,
+        cer: mean(group.map((result) => result.cer)),
+        meanConfidence: mean(succeeded.map((result) => result.confidence)),
+        meanGenerationMs: mean(succeeded.map((result) => result.generationMs)),
+        meanAudioMs: mean(succeeded.map((result) => result.audioMs)),
+        meanFileSize: mean(succeeded.map((result) => result.fileSize)),
+      };
+      if (compared.length > 0) {
+        summary.optimizedWer = corpusWer(
+          compared.map((result) => ({
+            phrase: result.phrase,
+            wer: result.optimized!.wer,
+          }))
+        );
+        summary.optimizerDelta = summary.optimizedWer - corpusWer(compared);
+      }
+      return summary;
+    });
+
+    return summaries.sort(
+      (a, b) =>
+        a.language.localeCompare(b.language) ||
+        a.wer - b.wer ||
+        a.voice.localeCompare(b.voice)
+    );
+  }
+}
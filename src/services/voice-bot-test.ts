@@ -17,6 +17,8 @@
  * - **Detailed Reporting**: Generate comprehensive test results and conversation reports
  * - **Parallel Processing**: Run AI analysis in background for efficiency
  * - **Retry Logic**: Automatic retry with configurable attempts
+ * - **Headless Mode**: Stream pre-recorded WAV responses instead of the microphone
+ * - **Simulated Callers**: LLM-driven personas talk to a live bot; its replies are evaluated
  *
  * **Test Flow:**
  * 1. Load test configuration from JSON file
@@ -44,16 +46,61 @@
 
 import { VoiceInteractionService } from './voice-interaction.js';
 import { AIComparisonService } from './ai-comparison.js';
+import {
+  DEFAULT_MAX_CALLER_TURNS,
+  SimulatedCallerService,
+} from './simulated-caller.js';
+import { ReporterManager } from '../reporters/reporter-manager.js';
+import { ResultsStore } from '../utils/results-store.js';
+import { summarizeRepeats } from '../utils/stability.js';
+import { isPassingComparison, resolveRubric } from '../utils/rubric.js';
+import { evaluateAssertions, validateAssertions } from '../utils/assertions.js';
+import {
+  measureTranscriptAccuracy,
+  summarizeTranscriptAccuracy,
+} from '../utils/transcript-accuracy.js';
+import { RateLimiter, runWithConcurrency } from '../utils/concurrency.js';
+import { CircuitBreaker, CircuitState } from '../utils/retry.js';
 import { ConsoleLogger } from '../utils/logger.js';
+import { FixtureStore, setActiveFixtures } from '../utils/fixtures.js';
+import {
+  Cassette,
+  getActiveCassette,
+  setActiveCassette,
+} from '../utils/cassette.js';
+import {
+  DEFAULT_MAX_SCENARIO_TURNS,
+  captureSlots,
+  getStartTurn,
+  interpolateTurn,
+  needsVerdict,
+  resolveNextTurn,
+  validateScenarios,
+} from '../utils/scenarios.js';
 import {
   VoiceTestError,
   getErrorMessage,
   toError,
   safeJSONParse,
 } from '../types/index.js';
-import { ErrorCode } from '../errors/voice-test.errors.js';
-import { readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
+import {
+  ConfigurationError,
+  ErrorCode,
+  FileSystemError,
+  ValidationError,
+} from '../errors/voice-test.errors.js';
+import {
+  copyFileSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { dirname, extname, join, relative, resolve } from 'path';
 import ora from 'ora';
 import type {
   VoiceBotConfig,
@@ -61,7 +108,16 @@ import type {
   QuestionResult,
   TestResult,
   TestSummary,
+  TestVerdict,
   PerformanceMetrics,
+  VoiceBotTestOptions,
+  TestScenario,
+  ScenarioTurn,
+  ConversationTurn,
+  SimulatedCaller,
+  CallTranscriptLine,
+  VoiceInteractionResult,
+  ConversationReportEntry,
 } from '../types/index.js';
 
 // Test progress type
@@ -98,6 +154,20 @@ type QuestionResultWithPromise = QuestionResult & {
   aiAnalysisPromise?: Promise<QuestionResult>;
 };
 
+/**
+ * Position of a scenario turn, passed to the question runner.
+ *
+ * @internal
+ */
+type ScenarioTurnContext = {
+  /** Scenario being run */
+  scenarioId: string;
+  /** 1-based turn number within the run */
+  turnNumber: number;
+  /** Earlier exchanges, oldest first */
+  history: ConversationTurn[];
+};
+
 /**
  * Voice Bot Test Service class for comprehensive conversation testing.
  *
@@ -122,13 +192,21 @@ export class VoiceBotTestService {
   private aiComparison: AIComparisonService;
   private logger: ConsoleLogger;
   private config: VoiceBotConfig;
+  private configDir: string;
+  private options: VoiceBotTestOptions;
+  private responseAudioFiles = new Map<string, string>();
   private results: QuestionResultWithPromise[] = [];
   private startTime: number = 0;
+  private runTimestamp = '';
+  private rateLimiter = new RateLimiter(0);
+  private providerBreaker: CircuitBreaker<VoiceInteractionResult>;
+  private scratchDir?: string;
 
   /**
    * Creates a new VoiceBotTestService instance.
    *
    * @param configPath - Path to test configuration JSON file
+   * @param options - Runtime options such as headless response audio
    *
    * @throws {VoiceTestError} If configuration path is missing or configuration is invalid
    *
@@ -161,8 +239,9 @@ export class VoiceBotTestService {
    * const results = await service.runTestSuite();
    * ```
    */
-  constructor(configPath?: string) {
+  constructor(configPath?: string, options: VoiceBotTestOptions = {}) {
     this.logger = new ConsoleLogger();
+    this.options = options;
 
     // Load test configuration
     if (!configPath) {
@@ -173,6 +252,64 @@ export class VoiceBotTestService {
     }
 
     this.config = this.loadTestConfig(configPath);
+    this.configDir = dirname(resolve(configPath));
+    this.providerBreaker = this.createProviderBreaker();
+
+    const audioSource = this.config.settings.audioSource;
+    if (audioSource?.path) {
+      audioSource.path = resolve(this.configDir, audioSource.path);
+    }
+
+    // Record or replay provider calls; must be active before services are created
+    if (options.record && options.replay) {
+      throw new ConfigurationError(
+        'Cannot record and replay a cassette in the same run'
+      );
+    }
+    if (options.record) {
+      setActiveCassette(new Cassette(options.record, 'record'));
+    } else if (options.replay) {
+      setActiveCassette(new Cassette(options.replay, 'replay'));
+      // Replayed STT ignores audio, so don't open the microphone
+      if (!this.config.settings.audioSource) {
+        this.config.settings.audioSource = { type: 'silence' };
+      }
+    }
+
+    if (
+      options.repeat !== undefined &&
+      (!Number.isInteger(options.repeat) || options.repeat < 1)
+    ) {
+      throw new ConfigurationError(
+        `Repeat count must be a positive integer, got ${options.repeat}`
+      );
+    }
+    if (
+      options.concurrency !== undefined &&
+      (!Number.isInteger(options.concurrency) || options.concurrency < 1)
+    ) {
+      throw new ConfigurationError(
+        `Concurrency must be a positive integer, got ${options.concurrency}`
+      );
+    }
+
+    if (this.config.settings.rubric) {
+      resolveRubric(this.config.settings.rubric);
+    }
+
+    // Fail fast on unknown reporters rather than after the whole run
+    for (const reporter of options.reporters ?? []) {
+      ReporterManager.getReporter(reporter);
+    }
+
+    // Scripted responses for providers named 'fixture'
+    if (this.config.settings.fixtures) {
+      setActiveFixtures(
+        FixtureStore.load(
+          resolve(this.configDir, this.config.settings.fixtures)
+        )
+      );
+    }
 
     this.logger.info('🔧 Initializing services with provider configuration...');
     this.logger.info(
@@ -181,19 +318,19 @@ export class VoiceBotTestService {
     this.logger.info(
       `   STT Provider: ${this.config.settings.sttProvider || 'google-ai'}`
     );
-    this.logger.info(
-      `   AI Provider: ${this.config.settings.aiProvider || 'google-ai'}`
-    );
+    this.logger.info(`   AI Provider: ${this.describeAIProvider()}`);
 
     // Initialize services - each handles its own API key from environment variables
     this.reliableVoice = new VoiceInteractionService(this.config.settings);
-    this.aiComparison = AIComparisonService.create(
-      this.config.settings.aiProvider || 'google-ai'
-    );
+    this.aiComparison = this.config.settings.ensemble
+      ? AIComparisonService.createEnsemble(this.config.settings.ensemble)
+      : AIComparisonService.create(
+          this.config.settings.aiProvider || 'google-ai'
+        );
 
     this.logger.info('🚀 Voice Bot Test Service initialized');
     this.logger.info(
-      `📋 Loaded test: "${this.config.metadata.name}" (${this.config.questions.length} questions)`
+      `📋 Loaded test: "${this.config.metadata.name}" (${this.config.questions.length} questions, ${this.config.scenarios?.length ?? 0} scenarios, ${this.config.callers?.length ?? 0} callers)`
     );
   }
 
@@ -207,7 +344,8 @@ export class VoiceBotTestService {
    * @remarks
    * **Test Execution Flow:**
    * 1. Validates system components (TTS, STT, Audio)
-   * 2. Runs each question in sequence
+   * 2. Runs each question and scenario in sequence, or in a worker pool when
+   *    answers come from files and concurrency is above 1
    * 3. Starts AI analysis in background for each response
    * 4. Waits for all AI analyses to complete
    * 5. Generates final test results and metrics
@@ -216,6 +354,8 @@ export class VoiceBotTestService {
    *
    * **Performance Optimization:**
    * - AI analysis runs in parallel (non-blocking)
+   * - File-based runs can execute questions concurrently, paced by
+   *   `settings.concurrency.questionsPerMinute`
    * - Fresh voice service instance per question (prevents state leakage)
    * - Immediate progression to next question after transcription
    *
@@ -247,6 +387,9 @@ export class VoiceBotTestService {
    */
   async runTestSuite(): Promise<TestResult> {
     this.startTime = Date.now();
+    this.runTimestamp = new Date(this.startTime)
+      .toISOString()
+      .replace(/[:.]/g, '-');
     this.results = [];
 
     try {
@@ -254,24 +397,69 @@ export class VoiceBotTestService {
       this.logger.info(
         `📊 Test: ${this.config.metadata.name} v${this.config.metadata.version}`
       );
-      this.logger.info(
-        `🎤 Using AI Provider: ${this.config.settings.aiProvider || 'google-ai'}`
-      );
+      this.logger.info(`🎤 Using AI Provider: ${this.describeAIProvider()}`);
+
+      // Resolve pre-recorded responses up front so a missing file fails fast
+      this.responseAudioFiles = this.resolveResponseAudioFiles();
+      if (this.responseAudioFiles.size > 0) {
+        this.logger.info(
+          `📂 Headless mode: ${this.responseAudioFiles.size}/${this.config.questions.length} responses from audio files`
+        );
+      }
 
       // Test system components first
       await this.validateSystemComponents();
 
-      // Run each question
-      for (let i = 0; i < this.config.questions.length; i++) {
-        const question = this.config.questions[i];
+      // Run questions, then multi-turn scenarios; in parallel when file-based
+      const concurrency = this.resolveConcurrency();
+      const concurrencySettings = this.config.settings.concurrency ?? {};
+      this.rateLimiter = new RateLimiter(
+        concurrencySettings.questionsPerMinute ?? 0
+      );
+      this.providerBreaker = this.createProviderBreaker();
+
+      const units: Array<() => Promise<QuestionResultWithPromise[]>> = [
+        ...this.config.questions.map((question, i) => async () => [
+          await this.runQuestion(question, i),
+        ]),
+        ...(this.config.scenarios ?? []).map((scenario) => () => {
+          this.logger.info(
+            `\n🎭 Scenario: ${scenario.name || scenario.id} (${scenario.turns.length} turns)`
+          );
+          return this.runScenario(scenario);
+        }),
+      ];
+
+      if (concurrency > 1) {
+        this.scratchDir = mkdtempSync(join(tmpdir(), 'vokal-'));
         this.logger.info(
-          `\n📝 Question ${i + 1}/${this.config.questions.length}: ${question.id}`
+          `⚡ Running ${units.length} questions and scenarios, ${concurrency} at a time`
         );
+      }
 
-        const questionResult = await this.runSingleQuestion(question, i);
-        this.results.push(questionResult);
+      const cassette = getActiveCassette();
+      const unitResults = await runWithConcurrency(
+        units,
+        concurrency,
+        async (unit) => {
+          // Concurrent units keep their own cassette scope
+          const results =
+            cassette && concurrency > 1
+              ? await cassette.isolate(unit)
+              : await unit();
+          this.results.push(...results);
+          return results;
+        }
+      );
+      // Report in configuration order, whatever order units finished in
+      this.results = unitResults.flat();
 
-        // No delay - move to next question immediately
+      // Run simulated callers against the live bot, one call at a time
+      for (const caller of this.config.callers ?? []) {
+        this.logger.info(
+          `\n📞 Caller: ${caller.id} (${caller.persona.name}: ${caller.persona.goal})`
+        );
+        this.results.push(...(await this.runCaller(caller)));
       }
 
       // Wait for all AI analyses to complete before generating final report
@@ -295,8 +483,10 @@ export class VoiceBotTestService {
       const testResult = this.generateTestResult();
 
       // Save results to file
-      const resultsPath = this.saveTestResults(testResult);
-      this.logger.info(`💾 Test results saved to: ${resultsPath}`);
+      for (const resultsPath of this.saveTestResults(testResult)) {
+        this.logger.info(`💾 Test results saved to: ${resultsPath}`);
+      }
+      this.recordHistory(testResult);
 
       // Print summary
       this.printTestSummary(testResult.summary);
@@ -308,7 +498,163 @@ export class VoiceBotTestService {
         ErrorCode.TEST_SUITE_FAILED,
         toError(error)
       );
+    } finally {
+      if (this.scratchDir) {
+        rmSync(this.scratchDir, { recursive: true, force: true });
+        this.scratchDir = undefined;
+      }
+    }
+  }
+
+  /**
+   * Run one question, repeatedly when measuring flakiness.
+   *
+   * @param question - Test question configuration
+   * @param questionIndex - Index of the question in the test suite
+   * @returns Question result; combined across runs when `repeat` > 1
+   *
+   * @private
+   * @internal
+   */
+  private async runQuestion(
+    question: TestQuestion,
+    questionIndex: number
+  ): Promise<QuestionResultWithPromise> {
+    this.logger.info(
+      `\n📝 Question ${questionIndex + 1}/${this.config.questions.length}: ${question.id}`
+    );
+
+    const repeat = this.options.repeat ?? 1;
+    if (repeat === 1) {
+      return this.runSingleQuestion(question, questionIndex);
+    }
+
+    const runs: QuestionResultWithPromise[] = [];
+    for (let run = 1; run <= repeat; run++) {
+      runs.push(
+        await this.runSingleQuestion(question, questionIndex, undefined, run)
+      );
+    }
+    return this.combineRepeatedRuns(runs);
+  }
+
+  /**
+   * Decide how many questions and scenarios run at once.
+   *
+   * @returns Worker count (1 = sequential)
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * A person at a microphone can only answer one question at a time, so
+   * parallel runs need every answer to come from files: a replayed cassette,
+   * a file, silence or tone audio source, or a response file for every
+   * question and scenario turn. Otherwise the run falls back to sequential.
+   *
+   * The `fixture` STT provider hands out scripted sessions in order, so
+   * parallel questions would race for each other's transcripts; fixture runs
+   * stay sequential to keep them deterministic.
+   */
+  private resolveConcurrency(): number {
+    const requested =
+      this.options.concurrency ??
+      this.config.settings.concurrency?.maxConcurrent ??
+      1;
+    if (requested <= 1) {
+      return 1;
+    }
+
+    if (
+      this.options.replay === undefined &&
+      this.config.settings.sttProvider === 'fixture'
+    ) {
+      this.logger.warn(
+        `⚠️ Running sequentially: concurrency ${requested} would hand fixture STT sessions to questions out of order`
+      );
+      return 1;
+    }
+
+    const sourceType = this.config.settings.audioSource?.type ?? 'microphone';
+    const answerIds = [
+      ...this.config.questions.map((question) => question.id),
+      ...(this.config.scenarios ?? []).flatMap((scenario) =>
+        scenario.turns.map((turn) => `${scenario.id}/${turn.id}`)
+      ),
+    ];
+    const fileBased =
+      this.options.replay !== undefined ||
+      ['file', 'silence', 'tone'].includes(sourceType) ||
+      answerIds.every((id) => this.responseAudioFiles.has(id));
+
+    if (!fileBased) {
+      this.logger.warn(
+        `⚠️ Running sequentially: concurrency ${requested} needs pre-recorded answers, but some come from the ${sourceType}`
+      );
+      return 1;
+    }
+    return requested;
+  }
+
+  /**
+   * Create the circuit breaker guarding TTS and STT calls.
+   *
+   * @returns Breaker configured from `settings.concurrency`
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * After `failureThreshold` consecutive failed voice interactions, questions
+   * fail immediately without retries until `resetTimeout` has passed, so an
+   * outage doesn't make every remaining question wait out its retries.
+   */
+  private createProviderBreaker(): CircuitBreaker<VoiceInteractionResult> {
+    const settings = this.config.settings.concurrency ?? {};
+    const resetTimeout = settings.resetTimeout ?? 60000;
+
+    // Every call passes its own voice interaction to execute()
+    return new CircuitBreaker<VoiceInteractionResult>(
+      () => Promise.reject(new Error('No voice interaction to run')),
+      {
+        failureThreshold: settings.failureThreshold ?? 5,
+        resetTimeout,
+        successThreshold: 1,
+        // Interactions end on their own recording timeouts
+        timeout: 0,
+        onStateChange: (state) => {
+          if (state === CircuitState.OPEN) {
+            this.logger.warn(
+              `🔌 TTS/STT failing repeatedly: failing questions fast for ${resetTimeout / 1000}s`
+            );
+          } else if (state === CircuitState.CLOSED) {
+            this.logger.info('🔌 TTS/STT recovered');
+          }
+        },
+      }
+    );
+  }
+
+  /**
+   * Directory for a question's synthesized audio in parallel runs.
+   *
+   * @param audioId - Question ID (with run suffix when repeated)
+   * @returns Fresh directory, or undefined to use the working directory
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * TTS output is written to a fixed file name, so concurrent questions each
+   * get their own directory under a scratch directory removed after the run.
+   */
+  private getScratchDir(audioId: string): string | undefined {
+    if (!this.scratchDir) {
+      return undefined;
     }
+    const dir = join(this.scratchDir, audioId);
+    mkdirSync(dir, { recursive: true });
+    return dir;
   }
 
   /**
@@ -316,6 +662,8 @@ export class VoiceBotTestService {
    *
    * @param question - Test question configuration
    * @param questionIndex - Index of the question in the test suite
+   * @param scenarioTurn - Scenario position and history (scenario turns only)
+   * @param repeatRun - 1-based run number when the question is repeated
    * @returns Promise resolving to question result
    *
    * @private
@@ -341,18 +689,30 @@ export class VoiceBotTestService {
    */
   private async runSingleQuestion(
     question: TestQuestion,
-    questionIndex: number
-  ): Promise<QuestionResult> {
+    questionIndex: number,
+    scenarioTurn?: ScenarioTurnContext,
+    repeatRun?: number
+  ): Promise<QuestionResultWithPromise> {
     const questionStartTime = Date.now();
     let retries = 0;
     const maxRetries = this.config.settings.maxRetries;
+    // Each repeated run keeps its own audio files
+    const audioId = repeatRun ? `${question.id}.run${repeatRun}` : question.id;
+
+    // Key recorded streaming sessions by question
+    getActiveCassette()?.setScope(question.id);
 
     while (retries <= maxRetries) {
       try {
+        // Stay under provider rate limits, however many workers are running
+        await this.rateLimiter.acquire();
+
         // Show question header
         console.log(`\n${'='.repeat(60)}`);
         console.log(
-          `📝 Question ${questionIndex + 1}/${this.config.questions.length}: ${question.id}`
+          scenarioTurn
+            ? `🎭 Scenario ${scenarioTurn.scenarioId}, turn ${scenarioTurn.turnNumber}: ${question.id}`
+            : `📝 Question ${questionIndex + 1}/${this.config.questions.length}: ${question.id}${repeatRun ? ` (run ${repeatRun}/${this.options.repeat})` : ''}`
         );
         console.log(`${'='.repeat(60)}\n`);
 
@@ -366,7 +726,8 @@ export class VoiceBotTestService {
           `🔄 Creating fresh voice service for question ${questionIndex + 1}...`
         );
         const freshVoiceService = new VoiceInteractionService(
-          this.config.settings
+          this.config.settings,
+          this.getScratchDir(audioId)
         );
 
         // Use the reliable voice service for the complete interaction
@@ -374,9 +735,8 @@ export class VoiceBotTestService {
           `🎯 Running voice interaction for question: "${question.question}"`
         );
 
-        const voiceResult = await freshVoiceService.runVoiceInteraction(
-          question.question,
-          {
+        const voiceResult = await this.providerBreaker.execute(() =>
+          freshVoiceService.runVoiceInteraction(question.question, {
             language:
               question.settings?.language ??
               this.config.settings.defaultLanguage,
@@ -393,8 +753,13 @@ export class VoiceBotTestService {
             backgroundVolume:
               question.settings?.backgroundVolume ??
               this.config.settings.backgroundVolume,
+            backgroundSnrDb:
+              question.settings?.backgroundSnrDb ??
+              this.config.settings.backgroundSnrDb,
             questionDelay: this.config.settings.questionDelay,
-          }
+            responseAudioFile: this.responseAudioFiles.get(question.id),
+            responseRecordingPath: this.getAudioPath(audioId, 'response'),
+          })
         );
 
         // Clean up the fresh service immediately after use
@@ -403,8 +768,8 @@ export class VoiceBotTestService {
         );
         freshVoiceService.cleanup();
 
-        const questionPlayTime = 0; // TTS timing is handled internally
-        const recordingTime = voiceResult.duration ?? 0;
+        const questionPlayTime = voiceResult.questionPlayTime ?? 0;
+        const recordingTime = (voiceResult.duration ?? 0) - questionPlayTime;
 
         if (
           !voiceResult.transcript ||
@@ -423,80 +788,35 @@ export class VoiceBotTestService {
           `📊 Audio processed: ${voiceResult.audioProcessed ?? 0} bytes, max volume: ${((voiceResult.maxVolume ?? 0) * 100).toFixed(1)}%`
         );
 
-        // Step 3: Start AI analysis in background (don't block)
-        this.logger.info('🤖 Starting AI analysis in background...');
-        const analysisStartTime = Date.now();
-
-        // Create result placeholder that will be updated when AI completes
-        const questionResult: QuestionResultWithPromise = {
-          questionId: question.id,
-          question: question.question,
-          intent: question.intent,
-          expectedElements: question.expectedElements,
-          actualResponse: voiceResult.transcript,
-          comparison: {
-            isMatch: false,
-            confidence: 0,
-            score: 0,
-            analysis: 'AI analysis in progress...',
-            strengths: [],
-            improvements: [],
-          },
-          timing: {
+        // Step 3: Create result placeholder that will be updated when AI completes
+        const questionResult = this.createPendingResult(
+          question,
+          voiceResult.transcript,
+          {
             questionPlayTime,
             recordingTime,
             transcriptionTime: voiceResult.processingTime ?? 0,
             analysisTime: 0,
             totalTime: Date.now() - questionStartTime,
           },
-          retries,
-          passed: false,
-          errors: [],
+          retries
+        );
+        questionResult.words = voiceResult.words;
+        questionResult.audio = {
+          question: this.saveQuestionAudio(
+            audioId,
+            voiceResult.questionAudioFilePath
+          ),
+          response: this.getResponseRecording(audioId),
         };
 
         // Start AI analysis in background (non-blocking)
-        const aiAnalysisPromise = this.aiComparison
-          .compareResponses({
-            userResponse: voiceResult.transcript,
-            originalQuestion: question.question,
-            intent: question.intent,
-            expectedElements: question.expectedElements,
-            context: question.context,
-            sampleResponse: question.sampleResponse,
-          })
-          .then((comparisonResult) => {
-            const analysisTime = Date.now() - analysisStartTime;
-            const totalTime = Date.now() - questionStartTime;
-
-            // AI returns binary score: 0 or 1
-            // Config passingScore is for display purposes only (0-10 scale)
-            // We convert AI's 0-1 score to 0-10 scale for consistency
-            const scoreOutOf10 = comparisonResult.score * 10;
-            const passed = comparisonResult.score === 1; // Binary: 1 = pass, 0 = fail
-
-            // Update result with AI analysis
-            questionResult.comparison = comparisonResult;
-            questionResult.timing.analysisTime = analysisTime;
-            questionResult.timing.totalTime = totalTime;
-            questionResult.passed = passed;
-
-            this.logger.info(
-              `✅ AI analysis completed in ${analysisTime}ms (score: ${comparisonResult.score}/1 = ${scoreOutOf10}/10 - ${passed ? 'PASS' : 'FAIL'})`
-            );
-            return questionResult;
-          })
-          .catch((error: Error) => {
-            this.logger.error(`❌ AI analysis failed: ${error.message}`);
-            if (!questionResult.errors) {
-              questionResult.errors = [];
-            }
-            questionResult.errors.push(`AI analysis error: ${error.message}`);
-            return questionResult;
-          });
-
-        // Don't await - let it run in background
-        // Store promise so we can wait for all AI analyses at the end
-        questionResult.aiAnalysisPromise = aiAnalysisPromise;
+        this.analyzeInBackground(
+          questionResult,
+          question,
+          scenarioTurn?.history,
+          questionStartTime
+        );
 
         // Return immediately - don't wait for AI analysis
         this.logger.info(
@@ -509,39 +829,28 @@ export class VoiceBotTestService {
           `❌ Error in question ${question.id}: ${errorMessage}`
         );
 
-        if (retries < maxRetries) {
+        // Retrying is pointless while the providers are known to be down
+        const providersDown =
+          this.providerBreaker.getState() === CircuitState.OPEN;
+
+        if (retries < maxRetries && !providersDown) {
           this.logger.info(
             `🔄 Retrying question (attempt ${retries + 2}/${maxRetries + 1})...`
           );
           retries++;
           await this.delay(3000);
         } else {
-          // Return failed result
-          return {
-            questionId: question.id,
-            question: question.question,
-            intent: question.intent,
-            expectedElements: question.expectedElements,
-            actualResponse: '',
-            comparison: {
-              isMatch: false,
-              confidence: 0,
-              score: 0,
-              analysis: `Failed due to error: ${errorMessage}`,
-              strengths: [],
-              improvements: ['Fix technical issues preventing response'],
-            },
-            timing: {
-              questionPlayTime: 0,
-              recordingTime: 0,
-              transcriptionTime: 0,
-              analysisTime: 0,
-              totalTime: Date.now() - questionStartTime,
-            },
+          // Return failed result, keeping what was heard for auditing
+          const failedResult = this.createFailedResult(
+            question,
+            errorMessage,
             retries,
-            passed: false,
-            errors: [errorMessage],
+            questionStartTime
+          );
+          failedResult.audio = {
+            response: this.getResponseRecording(audioId),
           };
+          return failedResult;
         }
       }
     }
@@ -553,6 +862,693 @@ export class VoiceBotTestService {
     );
   }
 
+  /**
+   * Create a result whose AI analysis has not run yet.
+   *
+   * @param question - Question that was asked
+   * @param transcript - Transcribed response
+   * @param timing - Timing measured so far
+   * @param retries - Retries taken
+   * @returns Placeholder result, updated in place by `analyzeInBackground()`
+   *
+   * @private
+   * @internal
+   */
+  private createPendingResult(
+    question: TestQuestion,
+    transcript: string,
+    timing: QuestionResult['timing'],
+    retries: number
+  ): QuestionResultWithPromise {
+    return {
+      questionId: question.id,
+      question: question.question,
+      intent: question.intent,
+      expectedElements: question.expectedElements,
+      actualResponse: transcript,
+      comparison: {
+        isMatch: false,
+        confidence: 0,
+        score: 0,
+        analysis: 'AI analysis in progress...',
+        strengths: [],
+        improvements: [],
+      },
+      timing,
+      retries,
+      passed: false,
+      errors: [],
+    };
+  }
+
+  /**
+   * Start AI analysis of a response without waiting for it.
+   *
+   * @param questionResult - Pending result; updated when analysis completes
+   * @param question - Question that was asked
+   * @param history - Earlier exchanges in the same conversation, if any
+   * @param questionStartTime - When the question started (for total time)
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * The promise is stored on `questionResult.aiAnalysisPromise` so the suite
+   * can wait for every analysis before reporting. Analysis errors are recorded
+   * on the result rather than thrown.
+   *
+   * The question's assertions are checked first. A failed assertion fails the
+   * question without calling the AI, as do passing assertions with
+   * `assertionsOnly`. With a `referenceTranscript`, the transcript's WER and
+   * CER are measured before either.
+   */
+  private analyzeInBackground(
+    questionResult: QuestionResultWithPromise,
+    question: TestQuestion,
+    history: ConversationTurn[] | undefined,
+    questionStartTime: number
+  ): void {
+    if (question.referenceTranscript !== undefined) {
+      const accuracy = measureTranscriptAccuracy(
+        question.referenceTranscript,
+        questionResult.actualResponse,
+        questionResult.words
+      );
+      questionResult.transcriptAccuracy = accuracy;
+      this.logger.info(
+        `📏 Transcript WER ${(accuracy.wer * 100).toFixed(1)}%, CER ${(accuracy.cer * 100).toFixed(1)}% (${accuracy.substitutions} substituted, ${accuracy.insertions} inserted, ${accuracy.deletions} deleted of ${accuracy.referenceWords} words)`
+      );
+    }
+
+    if (question.assertions && question.assertions.length > 0) {
+      const assertions = evaluateAssertions(
+        questionResult.actualResponse,
+        question.assertions
+      );
+      questionResult.assertions = assertions;
+      const failed = assertions.filter((assertion) => !assertion.passed);
+      if (failed.length > 0 || question.assertionsOnly) {
+        this.settleWithAssertions(questionResult, questionStartTime);
+        return;
+      }
+      this.logger.info(
+        `🧪 ${assertions.length} assertion(s) passed, continuing with AI analysis`
+      );
+    }
+
+    this.logger.info('🤖 Starting AI analysis in background...');
+    const analysisStartTime = Date.now();
+
+    const aiAnalysisPromise = this.aiComparison
+      .compareResponses({
+        userResponse: questionResult.actualResponse,
+        originalQuestion: question.question,
+        intent: question.intent,
+        expectedElements: question.expectedElements,
+        context: question.context,
+        sampleResponse: question.sampleResponse,
+        conversationHistory: history,
+        ...(this.config.settings.rubric && {
+          rubric: this.config.settings.rubric,
+        }),
+      })
+      .then((comparisonResult) => {
+        const analysisTime = Date.now() - analysisStartTime;
+        const totalTime = Date.now() - questionStartTime;
+
+        // AI returns a binary score (0 or 1), or the rubric aggregate (0-1)
+        // Config passingScore applies to the suite's weighted pass rate, not here
+        // We convert AI's 0-1 score to 0-10 scale for consistency
+        const scoreOutOf10 = comparisonResult.score * 10;
+        const passed = isPassingComparison(comparisonResult);
+
+        // Update result with AI analysis
+        questionResult.comparison = comparisonResult;
+        questionResult.timing.analysisTime = analysisTime;
+        questionResult.timing.totalTime = totalTime;
+        questionResult.passed = passed;
+
+        this.logger.info(
+          `✅ AI analysis completed in ${analysisTime}ms (score: ${comparisonResult.score}/1 = ${scoreOutOf10}/10 - ${passed ? 'PASS' : 'FAIL'})`
+        );
+        return questionResult;
+      })
+      .catch((error: Error) => {
+        this.logger.error(`❌ AI analysis failed: ${error.message}`);
+        if (!questionResult.errors) {
+          questionResult.errors = [];
+        }
+        questionResult.errors.push(`AI analysis error: ${error.message}`);
+        return questionResult;
+      });
+
+    // Don't await - let it run in background
+    // Store promise so we can wait for all AI analyses at the end
+    questionResult.aiAnalysisPromise = aiAnalysisPromise;
+  }
+
+  /**
+   * Combine repeated runs of a question into one result.
+   *
+   * @param runs - Results of each run, in order
+   * @returns Result reported for the question, completed once every run's AI
+   * analysis has finished
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * The question passes when a majority of its runs passed. The transcript,
+   * analysis, timing and audio reported are those of the first run that agrees
+   * with that verdict, and `stability` holds the pass probability and the
+   * score and transcript variance across all runs.
+   */
+  private combineRepeatedRuns(
+    runs: QuestionResultWithPromise[]
+  ): QuestionResultWithPromise {
+    const combined: QuestionResultWithPromise = { ...runs[0] };
+
+    const aiAnalysisPromise = Promise.all(
+      runs.map((run) => run.aiAnalysisPromise)
+    ).then(() => {
+      const stability = summarizeRepeats(runs);
+      const passed = stability.passes * 2 > stability.runs;
+      const representative =
+        runs.find((run) => run.passed === passed) ?? runs[0];
+
+      Object.assign(combined, representative, {
+        passed,
+        stability,
+        aiAnalysisPromise,
+      });
+      if (stability.unstableTranscript || stability.unstableVerdict) {
+        this.logger.warn(
+          `🎲 ${combined.questionId} is unstable: passed ${stability.passes}/${stability.runs} runs, ${stability.distinctTranscripts} distinct transcript(s)`
+        );
+      }
+      return combined;
+    });
+
+    combined.aiAnalysisPromise = aiAnalysisPromise;
+    return combined;
+  }
+
+  /**
+   * Decide a question on its assertions alone, without AI analysis.
+   *
+   * @param questionResult - Pending result with `assertions` set
+   * @param questionStartTime - When the question started (for total time)
+   *
+   * @private
+   * @internal
+   */
+  private settleWithAssertions(
+    questionResult: QuestionResultWithPromise,
+    questionStartTime: number
+  ): void {
+    const assertions = questionResult.assertions ?? [];
+    const failed = assertions.filter((assertion) => !assertion.passed);
+    const passed = failed.length === 0;
+
+    questionResult.comparison = {
+      isMatch: passed,
+      confidence: 1,
+      score: passed ? 1 : 0,
+      analysis: passed
+        ? `All ${assertions.length} assertion(s) passed`
+        : `Failed assertion(s): ${failed.map((assertion) => `${assertion.description} (${assertion.detail})`).join('; ')}`,
+      strengths: [],
+      improvements: [],
+    };
+    questionResult.timing.totalTime = Date.now() - questionStartTime;
+    questionResult.passed = passed;
+    questionResult.aiAnalysisPromise = Promise.resolve(questionResult);
+
+    this.logger.info(
+      `🧪 Assertions ${passed ? 'passed' : `failed: ${failed.map((assertion) => assertion.description).join(', ')}`} (AI analysis skipped)`
+    );
+  }
+
+  /**
+   * Create the result of a question that could not be completed.
+   *
+   * @param question - Question that was asked
+   * @param errorMessage - Why it failed
+   * @param retries - Retries taken
+   * @param questionStartTime - When the question started
+   * @returns Failed result
+   *
+   * @private
+   * @internal
+   */
+  private createFailedResult(
+    question: TestQuestion,
+    errorMessage: string,
+    retries: number,
+    questionStartTime: number
+  ): QuestionResultWithPromise {
+    return {
+      questionId: question.id,
+      question: question.question,
+      intent: question.intent,
+      expectedElements: question.expectedElements,
+      actualResponse: '',
+      comparison: {
+        isMatch: false,
+        confidence: 0,
+        score: 0,
+        analysis: `Failed due to error: ${errorMessage}`,
+        strengths: [],
+        improvements: ['Fix technical issues preventing response'],
+      },
+      timing: {
+        questionPlayTime: 0,
+        recordingTime: 0,
+        transcriptionTime: 0,
+        analysisTime: 0,
+        totalTime: Date.now() - questionStartTime,
+      },
+      retries,
+      passed: false,
+      errors: [errorMessage],
+    };
+  }
+
+  /**
+   * Run a multi-turn scenario, choosing each turn from the previous outcome.
+   *
+   * @param scenario - Scenario configuration
+   * @returns Results of the turns that were run, in order
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * Turns are reported as `<scenarioId>/<turnId>`. The AI verdict is awaited
+   * before moving on only when a branch of the turn tests `passed`; otherwise
+   * analysis keeps running in the background as for plain questions. Each
+   * turn is evaluated with the earlier exchanges as conversation history.
+   */
+  private async runScenario(
+    scenario: TestScenario
+  ): Promise<QuestionResultWithPromise[]> {
+    const results: QuestionResultWithPromise[] = [];
+    const slots: Record<string, string> = { ...scenario.slots };
+    const history: ConversationTurn[] = [];
+    const maxTurns = scenario.maxTurns ?? DEFAULT_MAX_SCENARIO_TURNS;
+    let turn: ScenarioTurn | null = getStartTurn(scenario);
+
+    while (turn) {
+      if (results.length >= maxTurns) {
+        const message = `Scenario stopped after ${maxTurns} turns before turn "${turn.id}"`;
+        this.logger.warn(`⚠️ ${message}`);
+        const lastResult = results[results.length - 1];
+        lastResult.errors = [...(lastResult.errors ?? []), message];
+        break;
+      }
+
+      const question: TestQuestion = {
+        ...interpolateTurn(turn, slots),
+        id: `${scenario.id}/${turn.id}`,
+      };
+      const result = await this.runSingleQuestion(question, results.length, {
+        scenarioId: scenario.id,
+        turnNumber: results.length + 1,
+        history: [...history],
+      });
+
+      if (needsVerdict(turn) && result.aiAnalysisPromise) {
+        this.logger.info(
+          '⏳ Waiting for AI verdict to choose the next turn...'
+        );
+        await result.aiAnalysisPromise;
+      }
+
+      const transcript = result.actualResponse;
+      const captured = captureSlots(turn, transcript, slots);
+      if (captured.length > 0) {
+        this.logger.info(
+          `🧩 Captured slots: ${captured.map((slot) => `${slot}="${slots[slot]}"`).join(', ')}`
+        );
+      }
+
+      result.scenarioId = scenario.id;
+      result.turnNumber = results.length + 1;
+      result.slots = { ...slots };
+      results.push(result);
+
+      if (transcript.trim().length > 0) {
+        history.push({ question: question.question, response: transcript });
+      }
+
+      turn = resolveNextTurn(scenario, turn, {
+        passed: result.passed,
+        transcript,
+        slots,
+      });
+    }
+
+    this.logger.info(
+      `🏁 Scenario ${scenario.id} finished after ${results.length} turns`
+    );
+    return results;
+  }
+
+  /**
+   * Run a simulated caller against the live bot.
+   *
+   * @param caller - Simulated caller configuration
+   * @returns Results of the bot replies that were captured, in order
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * The caller listens for a greeting (unless `botSpeaksFirst` is false), then
+   * alternates between speaking a line and listening to the bot until it hangs
+   * up, runs out of lines or reaches `maxTurns`. Each bot reply is reported as
+   * `<callerId>/turn-<n>` and evaluated in the background with the earlier
+   * exchanges as conversation history. The call ends early if the bot stays
+   * silent or a turn fails.
+   */
+  private async runCaller(
+    caller: SimulatedCaller
+  ): Promise<QuestionResultWithPromise[]> {
+    const results: QuestionResultWithPromise[] = [];
+    const transcript: CallTranscriptLine[] = [];
+    const history: ConversationTurn[] = [];
+    const maxTurns = caller.maxTurns ?? DEFAULT_MAX_CALLER_TURNS;
+    const { persona } = caller;
+    const language = persona.language ?? this.config.settings.defaultLanguage;
+    const simulatedCaller = new SimulatedCallerService(
+      caller,
+      this.config.settings
+    );
+
+    if (caller.botSpeaksFirst ?? true) {
+      getActiveCassette()?.setScope(`${caller.id}/greeting`);
+      try {
+        const greeting = await this.listenToBot(language);
+        if (greeting.transcript.trim().length > 0) {
+          console.log(`🤖 Bot: "${greeting.transcript}"\n`);
+          transcript.push({ speaker: 'bot', text: greeting.transcript });
+        }
+      } catch (error) {
+        this.logger.warn(
+          `⚠️ No greeting captured for caller ${caller.id}: ${getErrorMessage(error)}`
+        );
+      }
+    }
+
+    for (let turnNumber = 1; turnNumber <= maxTurns; turnNumber++) {
+      const turnStartTime = Date.now();
+      const question: TestQuestion = {
+        id: `${caller.id}/turn-${turnNumber}`,
+        question: '',
+        intent:
+          caller.botIntent ??
+          `Respond helpfully to ${persona.name}, who wants to: ${persona.goal}`,
+        expectedElements: caller.expectedElements?.length
+          ? caller.expectedElements
+          : ['A relevant reply to what the caller just said'],
+        context: caller.context,
+      };
+
+      let result: QuestionResultWithPromise;
+      let hangUp = false;
+
+      try {
+        const line = await simulatedCaller.nextLine(transcript);
+        if (!line.text) {
+          break;
+        }
+        question.question = line.text;
+        hangUp = line.done;
+
+        console.log(`\n${'='.repeat(60)}`);
+        console.log(`🧑 Caller ${caller.id}, turn ${turnNumber}`);
+        console.log(`${'='.repeat(60)}\n`);
+        console.log(`🧑 ${persona.name}: "${line.text}"\n`);
+        transcript.push({ speaker: 'caller', text: line.text });
+
+        getActiveCassette()?.setScope(question.id);
+        const utterance = await simulatedCaller.speak(line.text);
+        const reply = await this.listenToBot(
+          language,
+          this.getAudioPath(question.id, 'response')
+        );
+
+        if (reply.transcript.trim().length === 0) {
+          throw new VoiceTestError(
+            'No speech detected in bot reply',
+            ErrorCode.NO_SPEECH_DETECTED
+          );
+        }
+        console.log(`🤖 Bot: "${reply.transcript}"\n`);
+
+        result = this.createPendingResult(
+          question,
+          reply.transcript,
+          {
+            questionPlayTime: utterance.playTime,
+            recordingTime: reply.duration,
+            transcriptionTime: reply.processingTime,
+            analysisTime: 0,
+            totalTime: Date.now() - turnStartTime,
+          },
+          0
+        );
+        result.words = reply.words;
+        result.audio = {
+          question: this.saveQuestionAudio(
+            question.id,
+            utterance.audioFilePath
+          ),
+          response: this.getResponseRecording(question.id),
+        };
+        this.analyzeInBackground(result, question, [...history], turnStartTime);
+
+        transcript.push({ speaker: 'bot', text: reply.transcript });
+        history.push({ question: line.text, response: reply.transcript });
+      } catch (error) {
+        const errorMessage = getErrorMessage(error);
+        this.logger.error(
+          `❌ Error in caller turn ${question.id}: ${errorMessage}`
+        );
+        result = this.createFailedResult(
+          question,
+          errorMessage,
+          0,
+          turnStartTime
+        );
+        result.audio = { response: this.getResponseRecording(question.id) };
+        hangUp = true;
+      }
+
+      result.callerId = caller.id;
+      result.turnNumber = turnNumber;
+      results.push(result);
+
+      if (hangUp) {
+        break;
+      }
+    }
+
+    this.logger.info(
+      `📞 Caller ${caller.id} hung up after ${results.length} turns`
+    );
+    return results;
+  }
+
+  /**
+   * Listen to the bot with a fresh voice service.
+   *
+   * @param language - Language of the call
+   * @param responseRecordingPath - Where to save the bot's audio, if anywhere
+   * @returns Transcribed bot speech
+   *
+   * @private
+   * @internal
+   */
+  private async listenToBot(
+    language: string,
+    responseRecordingPath?: string
+  ): Promise<VoiceInteractionResult> {
+    const freshVoiceService = new VoiceInteractionService(this.config.settings);
+    try {
+      return await freshVoiceService.listen({
+        language,
+        responseRecordingPath,
+        maxRecordingDuration: this.config.settings.recordingDuration,
+        silenceTimeout: this.config.settings.vadSettings.silenceDuration,
+        confidenceThreshold: 0.3,
+      });
+    } finally {
+      freshVoiceService.cleanup();
+    }
+  }
+
+  /**
+   * Path of a question's audio file in this run's audio directory.
+   *
+   * @param questionId - Question the audio belongs to
+   * @param role - Which side of the exchange the audio is
+   * @param extension - File extension including the dot
+   * @returns Absolute path
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * Files are saved as `vokal-audio-{timestamp}/<questionId>.<role>.<ext>`.
+   * Scenario and caller question IDs contain `/` and get subdirectories;
+   * repeated runs use `<questionId>.run<n>` as the ID.
+   */
+  private getAudioPath(
+    questionId: string,
+    role: 'question' | 'response',
+    extension = '.wav'
+  ): string {
+    return join(
+      process.cwd(),
+      `vokal-audio-${this.runTimestamp}`,
+      `${questionId}.${role}${extension}`
+    );
+  }
+
+  /**
+   * Copy the synthesized question into this run's audio directory.
+   *
+   * @param questionId - Question the audio belongs to
+   * @param sourcePath - File to copy, if any
+   * @returns Path of the copy relative to the working directory, or undefined
+   * when there is nothing to copy or copying fails
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * TTS output is overwritten by the next question, so it is copied to
+   * outlive the run and be embedded in reports.
+   */
+  private saveQuestionAudio(
+    questionId: string,
+    sourcePath?: string
+  ): string | undefined {
+    if (!sourcePath || !existsSync(sourcePath)) {
+      return undefined;
+    }
+
+    const targetPath = this.getAudioPath(
+      questionId,
+      'question',
+      extname(sourcePath) || '.wav'
+    );
+
+    try {
+      mkdirSync(dirname(targetPath), { recursive: true });
+      copyFileSync(sourcePath, targetPath);
+      return relative(process.cwd(), targetPath);
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Could not save question audio for ${questionId}: ${getErrorMessage(error)}`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the saved response recording of a question.
+   *
+   * @param questionId - Question the response belongs to
+   * @returns Path relative to the working directory, or undefined when nothing
+   * was recorded
+   *
+   * @private
+   * @internal
+   */
+  private getResponseRecording(questionId: string): string | undefined {
+    const recordingPath = this.getAudioPath(questionId, 'response');
+    return existsSync(recordingPath)
+      ? relative(process.cwd(), recordingPath)
+      : undefined;
+  }
+
+  /**
+   * Resolve the pre-recorded response file for every question, if any.
+   *
+   * @returns Map of question ID to absolute WAV path (empty when not headless)
+   *
+   * @throws {FileSystemError} If a configured response file does not exist
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * Resolution order per question:
+   * 1. `question.responseAudio` (relative to the config file)
+   * 2. `options.responses` (relative to the working directory)
+   * 3. `settings.responseAudio` (relative to the config file)
+   *
+   * A directory source maps each question to `<dir>/<questionId>.wav` and each
+   * scenario turn to `<dir>/<scenarioId>/<turnId>.wav`; a file source is used
+   * as the response for every question. Questions without a source fall back
+   * to the microphone.
+   */
+  private resolveResponseAudioFiles(): Map<string, string> {
+    const files = new Map<string, string>();
+
+    const suiteSource = this.options.responses
+      ? resolve(this.options.responses)
+      : this.config.settings.responseAudio
+        ? resolve(this.configDir, this.config.settings.responseAudio)
+        : undefined;
+
+    if (suiteSource && !existsSync(suiteSource)) {
+      throw new FileSystemError(
+        `Response audio source not found: ${suiteSource}`,
+        ErrorCode.FILE_NOT_FOUND
+      );
+    }
+
+    const suiteIsDirectory =
+      suiteSource !== undefined && statSync(suiteSource).isDirectory();
+
+    const scenarioTurns = (this.config.scenarios ?? []).flatMap((scenario) =>
+      scenario.turns.map((turn) => ({
+        ...turn,
+        id: `${scenario.id}/${turn.id}`,
+      }))
+    );
+
+    for (const question of [...this.config.questions, ...scenarioTurns]) {
+      let filePath: string | undefined;
+
+      if (question.responseAudio) {
+        filePath = resolve(this.configDir, question.responseAudio);
+      } else if (suiteSource) {
+        filePath = suiteIsDirectory
+          ? join(suiteSource, `${question.id}.wav`)
+          : suiteSource;
+      }
+
+      if (!filePath) {
+        continue;
+      }
+
+      if (!existsSync(filePath)) {
+        throw new FileSystemError(
+          `No response audio for question "${question.id}": ${filePath}`,
+          ErrorCode.FILE_NOT_FOUND
+        );
+      }
+
+      files.set(question.id, filePath);
+    }
+
+    return files;
+  }
+
   /**
    * Load test configuration from file.
    *
@@ -568,7 +1564,8 @@ export class VoiceBotTestService {
    * Validates that configuration contains:
    * - `metadata` object
    * - `settings` object
-   * - `questions` array with at least one question
+   * - at least one entry in `questions`, `scenarios` or `callers`
+   * - well-formed scenarios (unique ids, known branch targets, valid patterns)
    */
   private loadTestConfig(configPath: string): VoiceBotConfig {
     try {
@@ -581,12 +1578,61 @@ export class VoiceBotTestService {
 
       const config = parseResult.data;
 
-      if (!config.metadata || !config.settings || !config.questions) {
+      if (!config.metadata || !config.settings) {
         throw new Error('Invalid configuration format');
       }
 
-      if (config.questions.length === 0) {
-        throw new Error('No questions defined in configuration');
+      // Scenario- and caller-only suites may omit the flat question list
+      config.questions = config.questions ?? [];
+
+      if (
+        config.questions.length === 0 &&
+        !config.scenarios?.length &&
+        !config.callers?.length
+      ) {
+        throw new Error(
+          'No questions, scenarios or callers defined in configuration'
+        );
+      }
+
+      validateScenarios(config.scenarios ?? []);
+
+      for (const question of config.questions) {
+        this.validateQuestionAssertions(question, `questions.${question.id}`);
+      }
+      for (const scenario of config.scenarios ?? []) {
+        for (const turn of scenario.turns) {
+          this.validateQuestionAssertions(
+            turn,
+            `scenarios.${scenario.id}.turns.${turn.id}`
+          );
+        }
+      }
+
+      const { passingScore } = config.settings;
+      if (
+        passingScore !== undefined &&
+        (typeof passingScore !== 'number' ||
+          passingScore < 0 ||
+          passingScore > 10)
+      ) {
+        throw new Error(
+          `settings.passingScore must be between 0 and 10, got ${passingScore}`
+        );
+      }
+      const weighted = [
+        ...config.questions,
+        ...(config.scenarios ?? []).flatMap((scenario) => scenario.turns),
+      ];
+      for (const question of weighted) {
+        if (
+          question.weight !== undefined &&
+          (typeof question.weight !== 'number' || question.weight < 0)
+        ) {
+          throw new Error(
+            `Question "${question.id}" has an invalid weight: ${question.weight}`
+          );
+        }
       }
 
       return config;
@@ -599,6 +1645,32 @@ export class VoiceBotTestService {
     }
   }
 
+  /**
+   * Validate a question's assertions.
+   *
+   * @param question - Question or scenario turn
+   * @param field - Configuration path of the question, for error messages
+   *
+   * @throws {ValidationError} If an assertion is invalid, or `assertionsOnly`
+   * is set without assertions
+   *
+   * @private
+   * @internal
+   */
+  private validateQuestionAssertions(
+    question: TestQuestion,
+    field: string
+  ): void {
+    validateAssertions(question.assertions ?? [], field);
+    if (question.assertionsOnly && !question.assertions?.length) {
+      throw new ValidationError(
+        `${field} sets assertionsOnly without any assertions`,
+        `${field}.assertionsOnly`,
+        question.assertionsOnly
+      );
+    }
+  }
+
   /**
    * Validate system components before running tests.
    *
@@ -657,13 +1729,25 @@ export class VoiceBotTestService {
    * @remarks
    * Calculates:
    * - Pass/fail counts and rates
+   * - Weighted pass rate and the pass/fail verdict
    * - Average scores
    * - Performance metrics (TTS, STT, AI timing)
    * - System metrics (memory, error rate)
+   *
+   * **Verdict:** a failed required question fails the suite outright.
+   * Otherwise the suite passes when the weighted pass rate reaches
+   * `settings.passingScore`. Each question counts with its `weight`
+   * (default 1); configured questions that never ran count as failed, and
+   * caller turns always count with weight 1.
    */
   private generateTestResult(): TestResult {
     const totalTime = Date.now() - this.startTime;
-    const totalQuestions = this.config.questions.length;
+    // Scenario and caller turns count as questions; only the turns that ran are known
+    const totalQuestions =
+      this.config.questions.length +
+      this.results.filter(
+        (r) => r.scenarioId !== undefined || r.callerId !== undefined
+      ).length;
     const questionsAttempted = this.results.length;
     const questionsPassed = this.results.filter((r) => r.passed).length;
     const questionsFailed = this.results.filter((r) => !r.passed).length;
@@ -674,7 +1758,39 @@ export class VoiceBotTestService {
       scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0;
     const passRate =
       totalQuestions > 0 ? (questionsPassed / totalQuestions) * 100 : 0;
-    const testPassed = passRate >= 70; // 70% pass rate threshold
+
+    // Questions that never ran count as failed at their configured weight
+    const attemptedIds = new Set(this.results.map((r) => r.questionId));
+    const notRun = this.config.questions.filter((q) => !attemptedIds.has(q.id));
+    let totalWeight = notRun.reduce((sum, q) => sum + (q.weight ?? 1), 0);
+    let passedWeight = 0;
+    const requiredFailed = notRun.filter((q) => q.required).map((q) => q.id);
+    for (const result of this.results) {
+      const questionConfig = this.findQuestionConfig(result);
+      const weight = questionConfig?.weight ?? 1;
+      totalWeight += weight;
+      if (result.passed) {
+        passedWeight += weight;
+      } else if (questionConfig?.required) {
+        requiredFailed.push(result.questionId);
+      }
+    }
+    const weightedPassRate =
+      totalWeight > 0 ? (passedWeight / totalWeight) * 100 : 0;
+    const passingThreshold = this.getPassingThreshold();
+
+    const testPassed =
+      requiredFailed.length === 0 && weightedPassRate >= passingThreshold;
+    const verdict: TestVerdict =
+      requiredFailed.length > 0
+        ? {
+            rule: 'required-question',
+            detail: `required question(s) failed: ${requiredFailed.join(', ')}`,
+          }
+        : {
+            rule: 'passing-score',
+            detail: `weighted pass rate ${weightedPassRate.toFixed(1)}% ${testPassed ? '>=' : '<'} ${passingThreshold.toFixed(1)}%`,
+          };
 
     const summary: TestSummary = {
       totalQuestions,
@@ -684,8 +1800,23 @@ export class VoiceBotTestService {
       questionsSkipped,
       passRate,
       averageScore,
+      weightedPassRate,
+      passingThreshold,
+      requiredFailed,
       testPassed,
+      verdict,
     };
+    if ((this.options.repeat ?? 1) > 1) {
+      summary.unstableQuestions = this.results
+        .filter(
+          (r) => r.stability?.unstableTranscript || r.stability?.unstableVerdict
+        )
+        .map((r) => r.questionId);
+    }
+    const sttAccuracy = summarizeTranscriptAccuracy(this.results);
+    if (sttAccuracy) {
+      summary.sttAccuracy = sttAccuracy;
+    }
 
     const performance: PerformanceMetrics = {
       ttsMetrics: {
@@ -724,7 +1855,7 @@ export class VoiceBotTestService {
           this.results,
           'analysisTime'
         ),
-        provider: this.config.settings.aiProvider || 'google-ai',
+        provider: this.describeAIProvider(),
       },
       systemMetrics: {
         memoryUsage: process.memoryUsage().heapUsed,
@@ -735,6 +1866,8 @@ export class VoiceBotTestService {
     return {
       metadata: {
         configName: this.config.metadata.name,
+        configVersion: this.config.metadata.version,
+        tags: this.config.metadata.tags ?? [],
         executedAt: new Date().toISOString(),
         totalTime,
         environment: {
@@ -749,6 +1882,69 @@ export class VoiceBotTestService {
     };
   }
 
+  /**
+   * Name of the AI evaluation provider for logs and metrics.
+   *
+   * @returns The provider, or `ensemble(<judges>)` when judges are configured
+   *
+   * @private
+   * @internal
+   */
+  private describeAIProvider(): string {
+    const { ensemble, aiProvider } = this.config.settings;
+    if (ensemble) {
+      const judges = ensemble.judges.map((judge) =>
+        judge.model ? `${judge.provider}/${judge.model}` : judge.provider
+      );
+      return `ensemble(${judges.join(', ')})`;
+    }
+    return aiProvider || 'google-ai';
+  }
+
+  /**
+   * Weighted pass percentage the suite needs, from `settings.passingScore`.
+   *
+   * @returns Threshold in percent (70 when `passingScore` is not set)
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * Values below 1 are a fraction (0.7 is 70%). Older configurations use a
+   * 1-10 scale, so values from 1 up are divided by 10 (1 is 10%, 7 is 70%).
+   * The split keeps every legacy value meaning what it always did.
+   */
+  private getPassingThreshold(): number {
+    const { passingScore } = this.config.settings;
+    if (typeof passingScore !== 'number') {
+      return 70;
+    }
+    return (passingScore >= 1 ? passingScore / 10 : passingScore) * 100;
+  }
+
+  /**
+   * Find the configured question or scenario turn behind a result.
+   *
+   * @param result - Question result
+   * @returns Question configuration, or undefined for caller turns
+   *
+   * @private
+   * @internal
+   */
+  private findQuestionConfig(result: QuestionResult): TestQuestion | undefined {
+    if (result.scenarioId !== undefined) {
+      return this.config.scenarios
+        ?.find((scenario) => scenario.id === result.scenarioId)
+        ?.turns.find(
+          (turn) => `${result.scenarioId}/${turn.id}` === result.questionId
+        );
+    }
+    if (result.callerId !== undefined) {
+      return undefined;
+    }
+    return this.config.questions.find((q) => q.id === result.questionId);
+  }
+
   /**
    * Calculate average timing for a specific metric.
    *
@@ -787,30 +1983,66 @@ export class VoiceBotTestService {
   }
 
   /**
-   * Save test results to JSON file.
+   * Save test results with the selected reporters.
    *
    * @param testResult - Complete test result object
-   * @returns Path to saved results file
+   * @returns Paths to saved results files
    *
    * @private
    * @internal
    *
    * @remarks
-   * Creates two files:
-   * - `vokal-results-{timestamp}.json`: Complete test results
+   * Creates:
+   * - `vokal-results-{timestamp}.{ext}`: One file per reporter in
+   *   `options.reporters` (default: JSON with the complete test results)
    * - `conversation-report-{timestamp}.json`: Human-readable conversation report
+   *
+   * The timestamp is the start of the run, shared with `vokal-audio-{timestamp}/`.
    */
-  private saveTestResults(testResult: TestResult): string {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `vokal-results-${timestamp}.json`;
-    const resultsPath = join(process.cwd(), filename);
-
-    writeFileSync(resultsPath, JSON.stringify(testResult, null, 2));
+  private saveTestResults(testResult: TestResult): string[] {
+    const timestamp = this.runTimestamp;
+    const basePath = join(process.cwd(), `vokal-results-${timestamp}`);
+    const conversation = this.buildConversationReport(testResult);
+
+    const resultsPaths = ReporterManager.writeReports(
+      testResult,
+      this.options.reporters ?? ['json'],
+      basePath,
+      { conversation }
+    );
 
     // Also save a simple conversation report
-    this.saveConversationReport(testResult, timestamp);
+    this.saveConversationReport(testResult, timestamp, conversation);
 
-    return resultsPath;
+    return resultsPaths;
+  }
+
+  /**
+   * Append the run to the results store used by `vokal history`.
+   *
+   * @param testResult - Complete test result object
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * Skipped when `options.history` is `false`. A store that cannot be written
+   * is logged rather than failing the run.
+   */
+  private recordHistory(testResult: TestResult): void {
+    if (this.options.history === false) {
+      return;
+    }
+
+    try {
+      const store = new ResultsStore(this.options.history);
+      store.append(testResult);
+      this.logger.info(`🗂️ Run added to history: ${store.filePath}`);
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Could not update results history: ${getErrorMessage(error)}`
+      );
+    }
   }
 
   /**
@@ -882,6 +2114,7 @@ export class VoiceBotTestService {
    *
    * @param backgroundSound - Background sound preset name
    * @param volume - Volume level (0.0 to 1.0)
+   * @param snrDb - Signal-to-noise ratio in dB; described instead of the volume
    * @returns Human-readable background description
    *
    * @private
@@ -890,10 +2123,15 @@ export class VoiceBotTestService {
    * @example
    * ```typescript
    * formatBackground('cafe', 0.2) // 'Café ambience at 20% volume'
+   * formatBackground('cafe', 0.2, 10) // 'Café ambience at 10 dB SNR'
    * formatBackground(undefined) // 'None'
    * ```
    */
-  private formatBackground(backgroundSound?: string, volume?: number): string {
+  private formatBackground(
+    backgroundSound?: string,
+    volume?: number,
+    snrDb?: number
+  ): string {
     if (!backgroundSound) {
       return 'None';
     }
@@ -908,16 +2146,94 @@ export class VoiceBotTestService {
     };
 
     const soundName = soundMap[backgroundSound] || backgroundSound;
+    if (snrDb !== undefined) {
+      return `${soundName} at ${snrDb} dB SNR`;
+    }
     const volumePercent = volume ? Math.round(volume * 100) : 0;
 
     return `${soundName} at ${volumePercent}% volume`;
   }
 
+  /**
+   * Describe each question result for the conversation and HTML reports.
+   *
+   * @param testResult - Complete test result object
+   * @returns One entry per question result, in order
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * Resolves the language, voice and background each question was asked
+   * with from the question, scenario turn or caller configuration.
+   */
+  private buildConversationReport(
+    testResult: TestResult
+  ): ConversationReportEntry[] {
+    return testResult.questionResults.map((result) => {
+      // Find the original question config to get voice/language/background
+      const questionConfig = this.findQuestionConfig(result);
+      // Caller turns are spoken by the caller's persona
+      const caller =
+        result.callerId !== undefined
+          ? this.config.callers?.find((c) => c.id === result.callerId)
+          : undefined;
+      const language =
+        caller?.persona.language ||
+        questionConfig?.settings?.language ||
+        this.config.settings.defaultLanguage;
+      const voice =
+        caller?.persona.voice ||
+        questionConfig?.settings?.voice ||
+        this.config.settings.defaultVoice;
+      const background =
+        caller?.backgroundSound ||
+        questionConfig?.settings?.backgroundSound ||
+        this.config.settings.backgroundSound;
+      const backgroundVolume =
+        caller?.backgroundVolume ??
+        questionConfig?.settings?.backgroundVolume ??
+        this.config.settings.backgroundVolume;
+      const backgroundSnrDb =
+        caller?.backgroundSnrDb ??
+        questionConfig?.settings?.backgroundSnrDb ??
+        this.config.settings.backgroundSnrDb;
+
+      const isPassed = result.passed;
+
+      // Build base response object (language first, then voice, then background)
+      const response: ConversationReportEntry = {
+        questionId: result.questionId,
+        questionAsked: result.question,
+        automaticResponse: result.actualResponse || '(No response captured)',
+        score: isPassed ? 'PASS' : 'FAIL',
+        language: this.formatLanguage(language),
+        voice: this.formatVoice(voice),
+        background: this.formatBackground(
+          background,
+          backgroundVolume,
+          backgroundSnrDb
+        ),
+        analysis: result.comparison.analysis,
+      };
+
+      // Conditionally add strengths or improvements based on pass/fail
+      if (isPassed && result.comparison.strengths.length > 0) {
+        response.strengths = result.comparison.strengths;
+      } else if (!isPassed && result.comparison.improvements.length > 0) {
+        response.improvements = result.comparison.improvements;
+      }
+
+      return response;
+    });
+  }
+
   /**
    * Save simplified conversation report.
    *
    * @param testResult - Complete test result object
    * @param timestamp - Timestamp string for filename
+   * @param conversation - Entries from `buildConversationReport()`
    *
    * @private
    * @internal
@@ -933,22 +2249,9 @@ export class VoiceBotTestService {
    */
   private saveConversationReport(
     testResult: TestResult,
-    timestamp: string
+    timestamp: string,
+    conversation: ConversationReportEntry[]
   ): void {
-    // Define the ConversationReportEntry type locally to fix ESLint errors
-    type ConversationReportEntry = {
-      questionId: string;
-      questionAsked: string;
-      automaticResponse: string;
-      score: string;
-      language: string;
-      voice: string;
-      background: string;
-      analysis: string;
-      strengths?: string[];
-      improvements?: string[];
-    };
-
     const conversationReport = {
       testName: testResult.metadata.configName,
       executedAt: testResult.metadata.executedAt,
@@ -958,46 +2261,7 @@ export class VoiceBotTestService {
         passRate: `${testResult.summary.passRate.toFixed(1)}%`,
         averageScore: `${testResult.summary.averageScore.toFixed(2)}/1`,
       },
-      conversation: testResult.questionResults.map((result) => {
-        // Find the original question config to get voice/language/background
-        const questionConfig = this.config.questions.find(
-          (q) => q.id === result.questionId
-        );
-        const language =
-          questionConfig?.settings?.language ||
-          this.config.settings.defaultLanguage;
-        const voice =
-          questionConfig?.settings?.voice || this.config.settings.defaultVoice;
-        const background =
-          questionConfig?.settings?.backgroundSound ||
-          this.config.settings.backgroundSound;
-        const backgroundVolume =
-          questionConfig?.settings?.backgroundVolume ??
-          this.config.settings.backgroundVolume;
-
-        const isPassed = result.comparison.score === 1;
-
-        // Build base response object (language first, then voice, then background)
-        const response: ConversationReportEntry = {
-          questionId: result.questionId,
-          questionAsked: result.question,
-          automaticResponse: result.actualResponse || '(No response captured)',
-          score: isPassed ? 'PASS' : 'FAIL',
-          language: this.formatLanguage(language),
-          voice: this.formatVoice(voice),
-          background: this.formatBackground(background, backgroundVolume),
-          analysis: result.comparison.analysis,
-        };
-
-        // Conditionally add strengths or improvements based on pass/fail
-        if (isPassed && result.comparison.strengths.length > 0) {
-          response.strengths = result.comparison.strengths;
-        } else if (!isPassed && result.comparison.improvements.length > 0) {
-          response.improvements = result.comparison.improvements;
-        }
-
-        return response;
-      }),
+      conversation,
     };
 
     const reportPath = join(
@@ -1020,8 +2284,9 @@ export class VoiceBotTestService {
    * @remarks
    * Displays formatted summary with:
    * - Total questions and pass/fail counts
-   * - Pass rate and average score
-   * - Overall test result (PASSED/FAILED)
+   * - Pass rate, weighted pass rate and average score
+   * - STT accuracy, when questions have reference transcripts
+   * - Overall test result (PASSED/FAILED) and the rule that decided it
    */
   private printTestSummary(summary: TestSummary): void {
     this.logger.info('\n📊 TEST SUMMARY');
@@ -1031,9 +2296,36 @@ export class VoiceBotTestService {
     this.logger.info(`❌ Failed: ${summary.questionsFailed}`);
     this.logger.info(`⏭️ Skipped: ${summary.questionsSkipped}`);
     this.logger.info(`📈 Pass Rate: ${summary.passRate.toFixed(1)}%`);
+    this.logger.info(
+      `⚖️ Weighted Pass Rate: ${summary.weightedPassRate.toFixed(1)}% (threshold ${summary.passingThreshold.toFixed(1)}%)`
+    );
+    if (summary.requiredFailed.length > 0) {
+      this.logger.info(
+        `🚫 Required Failed: ${summary.requiredFailed.join(', ')}`
+      );
+    }
     this.logger.info(`🎯 Average Score: ${summary.averageScore.toFixed(2)}/1`);
+    if (summary.unstableQuestions) {
+      this.logger.info(
+        `🎲 Unstable: ${summary.unstableQuestions.join(', ') || 'none'}`
+      );
+    }
+    if (summary.sttAccuracy) {
+      const accuracy = summary.sttAccuracy;
+      this.logger.info(
+        `📏 STT Accuracy: WER ${(accuracy.wer * 100).toFixed(1)}%, CER ${(accuracy.cer * 100).toFixed(1)}% over ${accuracy.questions} question(s)`
+      );
+      if (accuracy.sttMisheard.length > 0) {
+        this.logger.info(`👂 STT Misheard: ${accuracy.sttMisheard.join(', ')}`);
+      }
+      if (accuracy.botMisunderstood.length > 0) {
+        this.logger.info(
+          `🤖 Bot Misunderstood: ${accuracy.botMisunderstood.join(', ')}`
+        );
+      }
+    }
     this.logger.info(
-      `🏆 Overall Result: ${summary.testPassed ? '✅ PASSED' : '❌ FAILED'}`
+      `🏆 Overall Result: ${summary.testPassed ? '✅ PASSED' : '❌ FAILED'} (${summary.verdict.detail})`
     );
     this.logger.info('═'.repeat(50));
   }
@@ -1105,6 +2397,7 @@ export class VoiceBotTestService {
    * Factory method for convenient instantiation.
    *
    * @param configPath - Path to test configuration JSON file
+   * @param options - Runtime options such as headless response audio
    * @returns A new VoiceBotTestService instance
    *
    * @example
@@ -1121,7 +2414,10 @@ export class VoiceBotTestService {
    * }
    * ```
    */
-  static create(configPath: string): VoiceBotTestService {
-    return new VoiceBotTestService(configPath);
+  static create(
+    configPath: string,
+    options: VoiceBotTestOptions = {}
+  ): VoiceBotTestService {
+    return new VoiceBotTestService(configPath, options);
   }
 }
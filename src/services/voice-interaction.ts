@@ -43,14 +43,19 @@
  * ```
  */
 
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
 import { STTHandlerManager } from '../providers/stt-handler-manager.js';
 import type {
   STTHandler,
   STTProviderName,
+  STTWord,
 } from '../types/stt-provider.types.js';
 import { AudioRecordingService } from './audio-recording.js';
+import { createAudioSource, LoopbackAudioSource } from './audio-sources.js';
 import { VoiceTestService } from './voice-test.js';
 import { ConsoleLogger } from '../utils/logger.js';
+import { encodeWav } from '../utils/wav.js';
 import {
   VoiceTestError,
   getErrorMessage,
@@ -66,6 +71,17 @@ import type { TestSettings } from '../types/voice-bot-config.js';
 import type { VoiceTestInput } from '../types/voice-test.types.js';
 import type { AudioRecordingSession } from '../types/audio.types.js';
 
+/**
+ * Interaction options with defaults applied; the background SNR stays
+ * optional since `backgroundVolume` applies without it
+ *
+ * @internal
+ */
+type ResolvedInteractionOptions = Required<
+  Omit<VoiceInteractionOptions, 'backgroundSnrDb'>
+> &
+  Pick<VoiceInteractionOptions, 'backgroundSnrDb'>;
+
 /**
  * Voice Interaction Service class for complete conversational AI pipelines.
  *
@@ -88,6 +104,7 @@ export class VoiceInteractionService {
    * Creates a new VoiceInteractionService instance.
    *
    * @param config - Configuration settings from test config
+   * @param outputDir - Directory for synthesized questions (default: working directory)
    *
    * @remarks
    * Initializes all component services using the STT Handler Manager.
@@ -111,7 +128,7 @@ export class VoiceInteractionService {
    * }
    * ```
    */
-  constructor(config?: Partial<TestSettings>) {
+  constructor(config?: Partial<TestSettings>, outputDir?: string) {
     this.logger = new ConsoleLogger();
     this.config = config;
 
@@ -128,8 +145,10 @@ export class VoiceInteractionService {
     this.sttHandler = STTHandlerManager.getHandler(sttProvider);
 
     // Initialize other services
-    this.voiceTest = new VoiceTestService(undefined, config);
-    this.audioService = new AudioRecordingService();
+    this.voiceTest = new VoiceTestService(undefined, config, outputDir);
+    this.audioService = new AudioRecordingService(
+      createAudioSource(config?.audioSource ?? { type: 'microphone' })
+    );
 
     this.logger.info('🚀 VoiceInteractionService initialized successfully');
   }
@@ -202,8 +221,14 @@ export class VoiceInteractionService {
 
     // STT test (basic initialization)
     try {
-      stt = true; // STT service initializes on creation
-      this.logger.info('✅ STT service ready');
+      stt = this.sttHandler.isConfigured();
+      if (stt) {
+        this.logger.info('✅ STT service ready');
+      } else {
+        errors.push(
+          `STT provider '${this.config?.sttProvider || 'google-ai'}' is not configured`
+        );
+      }
     } catch (error) {
       stt = false;
       errors.push(`STT error: ${getErrorMessage(error)}`);
@@ -223,35 +248,69 @@ export class VoiceInteractionService {
     return { tts, audio, stt, errors };
   }
 
+  /**
+   * Apply defaults to interaction options.
+   *
+   * @param config - Partial interaction options
+   * @returns Options with every field set
+   *
+   * @private
+   * @internal
+   */
+  private resolveConfig(
+    config: Partial<VoiceInteractionOptions>
+  ): ResolvedInteractionOptions {
+    return {
+      language: config.language ?? config.languageCode ?? 'en-US',
+      languageCode: config.languageCode ?? config.language ?? 'en-US',
+      voice: config.voice ?? config.voiceName ?? 'en-US-Neural2-F',
+      voiceName: config.voiceName ?? config.voice ?? 'en-US-Neural2-F',
+      recordingDuration: config.recordingDuration ?? 10000,
+      maxRecordingDuration:
+        config.maxRecordingDuration ?? config.recordingDuration ?? 10000,
+      sampleRate: config.sampleRate ?? 16000,
+      silenceTimeout: config.silenceTimeout ?? 2000,
+      confidenceThreshold: config.confidenceThreshold ?? 0.3,
+      backgroundSound: config.backgroundSound ?? '',
+      backgroundVolume: config.backgroundVolume ?? 0.3,
+      backgroundSnrDb: config.backgroundSnrDb,
+      questionDelay: config.questionDelay ?? 1000,
+      responseAudioFile: config.responseAudioFile ?? '',
+      responseRecordingPath: config.responseRecordingPath ?? '',
+    };
+  }
+
   /**
    * Validate configuration values for voice interaction.
    *
    * @param fullConfig - Complete configuration object
-   * @param question - Question text to validate
+   * @param question - Question text to validate (omitted when only listening)
    * @throws {VoiceTestError} If configuration values are invalid
    *
    * @private
    * @internal
    */
   private validateConfig(
-    fullConfig: Required<VoiceInteractionOptions>,
-    question: string
+    fullConfig: ResolvedInteractionOptions,
+    question?: string
   ): void {
-    // Validate question text
-    if (!question || question.trim().length === 0) {
-      throw new VoiceTestError(
-        'Question text cannot be empty',
-        ErrorCode.INVALID_INPUT,
-        new Error('question is required')
-      );
-    }
+    // Validate question text (skipped when only listening)
+    if (question !== undefined) {
+      if (question.trim().length === 0) {
+        throw new VoiceTestError(
+          'Question text cannot be empty',
+          ErrorCode.INVALID_INPUT,
+          new Error('question is required')
+        );
+      }
 
-    if (question.length > 5000) {
-      throw new VoiceTestError(
-        'Question text is too long (max 5000 characters)',
-        ErrorCode.INVALID_INPUT,
-        new Error('question too long')
-      );
+      if (question.length > 5000) {
+        throw new VoiceTestError(
+          'Question text is too long (max 5000 characters)',
+          ErrorCode.INVALID_INPUT,
+          new Error('question too long')
+        );
+      }
     }
 
     // Validate sample rate
@@ -310,6 +369,10 @@ export class VoiceInteractionService {
    * - `confidenceThreshold`: Minimum confidence for results (default: 0.3)
    * - `backgroundSound`: Optional background audio preset
    * - `backgroundVolume`: Background volume level (default: 0.3)
+   * - `backgroundSnrDb`: Background level as SNR in dB (overrides volume)
+   * - `responseAudioFile`: WAV file streamed as the response instead of the
+   *   microphone (headless mode; the question is not played back)
+   * - `responseRecordingPath`: WAV file to save the audio fed to STT to
    *
    * **Result Metrics:**
    * - `transcript`: Final transcribed text
@@ -318,6 +381,7 @@ export class VoiceInteractionService {
    * - `duration`: Total interaction time in ms
    * - `audioProcessed`: Total audio bytes processed
    * - `maxVolume`: Peak volume level detected
+   * - `audioFilePath`: Saved response recording, if requested
    *
    * @example
    * ```typescript
@@ -352,25 +416,15 @@ export class VoiceInteractionService {
     question: string,
     config: Partial<VoiceInteractionOptions> = {}
   ): Promise<VoiceInteractionResult> {
-    const fullConfig: Required<VoiceInteractionOptions> = {
-      language: config.language ?? config.languageCode ?? 'en-US',
-      languageCode: config.languageCode ?? config.language ?? 'en-US',
-      voice: config.voice ?? config.voiceName ?? 'en-US-Neural2-F',
-      voiceName: config.voiceName ?? config.voice ?? 'en-US-Neural2-F',
-      recordingDuration: config.recordingDuration ?? 10000,
-      maxRecordingDuration:
-        config.maxRecordingDuration ?? config.recordingDuration ?? 10000,
-      sampleRate: config.sampleRate ?? 16000,
-      silenceTimeout: config.silenceTimeout ?? 2000,
-      confidenceThreshold: config.confidenceThreshold ?? 0.3,
-      backgroundSound: config.backgroundSound ?? '',
-      backgroundVolume: config.backgroundVolume ?? 0.3,
-      questionDelay: config.questionDelay ?? 1000,
-    };
+    const fullConfig = this.resolveConfig(config);
 
     this.validateConfig(fullConfig, question);
 
     const startTime = Date.now();
+    const source = this.audioService.getSource();
+    // Only play aloud when someone is listening on a real microphone
+    const playQuestion =
+      !fullConfig.responseAudioFile && source.type === 'microphone';
 
     try {
       this.logger.info(`🎯 Starting voice interaction: "${question}"`);
@@ -383,18 +437,35 @@ export class VoiceInteractionService {
         languageCode: fullConfig.language,
         voiceName: fullConfig.voice,
         audioEncoding: 'WAV',
-        play: true,
+        play: playQuestion,
         backgroundSound: fullConfig.backgroundSound || undefined,
         backgroundVolume: fullConfig.backgroundVolume,
+        backgroundSnrDb: fullConfig.backgroundSnrDb,
       };
 
-      await this.voiceTest.generateSpeech(ttsInput);
+      const questionAudioPath = await this.voiceTest.generateSpeech(ttsInput);
+
+      if (source instanceof LoopbackAudioSource) {
+        try {
+          await source.feed(questionAudioPath);
+        } catch (error) {
+          this.logger.warn(
+            `⚠️ Could not loop back question audio: ${getErrorMessage(error)}`
+          );
+        }
+      }
+
+      const questionPlayTime = Date.now() - startTime;
 
       // Brief pause to let audio settle (configurable)
       await this.delay(fullConfig.questionDelay);
 
       // Step 2: Listen for response
-      console.log('👂 Listening for your response...\n');
+      console.log(
+        fullConfig.responseAudioFile
+          ? `📂 Streaming response from ${fullConfig.responseAudioFile}...\n`
+          : '👂 Listening for your response...\n'
+      );
       this.logger.info('🎤 Listening for response...');
       const transcriptionResult = await this.listenAndTranscribe(fullConfig);
 
@@ -410,11 +481,14 @@ export class VoiceInteractionService {
       return {
         transcript: transcriptionResult.transcript,
         confidence: transcriptionResult.confidence,
-        audioFilePath: '',
+        audioFilePath: transcriptionResult.audioFilePath,
         processingTime: transcriptionResult.processingTime,
         duration: totalTime,
         audioProcessed: transcriptionResult.audioProcessed,
         maxVolume: transcriptionResult.maxVolume,
+        words: transcriptionResult.words,
+        questionPlayTime,
+        questionAudioFilePath: questionAudioPath,
       };
     } catch (error) {
       throw new VoiceTestError(
@@ -425,6 +499,56 @@ export class VoiceInteractionService {
     }
   }
 
+  /**
+   * Listen for speech and transcribe it without speaking first.
+   *
+   * @param config - Optional configuration for listening
+   * @returns Promise resolving to interaction result with transcript and metrics
+   *
+   * @throws {VoiceTestError} If recording or transcription fails
+   *
+   * @remarks
+   * Used when vokal plays the caller and the bot under test speaks first, or
+   * replies to audio played by someone else. TTS options are ignored.
+   *
+   * @example
+   * ```typescript
+   * const greeting = await service.listen({ silenceTimeout: 1500 });
+   * console.log('Bot:', greeting.transcript);
+   * ```
+   */
+  async listen(
+    config: Partial<VoiceInteractionOptions> = {}
+  ): Promise<VoiceInteractionResult> {
+    const fullConfig = this.resolveConfig(config);
+    this.validateConfig(fullConfig);
+
+    const startTime = Date.now();
+
+    try {
+      this.logger.info('🎤 Listening...');
+      const transcriptionResult = await this.listenAndTranscribe(fullConfig);
+      this.logger.info(`💬 Heard: "${transcriptionResult.transcript}"`);
+
+      return {
+        transcript: transcriptionResult.transcript,
+        confidence: transcriptionResult.confidence,
+        audioFilePath: transcriptionResult.audioFilePath,
+        processingTime: transcriptionResult.processingTime,
+        duration: Date.now() - startTime,
+        audioProcessed: transcriptionResult.audioProcessed,
+        maxVolume: transcriptionResult.maxVolume,
+        words: transcriptionResult.words,
+      };
+    } catch (error) {
+      throw new VoiceTestError(
+        `Listening failed: ${getErrorMessage(error)}`,
+        ErrorCode.VOICE_INTERACTION_ERROR,
+        toError(error)
+      );
+    }
+  }
+
   /**
    * Listen and transcribe speech using streaming recognition.
    *
@@ -436,26 +560,105 @@ export class VoiceInteractionService {
    *
    * @remarks
    * Manages the complete audio capture and transcription pipeline:
-   * - Starts audio recording
+   * - Starts audio recording (or streams `responseAudioFile` in real time)
    * - Pipes audio to streaming STT
-   * - Accumulates final transcripts
+   * - Accumulates final transcripts and their word confidences
    * - Monitors volume levels
    * - Handles timeouts and errors
+   * - Saves the audio fed to STT to `responseRecordingPath`, if set
    */
   private async listenAndTranscribe(
-    config: Required<VoiceInteractionOptions>
+    config: ResolvedInteractionOptions
+  ): Promise<{
+    transcript: string;
+    confidence: number;
+    audioProcessed: number;
+    maxVolume: number;
+    processingTime: number;
+    words: STTWord[];
+    audioFilePath: string;
+  }> {
+    const capturedAudio: Buffer[] = [];
+    let capturedSampleRate = config.sampleRate;
+
+    try {
+      const result = await this.streamAndTranscribe(
+        config,
+        (chunk, sampleRate) => {
+          capturedAudio.push(chunk);
+          capturedSampleRate = sampleRate;
+        }
+      );
+      return { ...result, audioFilePath: config.responseRecordingPath };
+    } finally {
+      // Saved on failure too, so unrecognized answers can be audited
+      if (config.responseRecordingPath) {
+        await this.saveRecording(
+          config.responseRecordingPath,
+          Buffer.concat(capturedAudio),
+          capturedSampleRate
+        );
+      }
+    }
+  }
+
+  /**
+   * Save captured PCM as a WAV file.
+   *
+   * @param filePath - Destination WAV path
+   * @param pcm - 16-bit mono PCM that was fed to STT
+   * @param sampleRate - Sample rate of the PCM in Hz
+   *
+   * @private
+   * @internal
+   *
+   * @remarks
+   * A failed write is logged rather than thrown so it never fails the
+   * interaction itself.
+   */
+  private async saveRecording(
+    filePath: string,
+    pcm: Buffer,
+    sampleRate: number
+  ): Promise<void> {
+    try {
+      await fs.mkdir(dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, encodeWav(pcm, sampleRate));
+      this.logger.info(`💾 Response audio saved to: ${filePath}`);
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Could not save response audio to ${filePath}: ${getErrorMessage(error)}`
+      );
+    }
+  }
+
+  /**
+   * Stream audio into STT until the speaker finishes.
+   *
+   * @param config - Complete configuration for listening
+   * @param onAudio - Receives every chunk fed to STT with its sample rate
+   * @returns Promise resolving to transcription result with metrics
+   *
+   * @private
+   * @internal
+   */
+  private async streamAndTranscribe(
+    config: ResolvedInteractionOptions,
+    onAudio: (chunk: Buffer, sampleRate: number) => void
   ): Promise<{
     transcript: string;
     confidence: number;
     audioProcessed: number;
     maxVolume: number;
     processingTime: number;
+    words: STTWord[];
   }> {
     const startTime = Date.now();
     let finalTranscript = '';
     let finalConfidence = 0;
     let maxVolume = 0;
     let totalAudioProcessed = 0;
+    const finalWords: STTWord[] = [];
 
     return new Promise((resolve, reject) => {
       let timeoutHandle: NodeJS.Timeout | undefined;
@@ -467,6 +670,7 @@ export class VoiceInteractionService {
         audioProcessed: number;
         maxVolume: number;
         processingTime: number;
+        words: STTWord[];
       }): void => {
         if (!resolved) {
           resolved = true;
@@ -497,13 +701,20 @@ export class VoiceInteractionService {
         } | null = null;
 
         try {
-          // Start audio recording
-          audioSession = await this.audioService.startRecording({
-            sampleRate: config.sampleRate,
-            channels: 1,
-            bitDepth: 16,
-            encoding: 'LINEAR16',
-          });
+          // Start audio capture: pre-recorded file in headless mode, mic otherwise
+          audioSession = config.responseAudioFile
+            ? await this.audioService.startFileStream(
+                config.responseAudioFile,
+                {
+                  trailingSilenceMs: config.silenceTimeout + 1000,
+                }
+              )
+            : await this.audioService.startRecording({
+                sampleRate: config.sampleRate,
+                channels: 1,
+                bitDepth: 16,
+                encoding: 'LINEAR16',
+              });
 
           if (!audioSession) {
             throw new Error('Failed to start audio recording');
@@ -512,7 +723,7 @@ export class VoiceInteractionService {
           // Start streaming recognition
           const sttConfig = {
             languageCode: config.language,
-            sampleRate: config.sampleRate,
+            sampleRate: audioSession.sampleRate ?? config.sampleRate,
             encoding: 'LINEAR16' as const,
             speechStartTimeout: 45,
             speechEndTimeout: 2,
@@ -528,6 +739,9 @@ export class VoiceInteractionService {
               }
 
               finalConfidence = Math.max(finalConfidence, result.confidence);
+              if (result.words) {
+                finalWords.push(...result.words);
+              }
 
               // Clear the interim line and show final result
               process.stdout.write('\r\x1b[K'); // Clear current line
@@ -575,6 +789,7 @@ export class VoiceInteractionService {
               audioProcessed: totalAudioProcessed,
               maxVolume,
               processingTime: Date.now() - startTime,
+              words: finalWords,
             });
           };
 
@@ -597,8 +812,10 @@ export class VoiceInteractionService {
 
           // Pipe audio from recorder to STT
           if (audioSession.audioStream && sttSession) {
+            const audioSampleRate = sttConfig.sampleRate;
             audioSession.audioStream.on('data', (chunk: Buffer) => {
               totalAudioProcessed += chunk.length;
+              onAudio(chunk, audioSampleRate);
               if (audioSession?.getVolumeLevel) {
                 maxVolume = Math.max(maxVolume, audioSession.getVolumeLevel());
               }
@@ -637,6 +854,7 @@ export class VoiceInteractionService {
                 audioProcessed: totalAudioProcessed,
                 maxVolume,
                 processingTime: Date.now() - startTime,
+                words: finalWords,
               });
             } else {
               rejectOnce(
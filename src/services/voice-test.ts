@@ -2,7 +2,8 @@
  * Voice Test Service
  *
  * Main service for text-to-speech generation with background audio mixing capabilities.
- * Uses Neurolink's generate() API with proper Google AI integration for high-quality speech synthesis.
+ * Speech is synthesized by the TTS provider selected through `TTSProviderManager`
+ * (Neurolink with Google AI by default).
  *
  * @module services/voice-test
  * @since 1.0.0
@@ -10,6 +11,7 @@
  * @remarks
  * This service provides the core TTS functionality with the following features:
  * - High-quality neural voice generation using Google AI
+ * - Pluggable TTS providers selected via the `ttsProvider` setting
  * - Optional background audio mixing with various sound presets
  * - Multiple audio format support (MP3, WAV, OGG)
  * - Adjustable speech parameters (rate, pitch)
@@ -29,11 +31,10 @@
  * ```
  */
 
-import { NeuroLink } from '@juspay/neurolink';
-import type { GenerateResult } from '@juspay/neurolink';
 import { ConsoleLogger } from '../utils/logger.js';
 import { playAudio } from '../utils/audio-player.js';
 import { AudioMixerService } from './audio-mixer.js';
+import { TTSProviderManager } from '../providers/tts-provider-manager.js';
 import {
   VoiceTestError,
   getErrorMessage,
@@ -46,56 +47,17 @@ import type {
   VoiceTestInput,
   VoiceTestConfig,
   VoiceTestResponse,
-  TTSOptions,
-  TTSResult,
   GoogleVoice,
   AudioFormat,
   BackgroundSoundPreset,
 } from '../types/index.js';
+import type {
+  TTSProvider,
+  TTSResponse,
+  VoiceInfo,
+} from '../types/tts-provider.types.js';
 import type { TestSettings } from '../types/voice-bot-config.js';
 
-/**
- * Type guard to safely check if audio response is a valid TTSResult.
- * Validates the presence of required fields: buffer, format, and size.
- *
- * @param value - The value to check
- * @returns True if the value is a valid TTSResult, false otherwise
- *
- * @internal
- */
-function isTTSResult(value: unknown): value is TTSResult {
-  if (!value || typeof value !== 'object') {
-    return false;
-  }
-
-  return (
-    'buffer' in value &&
-    'format' in value &&
-    'size' in value &&
-    Buffer.isBuffer(value.buffer) &&
-    typeof value.format === 'string' &&
-    typeof value.size === 'number'
-  );
-}
-
-/**
- * Decoder function to safely extract and validate TTSResult from unknown value.
- *
- * @param value - The unknown value to decode
- * @returns A validated TTSResult object
- * @throws {Error} If the value doesn't conform to TTSResult interface
- *
- * @internal
- */
-function decodeTTSResult(value: unknown): TTSResult {
-  if (!isTTSResult(value)) {
-    throw new Error(
-      'Invalid TTSResult: missing required fields (buffer, format, size)'
-    );
-  }
-  return value;
-}
-
 /**
  * Voice Test Service class for text-to-speech generation with audio mixing.
  *
@@ -120,15 +82,19 @@ export class VoiceTestService {
   private audioMixer: AudioMixerService;
   private config: VoiceTestConfig;
   private logger: ConsoleLogger;
-  private neurolink: NeuroLink;
 
   /**
    * Creates a new VoiceTestService instance.
    *
    * @param apiKey - Optional Google AI API key
    * @param settings - Optional test settings from config (will extract provider, etc.)
+   * @param outputDir - Directory for generated audio (default: working directory)
    *
-   * @throws {VoiceTestError} If API key is not provided and not found in environment variables
+   * @remarks
+   * The TTS provider is initialized lazily on first use, so missing
+   * credentials are reported by the first generation call. Services that run
+   * concurrently need separate output directories, since each generation
+   * overwrites `vokal-output.<format>`.
    *
    * @example
    * ```typescript
@@ -138,34 +104,20 @@ export class VoiceTestService {
    * );
    * ```
    */
-  constructor(apiKey?: string, settings?: Partial<TestSettings>) {
+  constructor(
+    apiKey?: string,
+    settings?: Partial<TestSettings>,
+    outputDir?: string
+  ) {
     this.logger = new ConsoleLogger();
-    this.neurolink = new NeuroLink();
-
-    // Priority order for authentication:
-    // 1. Service account credentials (GOOGLE_APPLICATION_CREDENTIALS)
-    // 2. Passed apiKey parameter
-    // 3. Environment variables (GOOGLE_AI_API_KEY, GEMINI_API_KEY)
-    const resolvedApiKey =
-      process.env.GOOGLE_APPLICATION_CREDENTIALS ||
-      apiKey ||
-      process.env.GOOGLE_AI_API_KEY ||
-      process.env.GEMINI_API_KEY ||
-      '';
-
-    if (!resolvedApiKey) {
-      throw new VoiceTestError(
-        'GOOGLE_APPLICATION_CREDENTIALS, GOOGLE_AI_API_KEY or GEMINI_API_KEY environment variable is required',
-        ErrorCode.MISSING_API_KEY
-      );
-    }
 
     // Extract provider from settings if available, default to 'google-ai'
-    const provider = settings?.ttsProvider || 'google-ai';
+    const provider =
+      settings?.ttsProvider || TTSProviderManager.getDefaultProvider();
 
     this.config = {
-      apiKey: resolvedApiKey,
-      defaultOutputDir: process.cwd(),
+      apiKey: apiKey || '',
+      defaultOutputDir: outputDir ?? process.cwd(),
       defaultEncoding: 'MP3',
       provider: provider,
     };
@@ -173,13 +125,8 @@ export class VoiceTestService {
     this.logger.info(
       `🔧 VoiceTestService initialized with TTS provider: ${provider}`
     );
-    if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
-      this.logger.info('🔑 Using service account authentication for TTS');
-    }
 
     this.audioMixer = new AudioMixerService();
-
-    this.logger.info('Voice Test Service initialized with Neurolink TTS');
   }
 
   /**
@@ -193,7 +140,7 @@ export class VoiceTestService {
    *
    * @remarks
    * This method:
-   * 1. Generates speech using Neurolink TTS API
+   * 1. Generates speech using the configured TTS provider
    * 2. Optionally mixes with background audio
    * 3. Saves to specified output path or default location
    * 4. Optionally plays the audio after generation
@@ -221,30 +168,7 @@ export class VoiceTestService {
         `🎯 Starting TTS generation for: "${input.text.substring(0, 50)}..."`
       );
 
-      const ttsOptions: TTSOptions = {
-        enabled: true,
-        voice: input.voiceName,
-        format: (input.audioEncoding?.toLowerCase() as AudioFormat) || 'mp3',
-        speed: input.speakingRate || 1.0,
-        pitch: input.pitch || 0.0,
-      };
-
-      const response: GenerateResult = await this.neurolink.generate({
-        input: {
-          text: input.text,
-        },
-        provider: this.config.provider,
-        tts: ttsOptions,
-      });
-
-      if (response.audio === undefined) {
-        throw new VoiceTestError(
-          'No audio response from TTS generation',
-          ErrorCode.NO_AUDIO_RESPONSE
-        );
-      }
-
-      const audio = decodeTTSResult(response.audio);
+      const audio = await this.synthesize(input);
 
       this.logger.info(`🎤 Speech generated: ${audio.size} bytes`);
 
@@ -258,12 +182,18 @@ export class VoiceTestService {
           this.logger.info(
             `🎵 Mixing with background sound: ${input.backgroundSound}`
           );
-          finalAudioPath = await this.audioMixer.mixAudio(
+          const mix = await this.audioMixer.mixAudioDetailed(
             tempPath,
             input.backgroundSound,
-            input.backgroundVolume
+            {
+              backgroundVolume: input.backgroundVolume,
+              snrDb: input.backgroundSnrDb,
+            }
+          );
+          finalAudioPath = mix.filePath;
+          this.logger.info(
+            `🎼 Mixed audio created: ${finalAudioPath}${mix.snrDb !== undefined ? ` (SNR ${mix.snrDb.toFixed(1)} dB)` : ''}`
           );
-          this.logger.info(`🎼 Mixed audio created: ${finalAudioPath}`);
         } catch (mixError) {
           this.logger.warn(
             `⚠️ Background mixing failed: ${getErrorMessage(mixError)}`
@@ -348,37 +278,10 @@ export class VoiceTestService {
     const startTime = Date.now();
 
     try {
-      const ttsOptions: TTSOptions = {
-        enabled: true,
-        voice: input.voiceName,
-        format:
-          (input.audioEncoding?.toLowerCase() as
-            | 'mp3'
-            | 'wav'
-            | 'ogg'
-            | 'opus') || 'mp3',
-        speed: input.speakingRate || 1.0,
-        pitch: input.pitch || 0.0,
-      };
-
-      const response: GenerateResult = await this.neurolink.generate({
-        input: {
-          text: input.text,
-        },
-        provider: this.config.provider,
-        tts: ttsOptions,
-      });
-
-      if (response.audio === undefined) {
-        throw new VoiceTestError(
-          'No audio response from TTS generation',
-          ErrorCode.NO_AUDIO_RESPONSE
-        );
-      }
-
-      const audio = decodeTTSResult(response.audio);
+      const audio = await this.synthesize(input);
 
       let mixedAudio = false;
+      let mixLevel: { backgroundVolume?: number; snrDb?: number } = {};
       let finalPath = '';
 
       const constantFileName = `vokal-output.${audio.format}`;
@@ -388,13 +291,20 @@ export class VoiceTestService {
 
       if (input.backgroundSound) {
         try {
-          const mixedPath = await this.audioMixer.mixAudio(
+          const mix = await this.audioMixer.mixAudioDetailed(
             tempPath,
             input.backgroundSound,
-            input.backgroundVolume
+            {
+              backgroundVolume: input.backgroundVolume,
+              snrDb: input.backgroundSnrDb,
+            }
           );
-          finalPath = mixedPath;
-          mixedAudio = true;
+          finalPath = mix.filePath;
+          mixedAudio = mix.mixed;
+          mixLevel = {
+            backgroundVolume: mix.backgroundVolume,
+            snrDb: mix.snrDb,
+          };
         } catch (mixError) {
           this.logger.warn(
             `Background mixing failed: ${getErrorMessage(mixError)}`
@@ -431,7 +341,10 @@ export class VoiceTestService {
           originalAudioSize: audio.size,
           encoding: audio.format,
           backgroundSound: input.backgroundSound,
-          neurolinkGenerationTime: response.responseTime || 0,
+          backgroundVolume: mixLevel.backgroundVolume,
+          backgroundSnrDb: mixLevel.snrDb,
+          ttsProvider: this.config.provider,
+          providerGenerationTime: audio.metadata?.responseTime || 0,
         },
       };
     } catch (error) {
@@ -470,6 +383,30 @@ export class VoiceTestService {
     return [];
   }
 
+  /**
+   * List voices offered by the configured TTS provider.
+   *
+   * @param languageCode - Optional language code to filter voices
+   * @returns Promise resolving to the provider's voices
+   *
+   * @throws {VoiceTestError} If the provider cannot be initialized
+   *
+   * @remarks
+   * Unlike {@link getAvailableVoices}, this asks the active provider, so local
+   * engines such as `local-espeak` report their installed voices.
+   *
+   * @example
+   * ```typescript
+   * const service = new VoiceTestService(undefined, { ttsProvider: 'local-espeak' });
+   * const voices = await service.listVoices('en');
+   * voices.forEach(voice => console.log(voice.id, voice.languageCode));
+   * ```
+   */
+  async listVoices(languageCode?: string): Promise<VoiceInfo[]> {
+    const provider = await this.getProvider();
+    return provider.getVoices(languageCode);
+  }
+
   /**
    * Get available background sound presets.
    *
@@ -611,26 +548,13 @@ export class VoiceTestService {
     try {
       const testPath = join(this.config.defaultOutputDir!, 'test-playback.mp3');
 
-      const response: GenerateResult = await this.neurolink.generate({
-        input: {
-          text: 'Test',
-        },
-        provider: this.config.provider,
-        tts: {
-          enabled: true,
-          format: 'mp3',
-        },
+      const provider = await this.getProvider();
+      const audio = await provider.generate({
+        text: 'Test',
+        voice: '',
+        format: 'mp3',
       });
 
-      if (response.audio === undefined) {
-        throw new VoiceTestError(
-          'No audio response from TTS generation',
-          ErrorCode.NO_AUDIO_RESPONSE
-        );
-      }
-
-      const audio = decodeTTSResult(response.audio);
-
       writeFileSync(testPath, audio.buffer);
 
       await this.playAudio(testPath);
@@ -669,12 +593,50 @@ export class VoiceTestService {
         .getAvailablePresets()
         .map((p) => p.name),
       mixer: 'AudioMixerService',
-      ttsProvider: 'Neurolink TTS SDK',
+      ttsProvider: this.config.provider,
       sttProvider: 'Google Cloud Speech-to-Text (via StreamingSTTService)',
       voiceTestVersion: '2.0.0',
     };
   }
 
+  /**
+   * Get the initialized TTS provider for this service.
+   *
+   * @returns Promise resolving to the configured TTS provider
+   *
+   * @throws {VoiceTestError} If the provider is unknown or cannot be initialized
+   *
+   * @private
+   * @internal
+   */
+  private async getProvider(): Promise<TTSProvider> {
+    return TTSProviderManager.getProvider(this.config.provider, {
+      apiKey: this.config.apiKey,
+    });
+  }
+
+  /**
+   * Synthesize speech for a voice test input using the configured provider.
+   *
+   * @param input - Input configuration for speech generation
+   * @returns Promise resolving to the raw provider response
+   *
+   * @private
+   * @internal
+   */
+  private async synthesize(input: VoiceTestInput): Promise<TTSResponse> {
+    const provider = await this.getProvider();
+
+    return provider.generate({
+      text: input.text,
+      voice: input.voiceName,
+      languageCode: input.languageCode,
+      format: (input.audioEncoding?.toLowerCase() as AudioFormat) || 'mp3',
+      speed: input.speakingRate || 1.0,
+      pitch: input.pitch || 0.0,
+    });
+  }
+
   /**
    * Create a Voice Test instance with minimal configuration.
    * Factory method for convenient service instantiation.
@@ -22,6 +22,20 @@ export type ComparisonInput = {
   context?: string;
   /** Example response for reference (not for pattern matching) */
   sampleResponse?: string;
+  /** Earlier turns of the same conversation, oldest first */
+  conversationHistory?: ConversationTurn[];
+  /** Score against a rubric instead of a binary pass/fail */
+  rubric?: RubricSettings;
+};
+
+/**
+ * One earlier exchange in a multi-turn conversation
+ */
+export type ConversationTurn = {
+  /** What the bot asked */
+  question: string;
+  /** What the user answered (transcribed) */
+  response: string;
 };
 
 /**
@@ -34,7 +48,7 @@ export type ComparisonResult = {
   confidence: number;
   /** Detailed analysis */
   analysis: string;
-  /** Binary score: 0 (FAIL) or 1 (PASS) */
+  /** Binary score: 0 (FAIL) or 1 (PASS); the rubric's weighted aggregate (0-1) with rubric scoring */
   score: number;
   /** Areas where response was good */
   strengths: string[];
@@ -42,6 +56,122 @@ export type ComparisonResult = {
   improvements: string[];
   /** Processing time in ms */
   processingTime: number;
+  /** Per-criterion results (rubric scoring only) */
+  rubric?: RubricResult;
+  /** Each judge's verdict (ensemble evaluation only) */
+  judges?: JudgeVerdict[];
+  /** Share of the vote behind the verdict, 0.5-1 (ensemble evaluation only) */
+  agreement?: number;
+};
+
+/**
+ * One AI judge in an ensemble
+ */
+export type JudgeConfig = {
+  /** AI provider ('google-ai', 'openai', 'bedrock', 'vertex', 'fixture', ...) */
+  provider: string;
+  /** Model name (default: the provider's evaluation model) */
+  model?: string;
+  /** Vote weight with weighted voting (default 1) */
+  weight?: number;
+};
+
+/**
+ * How judge verdicts are combined: one vote per judge, or votes scaled by weight
+ */
+export type EnsembleVoting = 'majority' | 'weighted';
+
+/**
+ * Multi-judge evaluation settings (`settings.ensemble`)
+ */
+export type EnsembleSettings = {
+  judges: JudgeConfig[];
+  /** Default: 'majority' */
+  voting?: EnsembleVoting;
+};
+
+/**
+ * Verdict of one judge in an ensemble
+ */
+export type JudgeVerdict = {
+  /** `<provider>` or `<provider>/<model>` */
+  judge: string;
+  weight: number;
+  passed: boolean;
+  score: number;
+  confidence: number;
+  analysis: string;
+  /** Why the judge gave no verdict; such judges do not vote */
+  error?: string;
+};
+
+/**
+ * Rubric criteria: expected element coverage, intent fulfillment, factual
+ * accuracy and politeness
+ */
+export type RubricCriterionName =
+  'elements' | 'intent' | 'accuracy' | 'politeness';
+
+/**
+ * Scale and weight of one rubric criterion
+ */
+export type RubricCriterionSettings = {
+  /** Highest score on this criterion (scores run from 0; default 5) */
+  scale?: number;
+  /** Weight in the aggregate (0 leaves the criterion out) */
+  weight?: number;
+};
+
+/**
+ * Rubric scoring settings (`settings.rubric`)
+ */
+export type RubricSettings = {
+  /** Per-criterion scale and weight; omitted criteria use the defaults */
+  criteria?: Partial<Record<RubricCriterionName, RubricCriterionSettings>>;
+  /** Aggregate (0-1) a response needs to pass (default 0.7) */
+  passingScore?: number;
+};
+
+/**
+ * How far a response covers one expected element
+ */
+export type ElementCoverage = 'covered' | 'partial' | 'missing';
+
+/**
+ * Coverage verdict for one expected element
+ */
+export type ElementVerdict = {
+  element: string;
+  coverage: ElementCoverage;
+  /** What in the response covers the element */
+  evidence?: string;
+};
+
+/**
+ * Score on one rubric criterion
+ */
+export type CriterionScore = {
+  criterion: RubricCriterionName;
+  /** Score from 0 to `scale` */
+  score: number;
+  scale: number;
+  weight: number;
+  rationale?: string;
+};
+
+/**
+ * Result of rubric scoring
+ */
+export type RubricResult = {
+  /** One verdict per expected element, in configuration order */
+  elements: ElementVerdict[];
+  /** Criteria with a weight above 0 */
+  criteria: CriterionScore[];
+  /** Weighted mean of the criteria's score / scale (0-1) */
+  aggregate: number;
+  /** Aggregate needed to pass */
+  passingScore: number;
+  passed: boolean;
 };
 
 /**
@@ -0,0 +1,81 @@
+/**
+ * Audio Source Types
+ *
+ * Provider-agnostic interface for anything that can feed LINEAR16 PCM into
+ * the voice pipeline: microphones, files, pipes and generators.
+ *
+ * @module types/audio-source
+ * @since 1.1.0
+ */
+
+import type { AudioConfig } from './audio.types.js';
+
+/**
+ * Built-in audio source kinds
+ */
+export type AudioSourceType =
+  'microphone' | 'file' | 'stdin' | 'tone' | 'silence' | 'loopback';
+
+/**
+ * Declarative audio source configuration (as used in `vokal-config.json`)
+ */
+export interface AudioSourceConfig {
+  /** Source kind */
+  type: AudioSourceType;
+  /** File path (file source) */
+  path?: string;
+  /** Input format for file/stdin sources (default: 'wav' for files, 'raw' for stdin) */
+  format?: 'wav' | 'raw';
+  /** Sample rate of raw PCM input, or of generated audio (Hz) */
+  sampleRate?: number;
+  /** Tone frequency in Hz (tone source, default: 440) */
+  frequency?: number;
+  /** Tone amplitude 0.0 to 1.0 (tone source, default: 0.3) */
+  amplitude?: number;
+  /** Stop after this many ms (tone/silence sources; default: unlimited) */
+  durationMs?: number;
+  /** Silence appended after file/loopback audio so VAD can end the utterance (ms) */
+  trailingSilenceMs?: number;
+  /** Chunk size for paced sources in ms (default: 100) */
+  chunkMs?: number;
+}
+
+/**
+ * An opened audio source producing 16-bit mono PCM
+ */
+export interface AudioSourceStream {
+  /** Readable stream of LINEAR16 mono PCM chunks */
+  stream: NodeJS.ReadableStream;
+  /** Actual sample rate of the emitted PCM (Hz) */
+  sampleRate: number;
+  /** Source file, when the audio comes from disk */
+  filePath?: string;
+  /** Known duration of the audio in ms (finite sources only) */
+  duration?: number;
+  /** Stop producing audio at the source (paced sources); chunks are dropped otherwise */
+  pause?(): void;
+  /** Resume after `pause()` */
+  resume?(): void;
+  /** Release the underlying process, timers or handles */
+  close(): void;
+}
+
+/**
+ * Audio Source interface
+ *
+ * All audio inputs used by `AudioRecordingService` implement this interface.
+ * Sources only produce PCM; pause/resume gating, volume monitoring and the
+ * `AudioRecordingSession` shape are provided by the recording service.
+ */
+export interface AudioSource {
+  /** Source kind, used for logging and to decide whether a human is listening */
+  readonly type: AudioSourceType;
+
+  /**
+   * Start producing audio
+   *
+   * @param config - Requested audio format (sources may report a different rate)
+   * @returns Opened stream with control hooks
+   */
+  open(config: AudioConfig): Promise<AudioSourceStream>;
+}
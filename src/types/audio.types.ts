@@ -56,3 +56,51 @@ export type AudioData = {
   channels: number;
   bitsPerSample: number;
 };
+
+/**
+ * Decoded WAV audio as 16-bit little-endian mono PCM
+ */
+export type WavAudio = {
+  /** Raw LINEAR16 PCM samples (mono) */
+  pcm: Buffer;
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Channel count of the source file (PCM is always downmixed to mono) */
+  channels: number;
+  /** Bits per sample of the source file */
+  bitsPerSample: number;
+  /** Duration in milliseconds */
+  durationMs: number;
+};
+
+/**
+ * Result of mixing a speech file with background sound
+ */
+export type AudioMixResult = {
+  /** Path of the mixed file (the speech file, overwritten) */
+  filePath: string;
+  /** False when the background was not found and the speech is unchanged */
+  mixed: boolean;
+  /** Linear gain applied to the background */
+  backgroundVolume?: number;
+  /** Requested signal-to-noise ratio in dB, when mixing by SNR */
+  targetSnrDb?: number;
+  /** Signal-to-noise ratio of the mix in dB (absent when either signal is silent) */
+  snrDb?: number;
+};
+
+/**
+ * Speech mixed with background sound at a target signal-to-noise ratio
+ */
+export type SNRMix = {
+  /** Mixed LINEAR16 PCM samples (mono) */
+  pcm: Buffer;
+  /** Sample rate in Hz (that of the speech) */
+  sampleRate: number;
+  /** Requested signal-to-noise ratio in dB */
+  targetSnrDb: number;
+  /** Signal-to-noise ratio of the mix in dB, measured after clipping */
+  snrDb: number;
+  /** Linear gain applied to the background */
+  backgroundVolume: number;
+};
@@ -16,8 +16,10 @@ export type GenerateCommandArgs = {
   output?: string;
   bg?: string;
   bgvol: number;
+  snr?: number;
   play: boolean;
   apiKey?: string;
+  ttsProvider?: string;
   quiet: boolean;
   debug: boolean;
 };
@@ -28,6 +30,7 @@ export type GenerateCommandArgs = {
 export type VoicesCommandArgs = {
   language?: string;
   apiKey?: string;
+  ttsProvider?: string;
   format: string;
   quiet: boolean;
 };
@@ -57,6 +60,82 @@ export type TestCommandArgs = {
   provider: string;
   quiet: boolean;
   debug: boolean;
+  responses?: string;
+  record?: string;
+  replay?: string;
+  reporter?: string[];
+  history: string | false;
+  repeat: number;
+  concurrency?: number;
+};
+
+/**
+ * Compare Command Arguments
+ */
+export type CompareCommandArgs = {
+  baseline: string;
+  current: string;
+  maxNewFailures: number;
+  maxScoreDrop: number;
+  maxLatencyIncrease: number;
+  minLatencyDelta: number;
+  format: string;
+};
+
+/**
+ * History Command Arguments
+ */
+export type HistoryCommandArgs = {
+  history: string;
+  configName?: string;
+  configVersion?: string;
+  tag?: string[];
+  question?: string;
+  last: number;
+  format: string;
+};
+
+/**
+ * STT Benchmark Command Arguments
+ */
+export type STTBenchCommandArgs = {
+  dir: string;
+  providers?: string[];
+  lang: string;
+  price?: string[];
+  format: string;
+};
+
+/**
+ * Voice Benchmark Command Arguments
+ */
+export type VoiceBenchCommandArgs = {
+  phrases: string;
+  voices: string[];
+  lang: string;
+  ttsProvider?: string;
+  sttProvider?: string;
+  output?: string;
+  format: string;
+  apiKey?: string;
+};
+
+/**
+ * Noise Sweep Command Arguments
+ */
+export type NoiseSweepCommandArgs = {
+  dir?: string;
+  text?: string;
+  voice?: string;
+  lang: string;
+  ttsProvider?: string;
+  presets?: string[];
+  snr?: number[];
+  sttProvider?: string;
+  maxWer?: number;
+  output?: string;
+  format: string;
+  apiKey?: string;
 };
 
 /**
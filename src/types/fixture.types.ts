@@ -0,0 +1,78 @@
+/**
+ * Fixture Types
+ *
+ * Scripted provider responses used by the `fixture` STT, TTS and AI
+ * comparison providers, so test suites run deterministically without
+ * credentials, microphones or network access.
+ *
+ * @module types/fixture
+ * @since 1.1.0
+ */
+
+import type { StreamingSTTResult } from './stt-provider.types.js';
+import type { ComparisonResult } from './ai-comparison.types.js';
+
+/**
+ * A scripted streaming STT result
+ */
+export interface STTFixtureResult extends Partial<StreamingSTTResult> {
+  /** Transcript text */
+  transcript: string;
+  /** Delay before this result is emitted, in ms (default: 100) */
+  delayMs?: number;
+}
+
+/**
+ * One scripted streaming STT session (one listen per question attempt)
+ *
+ * @remarks
+ * A plain string is shorthand for a session with a single final result.
+ * A session with no results reports "no speech detected".
+ */
+export type STTFixtureSession =
+  | string
+  | {
+      /** Results emitted in order (`isFinal` and `confidence` default to true and 1) */
+      results?: STTFixtureResult[];
+      /** Emit this error instead of results */
+      error?: string;
+      /** Delay between the last result and speech end, in ms (default: 0) */
+      speechEndDelayMs?: number;
+    };
+
+/**
+ * A scripted AI comparison result
+ *
+ * @remarks
+ * Omitted fields default to a confident pass (`score: 1`).
+ */
+export interface AIFixtureResult extends Partial<
+  Omit<ComparisonResult, 'processingTime'>
+> {
+  /** Only use this entry for the question with this exact text */
+  question?: string;
+}
+
+/**
+ * Fixture file contents (JSON)
+ *
+ * @example
+ * ```json
+ * {
+ *   "stt": ["My name is Alex", { "results": [{ "transcript": "I am 34" }] }],
+ *   "tts": { "*": "./audio/prompt.wav" },
+ *   "ai": [{ "question": "What is your name?", "score": 1 }, { "score": 0 }]
+ * }
+ * ```
+ */
+export interface ProviderFixtures {
+  /** Streaming STT sessions, consumed in order */
+  stt?: STTFixtureSession[];
+  /**
+   * WAV files returned for TTS requests, keyed by exact text (`*` matches any
+   * text). Paths are relative to the fixture file; unmatched text yields silence.
+   */
+  tts?: Record<string, string>;
+  /** AI comparison results, matched by question text or consumed in order */
+  ai?: AIFixtureResult[];
+}
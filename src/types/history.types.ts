@@ -0,0 +1,107 @@
+/**
+ * History Types
+ * Type definitions for the local results store and trend queries
+ */
+
+import type { QuestionResult } from './voice-bot-config.js';
+import type { TimingStage } from './regression.types.js';
+
+/**
+ * One question as stored in the history
+ */
+export type HistoryQuestion = {
+  questionId: string;
+  passed: boolean;
+  /** AI score (0-1) */
+  score: number;
+  /** AI confidence (0-1) */
+  confidence: number;
+  /** Whether a response was transcribed (timings of unanswered questions only measure the failure) */
+  answered: boolean;
+  timing: QuestionResult['timing'];
+};
+
+/**
+ * One test run as stored in the history (one JSONL line)
+ */
+export type HistoryRun = {
+  configName: string;
+  configVersion: string;
+  tags: string[];
+  executedAt: string;
+  /** Total execution time in milliseconds */
+  totalTime: number;
+  totalQuestions: number;
+  questionsPassed: number;
+  /** Pass rate in percent */
+  passRate: number;
+  /** Average AI score (0-1) */
+  averageScore: number;
+  questions: HistoryQuestion[];
+};
+
+/**
+ * Which runs and questions a history query covers
+ */
+export type HistoryFilter = {
+  /** Exact `metadata.name` of the configuration */
+  configName?: string;
+  /** Exact `metadata.version` of the configuration */
+  configVersion?: string;
+  /** Runs must carry every one of these tags */
+  tags?: string[];
+  /** Only this question (runs without it are skipped) */
+  questionId?: string;
+  /** Only the most recent N matching runs */
+  last?: number;
+};
+
+/**
+ * Pass rate of one run, as a point on the trend
+ */
+export type PassRateTrendPoint = {
+  executedAt: string;
+  configVersion: string;
+  questionsPassed: number;
+  totalQuestions: number;
+  /** Pass rate in percent, over the questions matched by the filter */
+  passRate: number;
+};
+
+/**
+ * A question that both passed and failed across the runs
+ */
+export type FlakyQuestion = {
+  questionId: string;
+  runs: number;
+  passes: number;
+  failures: number;
+  /** How often the outcome changed between consecutive runs */
+  flips: number;
+  /** Pass rate in percent */
+  passRate: number;
+};
+
+/**
+ * Latency percentiles of one timing stage
+ */
+export type StageLatency = {
+  stage: TimingStage;
+  /** Number of answered questions measured */
+  samples: number;
+  p50: number;
+  p95: number;
+};
+
+/**
+ * Trends over the runs matched by a history query
+ */
+export type HistoryReport = {
+  filter: HistoryFilter;
+  runs: number;
+  /** Oldest run first */
+  passRateTrend: PassRateTrendPoint[];
+  /** Most flips first */
+  flakyQuestions: FlakyQuestion[];
+  latency: StageLatency[];
+};
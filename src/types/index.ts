@@ -25,6 +25,8 @@ export type VoiceTestInput = {
   backgroundSound?: string;
   /** Background sound volume (0.0 to 1.0) */
   backgroundVolume?: number;
+  /** Background level as signal-to-noise ratio in dB (overrides backgroundVolume) */
+  backgroundSnrDb?: number;
 };
 
 export type VoiceTestConfig = {
@@ -78,11 +80,12 @@ export type AudioMixingConfig = {
 };
 
 export type AudioMixer = {
-  /** Mix TTS audio with background sound */
+  /** Mix TTS audio with background sound, by volume or target SNR in dB */
   mixAudio(
     speechPath: string,
     backgroundSound: string,
-    backgroundVolume?: number
+    backgroundVolume?: number,
+    snrDb?: number
   ): Promise<string>;
   /** Get available background sound presets */
   getAvailablePresets(): BackgroundSoundPreset[];
@@ -118,20 +121,112 @@ export type {
   STTHandler,
   STTRequest,
   STTResponse as STTProviderResponse,
+  STTWord,
   StreamingSTTConfig,
   StreamingSTTResult,
   StreamingSession,
   STTProviderName,
 } from './stt-provider.types.js';
 
+// TTS Provider Types
+export type {
+  TTSProvider,
+  TTSProviderName,
+  TTSProviderFactory,
+  TTSProviderRegistryEntry,
+  TTSRequest,
+  TTSResponse,
+  VoiceInfo,
+} from './tts-provider.types.js';
+
+// Fixture Types
+export type {
+  ProviderFixtures,
+  STTFixtureSession,
+  STTFixtureResult,
+  AIFixtureResult,
+} from './fixture.types.js';
+
+// Reporter Types
+export type {
+  TestReporter,
+  ReporterName,
+  ReportContext,
+  ConversationReportEntry,
+} from './reporter.types.js';
+
+// Regression Types
+export type {
+  TimingStage,
+  RegressionThresholds,
+  QuestionChange,
+  QuestionSnapshot,
+  QuestionDiff,
+  LatencyRegression,
+  RunSummary,
+  RunComparison,
+} from './regression.types.js';
+
+// History Types
+export type {
+  HistoryQuestion,
+  HistoryRun,
+  HistoryFilter,
+  PassRateTrendPoint,
+  FlakyQuestion,
+  StageLatency,
+  HistoryReport,
+} from './history.types.js';
+
+// STT Benchmark Types
+export type {
+  STTBenchSample,
+  STTBenchManifestEntry,
+  STTBenchResult,
+  STTBenchSummary,
+  STTBenchSkipped,
+  STTBenchReport,
+} from './stt-bench.types.js';
+
+// Voice Benchmark Types
+export type {
+  VoiceBenchVoice,
+  VoiceBenchOptions,
+  VoiceBenchTranscription,
+  VoiceBenchResult,
+  VoiceBenchSummary,
+  VoiceBenchReport,
+} from './voice-bench.types.js';
+
+// Noise Sweep Types
+export type {
+  NoiseSweepOptions,
+  NoiseSweepResult,
+  NoiseSweepPoint,
+  NoiseSweepCurve,
+  NoiseSweepSkipped,
+  NoiseSweepReport,
+} from './noise-sweep.types.js';
+
 // Audio Types
 export type {
   AudioConfig,
   AudioRecordingSession,
   AudioDevice,
   AudioData,
+  WavAudio,
+  AudioMixResult,
+  SNRMix,
 } from './audio.types.js';
 
+// Audio Source Types
+export type {
+  AudioSource,
+  AudioSourceConfig,
+  AudioSourceStream,
+  AudioSourceType,
+} from './audio-source.types.js';
+
 // Voice Interaction Types
 export type {
   VoiceInteractionConfig,
@@ -143,9 +238,30 @@ export type {
   AIProvider,
   ComparisonInput,
   ComparisonResult,
+  ConversationTurn,
   ParsedAIResponse,
+  RubricCriterionName,
+  RubricCriterionSettings,
+  RubricSettings,
+  ElementCoverage,
+  ElementVerdict,
+  CriterionScore,
+  RubricResult,
+  JudgeConfig,
+  EnsembleVoting,
+  EnsembleSettings,
+  JudgeVerdict,
 } from './ai-comparison.types.js';
 
+// Simulated Caller Types
+export type {
+  CallTranscriptLine,
+  CallerLine,
+  CallerUtterance,
+  CallerAudioOutput,
+  SimulatedCallerOptions,
+} from './simulated-caller.types.js';
+
 // Voice Test Service Types
 export type {
   AudioFormat,
@@ -161,6 +277,11 @@ export type {
   TestAudioCommandArgs,
   PlayCommandArgs,
   TestCommandArgs,
+  CompareCommandArgs,
+  HistoryCommandArgs,
+  STTBenchCommandArgs,
+  VoiceBenchCommandArgs,
+  NoiseSweepCommandArgs,
   Voice,
   BackgroundSound,
 } from './cli.types.js';
@@ -188,12 +309,29 @@ export type {
   TestResult,
   TestQuestion,
   QuestionResult,
+  QuestionStability,
+  RepeatRunResult,
   TestSummary,
+  TestVerdict,
+  QuestionAssertion,
+  AssertionEntity,
+  AssertionResult,
+  TranscriptAccuracy,
+  WordAlignment,
+  STTAccuracySummary,
   PerformanceMetrics,
   TestMetadata,
   TestSettings,
+  ConcurrencySettings,
   QuestionSettings,
   TestExecutionMetadata,
+  VoiceBotTestOptions,
+  TestScenario,
+  ScenarioTurn,
+  ScenarioBranch,
+  ScenarioCondition,
+  SimulatedCaller,
+  CallerPersona,
 } from './voice-bot-config.js';
 
 export { SAMPLE_TEST_CONFIG, TEST_CONFIG_SCHEMA } from './voice-bot-config.js';
@@ -0,0 +1,100 @@
+/**
+ * Noise Sweep Types
+ * Type definitions for `vokal noise-sweep` noise-robustness runs
+ */
+
+/**
+ * Noise sweep options
+ */
+export type NoiseSweepOptions = {
+  /** STT provider that transcribes the noisy audio (default: the STT default) */
+  sttProvider?: string;
+  /** Directory to keep the mixed WAV files in (default: discarded) */
+  outputDir?: string;
+  /** WER above which a noise level counts as broken down (default: 0.2) */
+  maxWer?: number;
+};
+
+/**
+ * One sample transcribed clean or with one preset at one SNR
+ */
+export type NoiseSweepResult = {
+  sampleId: string;
+  /** Background preset (absent for the clean baseline) */
+  preset?: string;
+  /** Requested signal-to-noise ratio in dB (absent for the clean baseline) */
+  targetSnrDb?: number;
+  /** Signal-to-noise ratio of the mix in dB (absent for the clean baseline) */
+  snrDb?: number;
+  /** Transcript (empty when mixing or transcription failed) */
+  transcript: string;
+  /** Words in the normalized reference */
+  referenceWords: number;
+  /** Word error rate against the reference */
+  wer: number;
+  /** Character error rate against the reference */
+  cer: number;
+  /** Confidence reported by the STT provider (0-1) */
+  confidence: number;
+  /** Mixed WAV file (with `outputDir` only) */
+  audioPath?: string;
+  /** Error message when mixing or transcription failed */
+  error?: string;
+};
+
+/**
+ * Aggregate results of one preset at one SNR
+ */
+export type NoiseSweepPoint = {
+  /** Requested signal-to-noise ratio in dB */
+  targetSnrDb: number;
+  /** Mean signal-to-noise ratio of the mixes in dB */
+  snrDb: number;
+  /** All word errors over all reference words */
+  wer: number;
+  /** Mean character error rate */
+  cer: number;
+  /** Mean STT confidence (0-1) */
+  meanConfidence: number;
+  /** Samples that failed to mix or transcribe (counted with WER 1) */
+  failures: number;
+};
+
+/**
+ * WER against SNR for one background preset
+ */
+export type NoiseSweepCurve = {
+  preset: string;
+  /** One point per SNR level, cleanest first */
+  points: NoiseSweepPoint[];
+  /** Highest SNR whose WER exceeds `maxWer` (absent when none does) */
+  breakdownSnrDb?: number;
+};
+
+/**
+ * A background preset left out of the sweep
+ */
+export type NoiseSweepSkipped = {
+  preset: string;
+  reason: string;
+};
+
+/**
+ * Complete noise sweep report
+ */
+export type NoiseSweepReport = {
+  /** STT provider used for the transcriptions */
+  sttProvider: string;
+  samples: number;
+  /** SNR levels in dB, cleanest first */
+  snrLevels: number[];
+  /** WER threshold for the breakdown point */
+  maxWer: number;
+  /** WER of the samples without noise */
+  cleanWer: number;
+  /** One curve per preset, in the order given */
+  curves: NoiseSweepCurve[];
+  skipped: NoiseSweepSkipped[];
+  /** Every transcription: the clean baseline, then by preset, SNR and sample */
+  results: NoiseSweepResult[];
+};
@@ -0,0 +1,110 @@
+/**
+ * Regression Types
+ * Type definitions for comparing two saved test runs
+ */
+
+import type { QuestionResult } from './voice-bot-config.js';
+
+/**
+ * Per-question timing stage (a key of `QuestionResult.timing`)
+ */
+export type TimingStage = keyof QuestionResult['timing'];
+
+/**
+ * Limits beyond which the current run counts as a regression
+ */
+export type RegressionThresholds = {
+  /** Newly failing questions allowed (default: 0) */
+  maxNewFailures: number;
+  /** Allowed drop in average score, 0-1 (default: 0) */
+  maxScoreDrop: number;
+  /** Allowed latency increase of a stage, in percent (default: 20) */
+  maxLatencyIncreasePercent: number;
+  /** Latency increases below this are treated as noise, in ms (default: 250) */
+  minLatencyIncreaseMs: number;
+};
+
+/**
+ * How a question's outcome changed between runs
+ */
+export type QuestionChange =
+  'newly-failing' | 'newly-passing' | 'unchanged' | 'added' | 'removed';
+
+/**
+ * Outcome of one question in one run
+ */
+export type QuestionSnapshot = {
+  passed: boolean;
+  /** AI score (0-1) */
+  score: number;
+  /** AI confidence (0-1) */
+  confidence: number;
+  timing: QuestionResult['timing'];
+};
+
+/**
+ * One question compared across runs
+ */
+export type QuestionDiff = {
+  questionId: string;
+  change: QuestionChange;
+  /** Missing when the question was added */
+  baseline?: QuestionSnapshot;
+  /** Missing when the question was removed */
+  current?: QuestionSnapshot;
+  /** Current minus baseline score (0 unless in both runs) */
+  scoreDelta: number;
+  /** Current minus baseline confidence (0 unless in both runs) */
+  confidenceDelta: number;
+};
+
+/**
+ * A latency stage that got slower beyond the thresholds
+ */
+export type LatencyRegression = {
+  /** Question ID, or 'suite' for `PerformanceMetrics` averages */
+  scope: string;
+  /** Timing stage, e.g. 'transcriptionTime' or 'sttMetrics.averageTranscriptionTime' */
+  stage: string;
+  baselineMs: number;
+  currentMs: number;
+  deltaMs: number;
+  deltaPercent: number;
+};
+
+/**
+ * Headline numbers of one run
+ */
+export type RunSummary = {
+  configName: string;
+  executedAt: string;
+  totalQuestions: number;
+  questionsPassed: number;
+  /** Pass rate in percent */
+  passRate: number;
+  /** Average AI score (0-1) */
+  averageScore: number;
+};
+
+/**
+ * Result of comparing a current run against a baseline
+ */
+export type RunComparison = {
+  baseline: RunSummary;
+  current: RunSummary;
+  /** Current minus baseline pass rate, in percentage points */
+  passRateDelta: number;
+  /** Current minus baseline average score */
+  averageScoreDelta: number;
+  /** Every question in either run, baseline order first */
+  questions: QuestionDiff[];
+  newlyFailing: string[];
+  newlyPassing: string[];
+  latencyRegressions: LatencyRegression[];
+  /** Thresholds the comparison was judged against */
+  thresholds: RegressionThresholds;
+  /** Human-readable threshold violations */
+  violations: string[];
+  /** Whether any threshold was exceeded */
+  regressed: boolean;
+};
@@ -0,0 +1,56 @@
+/**
+ * Reporter Types
+ * Type definitions for test result reporters
+ */
+
+import type { TestResult } from './voice-bot-config.js';
+
+/**
+ * Reporter name (built-in: 'json', 'junit', 'tap', 'html')
+ */
+export type ReporterName = string;
+
+/**
+ * One question as shown in the conversation report
+ */
+export type ConversationReportEntry = {
+  questionId: string;
+  questionAsked: string;
+  automaticResponse: string;
+  score: string;
+  /** Human-readable language, e.g. 'English (United States)' */
+  language: string;
+  /** Human-readable voice, e.g. 'Female Neural Voice' */
+  voice: string;
+  /** Human-readable background sound and volume */
+  background: string;
+  analysis: string;
+  strengths?: string[];
+  improvements?: string[];
+};
+
+/**
+ * Extra run data passed to reporters alongside the test result
+ */
+export type ReportContext = {
+  /** Conversation report entries, in question result order */
+  conversation?: ConversationReportEntry[];
+};
+
+/**
+ * Renders a test result into a report file
+ */
+export interface TestReporter {
+  /** Name used to select the reporter (e.g. `--reporter junit`) */
+  readonly name: ReporterName;
+  /** Extension of the written file, without the dot */
+  readonly fileExtension: string;
+  /**
+   * Render the report
+   *
+   * @param testResult - Completed test result
+   * @param context - Extra run data, when the reporter runs after `vokal test`
+   * @returns File contents
+   */
+  render(testResult: TestResult, context?: ReportContext): string;
+}
@@ -33,7 +33,7 @@ export type CircuitBreakerOptions = {
   resetTimeout?: number;
   /** Number of successful calls needed to close circuit from half-open */
   successThreshold?: number;
-  /** Timeout for individual operations in milliseconds */
+  /** Timeout for individual operations in milliseconds (0 disables it) */
   timeout?: number;
   /** Callback when circuit state changes */
   onStateChange?: (state: string) => void;
@@ -15,6 +15,8 @@ export type ExecOptions = {
   cwd?: string;
   /** Environment variables */
   env?: NodeJS.ProcessEnv;
+  /** Data written to the command's stdin */
+  input?: string;
 };
 
 /**
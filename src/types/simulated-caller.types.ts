@@ -0,0 +1,52 @@
+/**
+ * Simulated Caller Types
+ * Runtime types for synthetic callers talking to a live voice bot
+ */
+
+/**
+ * One utterance in a simulated call
+ */
+export type CallTranscriptLine = {
+  /** Who spoke */
+  speaker: 'caller' | 'bot';
+  /** What was said (bot lines are transcripts) */
+  text: string;
+};
+
+/**
+ * Next line chosen for the simulated caller
+ */
+export type CallerLine = {
+  /** Text to speak ('' when the caller has nothing more to say) */
+  text: string;
+  /** Whether the caller hangs up after this line */
+  done: boolean;
+};
+
+/**
+ * A caller line that was spoken to the bot
+ */
+export type CallerUtterance = {
+  /** WAV file with the caller's speech (background mixed in) */
+  audioFilePath: string;
+  /** Time taken to synthesize and deliver the line (milliseconds) */
+  playTime: number;
+};
+
+/**
+ * Sends synthesized caller audio to the bot under test
+ *
+ * @param audioPath - WAV file with the caller's speech (background mixed in)
+ */
+export type CallerAudioOutput = (audioPath: string) => Promise<void>;
+
+/**
+ * Options for SimulatedCallerService
+ */
+export type SimulatedCallerOptions = {
+  /**
+   * Where caller audio goes, e.g. a telephony or WebSocket stream. Defaults to
+   * the speakers when listening on a microphone, otherwise audio is not played.
+   */
+  output?: CallerAudioOutput;
+};
@@ -0,0 +1,112 @@
+/**
+ * STT Benchmark Types
+ * Type definitions for `vokal stt-bench` provider comparisons
+ */
+
+/**
+ * One benchmark recording with its reference transcript
+ */
+export type STTBenchSample = {
+  /** Path relative to the benchmark folder, without extension */
+  id: string;
+  /** Absolute path of the WAV file */
+  audioPath: string;
+  /** What was said in the recording */
+  reference: string;
+  /** Language code the recording is transcribed in */
+  language: string;
+};
+
+/**
+ * One entry of a benchmark `manifest.json`
+ */
+export type STTBenchManifestEntry = {
+  /** WAV file, relative to the manifest */
+  audio: string;
+  /** What was said in the recording */
+  reference: string;
+  /** Language code (default: `--lang`) */
+  language?: string;
+};
+
+/**
+ * One provider's transcription of one sample
+ */
+export type STTBenchResult = {
+  sampleId: string;
+  provider: string;
+  language: string;
+  /** Transcript (empty when the provider failed) */
+  transcript: string;
+  /** Words in the normalized reference */
+  referenceWords: number;
+  /** Word error rate against the reference */
+  wer: number;
+  /** Character error rate against the reference */
+  cer: number;
+  /** Confidence reported by the provider (0-1) */
+  confidence: number;
+  /** Wall-clock time of the transcription request in milliseconds */
+  latencyMs: number;
+  /** Duration of the recording in milliseconds */
+  audioMs: number;
+  /** Error message when the provider failed */
+  error?: string;
+};
+
+/**
+ * Aggregate results of one provider for one language
+ */
+export type STTBenchSummary = {
+  provider: string;
+  language: string;
+  samples: number;
+  /** Samples the provider failed to transcribe (counted with WER 1) */
+  failures: number;
+  /** All word errors over all reference words */
+  wer: number;
+  /** Mean character error rate */
+  cer: number;
+  /** Median request latency in milliseconds */
+  latencyP50: number;
+  /** 95th percentile request latency in milliseconds */
+  latencyP95: number;
+  /** Mean reported confidence (0-1) */
+  meanConfidence: number;
+  /** Mean word accuracy, 1 - WER floored at 0 */
+  meanAccuracy: number;
+  /** Mean absolute gap between confidence and word accuracy (0 = well calibrated) */
+  calibrationError: number;
+  /** Mean of confidence minus word accuracy (above 0 = overconfident) */
+  overconfidence: number;
+  /** Total audio transcribed in minutes */
+  audioMinutes: number;
+  /** Price per audio minute in USD, when known */
+  costPerMinute?: number;
+  /** Estimated cost of the benchmark audio in USD, when the price is known */
+  estimatedCost?: number;
+};
+
+/**
+ * A provider left out of the benchmark
+ */
+export type STTBenchSkipped = {
+  provider: string;
+  reason: string;
+};
+
+/**
+ * Complete benchmark report
+ */
+export type STTBenchReport = {
+  /** Benchmark directory */
+  dir: string;
+  samples: number;
+  /** Providers that were benchmarked */
+  providers: string[];
+  skipped: STTBenchSkipped[];
+  /** Per provider and language, best WER first within each language */
+  summaries: STTBenchSummary[];
+  /** Every transcription, by sample then provider */
+  results: STTBenchResult[];
+};
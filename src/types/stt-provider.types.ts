@@ -42,6 +42,20 @@ export interface STTRequest {
   maxAlternatives?: number;
 }
 
+/**
+ * A recognized word with timing and confidence
+ */
+export interface STTWord {
+  /** Word text */
+  word: string;
+  /** Start offset in seconds */
+  startTime: number;
+  /** End offset in seconds */
+  endTime: number;
+  /** Confidence score (0.0 to 1.0) */
+  confidence: number;
+}
+
 /**
  * STT transcription response
  */
@@ -56,12 +70,7 @@ export interface STTResponse {
     confidence: number;
   }>;
   /** Word-level timing information */
-  words?: Array<{
-    word: string;
-    startTime: number;
-    endTime: number;
-    confidence: number;
-  }>;
+  words?: STTWord[];
   /** Provider name */
   provider: string;
   /** Latency in milliseconds */
@@ -104,6 +113,8 @@ export interface StreamingSTTResult {
   isFinal: boolean;
   /** Stability score for interim results */
   stability?: number;
+  /** Per-word confidence and timing (final results, when the provider reports it) */
+  words?: STTWord[];
 }
 
 /**
@@ -0,0 +1,111 @@
+/**
+ * Voice Benchmark Types
+ * Type definitions for `vokal voice bench` TTS round-trip comparisons
+ */
+
+/**
+ * A voice to benchmark
+ */
+export type VoiceBenchVoice = {
+  /** TTS provider registered with `TTSProviderManager` */
+  provider: string;
+  /** Provider voice name */
+  voice: string;
+  /** Language the voice speaks and is transcribed in */
+  language: string;
+};
+
+/**
+ * Voice benchmark options
+ */
+export type VoiceBenchOptions = {
+  /** STT provider that transcribes the synthesized audio (default: the STT default) */
+  sttProvider?: string;
+  /** Directory to keep the synthesized WAV files in (default: discarded) */
+  outputDir?: string;
+  /** API key passed to the TTS providers */
+  apiKey?: string;
+};
+
+/**
+ * Transcription of a synthesized phrase
+ */
+export type VoiceBenchTranscription = {
+  transcript: string;
+  /** Round-trip word error rate against the phrase */
+  wer: number;
+  /** Round-trip character error rate against the phrase */
+  cer: number;
+  /** Confidence reported by the STT provider (0-1) */
+  confidence: number;
+};
+
+/**
+ * One voice speaking one phrase, transcribed back
+ */
+export type VoiceBenchResult = VoiceBenchTranscription & {
+  /** Voice label, `provider:voice` */
+  voice: string;
+  language: string;
+  /** 1-based position of the phrase in the phrase list */
+  phraseNumber: number;
+  phrase: string;
+  /** Time to synthesize the phrase in milliseconds */
+  generationMs: number;
+  /** Duration of the synthesized audio in milliseconds */
+  audioMs: number;
+  /** Size of the synthesized audio file in bytes */
+  fileSize: number;
+  /** Synthesized WAV file (with `outputDir` only) */
+  audioPath?: string;
+  /** Transcription with the STT settings from `getOptimalConfig()`, when the TTS provider has them */
+  optimized?: VoiceBenchTranscription;
+  /** Error message when synthesis or transcription failed */
+  error?: string;
+  /** Error message when only the `optimized` transcription failed */
+  optimizedError?: string;
+};
+
+/**
+ * Aggregate round-trip results of one voice
+ */
+export type VoiceBenchSummary = {
+  /** Voice label, `provider:voice` */
+  voice: string;
+  provider: string;
+  language: string;
+  phrases: number;
+  /** Phrases that failed to synthesize or transcribe (counted with WER 1) */
+  failures: number;
+  /** All word errors over all phrase words */
+  wer: number;
+  /** Mean character error rate */
+  cer: number;
+  /** Mean STT confidence (0-1) */
+  meanConfidence: number;
+  /** Mean synthesis time in milliseconds */
+  meanGenerationMs: number;
+  /** Mean audio duration in milliseconds */
+  meanAudioMs: number;
+  /** Mean file size in bytes */
+  meanFileSize: number;
+  /** WER with the `getOptimalConfig()` STT settings, when available */
+  optimizedWer?: number;
+  /** `optimizedWer - wer`; below 0 means the optimized settings helped */
+  optimizerDelta?: number;
+};
+
+/**
+ * Complete voice benchmark report
+ */
+export type VoiceBenchReport = {
+  /** STT provider used for the round trip */
+  sttProvider: string;
+  phrases: number;
+  /** Voice labels in the order given */
+  voices: string[];
+  /** Per voice, grouped by language, best WER first */
+  summaries: VoiceBenchSummary[];
+  /** Every phrase of every voice, by voice then phrase */
+  results: VoiceBenchResult[];
+};
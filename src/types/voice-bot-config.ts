@@ -3,6 +3,15 @@
  * Defines the structure for voice bot conversation configurations
  */
 
+import type { AudioSourceConfig } from './audio-source.types.js';
+import type {
+  EnsembleSettings,
+  JudgeVerdict,
+  RubricResult,
+  RubricSettings,
+} from './ai-comparison.types.js';
+import type { STTWord } from './stt-provider.types.js';
+
 export type VoiceBotConfig = {
   /** Conversation suite metadata */
   metadata: TestMetadata;
@@ -10,6 +19,10 @@ export type VoiceBotConfig = {
   settings: TestSettings;
   /** Array of test questions */
   questions: TestQuestion[];
+  /** Multi-turn conversation scenarios, run after `questions` */
+  scenarios?: TestScenario[];
+  /** Simulated callers that talk to a live bot, run after `scenarios` */
+  callers?: SimulatedCaller[];
 };
 
 export type TestMetadata = {
@@ -49,7 +62,7 @@ export type TestSettings = {
   sttProvider?: string;
   /** AI provider for response comparison (supports any Neurolink provider: 'google-ai', 'openai', 'anthropic', 'bedrock', etc.) */
   aiProvider?: string;
-  /** Minimum score threshold for passing (0 or 1) */
+  /** Weighted pass rate the suite needs to pass: below 1 a fraction (0.7 = 70%), from 1 to 10 the legacy 1-10 scale (7 = 70%) */
   passingScore: number;
   /** Maximum retries per question */
   maxRetries: number;
@@ -61,6 +74,46 @@ export type TestSettings = {
   backgroundSound?: string;
   /** Background volume (0.0 to 1.0) */
   backgroundVolume: number;
+  /** Background level as signal-to-noise ratio in dB (overrides backgroundVolume) */
+  backgroundSnrDb?: number;
+  /**
+   * Headless mode: WAV file, or directory of `<questionId>.wav` files, used as
+   * responses instead of the microphone. Relative to the config file.
+   */
+  responseAudio?: string;
+  /**
+   * Audio input used when no response file applies (default: microphone).
+   * File paths are relative to the config file.
+   */
+  audioSource?: AudioSourceConfig;
+  /**
+   * Fixture file with scripted provider responses, used by providers named
+   * `fixture`. Relative to the config file.
+   */
+  fixtures?: string;
+  /** Parallel execution and provider protection for file-based runs */
+  concurrency?: ConcurrencySettings;
+  /** Grade responses against a rubric instead of a binary pass/fail (`{}` for the defaults) */
+  rubric?: RubricSettings;
+  /** Evaluate with several AI judges and combine their votes (overrides aiProvider) */
+  ensemble?: EnsembleSettings;
+};
+
+/**
+ * Parallel execution settings
+ *
+ * @remarks
+ * Questions only run in parallel when no answer comes from a live microphone.
+ */
+export type ConcurrencySettings = {
+  /** Questions and scenarios run at once (default: 1; overridden by `--concurrency`) */
+  maxConcurrent?: number;
+  /** Question attempts started per minute across all workers (default: unlimited) */
+  questionsPerMinute?: number;
+  /** Consecutive TTS/STT failures before further questions fail fast (default: 5) */
+  failureThreshold?: number;
+  /** How long questions fail fast before the providers are tried again, in ms (default: 60000) */
+  resetTimeout?: number;
 };
 
 export type TestQuestion = {
@@ -80,10 +133,180 @@ export type TestQuestion = {
   settings?: Partial<QuestionSettings>;
   /** Tags for this specific question */
   tags?: string[];
-  /** Weight/importance of this question (1-10) */
+  /** Weight/importance of this question in the weighted pass rate (1-10, default 1) */
   weight?: number;
-  /** Whether this question is required for test completion */
+  /** Whether the suite fails when this question fails, whatever the pass rate */
   required?: boolean;
+  /** Pre-recorded WAV response for this question (overrides settings.responseAudio) */
+  responseAudio?: string;
+  /** Deterministic checks on the transcript, evaluated before the AI */
+  assertions?: QuestionAssertion[];
+  /** Let the assertions alone decide pass/fail and skip AI evaluation */
+  assertionsOnly?: boolean;
+  /** Exact words the response should be transcribed as, for WER/CER metrics */
+  referenceTranscript?: string;
+};
+
+/**
+ * Entities an `entity` assertion can look for in a transcript
+ */
+export type AssertionEntity = 'number' | 'date' | 'email' | 'phone' | 'yes-no';
+
+/**
+ * A deterministic check on a response transcript
+ *
+ * @remarks
+ * Phrases are matched case-insensitively on whole words, ignoring
+ * punctuation. Spoken numbers ("thirty four") count as numbers.
+ *
+ * - `regex`: the transcript matches `pattern` (default flags `i`)
+ * - `contains`: the transcript contains all (or any) of `values`
+ * - `number-range`: a number in the transcript lies within `min`-`max`
+ * - `entity`: the transcript contains the entity, equal to `value` if given
+ * - `one-of`: the transcript mentions exactly one of `values`
+ */
+export type QuestionAssertion = {
+  /** Shown in reports instead of the generated description */
+  description?: string;
+} & (
+  | { type: 'regex'; pattern: string; flags?: string }
+  | { type: 'contains'; values: string[]; match?: 'all' | 'any' }
+  | { type: 'number-range'; min?: number; max?: number }
+  | { type: 'entity'; entity: AssertionEntity; value?: string }
+  | { type: 'one-of'; values: string[] }
+);
+
+/**
+ * Outcome of one assertion
+ */
+export type AssertionResult = {
+  type: QuestionAssertion['type'];
+  description: string;
+  passed: boolean;
+  /** Why the assertion passed or failed */
+  detail: string;
+  /** Text of the transcript that satisfied the assertion */
+  matched?: string;
+};
+
+/**
+ * A multi-turn conversation whose next turn depends on earlier responses
+ */
+export type TestScenario = {
+  /** Unique identifier for the scenario */
+  id: string;
+  /** Human-readable name */
+  name?: string;
+  /** What the scenario covers */
+  description?: string;
+  /** Id of the first turn (default: the first entry of `turns`) */
+  start?: string;
+  /** Initial slot values available to `{{slot}}` placeholders */
+  slots?: Record<string, string>;
+  /** Maximum turns per run, guarding against branch loops (default: 20) */
+  maxTurns?: number;
+  /** Turns of the conversation */
+  turns: ScenarioTurn[];
+};
+
+/**
+ * One turn of a scenario
+ *
+ * @remarks
+ * `{{slot}}` placeholders in the question text, intent, expected elements,
+ * context, sample response and reference transcript are filled from slots
+ * captured so far.
+ */
+export type ScenarioTurn = TestQuestion & {
+  /**
+   * Slots to capture from the transcript: slot name to a case-insensitive
+   * regular expression. The first capture group (or the whole match) is stored.
+   */
+  extract?: Record<string, string>;
+  /**
+   * Turn to run next: a turn id, `"end"`, or branches evaluated in order.
+   * Defaults to the following turn; the scenario ends when no branch matches.
+   */
+  next?: string | ScenarioBranch[];
+};
+
+/**
+ * A conditional transition between scenario turns
+ */
+export type ScenarioBranch = {
+  /** All given conditions must hold; omit for an unconditional branch */
+  when?: ScenarioCondition;
+  /** Turn id to go to, or `"end"` */
+  goto: string;
+};
+
+/**
+ * Conditions on the outcome of a scenario turn
+ */
+export type ScenarioCondition = {
+  /** The AI evaluation passed (`true`) or failed (`false`) */
+  passed?: boolean;
+  /** The transcript matches this case-insensitive regular expression */
+  matches?: string;
+  /** This slot has been captured */
+  hasSlot?: string;
+  /** The turn produced no transcript (no speech or errors after retries) */
+  noResponse?: boolean;
+};
+
+/**
+ * A synthetic caller that talks to the bot under test
+ *
+ * @remarks
+ * Each caller line is generated by an LLM playing `persona` (or taken from
+ * `persona.script`), synthesized and played to the bot. Every bot reply is
+ * transcribed and evaluated as `<callerId>/turn-<n>`.
+ */
+export type SimulatedCaller = {
+  /** Unique identifier for the caller */
+  id: string;
+  /** Who the caller is and what they want */
+  persona: CallerPersona;
+  /** What every bot reply should accomplish (default: help the caller reach their goal) */
+  botIntent?: string;
+  /** Elements every bot reply should contain */
+  expectedElements?: string[];
+  /** Additional context for evaluating bot replies */
+  context?: string;
+  /** Maximum caller lines per call (default: 6) */
+  maxTurns?: number;
+  /** Listen for a greeting before the caller's first line (default: true) */
+  botSpeaksFirst?: boolean;
+  /** LLM provider for caller lines (default: settings.aiProvider) */
+  provider?: string;
+  /** Background sound mixed under the caller's speech (default: settings.backgroundSound) */
+  backgroundSound?: string;
+  /** Background volume (default: settings.backgroundVolume) */
+  backgroundVolume?: number;
+  /** Background SNR in dB (default: settings.backgroundSnrDb) */
+  backgroundSnrDb?: number;
+};
+
+/**
+ * Persona played by a simulated caller
+ */
+export type CallerPersona = {
+  /** Caller's name */
+  name: string;
+  /** What the caller is trying to get done */
+  goal: string;
+  /** How the caller speaks, e.g. "impatient, short sentences" */
+  tone?: string;
+  /** TTS voice, e.g. an accented voice (default: settings.defaultVoice) */
+  voice?: string;
+  /** Language code (default: settings.defaultLanguage) */
+  language?: string;
+  /** Speaking rate passed to TTS (default: 1.0) */
+  speakingRate?: number;
+  /** Facts the caller can share when asked, e.g. an order number */
+  background?: string;
+  /** Fixed lines spoken in order instead of LLM-generated ones */
+  script?: string[];
 };
 
 export type QuestionSettings = {
@@ -99,10 +322,41 @@ export type QuestionSettings = {
   backgroundSound?: string;
   /** Custom background volume */
   backgroundVolume: number;
+  /** Custom background SNR in dB */
+  backgroundSnrDb?: number;
   /** Whether to play this question via TTS */
   playQuestion: boolean;
 };
 
+/**
+ * Runtime options for a test suite run, usually supplied on the command line
+ */
+export type VoiceBotTestOptions = {
+  /**
+   * WAV file or directory of `<questionId>.wav` files used as responses.
+   * Overrides `settings.responseAudio`; relative to the working directory.
+   */
+  responses?: string;
+  /** Record every TTS, STT and AI comparison call into this cassette directory */
+  record?: string;
+  /**
+   * Serve TTS, STT and AI comparison calls from this cassette directory.
+   * Without an `audioSource` setting, replay listens to silence.
+   */
+  replay?: string;
+  /** Reporters that write `vokal-results-<timestamp>.<ext>` (default: `['json']`) */
+  reporters?: string[];
+  /**
+   * Results store directory the run is appended to (default: `.vokal`);
+   * `false` disables the history
+   */
+  history?: string | false;
+  /** Runs per question, to measure flakiness (default: 1) */
+  repeat?: number;
+  /** Questions and scenarios run at once when answers come from files (default: `settings.concurrency.maxConcurrent` or 1) */
+  concurrency?: number;
+};
+
 export type TestResult = {
   /** Test execution metadata */
   metadata: TestExecutionMetadata;
@@ -117,6 +371,10 @@ export type TestResult = {
 export type TestExecutionMetadata = {
   /** Test configuration used */
   configName: string;
+  /** `metadata.version` of the configuration */
+  configVersion?: string;
+  /** `metadata.tags` of the configuration */
+  tags?: string[];
   /** When the test was executed */
   executedAt: string;
   /** Total execution time in milliseconds */
@@ -144,8 +402,32 @@ export type TestSummary = {
   passRate: number;
   /** Average score across all questions */
   averageScore: number;
+  /** Pass percentage with each question counted by its `weight` */
+  weightedPassRate: number;
+  /** Weighted pass percentage needed to pass (from `settings.passingScore`) */
+  passingThreshold: number;
+  /** Required questions that failed or did not run */
+  requiredFailed: string[];
   /** Whether the overall test passed */
   testPassed: boolean;
+  /** Rule that decided `testPassed` */
+  verdict: TestVerdict;
+  /** Questions whose transcript or verdict varied across repeated runs (`repeat` > 1 only) */
+  unstableQuestions?: string[];
+  /** Transcript accuracy over questions with a `referenceTranscript` */
+  sttAccuracy?: STTAccuracySummary;
+};
+
+/**
+ * Rule that decided a suite's pass/fail verdict
+ *
+ * - `required-question`: a required question failed, so the suite failed
+ * - `passing-score`: the weighted pass rate was compared with the threshold
+ */
+export type TestVerdict = {
+  rule: 'required-question' | 'passing-score';
+  /** Human-readable reason, e.g. "weighted pass rate 82.0% >= 70.0%" */
+  detail: string;
 };
 
 export type QuestionResult = {
@@ -167,6 +449,12 @@ export type QuestionResult = {
     analysis: string;
     strengths: string[];
     improvements: string[];
+    /** Per-criterion results (rubric scoring only) */
+    rubric?: RubricResult;
+    /** Each judge's verdict (ensemble evaluation only) */
+    judges?: JudgeVerdict[];
+    /** Share of the vote behind the verdict (ensemble evaluation only) */
+    agreement?: number;
   };
   /** Timing information */
   timing: {
@@ -178,10 +466,133 @@ export type QuestionResult = {
   };
   /** Number of retries taken */
   retries: number;
+  /** Outcome of the question's assertions, in configuration order */
+  assertions?: AssertionResult[];
   /** Whether this question passed */
   passed: boolean;
   /** Any errors encountered */
   errors?: string[];
+  /** Scenario this turn belongs to (scenario turns only) */
+  scenarioId?: string;
+  /** 1-based position of the turn within its scenario run */
+  turnNumber?: number;
+  /** Slots captured up to and including this turn */
+  slots?: Record<string, string>;
+  /** Simulated caller this bot reply belongs to (caller turns only) */
+  callerId?: string;
+  /** Per-word confidence of the transcribed response, when the STT provider reports it */
+  words?: STTWord[];
+  /** Audio files saved for this question, relative to the working directory */
+  audio?: {
+    /** Synthesized question (or caller line) */
+    question?: string;
+    /** Response audio as fed to STT (WAV, saved on failure too) */
+    response?: string;
+  };
+  /** Spread of outcomes across repeated runs (`repeat` > 1 only) */
+  stability?: QuestionStability;
+  /** Transcript compared with the question's `referenceTranscript` */
+  transcriptAccuracy?: TranscriptAccuracy;
+};
+
+/**
+ * How one word of a transcript lines up with the reference
+ *
+ * - `match`: the words are equal
+ * - `substitution`: a reference word was heard as another word
+ * - `insertion`: the transcript has a word the reference does not
+ * - `deletion`: a reference word is missing from the transcript
+ */
+export type WordAlignment = {
+  op: 'match' | 'substitution' | 'insertion' | 'deletion';
+  /** Reference word (all but insertions) */
+  reference?: string;
+  /** Transcribed word (all but deletions) */
+  hypothesis?: string;
+  /** Start offset of the transcribed word in seconds, when the STT provider reports word timing */
+  startTime?: number;
+  /** End offset of the transcribed word in seconds */
+  endTime?: number;
+  /** STT confidence of the transcribed word (0-1) */
+  confidence?: number;
+};
+
+/**
+ * Accuracy of a transcript against a known reference transcript
+ */
+export type TranscriptAccuracy = {
+  /** Reference transcript */
+  reference: string;
+  /** Word error rate: (substitutions + deletions + insertions) / reference words */
+  wer: number;
+  /** Character error rate over the normalized text */
+  cer: number;
+  /** Words in the normalized reference */
+  referenceWords: number;
+  substitutions: number;
+  insertions: number;
+  deletions: number;
+  /** WER exceeded the misheard threshold, so a failure is put down to STT */
+  misheard: boolean;
+  /** Word-by-word alignment, in transcript order */
+  alignment: WordAlignment[];
+};
+
+/**
+ * Suite-level STT accuracy over questions with a reference transcript
+ */
+export type STTAccuracySummary = {
+  /** Transcribed questions with a reference transcript */
+  questions: number;
+  referenceWords: number;
+  substitutions: number;
+  insertions: number;
+  deletions: number;
+  /** All word errors over all reference words */
+  wer: number;
+  /** Mean character error rate across the questions */
+  cer: number;
+  /** Failed questions whose transcript was misheard (WER above the threshold) */
+  sttMisheard: string[];
+  /** Failed questions transcribed accurately, so the bot's answer was wrong */
+  botMisunderstood: string[];
+};
+
+/**
+ * Outcome of one repeated run of a question
+ */
+export type RepeatRunResult = {
+  passed: boolean;
+  /** AI score (0-1) */
+  score: number;
+  /** AI confidence (0-1) */
+  confidence: number;
+  /** Transcribed response (empty when the run failed) */
+  transcript: string;
+};
+
+/**
+ * How consistently a question behaved when run several times
+ */
+export type QuestionStability = {
+  runs: number;
+  passes: number;
+  /** Share of runs that passed (0-1) */
+  passProbability: number;
+  /** Mean AI score (0-1) */
+  scoreMean: number;
+  /** Population variance of the AI score */
+  scoreVariance: number;
+  /** Mean word edit distance between pairs of transcripts (0 = identical, 1 = nothing in common) */
+  transcriptVariance: number;
+  /** Number of different transcripts after normalizing case and punctuation */
+  distinctTranscripts: number;
+  /** Transcript variance exceeded the instability threshold */
+  unstableTranscript: boolean;
+  /** The AI verdict differed between runs */
+  unstableVerdict: boolean;
+  /** Every run, in order */
+  runResults: RepeatRunResult[];
 };
 
 export type PerformanceMetrics = {
@@ -255,17 +666,50 @@ export const TEST_CONFIG_SCHEMA = {
         ttsProvider: { type: 'string' },
         sttProvider: { type: 'string' },
         aiProvider: { type: 'string' },
-        passingScore: { type: 'number', minimum: 1, maximum: 10 },
+        passingScore: {
+          type: 'number',
+          minimum: 0,
+          maximum: 10,
+          description:
+            'Below 1 a fraction (0.7 = 70%); from 1 to 10 the legacy 1-10 scale (7 = 70%)',
+        },
         maxRetries: { type: 'number', minimum: 0, maximum: 5 },
         questionDelay: { type: 'number', minimum: 0, maximum: 10000 },
         playQuestions: { type: 'boolean' },
         backgroundSound: { type: 'string' },
         backgroundVolume: { type: 'number', minimum: 0, maximum: 1 },
+        backgroundSnrDb: { type: 'number', minimum: -20, maximum: 60 },
+        responseAudio: { type: 'string' },
+        fixtures: { type: 'string' },
+        audioSource: {
+          type: 'object',
+          required: ['type'],
+          properties: {
+            type: {
+              type: 'string',
+              enum: [
+                'microphone',
+                'file',
+                'stdin',
+                'tone',
+                'silence',
+                'loopback',
+              ],
+            },
+            path: { type: 'string' },
+            format: { type: 'string', enum: ['wav', 'raw'] },
+            sampleRate: { type: 'number', minimum: 8000, maximum: 48000 },
+            frequency: { type: 'number', minimum: 0 },
+            amplitude: { type: 'number', minimum: 0, maximum: 1 },
+            durationMs: { type: 'number', minimum: 0 },
+            trailingSilenceMs: { type: 'number', minimum: 0 },
+            chunkMs: { type: 'number', minimum: 10, maximum: 1000 },
+          },
+        },
       },
     },
     questions: {
       type: 'array',
-      minItems: 1,
       items: {
         type: 'object',
         required: ['id', 'question', 'intent', 'expectedElements'],
@@ -284,6 +728,106 @@ export const TEST_CONFIG_SCHEMA = {
           tags: { type: 'array', items: { type: 'string' } },
           weight: { type: 'number', minimum: 1, maximum: 10 },
           required: { type: 'boolean' },
+          responseAudio: { type: 'string' },
+          referenceTranscript: { type: 'string' },
+        },
+      },
+    },
+    scenarios: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'turns'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          start: { type: 'string' },
+          slots: { type: 'object', additionalProperties: { type: 'string' } },
+          maxTurns: { type: 'number', minimum: 1, maximum: 100 },
+          turns: {
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              required: ['id', 'question', 'intent', 'expectedElements'],
+              properties: {
+                id: { type: 'string', minLength: 1 },
+                question: { type: 'string', minLength: 1 },
+                intent: { type: 'string', minLength: 1 },
+                expectedElements: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  minItems: 1,
+                },
+                extract: {
+                  type: 'object',
+                  additionalProperties: { type: 'string' },
+                },
+                next: {
+                  oneOf: [
+                    { type: 'string' },
+                    {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        required: ['goto'],
+                        properties: {
+                          when: {
+                            type: 'object',
+                            properties: {
+                              passed: { type: 'boolean' },
+                              matches: { type: 'string' },
+                              hasSlot: { type: 'string' },
+                              noResponse: { type: 'boolean' },
+                            },
+                          },
+                          goto: { type: 'string' },
+                        },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    callers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'persona'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          persona: {
+            type: 'object',
+            required: ['name', 'goal'],
+            properties: {
+              name: { type: 'string', minLength: 1 },
+              goal: { type: 'string', minLength: 1 },
+              tone: { type: 'string' },
+              voice: { type: 'string' },
+              language: { type: 'string' },
+              speakingRate: { type: 'number', minimum: 0.25, maximum: 4 },
+              background: { type: 'string' },
+              script: {
+                type: 'array',
+                items: { type: 'string', minLength: 1 },
+                minItems: 1,
+              },
+            },
+          },
+          botIntent: { type: 'string' },
+          expectedElements: { type: 'array', items: { type: 'string' } },
+          context: { type: 'string' },
+          maxTurns: { type: 'number', minimum: 1, maximum: 50 },
+          botSpeaksFirst: { type: 'boolean' },
+          provider: { type: 'string' },
+          backgroundSound: { type: 'string' },
+          backgroundVolume: { type: 'number', minimum: 0, maximum: 1 },
+          backgroundSnrDb: { type: 'number', minimum: -20, maximum: 60 },
         },
       },
     },
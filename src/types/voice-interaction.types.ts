@@ -3,6 +3,8 @@
  * All voice interaction-related type definitions
  */
 
+import type { STTWord } from './stt-provider.types.js';
+
 /**
  * Voice Interaction Configuration
  */
@@ -35,9 +37,23 @@ export type VoiceInteractionConfig = {
   backgroundSound?: string;
   /** Background volume */
   backgroundVolume?: number;
+  /** Background level as signal-to-noise ratio in dB (overrides backgroundVolume) */
+  backgroundSnrDb?: number;
 
   /** Delay after TTS playback before starting recording (milliseconds) */
   questionDelay?: number;
+
+  /**
+   * Pre-recorded WAV file to use as the response instead of the microphone.
+   * When set, the question is synthesized but not played back.
+   */
+  responseAudioFile?: string;
+
+  /**
+   * Save the audio fed to STT as a WAV file at this path, including when no
+   * speech is recognized. Not saved when empty.
+   */
+  responseRecordingPath?: string;
 };
 
 /**
@@ -55,7 +71,7 @@ export type VoiceInteractionResult = {
   /** Confidence of transcription */
   confidence: number;
 
-  /** Audio file path */
+  /** Saved response recording (empty when `responseRecordingPath` is not set) */
   audioFilePath: string;
 
   /** Processing time */
@@ -69,6 +85,15 @@ export type VoiceInteractionResult = {
 
   /** Maximum volume level */
   maxVolume: number;
+
+  /** Per-word confidence and timing, when the STT provider reports it */
+  words?: STTWord[];
+
+  /** Time spent synthesizing and playing the question (milliseconds) */
+  questionPlayTime?: number;
+
+  /** Synthesized question audio file */
+  questionAudioFilePath?: string;
 };
 
 /**
@@ -81,6 +106,8 @@ export type StreamingSTTResult = {
   isFinal: boolean;
   /** Confidence score (0-1) */
   confidence: number;
+  /** Per-word confidence and timing (final results only) */
+  words?: STTWord[];
 };
 
 /**
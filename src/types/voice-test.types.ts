@@ -25,6 +25,7 @@ export type VoiceTestInput = {
   play?: boolean;
   backgroundSound?: string;
   backgroundVolume?: number;
+  backgroundSnrDb?: number;
   outputPath?: string;
   speakingRate?: number;
   pitch?: number;
@@ -0,0 +1,515 @@
+/**
+ * Assertion Utilities
+ *
+ * Deterministic checks on response transcripts (`TestQuestion.assertions`),
+ * for answers an LLM should not be trusted to judge.
+ *
+ * @module utils/assertions
+ * @since 1.1.0
+ *
+ * @remarks
+ * Assertions run locally before AI evaluation. A failed assertion fails the
+ * question without calling the AI; with `assertionsOnly` passing assertions
+ * pass the question on their own. Phrases are compared on lower-case words
+ * without punctuation, and spoken numbers ("two hundred and five") are read
+ * as numbers, since STT output rarely matches a template exactly.
+ *
+ * @example
+ * ```typescript
+ * validateAssertions(question.assertions ?? [], `questions.${question.id}`);
+ *
+ * const results = evaluateAssertions(transcript, [
+ *   { type: 'regex', pattern: '\\b\\d{8}\\b' },
+ *   { type: 'number-range', min: 18, max: 120 },
+ *   { type: 'entity', entity: 'yes-no', value: 'yes' },
+ * ]);
+ * const passed = results.every((result) => result.passed);
+ * ```
+ */
+
+import type {
+  AssertionEntity,
+  AssertionResult,
+  QuestionAssertion,
+} from '../types/voice-bot-config.js';
+import { ValidationError, toError } from '../errors/voice-test.errors.js';
+import { normalizeWords } from './stability.js';
+
+/**
+ * Entities supported by `entity` assertions
+ */
+export const ASSERTION_ENTITIES: AssertionEntity[] = [
+  'number',
+  'date',
+  'email',
+  'phone',
+  'yes-no',
+];
+
+/**
+ * Number words and their values
+ *
+ * @internal
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+/**
+ * Multiplier words and their values
+ *
+ * @internal
+ */
+const SCALE_WORDS: Record<string, number> = {
+  hundred: 100,
+  thousand: 1000,
+  million: 1000000,
+};
+
+/**
+ * Words that answer yes or no, longest phrases first
+ *
+ * @internal
+ */
+const YES_NO_WORDS: Array<[string, 'yes' | 'no']> = [
+  ['not really', 'no'],
+  ['of course', 'yes'],
+  ['yes', 'yes'],
+  ['yeah', 'yes'],
+  ['yep', 'yes'],
+  ['yup', 'yes'],
+  ['sure', 'yes'],
+  ['correct', 'yes'],
+  ['absolutely', 'yes'],
+  ['affirmative', 'yes'],
+  ['no', 'no'],
+  ['nope', 'no'],
+  ['nah', 'no'],
+  ['negative', 'no'],
+];
+
+/**
+ * Month names and abbreviations for date matching
+ *
+ * @internal
+ */
+const MONTHS =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+/**
+ * Day of month as digits ("5th") or ordinal words ("twenty first")
+ *
+ * @internal
+ */
+const DAY =
+  '\\d{1,2}(?:st|nd|rd|th)?|(?:(?:twenty|thirty)[\\s-])?(?:first|second|third|fourth|fifth|sixth|seventh|eighth|ninth)|tenth|eleventh|twelfth|(?:thir|four|fif|six|seven|eigh|nine)teenth|twentieth|thirtieth';
+
+/**
+ * Date patterns: ISO, numeric, "March 5th 2024", "5 March", relative days
+ *
+ * @internal
+ */
+const DATE_PATTERNS = [
+  /\b\d{4}-\d{1,2}-\d{1,2}\b/,
+  /\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/,
+  new RegExp(
+    `\\b(?:${MONTHS})\\.?\\s+(?:the\\s+)?(?:${DAY})\\b(?:,?\\s+\\d{4})?`,
+    'i'
+  ),
+  new RegExp(
+    `\\b(?:the\\s+)?(?:${DAY})\\s+(?:of\\s+)?(?:${MONTHS})\\b(?:,?\\s+\\d{4})?`,
+    'i'
+  ),
+  /\b(?:today|tomorrow|yesterday)\b/i,
+];
+
+/**
+ * Email addresses, written or spoken ("jane at example dot com")
+ *
+ * @internal
+ */
+const EMAIL_PATTERNS = [
+  /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/,
+  /\b[\w.+-]+\s+at\s+[\w-]+(?:\s+dot\s+[\w-]+)+\b/i,
+];
+
+/**
+ * Digit runs that may be phone numbers (checked for 7-15 digits)
+ *
+ * @internal
+ */
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{5,}\d/g;
+
+/**
+ * Validate assertions before a run
+ *
+ * @param assertions - Assertions of one question
+ * @param field - Configuration path of the question, for error messages
+ * @throws {ValidationError} On unknown types or entities, invalid patterns,
+ * empty value lists or empty ranges
+ */
+export function validateAssertions(
+  assertions: QuestionAssertion[],
+  field: string
+): void {
+  assertions.forEach((assertion, index) => {
+    const path = `${field}.assertions.${index}`;
+    switch (assertion.type) {
+      case 'regex':
+        try {
+          new RegExp(assertion.pattern, assertion.flags ?? 'i');
+        } catch (error) {
+          throw new ValidationError(
+            `Invalid regular expression in ${path}: ${assertion.pattern}`,
+            `${path}.pattern`,
+            assertion.pattern,
+            toError(error)
+          );
+        }
+        break;
+      case 'contains':
+      case 'one-of':
+        if (!Array.isArray(assertion.values) || assertion.values.length === 0) {
+          throw new ValidationError(
+            `${assertion.type} assertion needs at least one value in ${path}`,
+            `${path}.values`,
+            assertion.values
+          );
+        }
+        break;
+      case 'number-range':
+        if (
+          (assertion.min === undefined && assertion.max === undefined) ||
+          (assertion.min !== undefined &&
+            assertion.max !== undefined &&
+            assertion.min > assertion.max)
+        ) {
+          throw new ValidationError(
+            `number-range assertion needs min and/or max with min <= max in ${path}`,
+            path,
+            assertion
+          );
+        }
+        break;
+      case 'entity':
+        if (!ASSERTION_ENTITIES.includes(assertion.entity)) {
+          throw new ValidationError(
+            `Unknown entity "${assertion.entity}" in ${path} (expected ${ASSERTION_ENTITIES.join(', ')})`,
+            `${path}.entity`,
+            assertion.entity
+          );
+        }
+        break;
+      default:
+        throw new ValidationError(
+          `Unknown assertion type in ${path}: ${(assertion as { type: unknown }).type}`,
+          `${path}.type`,
+          (assertion as { type: unknown }).type
+        );
+    }
+  });
+}
+
+/**
+ * Evaluate assertions against a transcript
+ *
+ * @param transcript - Response transcript
+ * @param assertions - Assertions to check, validated by `validateAssertions()`
+ * @returns One result per assertion, in order
+ */
+export function evaluateAssertions(
+  transcript: string,
+  assertions: QuestionAssertion[]
+): AssertionResult[] {
+  return assertions.map((assertion) => {
+    const outcome = evaluateAssertion(transcript, assertion);
+    return {
+      type: assertion.type,
+      description: assertion.description ?? describeAssertion(assertion),
+      ...outcome,
+    };
+  });
+}
+
+/**
+ * Read every number in a transcript, written as digits or words
+ *
+ * @param text - Transcript
+ * @returns Numbers in order of appearance
+ *
+ * @example
+ * ```typescript
+ * extractNumbers('I am thirty four, born in 1990'); // [34, 1990]
+ * ```
+ */
+export function extractNumbers(text: string): number[] {
+  const numbers: number[] = [];
+  let total = 0;
+  let current = 0;
+  let inNumber = false;
+  // What the previous number word was; decides whether the next one adds on
+  let previous: 'scale' | 'tens' | 'other' = 'other';
+
+  const flush = (): void => {
+    if (inNumber) {
+      numbers.push(total + current);
+    }
+    total = 0;
+    current = 0;
+    inNumber = false;
+    previous = 'other';
+  };
+
+  const tokens = text.toLowerCase().match(/\d[\d,]*(?:\.\d+)?|[a-z]+/g) ?? [];
+  for (const token of tokens) {
+    if (/\d/.test(token)) {
+      flush();
+      numbers.push(Number(token.replace(/,/g, '')));
+    } else if (token in NUMBER_WORDS) {
+      const value = NUMBER_WORDS[token];
+      // "five five five" is three numbers, "twenty five" and "a hundred and five" one
+      const addsOn =
+        previous === 'scale' ||
+        (previous === 'tens' && value > 0 && value < 10);
+      if (inNumber && !addsOn) {
+        flush();
+      }
+      current += value;
+      inNumber = true;
+      previous = value >= 20 && value % 10 === 0 ? 'tens' : 'other';
+    } else if (token in SCALE_WORDS && inNumber) {
+      const scale = SCALE_WORDS[token];
+      if (scale === 100) {
+        current *= scale;
+      } else {
+        total += current * scale;
+        current = 0;
+      }
+      previous = 'scale';
+    } else if (token === 'and' && inNumber) {
+      continue;
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return numbers;
+}
+
+/**
+ * Check one assertion
+ *
+ * @internal
+ */
+function evaluateAssertion(
+  transcript: string,
+  assertion: QuestionAssertion
+): Omit<AssertionResult, 'type' | 'description'> {
+  switch (assertion.type) {
+    case 'regex': {
+      const match = transcript.match(
+        new RegExp(assertion.pattern, assertion.flags ?? 'i')
+      );
+      return match
+        ? { passed: true, detail: `Matched "${match[0]}"`, matched: match[0] }
+        : { passed: false, detail: 'No match in transcript' };
+    }
+    case 'contains': {
+      const found = assertion.values.filter((value) =>
+        containsPhrase(transcript, value)
+      );
+      const missing = assertion.values.filter(
+        (value) => !found.includes(value)
+      );
+      const passed =
+        assertion.match === 'any' ? found.length > 0 : missing.length === 0;
+      return {
+        passed,
+        detail: passed
+          ? `Found ${found.map((value) => `"${value}"`).join(', ')}`
+          : `Missing ${missing.map((value) => `"${value}"`).join(', ')}`,
+        ...(found.length > 0 && { matched: found.join(', ') }),
+      };
+    }
+    case 'number-range': {
+      const numbers = extractNumbers(transcript);
+      const inRange = numbers.find(
+        (value) =>
+          (assertion.min === undefined || value >= assertion.min) &&
+          (assertion.max === undefined || value <= assertion.max)
+      );
+      if (inRange !== undefined) {
+        return {
+          passed: true,
+          detail: `${inRange} is in range`,
+          matched: String(inRange),
+        };
+      }
+      return {
+        passed: false,
+        detail:
+          numbers.length > 0
+            ? `No number in range (heard ${numbers.join(', ')})`
+            : 'No number in transcript',
+      };
+    }
+    case 'entity': {
+      const found = findEntity(transcript, assertion.entity);
+      if (found === undefined) {
+        return { passed: false, detail: `No ${assertion.entity} found` };
+      }
+      if (
+        assertion.value !== undefined &&
+        normalizeWords(found).join(' ') !==
+          normalizeWords(assertion.value).join(' ')
+      ) {
+        return {
+          passed: false,
+          detail: `Found ${assertion.entity} "${found}", expected "${assertion.value}"`,
+          matched: found,
+        };
+      }
+      return {
+        passed: true,
+        detail: `Found ${assertion.entity} "${found}"`,
+        matched: found,
+      };
+    }
+    case 'one-of': {
+      const found = assertion.values.filter((value) =>
+        containsPhrase(transcript, value)
+      );
+      if (found.length === 1) {
+        return {
+          passed: true,
+          detail: `Chose "${found[0]}"`,
+          matched: found[0],
+        };
+      }
+      return {
+        passed: false,
+        detail:
+          found.length === 0
+            ? 'None of the options mentioned'
+            : `Several options mentioned: ${found.map((value) => `"${value}"`).join(', ')}`,
+        ...(found.length > 0 && { matched: found.join(', ') }),
+      };
+    }
+  }
+}
+
+/**
+ * Find the first occurrence of an entity
+ *
+ * @internal
+ */
+function findEntity(
+  transcript: string,
+  entity: AssertionEntity
+): string | undefined {
+  switch (entity) {
+    case 'number': {
+      const numbers = extractNumbers(transcript);
+      return numbers.length > 0 ? String(numbers[0]) : undefined;
+    }
+    case 'date':
+      return firstMatch(transcript, DATE_PATTERNS);
+    case 'email':
+      return firstMatch(transcript, EMAIL_PATTERNS);
+    case 'phone':
+      return (transcript.match(PHONE_PATTERN) ?? []).find((candidate) => {
+        const digits = candidate.replace(/\D/g, '').length;
+        return digits >= 7 && digits <= 15;
+      });
+    case 'yes-no': {
+      const words = ` ${normalizeWords(transcript).join(' ')} `;
+      let first: { index: number; answer: 'yes' | 'no' } | undefined;
+      for (const [phrase, answer] of YES_NO_WORDS) {
+        const index = words.indexOf(` ${phrase} `);
+        if (index !== -1 && (first === undefined || index < first.index)) {
+          first = { index, answer };
+        }
+      }
+      return first?.answer;
+    }
+  }
+}
+
+/**
+ * First match of any pattern, earliest in the text
+ *
+ * @internal
+ */
+function firstMatch(text: string, patterns: RegExp[]): string | undefined {
+  let first: RegExpMatchArray | undefined;
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (
+      match?.index !== undefined &&
+      (first?.index === undefined || match.index < first.index)
+    ) {
+      first = match;
+    }
+  }
+  return first?.[0];
+}
+
+/**
+ * Whether the transcript contains a phrase on word boundaries
+ *
+ * @internal
+ */
+function containsPhrase(transcript: string, phrase: string): boolean {
+  const needle = normalizeWords(phrase).join(' ');
+  return (
+    needle.length > 0 &&
+    ` ${normalizeWords(transcript).join(' ')} `.includes(` ${needle} `)
+  );
+}
+
+/**
+ * Generate a description for reports
+ *
+ * @internal
+ */
+function describeAssertion(assertion: QuestionAssertion): string {
+  switch (assertion.type) {
+    case 'regex':
+      return `matches /${assertion.pattern}/${assertion.flags ?? 'i'}`;
+    case 'contains':
+      return `contains ${assertion.match === 'any' ? 'any of' : 'all of'} ${assertion.values.map((value) => `"${value}"`).join(', ')}`;
+    case 'number-range':
+      return `number ${assertion.min !== undefined ? `>= ${assertion.min}` : ''}${assertion.min !== undefined && assertion.max !== undefined ? ' and ' : ''}${assertion.max !== undefined ? `<= ${assertion.max}` : ''}`;
+    case 'entity':
+      return `${assertion.entity}${assertion.value !== undefined ? ` "${assertion.value}"` : ''}`;
+    case 'one-of':
+      return `one of ${assertion.values.map((value) => `"${value}"`).join(', ')}`;
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Provider Cassettes
+ *
+ * Records provider requests and responses to disk and serves them back, so a
+ * live test run can be replayed exactly without credentials or audio.
+ *
+ * @module utils/cassette
+ * @since 1.1.0
+ *
+ * @remarks
+ * Each entry is stored as `<dir>/<kind>/<key>.json`, where the key hashes the
+ * canonical request together with how many identical requests came before it.
+ * Replaying the same suite therefore hits the same entries in the same order.
+ *
+ * The active cassette is set by `VoiceBotTestService` from the `record` and
+ * `replay` options; provider managers wrap their providers while it is set.
+ *
+ * @example
+ * ```typescript
+ * import { Cassette, setActiveCassette } from './utils/cassette.js';
+ *
+ * setActiveCassette(new Cassette('./cassettes/smoke', 'replay'));
+ * ```
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import {
+  ConfigurationError,
+  ErrorCode,
+  FileSystemError,
+  VoiceTestError,
+  toError,
+} from '../errors/voice-test.errors.js';
+import { createComponentLogger } from './logger.js';
+
+const logger = createComponentLogger('Cassette');
+
+/**
+ * Cassette operating mode
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Kinds of provider calls stored on a cassette
+ */
+export type CassetteKind = 'tts' | 'stt' | 'stt-stream' | 'ai' | 'caller';
+
+/**
+ * A stored request/response pair
+ */
+export interface CassetteEntry<T = unknown> {
+  kind: CassetteKind;
+  key: string;
+  recordedAt: string;
+  /** Request as hashed (audio buffers are replaced by their digest) */
+  request: unknown;
+  response: T;
+}
+
+/**
+ * Serialize a value with sorted object keys; Buffers become their SHA-256 digest
+ *
+ * @internal
+ */
+function canonicalize(value: unknown): string {
+  if (Buffer.isBuffer(value)) {
+    return JSON.stringify(
+      `sha256:${createHash('sha256').update(value).digest('hex')}`
+    );
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, field]) => `${JSON.stringify(name)}:${canonicalize(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Cassette
+ *
+ * Reads and writes provider entries in one directory.
+ */
+export class Cassette {
+  readonly dir: string;
+  readonly mode: CassetteMode;
+  private scope = '';
+  private readonly isolatedScopes = new AsyncLocalStorage<{ scope: string }>();
+  private readonly occurrences = new Map<string, number>();
+
+  /**
+   * Open a cassette directory
+   *
+   * @param dir - Cassette directory (created in record mode)
+   * @param mode - Whether to record live calls or replay stored ones
+   * @throws {ConfigurationError} If a replay directory does not exist
+   */
+  constructor(dir: string, mode: CassetteMode) {
+    this.dir = resolve(dir);
+    this.mode = mode;
+
+    if (mode === 'replay' && !existsSync(this.dir)) {
+      throw new ConfigurationError(`Cassette directory not found: ${this.dir}`);
+    }
+    if (mode === 'record') {
+      mkdirSync(this.dir, { recursive: true });
+    }
+
+    logger.info(
+      `📼 ${mode === 'record' ? 'Recording' : 'Replaying'} cassette: ${this.dir}`
+    );
+  }
+
+  /**
+   * Set the scope included in streaming STT requests
+   *
+   * @param scope - Usually the current question id
+   *
+   * @remarks
+   * Live audio differs between runs, so streaming sessions are keyed by scope
+   * and configuration rather than by the audio itself. Inside `isolate()` the
+   * scope only applies to that call chain.
+   */
+  setScope(scope: string): void {
+    const isolated = this.isolatedScopes.getStore();
+    if (isolated) {
+      isolated.scope = scope;
+    } else {
+      this.scope = scope;
+    }
+  }
+
+  /**
+   * Get the current scope
+   *
+   * @returns Scope set with `setScope()` (empty by default)
+   */
+  getScope(): string {
+    return this.isolatedScopes.getStore()?.scope ?? this.scope;
+  }
+
+  /**
+   * Run a task with its own scope, for tasks that run concurrently
+   *
+   * @param task - Task whose `setScope()` calls must not affect other tasks
+   * @returns The task's result
+   */
+  isolate<T>(task: () => Promise<T>): Promise<T> {
+    return this.isolatedScopes.run({ scope: this.scope }, task);
+  }
+
+  /**
+   * Compute the key for the next occurrence of a request
+   *
+   * @param kind - Provider call kind
+   * @param request - Request to hash
+   * @returns Hex key, unique per identical request and occurrence
+   */
+  key(kind: CassetteKind, request: unknown): string {
+    const canonical = canonicalize(request);
+    const occurrenceId = `${kind}:${canonical}`;
+    const occurrence = this.occurrences.get(occurrenceId) ?? 0;
+    this.occurrences.set(occurrenceId, occurrence + 1);
+
+    return createHash('sha256')
+      .update(`${occurrenceId}#${occurrence}`)
+      .digest('hex')
+      .slice(0, 24);
+  }
+
+  /**
+   * Read a recorded response
+   *
+   * @param kind - Provider call kind
+   * @param key - Key from `key()`
+   * @returns Stored response
+   * @throws {VoiceTestError} If no entry was recorded for the key
+   */
+  async load<T>(kind: CassetteKind, key: string): Promise<T> {
+    const filePath = this.entryPath(kind, key);
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      throw new VoiceTestError(
+        `No ${kind} entry recorded on cassette for this request (${filePath})`,
+        ErrorCode.CASSETTE_ENTRY_NOT_FOUND,
+        toError(error)
+      );
+    }
+
+    const entry = JSON.parse(content) as CassetteEntry<T>;
+    logger.debug(`▶️ Replayed ${kind} entry ${key}`);
+    return entry.response;
+  }
+
+  /**
+   * Store a response
+   *
+   * @param kind - Provider call kind
+   * @param key - Key from `key()`
+   * @param request - Request (stored for inspection; buffers are replaced by digests)
+   * @param response - JSON-serializable response
+   * @throws {FileSystemError} If the entry cannot be written
+   */
+  async save<T>(
+    kind: CassetteKind,
+    key: string,
+    request: unknown,
+    response: T
+  ): Promise<void> {
+    const entry: CassetteEntry<T> = {
+      kind,
+      key,
+      recordedAt: new Date().toISOString(),
+      request: JSON.parse(canonicalize(request)),
+      response,
+    };
+
+    try {
+      await fs.mkdir(join(this.dir, kind), { recursive: true });
+      await fs.writeFile(
+        this.entryPath(kind, key),
+        JSON.stringify(entry, null, 2)
+      );
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to write cassette entry ${kind}/${key}`,
+        ErrorCode.FILE_WRITE_ERROR,
+        toError(error)
+      );
+    }
+    logger.debug(`⏺️ Recorded ${kind} entry ${key}`);
+  }
+
+  /**
+   * Path of an entry file
+   *
+   * @private
+   */
+  private entryPath(kind: CassetteKind, key: string): string {
+    return join(this.dir, kind, `${key}.json`);
+  }
+}
+
+/**
+ * Cassette in use, if any
+ *
+ * @internal
+ */
+let activeCassette: Cassette | null = null;
+
+/**
+ * Set the cassette used to wrap provider calls
+ *
+ * @param cassette - Cassette, or null to call providers directly
+ */
+export function setActiveCassette(cassette: Cassette | null): void {
+  activeCassette = cassette;
+}
+
+/**
+ * Get the cassette used to wrap provider calls
+ *
+ * @returns Active cassette, or null
+ */
+export function getActiveCassette(): Cassette | null {
+  return activeCassette;
+}
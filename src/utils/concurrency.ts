@@ -0,0 +1,91 @@
+/**
+ * Concurrency Utilities
+ *
+ * A bounded worker pool and a start-rate limiter, used to run file-based
+ * test suites in parallel without exceeding provider rate limits.
+ *
+ * @module utils/concurrency
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter(120);
+ * const results = await runWithConcurrency(questions, 4, async (question) => {
+ *   await limiter.acquire();
+ *   return runQuestion(question);
+ * });
+ * ```
+ */
+
+/**
+ * Run a task for every item with at most `concurrency` tasks in flight
+ *
+ * @template T - Item type
+ * @template R - Result type
+ * @param items - Items to process
+ * @param concurrency - Maximum tasks running at once (at least 1)
+ * @param task - Task run for each item, with the item's index
+ * @returns Results in item order, whatever order the tasks finish in
+ * @throws The first task error; tasks already running are left to finish
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+  return results;
+}
+
+/**
+ * Rate Limiter
+ *
+ * Spaces out starts evenly so no more than a given number happen per minute,
+ * however many workers call `acquire()`.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter(60); // one start per second
+ * await limiter.acquire();
+ * ```
+ */
+export class RateLimiter {
+  private readonly intervalMs: number;
+  private nextSlot = 0;
+
+  /**
+   * @param perMinute - Starts allowed per minute (0 or less: unlimited)
+   */
+  constructor(perMinute: number) {
+    this.intervalMs = perMinute > 0 ? 60000 / perMinute : 0;
+  }
+
+  /**
+   * Wait until the next start is allowed
+   *
+   * @returns Promise resolving when the caller may start
+   */
+  async acquire(): Promise<void> {
+    if (this.intervalMs === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Provider Fixtures
+ *
+ * Loads scripted STT, TTS and AI comparison responses for the `fixture`
+ * providers and hands them out in order.
+ *
+ * @module utils/fixtures
+ * @since 1.1.0
+ *
+ * @remarks
+ * The active fixture set comes from `settings.fixtures` in the test config
+ * (set by `VoiceBotTestService`) or the `VOKAL_FIXTURES` environment variable.
+ * Each fixture is consumed once, so a fresh store is needed per test run.
+ *
+ * @example
+ * ```typescript
+ * import { FixtureStore, setActiveFixtures } from './utils/fixtures.js';
+ *
+ * setActiveFixtures(FixtureStore.load('./fixtures/happy-path.json'));
+ * ```
+ */
+
+import { existsSync, readFileSync, promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import type {
+  AIFixtureResult,
+  ProviderFixtures,
+  STTFixtureResult,
+} from '../types/fixture.types.js';
+import { ConfigurationError } from '../errors/voice-test.errors.js';
+import { safeJSONParse } from './validation.js';
+import { createComponentLogger } from './logger.js';
+
+const logger = createComponentLogger('Fixtures');
+
+/**
+ * Streaming STT session with defaults applied
+ */
+export interface ResolvedSTTSession {
+  results: Array<
+    Required<Omit<STTFixtureResult, 'stability' | 'words'>> &
+      Pick<STTFixtureResult, 'words'>
+  >;
+  error?: string;
+  speechEndDelayMs: number;
+}
+
+/**
+ * Default delay before each scripted STT result (ms)
+ *
+ * @internal
+ */
+const DEFAULT_RESULT_DELAY_MS = 100;
+
+/**
+ * Fixture Store
+ *
+ * Holds one fixture set and the cursors into it.
+ */
+export class FixtureStore {
+  private readonly fixtures: ProviderFixtures;
+  private readonly baseDir: string;
+  private sttIndex = 0;
+  private readonly usedComparisons = new Set<number>();
+
+  /**
+   * Create a store from parsed fixtures
+   *
+   * @param fixtures - Fixture set
+   * @param baseDir - Directory TTS paths are resolved against
+   */
+  constructor(fixtures: ProviderFixtures, baseDir: string = process.cwd()) {
+    this.fixtures = fixtures;
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * Load a fixture file
+   *
+   * @param filePath - Path to a fixture JSON file
+   * @returns New fixture store (TTS paths resolve relative to the file)
+   * @throws {ConfigurationError} If the file is missing or not valid JSON
+   */
+  static load(filePath: string): FixtureStore {
+    const fullPath = resolve(filePath);
+
+    if (!existsSync(fullPath)) {
+      throw new ConfigurationError(`Fixture file not found: ${fullPath}`);
+    }
+
+    const parseResult = safeJSONParse<ProviderFixtures>(
+      readFileSync(fullPath, 'utf-8')
+    );
+    if (!parseResult.success) {
+      throw new ConfigurationError(
+        `Invalid fixture file ${fullPath}: ${parseResult.error}`
+      );
+    }
+    if (typeof parseResult.data !== 'object' || parseResult.data === null) {
+      throw new ConfigurationError(
+        `Invalid fixture file ${fullPath}: expected an object`
+      );
+    }
+
+    const fixtures = parseResult.data;
+    logger.info(
+      `📦 Loaded fixtures from ${fullPath} (${fixtures.stt?.length ?? 0} STT, ${Object.keys(fixtures.tts ?? {}).length} TTS, ${fixtures.ai?.length ?? 0} AI)`
+    );
+
+    return new FixtureStore(fixtures, dirname(fullPath));
+  }
+
+  /**
+   * Take the next scripted STT session
+   *
+   * @returns Session with defaults applied, or undefined when exhausted
+   */
+  nextSTTSession(): ResolvedSTTSession | undefined {
+    const session = this.fixtures.stt?.[this.sttIndex];
+    if (session === undefined) {
+      return undefined;
+    }
+    this.sttIndex++;
+
+    if (typeof session === 'string') {
+      return {
+        results: [
+          {
+            transcript: session,
+            isFinal: true,
+            confidence: 1,
+            delayMs: DEFAULT_RESULT_DELAY_MS,
+          },
+        ],
+        speechEndDelayMs: 0,
+      };
+    }
+
+    return {
+      results: (session.results ?? []).map((result) => ({
+        transcript: result.transcript,
+        isFinal: result.isFinal ?? true,
+        confidence: result.confidence ?? 1,
+        delayMs: result.delayMs ?? DEFAULT_RESULT_DELAY_MS,
+        words: result.words,
+      })),
+      error: session.error,
+      speechEndDelayMs: session.speechEndDelayMs ?? 0,
+    };
+  }
+
+  /**
+   * Read the canned WAV for a TTS request
+   *
+   * @param text - Text being synthesized
+   * @returns WAV file contents, or null when no fixture matches
+   */
+  async getTTSAudio(text: string): Promise<Buffer | null> {
+    const file = this.fixtures.tts?.[text] ?? this.fixtures.tts?.['*'];
+    if (!file) {
+      return null;
+    }
+    return fs.readFile(resolve(this.baseDir, file));
+  }
+
+  /**
+   * Take the next AI comparison result for a question
+   *
+   * @param question - Original question text
+   * @returns First unused entry for this question, else the first unused
+   * entry without a `question`; undefined when none is left
+   */
+  nextComparison(question: string): AIFixtureResult | undefined {
+    const entries = this.fixtures.ai ?? [];
+    const pick = (predicate: (entry: AIFixtureResult) => boolean): number =>
+      entries.findIndex(
+        (entry, index) => !this.usedComparisons.has(index) && predicate(entry)
+      );
+
+    let index = pick((entry) => entry.question === question);
+    if (index === -1) {
+      index = pick((entry) => entry.question === undefined);
+    }
+    if (index === -1) {
+      return undefined;
+    }
+
+    this.usedComparisons.add(index);
+    return entries[index];
+  }
+}
+
+/**
+ * Active fixture set (`undefined` until first looked up)
+ *
+ * @internal
+ */
+let activeFixtures: FixtureStore | null | undefined;
+
+/**
+ * Set the fixture store used by the `fixture` providers
+ *
+ * @param store - Fixture store, or null to disable fixtures
+ */
+export function setActiveFixtures(store: FixtureStore | null): void {
+  activeFixtures = store;
+}
+
+/**
+ * Get the fixture store used by the `fixture` providers
+ *
+ * @returns Active store, loading `VOKAL_FIXTURES` on first use; null if none
+ * @throws {ConfigurationError} If `VOKAL_FIXTURES` points to an invalid file
+ */
+export function getActiveFixtures(): FixtureStore | null {
+  if (activeFixtures === undefined) {
+    const envPath = process.env.VOKAL_FIXTURES;
+    activeFixtures = envPath ? FixtureStore.load(envPath) : null;
+  }
+  return activeFixtures;
+}
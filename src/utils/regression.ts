@@ -0,0 +1,346 @@
+/**
+ * Regression Utilities
+ *
+ * Pure helpers that compare two saved `TestResult` files question by
+ * question, for gating bot releases on `vokal compare`.
+ *
+ * @module utils/regression
+ * @since 1.1.0
+ *
+ * @remarks
+ * Questions are matched by `questionId`. A run regresses when more questions
+ * newly fail than allowed, the average score drops too far, or a latency stage
+ * gets slower than the allowed percentage. Latency increases below
+ * `minLatencyIncreaseMs` are ignored so timer noise doesn't fail a release.
+ *
+ * @example
+ * ```typescript
+ * const comparison = compareRuns(
+ *   loadTestResult('./baseline.json'),
+ *   loadTestResult('./vokal-results-2025-01-15.json'),
+ *   { maxLatencyIncreasePercent: 30 }
+ * );
+ * if (comparison.regressed) {
+ *   console.error(comparison.violations.join('\n'));
+ * }
+ * ```
+ */
+
+import { readFileSync } from 'fs';
+import type {
+  PerformanceMetrics,
+  QuestionResult,
+  TestResult,
+} from '../types/voice-bot-config.js';
+import type {
+  LatencyRegression,
+  QuestionDiff,
+  QuestionSnapshot,
+  RegressionThresholds,
+  RunComparison,
+  RunSummary,
+  TimingStage,
+} from '../types/regression.types.js';
+import {
+  ErrorCode,
+  FileSystemError,
+  ValidationError,
+  toError,
+} from '../errors/voice-test.errors.js';
+import { safeJSONParse } from './validation.js';
+
+/**
+ * Thresholds used for any limit that is not given
+ */
+export const DEFAULT_REGRESSION_THRESHOLDS: RegressionThresholds = {
+  maxNewFailures: 0,
+  maxScoreDrop: 0,
+  maxLatencyIncreasePercent: 20,
+  minLatencyIncreaseMs: 250,
+};
+
+/**
+ * Per-question timing stages, in pipeline order
+ */
+export const TIMING_STAGES: TimingStage[] = [
+  'questionPlayTime',
+  'recordingTime',
+  'transcriptionTime',
+  'analysisTime',
+  'totalTime',
+];
+
+/**
+ * Suite-level averages checked for latency regressions
+ *
+ * @internal
+ */
+const SUITE_STAGES: Array<[string, (metrics: PerformanceMetrics) => number]> = [
+  [
+    'ttsMetrics.averageGenerationTime',
+    (metrics) => metrics.ttsMetrics.averageGenerationTime,
+  ],
+  [
+    'sttMetrics.averageTranscriptionTime',
+    (metrics) => metrics.sttMetrics.averageTranscriptionTime,
+  ],
+  [
+    'aiMetrics.averageAnalysisTime',
+    (metrics) => metrics.aiMetrics.averageAnalysisTime,
+  ],
+];
+
+/**
+ * Load a saved test result (a `vokal-results-*.json` file)
+ *
+ * @param filePath - Path to the JSON report
+ * @returns Parsed test result
+ * @throws {FileSystemError} If the file cannot be read
+ * @throws {ValidationError} If the file is not a vokal test result
+ */
+export function loadTestResult(filePath: string): TestResult {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new FileSystemError(
+      `Failed to read test result: ${filePath}`,
+      ErrorCode.FILE_READ_ERROR,
+      toError(error)
+    );
+  }
+
+  const parsed = safeJSONParse<TestResult>(content);
+  if (!parsed.success) {
+    throw new ValidationError(
+      `Invalid JSON in test result ${filePath}: ${parsed.error}`,
+      'testResult',
+      filePath
+    );
+  }
+
+  const result = parsed.data;
+  if (
+    !Array.isArray(result.questionResults) ||
+    !result.summary ||
+    !result.metadata
+  ) {
+    throw new ValidationError(
+      `Not a vokal test result (expected metadata, summary and questionResults): ${filePath}`,
+      'testResult',
+      filePath
+    );
+  }
+  return result;
+}
+
+/**
+ * Compare a current run against a baseline
+ *
+ * @param baseline - Known-good run
+ * @param current - Run under review
+ * @param thresholds - Regression limits; missing ones use the defaults
+ * @returns Per-question diffs, latency regressions and threshold violations
+ */
+export function compareRuns(
+  baseline: TestResult,
+  current: TestResult,
+  thresholds: Partial<RegressionThresholds> = {}
+): RunComparison {
+  const limits: RegressionThresholds = {
+    ...DEFAULT_REGRESSION_THRESHOLDS,
+    ...thresholds,
+  };
+  const baselineById = indexResults(baseline.questionResults);
+  const currentById = indexResults(current.questionResults);
+
+  const questions: QuestionDiff[] = [];
+  for (const [questionId, before] of baselineById) {
+    questions.push(
+      diffQuestion(questionId, before, currentById.get(questionId))
+    );
+  }
+  for (const [questionId, after] of currentById) {
+    if (!baselineById.has(questionId)) {
+      questions.push(diffQuestion(questionId, undefined, after));
+    }
+  }
+
+  const latencyRegressions: LatencyRegression[] = [];
+  for (const [questionId, before] of baselineById) {
+    const after = currentById.get(questionId);
+    // Timings of questions without a response only measure the failure
+    if (!after || !before.actualResponse || !after.actualResponse) {
+      continue;
+    }
+    for (const stage of TIMING_STAGES) {
+      const regression = checkLatency(
+        questionId,
+        stage,
+        before.timing[stage],
+        after.timing[stage],
+        limits
+      );
+      if (regression) {
+        latencyRegressions.push(regression);
+      }
+    }
+  }
+  if (baseline.performance && current.performance) {
+    for (const [stage, read] of SUITE_STAGES) {
+      const regression = checkLatency(
+        'suite',
+        stage,
+        read(baseline.performance),
+        read(current.performance),
+        limits
+      );
+      if (regression) {
+        latencyRegressions.push(regression);
+      }
+    }
+  }
+
+  const newlyFailing = questions
+    .filter((diff) => diff.change === 'newly-failing')
+    .map((diff) => diff.questionId);
+  const newlyPassing = questions
+    .filter((diff) => diff.change === 'newly-passing')
+    .map((diff) => diff.questionId);
+  const averageScoreDelta =
+    current.summary.averageScore - baseline.summary.averageScore;
+
+  const violations: string[] = [];
+  if (newlyFailing.length > limits.maxNewFailures) {
+    violations.push(
+      `${newlyFailing.length} newly failing question(s), ${limits.maxNewFailures} allowed: ${newlyFailing.join(', ')}`
+    );
+  }
+  if (-averageScoreDelta > limits.maxScoreDrop) {
+    violations.push(
+      `Average score dropped by ${(-averageScoreDelta).toFixed(2)}, ${limits.maxScoreDrop.toFixed(2)} allowed`
+    );
+  }
+  for (const regression of latencyRegressions) {
+    violations.push(
+      `${regression.scope} ${regression.stage} rose ${regression.baselineMs}ms -> ${regression.currentMs}ms (+${regression.deltaPercent.toFixed(0)}%), ${limits.maxLatencyIncreasePercent}% allowed`
+    );
+  }
+
+  return {
+    baseline: summarize(baseline),
+    current: summarize(current),
+    passRateDelta: current.summary.passRate - baseline.summary.passRate,
+    averageScoreDelta,
+    questions,
+    newlyFailing,
+    newlyPassing,
+    latencyRegressions,
+    thresholds: limits,
+    violations,
+    regressed: violations.length > 0,
+  };
+}
+
+/**
+ * Index question results by ID; a repeated ID keeps its last result
+ *
+ * @internal
+ */
+function indexResults(results: QuestionResult[]): Map<string, QuestionResult> {
+  return new Map(results.map((result) => [result.questionId, result]));
+}
+
+/**
+ * Take the fields of a question result that are compared
+ *
+ * @internal
+ */
+function snapshot(result: QuestionResult): QuestionSnapshot {
+  return {
+    passed: result.passed,
+    score: result.comparison.score,
+    confidence: result.comparison.confidence,
+    timing: result.timing,
+  };
+}
+
+/**
+ * Compare one question across runs
+ *
+ * @internal
+ */
+function diffQuestion(
+  questionId: string,
+  before: QuestionResult | undefined,
+  after: QuestionResult | undefined
+): QuestionDiff {
+  if (!before || !after) {
+    return {
+      questionId,
+      change: before ? 'removed' : 'added',
+      baseline: before ? snapshot(before) : undefined,
+      current: after ? snapshot(after) : undefined,
+      scoreDelta: 0,
+      confidenceDelta: 0,
+    };
+  }
+
+  let change: QuestionDiff['change'] = 'unchanged';
+  if (before.passed && !after.passed) {
+    change = 'newly-failing';
+  } else if (!before.passed && after.passed) {
+    change = 'newly-passing';
+  }
+
+  return {
+    questionId,
+    change,
+    baseline: snapshot(before),
+    current: snapshot(after),
+    scoreDelta: after.comparison.score - before.comparison.score,
+    confidenceDelta: after.comparison.confidence - before.comparison.confidence,
+  };
+}
+
+/**
+ * Check one latency stage against the thresholds
+ *
+ * @internal
+ */
+function checkLatency(
+  scope: string,
+  stage: string,
+  baselineMs: number,
+  currentMs: number,
+  limits: RegressionThresholds
+): LatencyRegression | undefined {
+  const deltaMs = currentMs - baselineMs;
+  // A zero baseline means the stage didn't run, not that it was instant
+  if (baselineMs <= 0 || deltaMs < limits.minLatencyIncreaseMs) {
+    return undefined;
+  }
+
+  const deltaPercent = (deltaMs / baselineMs) * 100;
+  if (deltaPercent <= limits.maxLatencyIncreasePercent) {
+    return undefined;
+  }
+
+  return { scope, stage, baselineMs, currentMs, deltaMs, deltaPercent };
+}
+
+/**
+ * Take the headline numbers of a run
+ *
+ * @internal
+ */
+function summarize(result: TestResult): RunSummary {
+  return {
+    configName: result.metadata.configName,
+    executedAt: result.metadata.executedAt,
+    totalQuestions: result.summary.totalQuestions,
+    questionsPassed: result.summary.questionsPassed,
+    passRate: result.summary.passRate,
+    averageScore: result.summary.averageScore,
+  };
+}
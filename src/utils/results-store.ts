@@ -0,0 +1,295 @@
+/**
+ * Results Store
+ *
+ * Append-only history of test runs, queried for trends by `vokal history`.
+ *
+ * @module utils/results-store
+ * @since 1.1.0
+ *
+ * @remarks
+ * Every run is appended as one JSON line to `<dir>/history.jsonl` (default
+ * `.vokal/history.jsonl` in the working directory). A line holds the run's
+ * configuration name, version and tags, its summary, and each question's
+ * outcome and timing. Queries read the whole file and filter on those fields
+ * in memory. Lines that cannot be parsed (e.g. from an interrupted write) are
+ * skipped with a warning.
+ *
+ * @example
+ * ```typescript
+ * const store = new ResultsStore();
+ * store.append(testResult);
+ *
+ * const report = summarizeHistory(store.query({ configName: 'Support bot', last: 20 }));
+ * console.log(report.flakyQuestions);
+ * ```
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import type { TestResult } from '../types/voice-bot-config.js';
+import type {
+  FlakyQuestion,
+  HistoryFilter,
+  HistoryReport,
+  HistoryRun,
+  PassRateTrendPoint,
+  StageLatency,
+} from '../types/history.types.js';
+import {
+  ErrorCode,
+  FileSystemError,
+  toError,
+} from '../errors/voice-test.errors.js';
+import { TIMING_STAGES } from './regression.js';
+import { safeJSONParse } from './validation.js';
+import { createComponentLogger } from './logger.js';
+
+const logger = createComponentLogger('ResultsStore');
+
+/**
+ * Default store directory, relative to the working directory
+ */
+export const DEFAULT_HISTORY_DIR = '.vokal';
+
+/**
+ * History file name inside the store directory
+ *
+ * @internal
+ */
+const HISTORY_FILE = 'history.jsonl';
+
+/**
+ * Results Store
+ *
+ * Reads and appends the run history in one directory.
+ */
+export class ResultsStore {
+  readonly filePath: string;
+
+  /**
+   * @param dir - Store directory (default: `.vokal`)
+   */
+  constructor(dir: string = DEFAULT_HISTORY_DIR) {
+    this.filePath = join(resolve(dir), HISTORY_FILE);
+  }
+
+  /**
+   * Append a completed run
+   *
+   * @param testResult - Completed test result
+   * @returns The stored run
+   * @throws {FileSystemError} If the history file cannot be written
+   */
+  append(testResult: TestResult): HistoryRun {
+    const run = toHistoryRun(testResult);
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, `${JSON.stringify(run)}\n`);
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to append to results history ${this.filePath}`,
+        ErrorCode.FILE_WRITE_ERROR,
+        toError(error)
+      );
+    }
+    logger.debug(`🗂️ Appended run ${run.executedAt} to ${this.filePath}`);
+    return run;
+  }
+
+  /**
+   * Read the runs matching a filter, oldest first
+   *
+   * @param filter - Configuration, version, tag and question filters
+   * @returns Matching runs; with `questionId`, each run holds only that question
+   * @throws {FileSystemError} If the history file exists but cannot be read
+   */
+  query(filter: HistoryFilter = {}): HistoryRun[] {
+    const runs = this.readAll()
+      .filter(
+        (run) =>
+          (filter.configName === undefined ||
+            run.configName === filter.configName) &&
+          (filter.configVersion === undefined ||
+            run.configVersion === filter.configVersion) &&
+          (filter.tags ?? []).every((tag) => run.tags.includes(tag))
+      )
+      .map((run) =>
+        filter.questionId === undefined
+          ? run
+          : {
+              ...run,
+              questions: run.questions.filter(
+                (question) => question.questionId === filter.questionId
+              ),
+            }
+      )
+      .filter((run) => run.questions.length > 0)
+      .sort((a, b) => a.executedAt.localeCompare(b.executedAt));
+
+    return filter.last !== undefined && filter.last > 0
+      ? runs.slice(-filter.last)
+      : runs;
+  }
+
+  /**
+   * Read every stored run in file order
+   *
+   * @private
+   */
+  private readAll(): HistoryRun[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    let content: string;
+    try {
+      content = readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      throw new FileSystemError(
+        `Failed to read results history ${this.filePath}`,
+        ErrorCode.FILE_READ_ERROR,
+        toError(error)
+      );
+    }
+
+    const runs: HistoryRun[] = [];
+    content.split('\n').forEach((line, index) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+      const parsed = safeJSONParse<HistoryRun>(line);
+      if (parsed.success && Array.isArray(parsed.data.questions)) {
+        runs.push(parsed.data);
+      } else {
+        logger.warn(
+          `⚠️ Skipping unreadable line ${index + 1} of ${this.filePath}`
+        );
+      }
+    });
+    return runs;
+  }
+}
+
+/**
+ * Compute pass-rate trend, flaky questions and stage latencies for runs
+ *
+ * @param runs - Runs from `ResultsStore.query()`, oldest first
+ * @param filter - Filter the runs were queried with, echoed in the report
+ * @returns Trend report
+ *
+ * @remarks
+ * Pass rates are recomputed over each run's questions, so a `questionId`
+ * filter yields that question's own pass/fail trend. A question is flaky when
+ * it both passed and failed within the runs. Latency percentiles use the
+ * nearest-rank method over answered questions only.
+ */
+export function summarizeHistory(
+  runs: HistoryRun[],
+  filter: HistoryFilter = {}
+): HistoryReport {
+  const passRateTrend: PassRateTrendPoint[] = runs.map((run) => {
+    const questionsPassed = run.questions.filter((q) => q.passed).length;
+    return {
+      executedAt: run.executedAt,
+      configVersion: run.configVersion,
+      questionsPassed,
+      totalQuestions: run.questions.length,
+      passRate: (questionsPassed / run.questions.length) * 100,
+    };
+  });
+
+  const outcomes = new Map<string, boolean[]>();
+  for (const run of runs) {
+    for (const question of run.questions) {
+      const history = outcomes.get(question.questionId) ?? [];
+      history.push(question.passed);
+      outcomes.set(question.questionId, history);
+    }
+  }
+
+  const flakyQuestions: FlakyQuestion[] = [];
+  for (const [questionId, history] of outcomes) {
+    const passes = history.filter((passed) => passed).length;
+    if (passes === 0 || passes === history.length) {
+      continue;
+    }
+    flakyQuestions.push({
+      questionId,
+      runs: history.length,
+      passes,
+      failures: history.length - passes,
+      flips: history.filter((passed, i) => i > 0 && passed !== history[i - 1])
+        .length,
+      passRate: (passes / history.length) * 100,
+    });
+  }
+  flakyQuestions.sort(
+    (a, b) => b.flips - a.flips || a.questionId.localeCompare(b.questionId)
+  );
+
+  const answered = runs.flatMap((run) =>
+    run.questions.filter((question) => question.answered)
+  );
+  const latency: StageLatency[] = TIMING_STAGES.map((stage) => {
+    const samples = answered
+      .map((question) => question.timing[stage])
+      .sort((a, b) => a - b);
+    return {
+      stage,
+      samples: samples.length,
+      p50: percentile(samples, 50),
+      p95: percentile(samples, 95),
+    };
+  });
+
+  return {
+    filter,
+    runs: runs.length,
+    passRateTrend,
+    flakyQuestions,
+    latency,
+  };
+}
+
+/**
+ * Convert a test result to its stored form
+ *
+ * @internal
+ */
+function toHistoryRun(testResult: TestResult): HistoryRun {
+  const { metadata, summary } = testResult;
+  return {
+    configName: metadata.configName,
+    configVersion: metadata.configVersion ?? '',
+    tags: metadata.tags ?? [],
+    executedAt: metadata.executedAt,
+    totalTime: metadata.totalTime,
+    totalQuestions: summary.totalQuestions,
+    questionsPassed: summary.questionsPassed,
+    passRate: summary.passRate,
+    averageScore: summary.averageScore,
+    questions: testResult.questionResults.map((result) => ({
+      questionId: result.questionId,
+      passed: result.passed,
+      score: result.comparison.score,
+      confidence: result.comparison.confidence,
+      answered: result.actualResponse.trim().length > 0,
+      timing: { ...result.timing },
+    })),
+  };
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ *
+ * @param sorted - Values in ascending order
+ * @param p - Percentile (0-100)
+ * @returns The percentile value, or 0 when there are no values
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
@@ -282,7 +282,7 @@ const defaultShouldCountFailure = (_error: Error): boolean => true;
  * **Configuration:**
  * - `failureThreshold`: Failures before opening (default: 5)
  * - `successThreshold`: Successes in HALF_OPEN before closing (default: 2)
- * - `timeout`: Operation timeout in ms (default: 10000)
+ * - `timeout`: Operation timeout in ms (default: 10000; 0 disables it)
  * - `resetTimeout`: Time before attempting reset in ms (default: 60000)
  *
  * @example
@@ -374,6 +374,8 @@ export class CircuitBreaker<T> {
   /**
    * Execute the wrapped function through the circuit breaker.
    *
+   * @param fn - Call to make instead of the wrapped function, so one breaker
+   * can guard many calls to the same service (default: the wrapped function)
    * @returns Promise resolving to function result
    * @throws Error if circuit is OPEN or function execution fails
    *
@@ -383,7 +385,7 @@ export class CircuitBreaker<T> {
    * - **OPEN**: Reject immediately (unless reset timeout passed)
    * - **HALF_OPEN**: Execute function as test
    */
-  async execute(): Promise<T> {
+  async execute(fn: () => Promise<T> = this.fn): Promise<T> {
     if (this.state === CircuitState.OPEN) {
       if (this.shouldAttemptReset()) {
         this.changeState(CircuitState.HALF_OPEN);
@@ -393,7 +395,7 @@ export class CircuitBreaker<T> {
     }
 
     try {
-      const result = await this.executeWithTimeout();
+      const result = await this.executeWithTimeout(fn);
 
       this.onSuccess();
       return result;
@@ -406,13 +408,17 @@ export class CircuitBreaker<T> {
   /**
    * Execute function with timeout.
    *
+   * @param fn - Function to execute
    * @returns Promise resolving to function result
    *
    * @private
    * @internal
    */
-  private async executeWithTimeout(): Promise<T> {
-    return withTimeout(this.fn(), this.timeout, 'Circuit breaker timeout');
+  private async executeWithTimeout(fn: () => Promise<T>): Promise<T> {
+    if (this.timeout <= 0) {
+      return fn();
+    }
+    return withTimeout(fn(), this.timeout, 'Circuit breaker timeout');
   }
 
   /**
@@ -0,0 +1,215 @@
+/**
+ * Rubric Utilities
+ *
+ * Resolves rubric settings and turns per-criterion grades into a weighted
+ * aggregate, for `settings.rubric` scoring.
+ *
+ * @module utils/rubric
+ * @since 1.1.0
+ *
+ * @remarks
+ * The AI grades each criterion on its own scale and gives every expected
+ * element a coverage verdict; the aggregate is computed here rather than
+ * taken from the model, so weights and thresholds stay under the test
+ * author's control. Element coverage becomes the `elements` criterion
+ * (covered = 1, partial = 0.5, missing = 0, averaged and scaled).
+ *
+ * @example
+ * ```typescript
+ * const rubric = scoreRubric(
+ *   { criteria: { politeness: { weight: 0 } }, passingScore: 0.8 },
+ *   [{ element: 'Account number', coverage: 'covered' }],
+ *   { intent: { score: 4 }, accuracy: { score: 5 } }
+ * );
+ * console.log(rubric.aggregate, rubric.passed);
+ * ```
+ */
+
+import type {
+  ComparisonResult,
+  CriterionScore,
+  ElementCoverage,
+  ElementVerdict,
+  RubricCriterionName,
+  RubricResult,
+  RubricSettings,
+} from '../types/ai-comparison.types.js';
+import { ConfigurationError } from '../errors/voice-test.errors.js';
+
+/**
+ * Rubric criteria in report order
+ */
+export const RUBRIC_CRITERIA: RubricCriterionName[] = [
+  'elements',
+  'intent',
+  'accuracy',
+  'politeness',
+];
+
+/**
+ * Scale and weight of criteria that are not configured
+ */
+export const DEFAULT_RUBRIC_CRITERIA: Record<
+  RubricCriterionName,
+  { scale: number; weight: number }
+> = {
+  elements: { scale: 5, weight: 2 },
+  intent: { scale: 5, weight: 2 },
+  accuracy: { scale: 5, weight: 1 },
+  politeness: { scale: 5, weight: 0.5 },
+};
+
+/**
+ * Aggregate needed to pass when `passingScore` is not configured
+ */
+export const DEFAULT_RUBRIC_PASSING_SCORE = 0.7;
+
+/**
+ * Share of the scale each element coverage verdict earns
+ *
+ * @internal
+ */
+const COVERAGE_VALUES: Record<ElementCoverage, number> = {
+  covered: 1,
+  partial: 0.5,
+  missing: 0,
+};
+
+/**
+ * Apply defaults to rubric settings and validate them
+ *
+ * @param settings - Rubric settings from the configuration
+ * @returns Criteria with a weight above 0, in report order, and the passing score
+ * @throws {ConfigurationError} If a scale, weight or passing score is out of range
+ */
+export function resolveRubric(settings: RubricSettings): {
+  criteria: Array<Omit<CriterionScore, 'score' | 'rationale'>>;
+  passingScore: number;
+} {
+  const criteria: Array<Omit<CriterionScore, 'score' | 'rationale'>> = [];
+  for (const criterion of RUBRIC_CRITERIA) {
+    const configured = settings.criteria?.[criterion];
+    const scale = configured?.scale ?? DEFAULT_RUBRIC_CRITERIA[criterion].scale;
+    const weight =
+      configured?.weight ?? DEFAULT_RUBRIC_CRITERIA[criterion].weight;
+    if (typeof scale !== 'number' || !(scale > 0)) {
+      throw new ConfigurationError(
+        `Rubric scale for ${criterion} must be above 0, got ${scale}`
+      );
+    }
+    if (typeof weight !== 'number' || !(weight >= 0)) {
+      throw new ConfigurationError(
+        `Rubric weight for ${criterion} must be 0 or more, got ${weight}`
+      );
+    }
+    if (weight > 0) {
+      criteria.push({ criterion, scale, weight });
+    }
+  }
+  if (criteria.length === 0) {
+    throw new ConfigurationError(
+      'Rubric needs at least one weighted criterion'
+    );
+  }
+
+  const passingScore = settings.passingScore ?? DEFAULT_RUBRIC_PASSING_SCORE;
+  if (
+    typeof passingScore !== 'number' ||
+    passingScore < 0 ||
+    passingScore > 1
+  ) {
+    throw new ConfigurationError(
+      `Rubric passingScore must be between 0 and 1, got ${passingScore}`
+    );
+  }
+  return { criteria, passingScore };
+}
+
+/**
+ * Combine element verdicts and criterion grades into a rubric result
+ *
+ * @param settings - Rubric settings
+ * @param elements - One coverage verdict per expected element
+ * @param grades - AI grades per criterion; missing grades count as 0
+ * @returns Per-criterion scores, weighted aggregate and verdict
+ * @throws {ConfigurationError} If the settings are invalid
+ *
+ * @remarks
+ * Grades are clamped to the criterion's scale. Without expected elements the
+ * `elements` criterion is left out of the aggregate.
+ */
+export function scoreRubric(
+  settings: RubricSettings,
+  elements: ElementVerdict[],
+  grades: Partial<
+    Record<RubricCriterionName, { score: number; rationale?: string }>
+  >
+): RubricResult {
+  const { criteria, passingScore } = resolveRubric(settings);
+
+  const scores: CriterionScore[] = [];
+  for (const { criterion, scale, weight } of criteria) {
+    if (criterion === 'elements') {
+      if (elements.length === 0) {
+        continue;
+      }
+      const coverage =
+        elements.reduce(
+          (sum, verdict) => sum + COVERAGE_VALUES[verdict.coverage],
+          0
+        ) / elements.length;
+      const missing = elements
+        .filter((verdict) => verdict.coverage !== 'covered')
+        .map((verdict) => `${verdict.element} (${verdict.coverage})`);
+      scores.push({
+        criterion,
+        score: coverage * scale,
+        scale,
+        weight,
+        rationale:
+          missing.length > 0
+            ? `Not fully covered: ${missing.join(', ')}`
+            : 'All expected elements covered',
+      });
+      continue;
+    }
+
+    const grade = grades[criterion];
+    scores.push({
+      criterion,
+      score: Math.max(0, Math.min(scale, grade?.score || 0)),
+      scale,
+      weight,
+      rationale: grade?.rationale,
+    });
+  }
+
+  const totalWeight = scores.reduce((sum, score) => sum + score.weight, 0);
+  const aggregate =
+    totalWeight > 0
+      ? scores.reduce(
+          (sum, score) => sum + (score.score / score.scale) * score.weight,
+          0
+        ) / totalWeight
+      : 0;
+
+  return {
+    elements,
+    criteria: scores,
+    aggregate,
+    passingScore,
+    passed: aggregate >= passingScore,
+  };
+}
+
+/**
+ * Whether a comparison result counts as a pass
+ *
+ * @param result - Comparison result
+ * @returns The rubric verdict with rubric scoring, otherwise `score === 1`
+ */
+export function isPassingComparison(
+  result: Pick<ComparisonResult, 'score' | 'rubric'>
+): boolean {
+  return result.rubric ? result.rubric.passed : result.score === 1;
+}
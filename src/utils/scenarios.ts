@@ -0,0 +1,313 @@
+/**
+ * Scenario Utilities
+ *
+ * Pure helpers for multi-turn test scenarios: validation, slot capture,
+ * `{{slot}}` templating and branch resolution. Turn execution itself lives in
+ * `VoiceBotTestService`.
+ *
+ * @module utils/scenarios
+ * @since 1.1.0
+ *
+ * @example
+ * ```typescript
+ * validateScenarios(config.scenarios ?? []);
+ *
+ * const question = interpolateTurn(turn, slots);
+ * captureSlots(turn, transcript, slots);
+ * const next = resolveNextTurn(scenario, turn, { passed, transcript, slots });
+ * ```
+ */
+
+import type {
+  ScenarioCondition,
+  ScenarioTurn,
+  TestScenario,
+} from '../types/voice-bot-config.js';
+import { ValidationError, toError } from '../errors/voice-test.errors.js';
+
+/**
+ * Branch target that ends the scenario
+ */
+export const SCENARIO_END = 'end';
+
+/**
+ * Default turn limit per scenario run
+ */
+export const DEFAULT_MAX_SCENARIO_TURNS = 20;
+
+/**
+ * What happened in a scenario turn, as seen by branch conditions
+ */
+export interface ScenarioTurnOutcome {
+  /** Whether the AI evaluation passed */
+  passed: boolean;
+  /** Transcript of the response ('' when nothing was heard) */
+  transcript: string;
+  /** Slots captured so far, including this turn */
+  slots: Record<string, string>;
+}
+
+/**
+ * Compile a case-insensitive pattern from a scenario
+ *
+ * @internal
+ */
+function compilePattern(pattern: string, field: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid regular expression in ${field}: ${pattern}`,
+      field,
+      pattern,
+      toError(error)
+    );
+  }
+}
+
+/**
+ * Validate scenario structure before a run
+ *
+ * @param scenarios - Scenarios from the test configuration
+ * @throws {ValidationError} On duplicate ids, unknown branch targets, invalid
+ * patterns or a `maxTurns` below 1
+ */
+export function validateScenarios(scenarios: TestScenario[]): void {
+  const scenarioIds = new Set<string>();
+
+  for (const scenario of scenarios) {
+    const prefix = `scenarios.${scenario.id}`;
+
+    if (scenarioIds.has(scenario.id)) {
+      throw new ValidationError(
+        `Duplicate scenario id: ${scenario.id}`,
+        'scenarios.id',
+        scenario.id
+      );
+    }
+    scenarioIds.add(scenario.id);
+
+    if (!scenario.turns || scenario.turns.length === 0) {
+      throw new ValidationError(
+        `Scenario "${scenario.id}" has no turns`,
+        `${prefix}.turns`,
+        scenario.turns
+      );
+    }
+
+    if (
+      scenario.maxTurns !== undefined &&
+      !(Number.isInteger(scenario.maxTurns) && scenario.maxTurns >= 1)
+    ) {
+      throw new ValidationError(
+        `Scenario "${scenario.id}" needs maxTurns of at least 1`,
+        `${prefix}.maxTurns`,
+        scenario.maxTurns
+      );
+    }
+
+    const turnIds = new Set<string>();
+    for (const turn of scenario.turns) {
+      if (turnIds.has(turn.id)) {
+        throw new ValidationError(
+          `Duplicate turn id "${turn.id}" in scenario "${scenario.id}"`,
+          `${prefix}.turns.id`,
+          turn.id
+        );
+      }
+      turnIds.add(turn.id);
+    }
+
+    const checkTarget = (target: string, field: string): void => {
+      if (target !== SCENARIO_END && !turnIds.has(target)) {
+        throw new ValidationError(
+          `Unknown turn "${target}" in scenario "${scenario.id}"`,
+          field,
+          target
+        );
+      }
+    };
+
+    if (scenario.start) {
+      checkTarget(scenario.start, `${prefix}.start`);
+    }
+
+    for (const turn of scenario.turns) {
+      const field = `${prefix}.turns.${turn.id}`;
+
+      for (const [slot, pattern] of Object.entries(turn.extract ?? {})) {
+        compilePattern(pattern, `${field}.extract.${slot}`);
+      }
+
+      if (typeof turn.next === 'string') {
+        checkTarget(turn.next, `${field}.next`);
+      } else if (turn.next) {
+        for (const branch of turn.next) {
+          checkTarget(branch.goto, `${field}.next`);
+          if (branch.when?.matches) {
+            compilePattern(branch.when.matches, `${field}.next.when.matches`);
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Fill `{{slot}}` placeholders in a string
+ *
+ * @param template - Text with placeholders
+ * @param slots - Slot values
+ * @returns Text with known slots replaced; unknown placeholders are kept
+ */
+export function fillSlots(
+  template: string,
+  slots: Record<string, string>
+): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (placeholder, name) =>
+    name in slots ? slots[name] : placeholder
+  );
+}
+
+/**
+ * Apply slot values to a turn's question fields
+ *
+ * @param turn - Scenario turn
+ * @param slots - Slot values captured so far
+ * @returns Copy of the turn with placeholders filled
+ */
+export function interpolateTurn(
+  turn: ScenarioTurn,
+  slots: Record<string, string>
+): ScenarioTurn {
+  return {
+    ...turn,
+    question: fillSlots(turn.question, slots),
+    intent: fillSlots(turn.intent, slots),
+    expectedElements: turn.expectedElements.map((element) =>
+      fillSlots(element, slots)
+    ),
+    context: turn.context ? fillSlots(turn.context, slots) : turn.context,
+    sampleResponse: turn.sampleResponse
+      ? fillSlots(turn.sampleResponse, slots)
+      : turn.sampleResponse,
+    referenceTranscript: turn.referenceTranscript
+      ? fillSlots(turn.referenceTranscript, slots)
+      : turn.referenceTranscript,
+  };
+}
+
+/**
+ * Capture slots from a transcript
+ *
+ * @param turn - Scenario turn with `extract` patterns
+ * @param transcript - Transcribed response
+ * @param slots - Slot map to update in place
+ * @returns Names of the slots captured by this turn
+ */
+export function captureSlots(
+  turn: ScenarioTurn,
+  transcript: string,
+  slots: Record<string, string>
+): string[] {
+  const captured: string[] = [];
+
+  for (const [slot, pattern] of Object.entries(turn.extract ?? {})) {
+    const match = compilePattern(pattern, `extract.${slot}`).exec(transcript);
+    if (match) {
+      slots[slot] = (match[1] ?? match[0]).trim();
+      captured.push(slot);
+    }
+  }
+
+  return captured;
+}
+
+/**
+ * Check whether a branch condition holds
+ *
+ * @param condition - Branch condition (undefined always holds)
+ * @param outcome - Outcome of the turn
+ * @returns True if every given condition holds
+ */
+export function matchesCondition(
+  condition: ScenarioCondition | undefined,
+  outcome: ScenarioTurnOutcome
+): boolean {
+  if (!condition) {
+    return true;
+  }
+
+  const noResponse = outcome.transcript.trim().length === 0;
+
+  return (
+    (condition.passed === undefined || condition.passed === outcome.passed) &&
+    (condition.noResponse === undefined ||
+      condition.noResponse === noResponse) &&
+    (condition.hasSlot === undefined || condition.hasSlot in outcome.slots) &&
+    (condition.matches === undefined ||
+      compilePattern(condition.matches, 'when.matches').test(
+        outcome.transcript
+      ))
+  );
+}
+
+/**
+ * Check whether choosing the next turn depends on the AI verdict
+ *
+ * @param turn - Scenario turn
+ * @returns True if any branch tests `passed`
+ */
+export function needsVerdict(turn: ScenarioTurn): boolean {
+  return (
+    Array.isArray(turn.next) &&
+    turn.next.some((branch) => branch.when?.passed !== undefined)
+  );
+}
+
+/**
+ * Resolve the turn that follows a completed turn
+ *
+ * @param scenario - Scenario being run
+ * @param turn - Turn that just completed
+ * @param outcome - Outcome of that turn
+ * @returns Next turn, or null when the scenario ends
+ */
+export function resolveNextTurn(
+  scenario: TestScenario,
+  turn: ScenarioTurn,
+  outcome: ScenarioTurnOutcome
+): ScenarioTurn | null {
+  let target: string | undefined;
+
+  if (turn.next === undefined) {
+    const index = scenario.turns.findIndex((t) => t.id === turn.id);
+    return scenario.turns[index + 1] ?? null;
+  }
+
+  if (typeof turn.next === 'string') {
+    target = turn.next;
+  } else {
+    target = turn.next.find((branch) =>
+      matchesCondition(branch.when, outcome)
+    )?.goto;
+  }
+
+  if (target === undefined || target === SCENARIO_END) {
+    return null;
+  }
+  return scenario.turns.find((t) => t.id === target) ?? null;
+}
+
+/**
+ * Get the first turn of a scenario
+ *
+ * @param scenario - Scenario to start
+ * @returns `start` turn, or the first listed turn
+ */
+export function getStartTurn(scenario: TestScenario): ScenarioTurn {
+  return (
+    scenario.turns.find((turn) => turn.id === scenario.start) ??
+    scenario.turns[0]
+  );
+}
@@ -19,6 +19,8 @@
  * **Allowed Commands:**
  * - `which`: Check for command existence
  * - `sox`, `rec`, `arecord`: Audio tools
+ * - `espeak-ng`, `espeak`, `piper`: Local speech synthesis
+ * - `whisper-cli`, `whisper-cpp`: Local speech recognition
  * - `node`, `npm`: Node.js tools
  *
  * @example
@@ -68,6 +70,11 @@ const ALLOWED_COMMANDS = new Set([
   'sox',
   'rec',
   'arecord',
+  'espeak-ng',
+  'espeak',
+  'piper',
+  'whisper-cli',
+  'whisper-cpp',
   'node',
   'npm',
 ]);
@@ -145,6 +152,7 @@ function validateCommand(command: string): void {
  * - Uses timeout protection (default: 10s)
  * - Limits output buffer (default: 1MB)
  * - Runs in restricted shell environment
+ * - Passes free text through `options.input` (stdin), never the command line
  *
  * **Never Throws on Command Failure:**
  * - Returns exitCode !== 0 on failure
@@ -172,6 +180,11 @@ function validateCommand(command: string): void {
  *   cwd: '/app',
  *   env: { NODE_ENV: 'production' }
  * });
+ *
+ * // Text that may contain shell metacharacters goes through stdin
+ * await safeExec('espeak-ng --stdin -w /tmp/out.wav', {
+ *   input: 'Hello! How can I help (today)?'
+ * });
  * ```
  */
 export async function safeExec(
@@ -184,7 +197,7 @@ export async function safeExec(
   logger.debug(`Executing safe command: ${sanitized}`);
 
   try {
-    const { stdout, stderr } = await execAsync(sanitized, {
+    const execution = execAsync(sanitized, {
       timeout: options.timeout || 10000,
       maxBuffer: options.maxBuffer || 1024 * 1024,
       cwd: options.cwd,
@@ -192,6 +205,18 @@ export async function safeExec(
       shell: '/bin/sh',
     });
 
+    const { stdin } = execution.child;
+    if (options.input !== undefined && stdin) {
+      // A command that exits before reading its input breaks the pipe (EPIPE);
+      // its exit code and stderr report the failure
+      stdin.on('error', (error: Error) => {
+        logger.debug(`stdin closed early: ${error.message}`);
+      });
+      stdin.end(options.input);
+    }
+
+    const { stdout, stderr } = await execution;
+
     return {
       stdout: stdout.toString().trim(),
       stderr: stderr.toString().trim(),
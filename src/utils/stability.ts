@@ -0,0 +1,135 @@
+/**
+ * Stability Utilities
+ *
+ * Measures how consistently a question behaves across repeated runs, for
+ * `vokal test --repeat N`.
+ *
+ * @module utils/stability
+ * @since 1.1.0
+ *
+ * @remarks
+ * A single run leaves pass/fail to one STT transcript and one AI verdict.
+ * Running a question several times separates the two sources of noise:
+ * transcripts are compared word by word, so STT instability shows up as
+ * transcript variance, and verdicts that disagree between runs mark the AI
+ * judgement as unstable.
+ *
+ * @example
+ * ```typescript
+ * const stability = summarizeRepeats(runs);
+ * if (stability.unstableVerdict) {
+ *   console.log(`Passed ${stability.passes}/${stability.runs} runs`);
+ * }
+ * ```
+ */
+
+import type {
+  QuestionResult,
+  QuestionStability,
+  RepeatRunResult,
+} from '../types/voice-bot-config.js';
+
+/**
+ * Transcript variance above which the STT output counts as unstable
+ */
+export const TRANSCRIPT_INSTABILITY_THRESHOLD = 0.1;
+
+/**
+ * Split a transcript into lower-case words without punctuation
+ *
+ * @param text - Transcript
+ * @returns Normalized words
+ */
+export function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s']/gu, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Word-level edit distance between two transcripts
+ *
+ * @param a - First transcript
+ * @param b - Second transcript
+ * @returns Substitutions, insertions and deletions divided by the longer
+ * transcript's word count (0 = identical, 1 = nothing in common)
+ */
+export function wordEditDistance(a: string, b: string): number {
+  const left = normalizeWords(a);
+  const right = normalizeWords(b);
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j++) {
+      const substitution = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + substitution
+      );
+    }
+    previous = current;
+  }
+  return previous[right.length] / longest;
+}
+
+/**
+ * Summarize repeated runs of one question
+ *
+ * @param runs - Results of each run, in order (at least one)
+ * @returns Pass probability, score variance and transcript variance
+ *
+ * @remarks
+ * Runs that failed before transcription count with an empty transcript, so a
+ * question that only sometimes gets a response is flagged as unstable.
+ */
+export function summarizeRepeats(runs: QuestionResult[]): QuestionStability {
+  const runResults: RepeatRunResult[] = runs.map((run) => ({
+    passed: run.passed,
+    score: run.comparison.score,
+    confidence: run.comparison.confidence,
+    transcript: run.actualResponse,
+  }));
+
+  const passes = runResults.filter((run) => run.passed).length;
+  const scores = runResults.map((run) => run.score);
+  const scoreMean = scores.reduce((a, b) => a + b, 0) / scores.length;
+  const scoreVariance =
+    scores.reduce((sum, score) => sum + (score - scoreMean) ** 2, 0) /
+    scores.length;
+
+  let distanceSum = 0;
+  let pairs = 0;
+  for (let i = 0; i < runResults.length; i++) {
+    for (let j = i + 1; j < runResults.length; j++) {
+      distanceSum += wordEditDistance(
+        runResults[i].transcript,
+        runResults[j].transcript
+      );
+      pairs++;
+    }
+  }
+  const transcriptVariance = pairs > 0 ? distanceSum / pairs : 0;
+
+  return {
+    runs: runResults.length,
+    passes,
+    passProbability: passes / runResults.length,
+    scoreMean,
+    scoreVariance,
+    transcriptVariance,
+    distinctTranscripts: new Set(
+      runResults.map((run) => normalizeWords(run.transcript).join(' '))
+    ).size,
+    unstableTranscript: transcriptVariance > TRANSCRIPT_INSTABILITY_THRESHOLD,
+    unstableVerdict: passes > 0 && passes < runResults.length,
+    runResults,
+  };
+}
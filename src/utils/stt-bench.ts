@@ -0,0 +1,390 @@
+/**
+ * STT Benchmark
+ *
+ * Runs a folder of recordings through STT providers and compares their
+ * accuracy, latency, confidence calibration and cost, for `vokal stt-bench`.
+ *
+ * @module utils/stt-bench
+ * @since 1.1.0
+ *
+ * @remarks
+ * A benchmark directory holds WAV files with a reference transcript each:
+ * either `<name>.txt` next to `<name>.wav`, or a `manifest.json` listing
+ * `{ "audio", "reference", "language" }` entries so one corpus can cover
+ * several languages. Samples run one at a time through every provider, so
+ * latencies are not skewed by concurrent requests.
+ *
+ * Word accuracy is 1 - WER (floored at 0). A provider is well calibrated when
+ * its reported confidence tracks that accuracy; `calibrationError` is the mean
+ * absolute gap between the two over the samples it transcribed.
+ *
+ * @example
+ * ```typescript
+ * const samples = loadSTTBenchSamples('./bench/hi-IN', 'hi-IN');
+ * const report = await runSTTBench('./bench/hi-IN', samples, ['google-ai', 'local-whisper']);
+ * console.table(report.summaries);
+ * ```
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, dirname, extname, join, relative, resolve, sep } from 'path';
+import type {
+  STTBenchManifestEntry,
+  STTBenchReport,
+  STTBenchResult,
+  STTBenchSample,
+  STTBenchSkipped,
+  STTBenchSummary,
+} from '../types/stt-bench.types.js';
+import {
+  ErrorCode,
+  FileSystemError,
+  ValidationError,
+  getErrorMessage,
+  toError,
+} from '../errors/voice-test.errors.js';
+import { STTHandlerManager } from '../providers/stt-handler-manager.js';
+import { measureTranscriptAccuracy } from './transcript-accuracy.js';
+import { percentile } from './results-store.js';
+import { normalizeWords } from './stability.js';
+import { safeJSONParse } from './validation.js';
+import { readWavFile } from './wav.js';
+import { createComponentLogger } from './logger.js';
+
+const logger = createComponentLogger('STTBench');
+
+/**
+ * Manifest file name inside a benchmark directory
+ */
+export const STT_BENCH_MANIFEST = 'manifest.json';
+
+/**
+ * List prices per audio minute in USD, used for cost estimates
+ *
+ * @remarks
+ * Standard-model list prices; override them with `--price` for negotiated
+ * rates or other models. Local and scripted providers cost nothing.
+ */
+export const DEFAULT_STT_COST_PER_MINUTE: Record<string, number> = {
+  'google-ai': 0.016,
+  'local-whisper': 0,
+  fixture: 0,
+};
+
+/**
+ * Load the recordings and reference transcripts of a benchmark directory
+ *
+ * @param dir - Benchmark directory
+ * @param defaultLanguage - Language of samples that do not set one
+ * @returns Samples in file name (or manifest) order
+ * @throws {FileSystemError} If the directory or a reference cannot be read
+ * @throws {ValidationError} If the manifest is invalid or no sample is found
+ *
+ * @remarks
+ * Without a manifest, WAV files with no `<name>.txt` reference are skipped
+ * with a warning.
+ */
+export function loadSTTBenchSamples(
+  dir: string,
+  defaultLanguage: string
+): STTBenchSample[] {
+  const root = resolve(dir);
+  if (!existsSync(root) || !statSync(root).isDirectory()) {
+    throw new FileSystemError(
+      `Benchmark directory not found: ${dir}`,
+      ErrorCode.FILE_NOT_FOUND
+    );
+  }
+
+  const manifestPath = join(root, STT_BENCH_MANIFEST);
+  const samples = existsSync(manifestPath)
+    ? loadManifest(manifestPath, root, defaultLanguage)
+    : pairReferences(root, defaultLanguage);
+
+  if (samples.length === 0) {
+    throw new ValidationError(
+      `No WAV files with reference transcripts in ${dir}`,
+      'dir',
+      dir
+    );
+  }
+  return samples;
+}
+
+/**
+ * Transcribe every sample with every provider and summarize the results
+ *
+ * @param dir - Benchmark directory, echoed in the report
+ * @param samples - Samples from `loadSTTBenchSamples()`
+ * @param providers - Providers to compare (default: every registered handler)
+ * @param prices - Price per audio minute in USD, merged over the defaults
+ * @returns Per-sample results and per provider and language summaries
+ * @throws {FileSystemError} If a recording cannot be read
+ * @throws {AudioProcessingError} If a recording is not a PCM WAV file
+ *
+ * @remarks
+ * Providers that are not registered or not configured (missing credentials
+ * or model) are listed in `skipped`. A failed transcription is recorded with
+ * its error and counts as WER 1.
+ */
+export async function runSTTBench(
+  dir: string,
+  samples: STTBenchSample[],
+  providers: string[] = STTHandlerManager.getRegisteredProviders(),
+  prices: Record<string, number> = {}
+): Promise<STTBenchReport> {
+  const skipped: STTBenchSkipped[] = [];
+  const handlers = providers.flatMap((provider) => {
+    if (!STTHandlerManager.hasHandler(provider)) {
+      skipped.push({ provider, reason: 'not registered' });
+      return [];
+    }
+    const handler = STTHandlerManager.getHandler(provider);
+    if (!handler.isConfigured()) {
+      skipped.push({
+        provider,
+        reason: 'not configured (missing credentials or model)',
+      });
+      return [];
+    }
+    return [{ provider, handler }];
+  });
+  skipped.forEach((entry) =>
+    logger.warn(`⚠️ Skipping ${entry.provider}: ${entry.reason}`)
+  );
+
+  const results: STTBenchResult[] = [];
+  for (const sample of samples) {
+    const audio = await readWavFile(sample.audioPath);
+    for (const { provider, handler } of handlers) {
+      const startTime = Date.now();
+      try {
+        const response = await handler.transcribe({
+          audio: audio.pcm,
+          encoding: 'LINEAR16',
+          sampleRate: audio.sampleRate,
+          languageCode: sample.language,
+        });
+        const accuracy = measureTranscriptAccuracy(
+          sample.reference,
+          response.transcript
+        );
+        results.push({
+          sampleId: sample.id,
+          provider,
+          language: sample.language,
+          transcript: response.transcript,
+          referenceWords: accuracy.referenceWords,
+          wer: accuracy.wer,
+          cer: accuracy.cer,
+          confidence: response.confidence,
+          latencyMs: Date.now() - startTime,
+          audioMs: audio.durationMs,
+        });
+        logger.debug(
+          `🎧 ${sample.id} via ${provider}: WER ${(accuracy.wer * 100).toFixed(1)}% in ${Date.now() - startTime}ms`
+        );
+      } catch (error) {
+        results.push({
+          sampleId: sample.id,
+          provider,
+          language: sample.language,
+          transcript: '',
+          referenceWords: normalizeWords(sample.reference).length,
+          wer: 1,
+          cer: 1,
+          confidence: 0,
+          latencyMs: Date.now() - startTime,
+          audioMs: audio.durationMs,
+          error: getErrorMessage(error),
+        });
+        logger.warn(
+          `⚠️ ${provider} failed on ${sample.id}: ${getErrorMessage(error)}`
+        );
+      }
+    }
+  }
+
+  return {
+    dir,
+    samples: samples.length,
+    providers: handlers.map((entry) => entry.provider),
+    skipped,
+    summaries: summarizeSTTBench(results, prices),
+    results,
+  };
+}
+
+/**
+ * Aggregate benchmark results per provider and language
+ *
+ * @param results - Per-sample results
+ * @param prices - Price per audio minute in USD, merged over the defaults
+ * @returns Summaries grouped by language, best WER first within a language
+ *
+ * @remarks
+ * Failed transcriptions count towards WER and CER but not towards latency,
+ * confidence or calibration.
+ */
+export function summarizeSTTBench(
+  results: STTBenchResult[],
+  prices: Record<string, number> = {}
+): STTBenchSummary[] {
+  const costs = { ...DEFAULT_STT_COST_PER_MINUTE, ...prices };
+
+  const groups = new Map<string, STTBenchResult[]>();
+  for (const result of results) {
+    const key = `${result.language}\u0000${result.provider}`;
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  }
+
+  const summaries: STTBenchSummary[] = [];
+  for (const group of groups.values()) {
+    const { provider, language } = group[0];
+    const transcribed = group.filter((result) => result.error === undefined);
+
+    // Corpus WER: weight each sample's WER by its reference word count
+    const words = group.reduce((sum, r) => sum + r.referenceWords, 0);
+    const errors = group.reduce((sum, r) => sum + r.wer * r.referenceWords, 0);
+
+    const accuracies = transcribed.map((result) => Math.max(0, 1 - result.wer));
+    const gaps = transcribed.map(
+      (result, index) => result.confidence - accuracies[index]
+    );
+    const latencies = transcribed
+      .map((result) => result.latencyMs)
+      .sort((a, b) => a - b);
+    const audioMinutes =
+      group.reduce((sum, result) => sum + result.audioMs, 0) / 60000;
+    const costPerMinute = costs[provider];
+
+    summaries.push({
+      provider,
+      language,
+      samples: group.length,
+      failures: group.length - transcribed.length,
+      wer: words > 0 ? errors / words : mean(group.map((r) => r.wer)),
+      cer: mean(group.map((result) => result.cer)),
+      latencyP50: percentile(latencies, 50),
+      latencyP95: percentile(latencies, 95),
+      meanConfidence: mean(transcribed.map((result) => result.confidence)),
+      meanAccuracy: mean(accuracies),
+      calibrationError: mean(gaps.map((gap) => Math.abs(gap))),
+      overconfidence: mean(gaps),
+      audioMinutes,
+      ...(costPerMinute !== undefined && {
+        costPerMinute,
+        estimatedCost: costPerMinute * audioMinutes,
+      }),
+    });
+  }
+
+  return summaries.sort(
+    (a, b) =>
+      a.language.localeCompare(b.language) ||
+      a.wer - b.wer ||
+      a.provider.localeCompare(b.provider)
+  );
+}
+
+/**
+ * Read samples from a benchmark manifest
+ *
+ * @internal
+ */
+function loadManifest(
+  manifestPath: string,
+  root: string,
+  defaultLanguage: string
+): STTBenchSample[] {
+  const parsed = safeJSONParse<STTBenchManifestEntry[]>(readText(manifestPath));
+  if (!parsed.success || !Array.isArray(parsed.data)) {
+    throw new ValidationError(
+      `Benchmark manifest must be a JSON array of { audio, reference } entries: ${manifestPath}`,
+      'manifest',
+      manifestPath
+    );
+  }
+
+  return parsed.data.map((entry, index) => {
+    if (
+      typeof entry?.audio !== 'string' ||
+      typeof entry.reference !== 'string'
+    ) {
+      throw new ValidationError(
+        `Manifest entry ${index + 1} needs "audio" and "reference" strings`,
+        `manifest[${index}]`,
+        entry
+      );
+    }
+    // Keep the folder in the id so same-named files in subfolders differ
+    const audioPath = join(root, entry.audio);
+    const file = relative(root, audioPath);
+    return {
+      id: join(dirname(file), basename(file, extname(file)))
+        .split(sep)
+        .join('/'),
+      audioPath,
+      reference: entry.reference,
+      language: entry.language ?? defaultLanguage,
+    };
+  });
+}
+
+/**
+ * Pair every WAV file with its `<name>.txt` reference
+ *
+ * @internal
+ */
+function pairReferences(
+  root: string,
+  defaultLanguage: string
+): STTBenchSample[] {
+  return readdirSync(root)
+    .filter((file) => extname(file).toLowerCase() === '.wav')
+    .sort()
+    .flatMap((file) => {
+      const id = basename(file, extname(file));
+      const referencePath = join(root, `${id}.txt`);
+      if (!existsSync(referencePath)) {
+        logger.warn(`⚠️ Skipping ${file}: no ${id}.txt reference`);
+        return [];
+      }
+      return [
+        {
+          id,
+          audioPath: join(root, file),
+          reference: readText(referencePath).trim(),
+          language: defaultLanguage,
+        },
+      ];
+    });
+}
+
+/**
+ * Read a UTF-8 file
+ *
+ * @internal
+ */
+function readText(filePath: string): string {
+  try {
+    return readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new FileSystemError(
+      `Failed to read ${filePath}`,
+      ErrorCode.FILE_READ_ERROR,
+      toError(error)
+    );
+  }
+}
+
+/**
+ * Mean of values (0 when empty)
+ *
+ * @internal
+ */
+function mean(values: number[]): number {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
@@ -0,0 +1,259 @@
+/**
+ * Transcript Accuracy Utilities
+ *
+ * Measures how closely an STT transcript matches a known reference
+ * transcript, for questions with `referenceTranscript`.
+ *
+ * @module utils/transcript-accuracy
+ * @since 1.1.0
+ *
+ * @remarks
+ * Word error rate (WER) is the number of substituted, inserted and deleted
+ * words divided by the reference word count; character error rate (CER) is
+ * the same over characters. Both compare text normalized the way the
+ * stability metrics do (lower case, no punctuation).
+ *
+ * WER separates two reasons a question fails: when the transcript is far from
+ * the reference the STT misheard the response, and when it is close the
+ * response was heard correctly and the bot's answer itself was wrong.
+ *
+ * @example
+ * ```typescript
+ * const accuracy = measureTranscriptAccuracy(
+ *   'your balance is forty dollars',
+ *   'your balance is fourteen dollars'
+ * );
+ * console.log(accuracy.wer); // 0.2
+ * ```
+ */
+
+import type { STTWord } from '../types/stt-provider.types.js';
+import type {
+  QuestionResult,
+  STTAccuracySummary,
+  TranscriptAccuracy,
+  WordAlignment,
+} from '../types/voice-bot-config.js';
+import { normalizeWords } from './stability.js';
+
+/**
+ * WER above which a failed question is put down to the STT mishearing
+ */
+export const STT_MISHEARD_WER_THRESHOLD = 0.2;
+
+/**
+ * Align a transcript with its reference word by word
+ *
+ * @param reference - Reference transcript
+ * @param hypothesis - Transcript to check
+ * @param words - STT word timing for the transcript, attached to the aligned
+ * words when it covers the same words as the transcript
+ * @returns Minimum-edit alignment, in transcript order
+ */
+export function alignWords(
+  reference: string,
+  hypothesis: string,
+  words?: STTWord[]
+): WordAlignment[] {
+  const ref = normalizeWords(reference);
+  const hyp = normalizeWords(hypothesis);
+  const timing = matchWordTiming(hyp.length, words);
+  const distance = distanceMatrix(ref, hyp);
+
+  const alignment: WordAlignment[] = [];
+  let i = ref.length;
+  let j = hyp.length;
+  while (i > 0 || j > 0) {
+    if (
+      i > 0 &&
+      j > 0 &&
+      distance[i][j] ===
+        distance[i - 1][j - 1] + (ref[i - 1] === hyp[j - 1] ? 0 : 1)
+    ) {
+      alignment.push({
+        op: ref[i - 1] === hyp[j - 1] ? 'match' : 'substitution',
+        reference: ref[i - 1],
+        hypothesis: hyp[j - 1],
+        ...timing[j - 1],
+      });
+      i--;
+      j--;
+    } else if (i > 0 && distance[i][j] === distance[i - 1][j] + 1) {
+      alignment.push({ op: 'deletion', reference: ref[i - 1] });
+      i--;
+    } else {
+      alignment.push({
+        op: 'insertion',
+        hypothesis: hyp[j - 1],
+        ...timing[j - 1],
+      });
+      j--;
+    }
+  }
+  return alignment.reverse();
+}
+
+/**
+ * Character error rate of a transcript against its reference
+ *
+ * @param reference - Reference transcript
+ * @param hypothesis - Transcript to check
+ * @returns Character edits divided by the reference length (1 for an empty
+ * reference with a non-empty transcript)
+ */
+export function characterErrorRate(
+  reference: string,
+  hypothesis: string
+): number {
+  const ref = Array.from(normalizeWords(reference).join(' '));
+  const hyp = Array.from(normalizeWords(hypothesis).join(' '));
+  if (ref.length === 0) {
+    return hyp.length > 0 ? 1 : 0;
+  }
+  return distanceMatrix(ref, hyp)[ref.length][hyp.length] / ref.length;
+}
+
+/**
+ * Measure a transcript against its reference
+ *
+ * @param reference - Reference transcript
+ * @param transcript - STT transcript
+ * @param words - STT word timing for the transcript
+ * @param misheardThreshold - WER above which the transcript counts as misheard
+ * @returns WER, CER, error counts and the word alignment
+ *
+ * @remarks
+ * An empty reference gives a WER of 1 when anything was transcribed and 0
+ * otherwise.
+ */
+export function measureTranscriptAccuracy(
+  reference: string,
+  transcript: string,
+  words?: STTWord[],
+  misheardThreshold: number = STT_MISHEARD_WER_THRESHOLD
+): TranscriptAccuracy {
+  const alignment = alignWords(reference, transcript, words);
+  const count = (op: WordAlignment['op']): number =>
+    alignment.filter((entry) => entry.op === op).length;
+
+  const substitutions = count('substitution');
+  const insertions = count('insertion');
+  const deletions = count('deletion');
+  const referenceWords = substitutions + deletions + count('match');
+  const errors = substitutions + insertions + deletions;
+  const wer =
+    referenceWords > 0 ? errors / referenceWords : insertions > 0 ? 1 : 0;
+
+  return {
+    reference,
+    wer,
+    cer: characterErrorRate(reference, transcript),
+    referenceWords,
+    substitutions,
+    insertions,
+    deletions,
+    misheard: wer > misheardThreshold,
+    alignment,
+  };
+}
+
+/**
+ * Summarize transcript accuracy across a suite
+ *
+ * @param results - Question results
+ * @returns Suite WER, mean CER and failed questions split by cause, or
+ * undefined when no question has a reference transcript
+ *
+ * @remarks
+ * Suite WER counts every word error over every reference word, so long
+ * references weigh more than short ones.
+ */
+export function summarizeTranscriptAccuracy(
+  results: QuestionResult[]
+): STTAccuracySummary | undefined {
+  const measured = results.filter(
+    (
+      result
+    ): result is QuestionResult & { transcriptAccuracy: TranscriptAccuracy } =>
+      result.transcriptAccuracy !== undefined
+  );
+  if (measured.length === 0) {
+    return undefined;
+  }
+
+  const sum = (
+    field: 'referenceWords' | 'substitutions' | 'insertions' | 'deletions'
+  ): number =>
+    measured.reduce(
+      (total, result) => total + result.transcriptAccuracy[field],
+      0
+    );
+
+  const referenceWords = sum('referenceWords');
+  const substitutions = sum('substitutions');
+  const insertions = sum('insertions');
+  const deletions = sum('deletions');
+  const errors = substitutions + insertions + deletions;
+  const failed = measured.filter((result) => !result.passed);
+
+  return {
+    questions: measured.length,
+    referenceWords,
+    substitutions,
+    insertions,
+    deletions,
+    wer: referenceWords > 0 ? errors / referenceWords : insertions > 0 ? 1 : 0,
+    cer:
+      measured.reduce(
+        (total, result) => total + result.transcriptAccuracy.cer,
+        0
+      ) / measured.length,
+    sttMisheard: failed
+      .filter((result) => result.transcriptAccuracy.misheard)
+      .map((result) => result.questionId),
+    botMisunderstood: failed
+      .filter((result) => !result.transcriptAccuracy.misheard)
+      .map((result) => result.questionId),
+  };
+}
+
+/**
+ * Levenshtein distance table between two token sequences
+ *
+ * @internal
+ */
+function distanceMatrix(a: string[], b: string[]): number[][] {
+  const distance = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(
+        distance[i - 1][j] + 1,
+        row[j - 1] + 1,
+        distance[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    distance.push(row);
+  }
+  return distance;
+}
+
+/**
+ * Timing for each normalized transcript word, or none when the STT words do
+ * not split into the same number of words
+ *
+ * @internal
+ */
+function matchWordTiming(
+  count: number,
+  words: STTWord[] | undefined
+): Array<Pick<WordAlignment, 'startTime' | 'endTime' | 'confidence'>> {
+  const tokens = (words ?? []).flatMap((word) =>
+    normalizeWords(word.word).map(() => ({
+      startTime: word.startTime,
+      endTime: word.endTime,
+      confidence: word.confidence,
+    }))
+  );
+  return tokens.length === count ? tokens : [];
+}
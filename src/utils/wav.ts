@@ -0,0 +1,305 @@
+/**
+ * WAV Encoding Utilities
+ *
+ * Minimal RIFF/WAVE reader and writer for LINEAR16 PCM audio.
+ * Used wherever raw PCM has to cross a file boundary: file-driven
+ * responses, captured answers and locally generated speech.
+ *
+ * @module utils/wav
+ * @since 1.1.0
+ *
+ * @remarks
+ * Only uncompressed PCM (format code 1) is supported. Decoded audio is
+ * always returned as 16-bit mono so it can be streamed straight into an
+ * STT handler configured for `LINEAR16`.
+ *
+ * @example
+ * ```typescript
+ * import { readWavFile, encodeWav } from './utils/wav.js';
+ *
+ * const audio = await readWavFile('./answer.wav');
+ * console.log(audio.sampleRate, audio.durationMs);
+ *
+ * const wav = encodeWav(audio.pcm, audio.sampleRate);
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import {
+  AudioProcessingError,
+  FileSystemError,
+  ErrorCode,
+  toError,
+} from '../errors/voice-test.errors.js';
+import type { WavAudio } from '../types/index.js';
+
+/**
+ * Size of a canonical 44-byte WAV header.
+ *
+ * @constant
+ * @internal
+ */
+const WAV_HEADER_SIZE = 44;
+
+/**
+ * Decode a WAV buffer into 16-bit mono PCM.
+ *
+ * @param buffer - Complete WAV file contents
+ * @param source - Optional source name used in error messages
+ * @returns Decoded audio with sample rate and duration
+ *
+ * @throws {AudioProcessingError} If the buffer is not a PCM WAV file
+ *
+ * @remarks
+ * - 8-bit unsigned and 24/32-bit signed samples are converted to 16-bit
+ * - Multi-channel audio is downmixed to mono by averaging channels
+ * - Unknown chunks (LIST, fact, ...) are skipped
+ *
+ * @example
+ * ```typescript
+ * const audio = parseWav(readFileSync('./hello.wav'), 'hello.wav');
+ * sttSession.writeAudio(audio.pcm);
+ * ```
+ */
+export function parseWav(buffer: Buffer, source = 'buffer'): WavAudio {
+  if (
+    buffer.length < 12 ||
+    buffer.toString('ascii', 0, 4) !== 'RIFF' ||
+    buffer.toString('ascii', 8, 12) !== 'WAVE'
+  ) {
+    throw new AudioProcessingError(
+      `Invalid WAV file: ${source}`,
+      ErrorCode.INVALID_AUDIO_FORMAT
+    );
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const audioFormat = buffer.readUInt16LE(chunkStart);
+      channels = buffer.readUInt16LE(chunkStart + 2);
+      sampleRate = buffer.readUInt32LE(chunkStart + 4);
+      bitsPerSample = buffer.readUInt16LE(chunkStart + 14);
+
+      // 0xFFFE = WAVE_FORMAT_EXTENSIBLE, which wraps PCM for >2 channels
+      if (audioFormat !== 1 && audioFormat !== 0xfffe) {
+        throw new AudioProcessingError(
+          `Unsupported audio format ${audioFormat} in ${source} (only PCM WAV is supported)`,
+          ErrorCode.UNSUPPORTED_AUDIO_FORMAT
+        );
+      }
+    } else if (chunkId === 'data') {
+      if (!sampleRate || !channels || !bitsPerSample) {
+        throw new AudioProcessingError(
+          `WAV data chunk precedes fmt chunk in ${source}`,
+          ErrorCode.INVALID_AUDIO_FORMAT
+        );
+      }
+
+      const dataEnd = Math.min(chunkStart + chunkSize, buffer.length);
+      const pcm = toMono16(
+        buffer.subarray(chunkStart, dataEnd),
+        channels,
+        bitsPerSample
+      );
+
+      return {
+        pcm,
+        sampleRate,
+        channels,
+        bitsPerSample,
+        durationMs: (pcm.length / 2 / sampleRate) * 1000,
+      };
+    }
+
+    // Chunks are word-aligned
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new AudioProcessingError(
+    `No audio data found in WAV file: ${source}`,
+    ErrorCode.INVALID_AUDIO_FORMAT
+  );
+}
+
+/**
+ * Read and decode a WAV file from disk.
+ *
+ * @param filePath - Path to the WAV file
+ * @returns Promise resolving to decoded 16-bit mono PCM
+ *
+ * @throws {FileSystemError} If the file cannot be read
+ * @throws {AudioProcessingError} If the file is not a PCM WAV file
+ *
+ * @example
+ * ```typescript
+ * const { pcm, sampleRate } = await readWavFile('./responses/greeting.wav');
+ * ```
+ */
+export async function readWavFile(filePath: string): Promise<WavAudio> {
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(filePath);
+  } catch (error) {
+    throw new FileSystemError(
+      `Failed to read audio file: ${filePath}`,
+      ErrorCode.FILE_READ_ERROR,
+      toError(error)
+    );
+  }
+
+  return parseWav(buffer, filePath);
+}
+
+/**
+ * Wrap raw PCM samples in a canonical 44-byte WAV header.
+ *
+ * @param pcm - Raw little-endian PCM samples
+ * @param sampleRate - Sample rate in Hz
+ * @param channels - Number of interleaved channels (default: 1)
+ * @param bitsPerSample - Bits per sample (default: 16)
+ * @returns Complete WAV file contents
+ *
+ * @example
+ * ```typescript
+ * writeFileSync('./answer.wav', encodeWav(capturedPcm, 16000));
+ * ```
+ */
+export function encodeWav(
+  pcm: Buffer,
+  sampleRate: number,
+  channels = 1,
+  bitsPerSample = 16
+): Buffer {
+  const bytesPerSample = bitsPerSample / 8;
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * channels * bytesPerSample, 28);
+  header.writeUInt16LE(channels * bytesPerSample, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Resample 16-bit mono PCM using linear interpolation.
+ *
+ * @param pcm - 16-bit little-endian mono PCM
+ * @param fromRate - Source sample rate in Hz
+ * @param toRate - Target sample rate in Hz
+ * @returns Resampled PCM (the input buffer itself when rates match)
+ *
+ * @remarks
+ * Linear interpolation is adequate for speech going into STT; it is not
+ * intended for high-fidelity playback.
+ *
+ * @example
+ * ```typescript
+ * const pcm16k = resamplePcm16(audio.pcm, 24000, 16000);
+ * ```
+ */
+export function resamplePcm16(
+  pcm: Buffer,
+  fromRate: number,
+  toRate: number
+): Buffer {
+  if (fromRate === toRate) {
+    return pcm;
+  }
+
+  const inputSamples = Math.floor(pcm.length / 2);
+  const ratio = fromRate / toRate;
+  const outputSamples = Math.floor(inputSamples / ratio);
+  const output = Buffer.alloc(outputSamples * 2);
+
+  for (let i = 0; i < outputSamples; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    const sample1 = pcm.readInt16LE(Math.min(index, inputSamples - 1) * 2);
+    const sample2 = pcm.readInt16LE(Math.min(index + 1, inputSamples - 1) * 2);
+    output.writeInt16LE(
+      Math.round(sample1 + (sample2 - sample1) * fraction),
+      i * 2
+    );
+  }
+
+  return output;
+}
+
+/**
+ * Convert interleaved PCM of any supported width to 16-bit mono.
+ *
+ * @param data - Interleaved PCM data
+ * @param channels - Number of channels in the data
+ * @param bitsPerSample - Sample width (8, 16, 24 or 32)
+ * @returns 16-bit little-endian mono PCM
+ *
+ * @throws {AudioProcessingError} If the sample width is unsupported
+ *
+ * @private
+ * @internal
+ */
+function toMono16(
+  data: Buffer,
+  channels: number,
+  bitsPerSample: number
+): Buffer {
+  if (channels === 1 && bitsPerSample === 16) {
+    // Copy so callers never alias the (possibly large) file buffer
+    return Buffer.from(data.subarray(0, data.length - (data.length % 2)));
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  if (![1, 2, 3, 4].includes(bytesPerSample)) {
+    throw new AudioProcessingError(
+      `Unsupported WAV bit depth: ${bitsPerSample}`,
+      ErrorCode.UNSUPPORTED_AUDIO_FORMAT
+    );
+  }
+
+  const frameSize = bytesPerSample * channels;
+  const frames = Math.floor(data.length / frameSize);
+  const output = Buffer.alloc(frames * 2);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      const pos = frame * frameSize + channel * bytesPerSample;
+      switch (bytesPerSample) {
+        case 1:
+          sum += (data.readUInt8(pos) - 128) << 8;
+          break;
+        case 2:
+          sum += data.readInt16LE(pos);
+          break;
+        case 3:
+          sum += data.readIntLE(pos, 3) >> 8;
+          break;
+        default:
+          sum += data.readInt32LE(pos) >> 16;
+      }
+    }
+    output.writeInt16LE(Math.round(sum / channels), frame * 2);
+  }
+
+  return output;
+}